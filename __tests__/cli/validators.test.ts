@@ -22,7 +22,18 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 
-import { validateConfigPath, validateGlobalOptions, validatePathOption } from '../../src/cli/validators';
+import {
+  validateChangedSinceOption,
+  validateConfigPath,
+  validateGlobalOptions,
+  validateImportResolverOption,
+  validateOutputOptions,
+  validateParserOption,
+  validatePathOption,
+  validateReportOptions,
+  validateWatchOption,
+} from '../../src/cli/validators';
+import { ReportFormat } from '../../src/core/types';
 
 describe('cli validators', () => {
   let tempDir: string;
@@ -47,6 +58,58 @@ describe('cli validators', () => {
     });
   });
 
+  describe('validateImportResolverOption', () => {
+    it('should accept supported resolvers', () => {
+      expect(validateImportResolverOption()).toBeUndefined();
+      expect(validateImportResolverOption('package')).toBe('package');
+    });
+
+    it('should throw for unknown resolvers', () => {
+      expect(() => validateImportResolverOption('node')).toThrow(
+        'Invalid import resolver: node. Allowed: heuristic, package.',
+      );
+    });
+  });
+
+  describe('validateOutputOptions', () => {
+    it('should return undefined when no layout is provided', () => {
+      expect(validateOutputOptions()).toBeUndefined();
+    });
+
+    it('should accept layouts with a matching output directory', () => {
+      expect(validateOutputOptions('colocated')).toBe('colocated');
+      expect(validateOutputOptions('mirrored', 'figma')).toBe('mirrored');
+      expect(validateOutputOptions('flat', 'figma')).toBe('flat');
+    });
+
+    it('should throw for unknown layouts', () => {
+      expect(() => validateOutputOptions('nested')).toThrow(
+        'Invalid output layout: nested. Allowed: colocated, mirrored, flat.',
+      );
+    });
+
+    it('should throw when the output directory does not fit the layout', () => {
+      expect(() => validateOutputOptions('mirrored')).toThrow('--output-layout mirrored requires --output-dir.');
+      expect(() => validateOutputOptions(undefined, 'figma')).toThrow(
+        '--output-dir requires --output-layout mirrored or flat.',
+      );
+    });
+  });
+
+  describe('validateParserOption', () => {
+    it('should return undefined when no parser is provided', () => {
+      expect(validateParserOption()).toBeUndefined();
+    });
+
+    it('should accept registered parser targets', () => {
+      expect(validateParserOption('cem')).toBe('cem');
+    });
+
+    it('should throw for unknown parser targets', () => {
+      expect(() => validateParserOption('vue')).toThrow('Invalid parser target: vue. Allowed: webcomponent, cem.');
+    });
+  });
+
   describe('validatePathOption', () => {
     it('should throw when path is empty', () => {
       expect(() => validatePathOption('')).toThrow('Missing required value for --path.');
@@ -104,4 +167,64 @@ describe('cli validators', () => {
       expect(validateConfigPath(configPath)).toBe(path.resolve(configPath));
     });
   });
+
+  describe('validateReportOptions', () => {
+    it('should return no outputs when no reports are requested', () => {
+      expect(validateReportOptions()).toEqual([]);
+    });
+
+    it('should parse formats and resolve report paths', () => {
+      expect(validateReportOptions(['sarif:reports/out.sarif', 'JUnit:junit.xml'])).toEqual([
+        { format: ReportFormat.Sarif, filePath: path.resolve('reports/out.sarif') },
+        { format: ReportFormat.Junit, filePath: path.resolve('junit.xml') },
+      ]);
+    });
+
+    it('should throw for unknown formats', () => {
+      expect(() => validateReportOptions(['html:out.html'])).toThrow(
+        'Invalid report format: html. Allowed: json, junit, sarif.',
+      );
+    });
+
+    it('should throw when the path is missing', () => {
+      expect(() => validateReportOptions(['json'])).toThrow('Missing report path for --report json.');
+    });
+  });
+
+  describe('validateWatchOption', () => {
+    it('should allow watch mode with program-based parsers', () => {
+      expect(() => validateWatchOption(true)).not.toThrow();
+      expect(() => validateWatchOption(true, 'webcomponent')).not.toThrow();
+    });
+
+    it('should throw when watch mode uses a manifest parser', () => {
+      expect(() => validateWatchOption(true, 'cem')).toThrow('--watch is not supported with the cem parser.');
+    });
+
+    it('should ignore the parser when watch mode is disabled', () => {
+      expect(() => validateWatchOption(false, 'cem')).not.toThrow();
+    });
+  });
+
+  describe('validateChangedSinceOption', () => {
+    it('should allow git refs with program-based parsers', () => {
+      expect(() => validateChangedSinceOption(undefined, 'cem', true)).not.toThrow();
+      expect(() => validateChangedSinceOption('origin/main')).not.toThrow();
+      expect(() => validateChangedSinceOption('HEAD~1', 'webcomponent', false)).not.toThrow();
+    });
+
+    it('should reject empty refs and refs that look like options', () => {
+      expect(() => validateChangedSinceOption(' ')).toThrow('Invalid git ref for --changed-since');
+      expect(() => validateChangedSinceOption('--output=x')).toThrow('Invalid git ref for --changed-since');
+    });
+
+    it('should reject watch mode and manifest parsers', () => {
+      expect(() => validateChangedSinceOption('main', undefined, true)).toThrow(
+        '--changed-since cannot be combined with --watch.',
+      );
+      expect(() => validateChangedSinceOption('main', 'cem')).toThrow(
+        '--changed-since is not supported with the cem parser.',
+      );
+    });
+  });
 });
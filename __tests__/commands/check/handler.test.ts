@@ -0,0 +1,194 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for check command handler.
+ */
+
+import path from 'node:path';
+
+import { Command } from 'commander';
+
+import { runCheckCommand } from '../../../src/commands/check/handler';
+import type { CheckCommandOptions } from '../../../src/commands/check/types';
+
+const mockGetGlobalOptions: jest.Mock = jest.fn();
+const mockValidatePathOption: jest.Mock = jest.fn();
+const mockParseEmitTargets: jest.Mock = jest.fn();
+const mockRunConnectPipeline: jest.Mock = jest.fn();
+const mockCreateProgressIndicator: jest.Mock = jest.fn();
+
+jest.mock('../../../src/cli/options', () => ({
+  getGlobalOptions: (...args: unknown[]) => mockGetGlobalOptions(...args),
+}));
+
+jest.mock('../../../src/cli/validators', () => ({
+  validateGlobalOptions: jest.fn(),
+  validatePathOption: (...args: unknown[]) => mockValidatePathOption(...args),
+  validateConfigPath: () => undefined,
+  validateParserOption: (value?: string) => value,
+  validateReportOptions: () => [],
+  validateWatchOption: jest.fn(),
+  validateChangedSinceOption: jest.fn(),
+  validateOutputOptions: jest.fn(),
+  validateImportResolverOption: jest.fn(),
+}));
+
+jest.mock('../../../src/config', () => ({
+  loadProjectConfig: () => ({ config: {} }),
+}));
+
+jest.mock('../../../src/cli/progress', () => ({
+  createProgressIndicator: (...args: unknown[]) => mockCreateProgressIndicator(...args),
+}));
+
+jest.mock('../../../src/core/emit-targets', () => {
+  const actual = jest.requireActual('../../../src/core/emit-targets');
+  return {
+    ...actual,
+    parseEmitTargets: (...args: unknown[]) => mockParseEmitTargets(...args),
+  };
+});
+
+jest.mock('../../../src/pipeline', () => ({
+  runConnectPipeline: (...args: unknown[]) => mockRunConnectPipeline(...args),
+}));
+
+jest.mock('../../../src/core/report', () => ({
+  addPluginLoadErrors: jest.requireActual('../../../src/core/report').addPluginLoadErrors,
+  formatReportSummary: () => 'Summary line',
+}));
+
+jest.mock('../../../src/core/logger', () => {
+  const actual = jest.requireActual('../../../src/core/logger');
+  return {
+    ...actual,
+    Logger: jest.fn().mockImplementation(() => ({
+      info: jest.fn(),
+      debug: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    })),
+  };
+});
+
+describe('runCheckCommand', () => {
+  const options: CheckCommandOptions = {
+    path: './components',
+    recursive: true,
+    emit: 'webcomponent',
+    strict: true,
+    continueOnError: true,
+  };
+  const progress = { start: jest.fn(), stop: jest.fn(), update: jest.fn() };
+  let previousExitCode: typeof process.exitCode;
+
+  const getLogger = () => {
+    const { Logger } = jest.requireMock('../../../src/core/logger');
+    return Logger.mock.results[0]?.value as { info: jest.Mock; error: jest.Mock };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    previousExitCode = process.exitCode;
+    process.exitCode = 0;
+    mockCreateProgressIndicator.mockReturnValue(progress);
+    mockGetGlobalOptions.mockReturnValue({ verbose: false, quiet: false, config: undefined });
+    mockValidatePathOption.mockReturnValue('/tmp/components');
+    mockParseEmitTargets.mockReturnValue(['webcomponent']);
+  });
+
+  afterEach(() => {
+    process.exitCode = previousExitCode;
+  });
+
+  it('should run the pipeline as a dry run without force', async () => {
+    mockRunConnectPipeline.mockResolvedValue({ status: 'success', warnings: [], errors: [], componentResults: [] });
+
+    await runCheckCommand(options, new Command('check'));
+
+    expect(mockRunConnectPipeline).toHaveBeenCalledWith(
+      expect.objectContaining({ inputPath: '/tmp/components', dryRun: true, force: false }),
+      expect.any(Object),
+    );
+    expect(progress.start).toHaveBeenCalledWith('Checking Code Connect files');
+    expect(progress.stop).toHaveBeenCalledWith('Check complete', 'success');
+    expect(getLogger().info).toHaveBeenCalledWith('Check command initialized.');
+    expect(getLogger().info).toHaveBeenCalledWith('Code Connect files are up to date.');
+    expect(process.exitCode).toBe(0);
+  });
+
+  it('should list drifted sections per file and fail', async () => {
+    const stalePath = path.join(process.cwd(), 'code-connect', 'Button.react.figma.tsx');
+    const missingPath = path.join(process.cwd(), 'code-connect', 'Button.webcomponent.figma.ts');
+    const jsonPath = path.join(process.cwd(), 'custom-elements.json');
+    mockRunConnectPipeline.mockResolvedValue({
+      status: 'success',
+      warnings: [],
+      errors: [],
+      componentResults: [
+        {
+          componentName: 'Button',
+          created: [missingPath],
+          updated: [stalePath],
+          unchanged: ['/tmp/ok.figma.ts'],
+          fileChanges: [
+            { filePath: stalePath, status: 'updated', reason: 'section updated', driftedSections: ['props', 'example'] },
+            { filePath: missingPath, status: 'created', reason: 'new file' },
+            { filePath: '/tmp/ok.figma.ts', status: 'unchanged', reason: 'unchanged' },
+          ],
+        },
+        {
+          componentName: 'custom-elements.json',
+          created: [],
+          updated: [jsonPath],
+          unchanged: [],
+          fileChanges: [{ filePath: jsonPath, status: 'updated', reason: 'content updated', driftedSections: [] }],
+        },
+      ],
+    });
+
+    await runCheckCommand(options, new Command('check'));
+
+    const logger = getLogger();
+    expect(logger.error).toHaveBeenCalledWith('=== Stale Code Connect Files ===');
+    expect(logger.error).toHaveBeenCalledWith(
+      `  - ${path.join('code-connect', 'Button.react.figma.tsx')}: props, example`,
+    );
+    expect(logger.error).toHaveBeenCalledWith(`  - ${path.join('code-connect', 'Button.webcomponent.figma.ts')}: missing`);
+    expect(logger.error).toHaveBeenCalledWith('  - custom-elements.json: content');
+    expect(logger.error).not.toHaveBeenCalledWith(expect.stringContaining('ok.figma.ts'));
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should fail when the pipeline reports errors', async () => {
+    mockRunConnectPipeline.mockResolvedValue({ status: 'error', warnings: [], errors: ['boom'], componentResults: [] });
+
+    await runCheckCommand(options, new Command('check'));
+
+    expect(progress.stop).toHaveBeenCalledWith('Check complete', 'error');
+    expect(getLogger().error).toHaveBeenCalledWith('Errors: 1');
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('should stop progress and rethrow when the pipeline fails', async () => {
+    mockRunConnectPipeline.mockRejectedValue(new Error('Pipeline failed'));
+
+    await expect(runCheckCommand(options, new Command('check'))).rejects.toThrow('Pipeline failed');
+
+    expect(progress.stop).toHaveBeenCalledWith('Check failed', 'error');
+  });
+});
@@ -18,18 +18,21 @@
  * @fileoverview Tests for connect command constants.
  */
 
-import { EMIT_TARGET_OPTIONS, EMIT_TARGETS } from '../../../src/commands/connect/constants';
-import { listEmitterTargets } from '../../../src/emitters/factory';
+import { getEmitAllTargets, getEmitTargetOptions, getEmitTargets } from '../../../src/commands/connect/constants';
+import { listDefaultEmitterTargets, listEmitterTargets } from '../../../src/emitters/factory';
 
 describe('connect command constants', () => {
   it('should expose registered emit targets', () => {
-    expect(EMIT_TARGETS).toEqual(listEmitterTargets());
+    expect(getEmitTargets()).toEqual(listEmitterTargets());
+    expect(getEmitAllTargets()).toEqual(listDefaultEmitterTargets());
   });
 
   it('should format emit target options with all', () => {
-    expect(EMIT_TARGET_OPTIONS).toContain('all');
-    for (const target of EMIT_TARGETS) {
-      expect(EMIT_TARGET_OPTIONS).toContain(target);
+    const options = getEmitTargetOptions();
+
+    expect(options).toContain('all');
+    for (const target of getEmitTargets()) {
+      expect(options).toContain(target);
     }
   });
 });
@@ -18,6 +18,8 @@
  * @fileoverview Tests for connect command handler.
  */
 
+import path from 'node:path';
+
 import { Command } from 'commander';
 
 import { runConnectCommand } from '../../../src/commands/connect/handler';
@@ -29,8 +31,10 @@ const mockValidatePathOption: jest.Mock = jest.fn();
 const mockValidateConfigPath: jest.Mock = jest.fn();
 const mockParseEmitTargets: jest.Mock = jest.fn();
 const mockRunConnectPipeline: jest.Mock = jest.fn();
+const mockWatchConnectPipeline: jest.Mock = jest.fn();
 const mockFormatReportSummary: jest.Mock = jest.fn();
 const mockCreateProgressIndicator: jest.Mock = jest.fn();
+const mockLoadProjectConfig: jest.Mock = jest.fn();
 
 jest.mock('../../../src/cli/options', () => ({
   getGlobalOptions: (...args: unknown[]) => mockGetGlobalOptions(...args),
@@ -40,6 +44,16 @@ jest.mock('../../../src/cli/validators', () => ({
   validateGlobalOptions: (...args: unknown[]) => mockValidateGlobalOptions(...args),
   validatePathOption: (...args: unknown[]) => mockValidatePathOption(...args),
   validateConfigPath: (...args: unknown[]) => mockValidateConfigPath(...args),
+  validateParserOption: (value?: string) => value,
+  validateReportOptions: () => [],
+  validateWatchOption: jest.fn(),
+  validateChangedSinceOption: jest.fn(),
+  validateOutputOptions: (layout?: string) => layout,
+  validateImportResolverOption: (value?: string) => value,
+}));
+
+jest.mock('../../../src/config', () => ({
+  loadProjectConfig: (...args: unknown[]) => mockLoadProjectConfig(...args),
 }));
 
 jest.mock('../../../src/cli/progress', () => ({
@@ -56,9 +70,12 @@ jest.mock('../../../src/core/emit-targets', () => {
 
 jest.mock('../../../src/pipeline', () => ({
   runConnectPipeline: (...args: unknown[]) => mockRunConnectPipeline(...args),
+  watchConnectPipeline: (...args: unknown[]) => mockWatchConnectPipeline(...args),
 }));
 
 jest.mock('../../../src/core/report', () => ({
+  addPluginLoadErrors: jest.requireActual('../../../src/core/report').addPluginLoadErrors,
+  createEmptyReport: jest.requireActual('../../../src/core/report').createEmptyReport,
   formatReportSummary: (...args: unknown[]) => mockFormatReportSummary(...args),
 }));
 
@@ -71,6 +88,7 @@ jest.mock('../../../src/core/logger', () => {
       debug: jest.fn(),
       warn: jest.fn(),
       error: jest.fn(),
+      diff: jest.fn(),
     })),
   };
 });
@@ -78,6 +96,7 @@ jest.mock('../../../src/core/logger', () => {
 describe('runConnectCommand', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockLoadProjectConfig.mockReturnValue({ config: {} });
   });
 
   it('should run the connect pipeline and log diagnostics', async () => {
@@ -111,6 +130,7 @@ describe('runConnectCommand', () => {
       emit: 'webcomponent',
       strict: true,
       continueOnError: true,
+      changedSince: 'origin/main',
     };
 
     const previousExitCode = process.exitCode;
@@ -126,6 +146,7 @@ describe('runConnectCommand', () => {
         emitTargets: ['webcomponent'],
         strict: true,
         continueOnError: true,
+        changedSince: 'origin/main',
       }),
       expect.any(Object),
     );
@@ -216,6 +237,39 @@ describe('runConnectCommand', () => {
     expect(loggerInstance.info).toHaveBeenCalledWith('Dry run enabled. No files will be written.');
   });
 
+  it('should place the regeneration cache next to the project config unless disabled', async () => {
+    const progress = { start: jest.fn(), stop: jest.fn(), update: jest.fn() };
+    mockCreateProgressIndicator.mockReturnValue(progress);
+    mockGetGlobalOptions.mockReturnValue({ verbose: false, quiet: false, config: undefined });
+    mockValidatePathOption.mockReturnValue('/tmp/components');
+    mockValidateConfigPath.mockReturnValue(undefined);
+    mockParseEmitTargets.mockReturnValue(['webcomponent']);
+    mockLoadProjectConfig.mockReturnValue({ config: {}, filePath: path.resolve('/repo/figma-connecter.config.json') });
+    mockRunConnectPipeline.mockResolvedValue({ status: 'success', warnings: [], errors: [], componentResults: [] });
+
+    const options: IConnectCommandOptions = {
+      path: './components',
+      recursive: false,
+      emit: 'webcomponent',
+      strict: false,
+      continueOnError: false,
+    };
+
+    await runConnectCommand(options, new Command('connect'));
+    await runConnectCommand({ ...options, cache: false }, new Command('connect'));
+
+    expect(mockRunConnectPipeline).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ cachePath: path.resolve('/repo/.figma-connecter/cache.json') }),
+      expect.any(Object),
+    );
+    expect(mockRunConnectPipeline).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ cachePath: undefined }),
+      expect.any(Object),
+    );
+  });
+
   it('should skip dry-run details when dryRun is false', async () => {
     const progress = { start: jest.fn(), stop: jest.fn(), update: jest.fn() };
     mockCreateProgressIndicator.mockReturnValue(progress);
@@ -333,4 +387,269 @@ describe('runConnectCommand', () => {
 
     expect(loggerInstance.info).not.toHaveBeenCalledWith('=== Dry Run Details ===');
   });
+
+  it('should log unified diffs for created and updated files when diff is enabled', async () => {
+    const progress = { start: jest.fn(), stop: jest.fn(), update: jest.fn() };
+    mockCreateProgressIndicator.mockReturnValue(progress);
+    mockGetGlobalOptions.mockReturnValue({ verbose: false, quiet: false, config: undefined });
+    mockValidatePathOption.mockReturnValue('/tmp/components');
+    mockValidateConfigPath.mockReturnValue(undefined);
+    mockParseEmitTargets.mockReturnValue(['webcomponent']);
+    mockFormatReportSummary.mockReturnValue('Summary line');
+
+    const createdPath = path.join(process.cwd(), 'code-connect', 'New.figma.ts');
+    const updatedPath = path.join(process.cwd(), 'code-connect', 'Old.figma.ts');
+    mockRunConnectPipeline.mockResolvedValue({
+      status: 'success',
+      warnings: [],
+      errors: [],
+      componentResults: [
+        {
+          componentName: 'Demo',
+          created: [createdPath],
+          updated: [updatedPath],
+          unchanged: [],
+          fileChanges: [
+            { filePath: createdPath, status: 'created', reason: 'new file', diff: '@@ -0,0 +1,1 @@\n+a' },
+            { filePath: updatedPath, status: 'updated', reason: 'section updated', diff: '@@ -1,1 +1,1 @@\n-a\n+b' },
+            { filePath: '/tmp/same.figma.ts', status: 'unchanged', reason: 'unchanged' },
+          ],
+        },
+      ],
+    });
+
+    const options: IConnectCommandOptions = {
+      path: './components',
+      recursive: false,
+      dryRun: true,
+      diff: true,
+      emit: 'webcomponent',
+      strict: false,
+      continueOnError: false,
+    };
+
+    await runConnectCommand(options, new Command('connect'));
+
+    expect(mockRunConnectPipeline).toHaveBeenCalledWith(expect.objectContaining({ diff: true }), expect.any(Object));
+
+    const { Logger } = jest.requireMock('../../../src/core/logger');
+    const loggerInstance = Logger.mock.results[0]?.value as { info: jest.Mock; diff: jest.Mock };
+    const relativeCreated = path.join('code-connect', 'New.figma.ts');
+    const relativeUpdated = path.join('code-connect', 'Old.figma.ts');
+
+    expect(loggerInstance.info).toHaveBeenCalledWith('=== File Diffs ===');
+    expect(loggerInstance.diff.mock.calls).toEqual([
+      [`--- /dev/null\n+++ b/${relativeCreated}\n@@ -0,0 +1,1 @@\n+a`],
+      [`--- a/${relativeUpdated}\n+++ b/${relativeUpdated}\n@@ -1,1 +1,1 @@\n-a\n+b`],
+    ]);
+  });
+
+  it('should report every watch run and stop watching on SIGINT', async () => {
+    const progress = { start: jest.fn(), stop: jest.fn(), update: jest.fn() };
+    mockCreateProgressIndicator.mockReturnValue(progress);
+    mockGetGlobalOptions.mockReturnValue({ verbose: false, quiet: false, config: undefined });
+    mockValidatePathOption.mockReturnValue('/tmp/components');
+    mockValidateConfigPath.mockReturnValue(undefined);
+    mockParseEmitTargets.mockReturnValue(['webcomponent']);
+    mockFormatReportSummary.mockReturnValue('Summary line');
+
+    const close = jest.fn();
+    mockWatchConnectPipeline.mockImplementation((_options, _logger, { onReport }) => {
+      onReport({ status: 'error', warnings: [], errors: ['err'], created: [], updated: [], unchanged: [] });
+      onReport({ status: 'success', warnings: [], errors: [], created: [], updated: [], unchanged: [] });
+      return { close };
+    });
+
+    const options: IConnectCommandOptions = {
+      path: './components',
+      recursive: true,
+      watch: true,
+      emit: 'webcomponent',
+      strict: false,
+      continueOnError: true,
+    };
+
+    const previousExitCode = process.exitCode;
+    process.exitCode = 0;
+
+    const running = runConnectCommand(options, new Command('connect'));
+    await Promise.resolve();
+    process.emit('SIGINT');
+    await running;
+
+    const { Logger } = jest.requireMock('../../../src/core/logger');
+    const loggerInstance = Logger.mock.results[0]?.value as { info: jest.Mock; error: jest.Mock };
+
+    expect(mockRunConnectPipeline).not.toHaveBeenCalled();
+    expect(mockWatchConnectPipeline).toHaveBeenCalledWith(
+      expect.objectContaining({ inputPath: '/tmp/components', recursive: true }),
+      loggerInstance,
+      expect.any(Object),
+    );
+    expect(loggerInstance.info).toHaveBeenCalledWith('Watching for changes. Press Ctrl+C to stop.');
+    expect(loggerInstance.info).toHaveBeenCalledWith('Stopped watching.');
+    expect(loggerInstance.error).toHaveBeenCalledWith('  - err');
+    expect(mockFormatReportSummary).toHaveBeenCalledTimes(2);
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(process.exitCode).toBe(0);
+
+    process.exitCode = previousExitCode;
+  });
+
+  it('should apply project config values not overridden by CLI flags', async () => {
+    const progress = { start: jest.fn(), stop: jest.fn(), update: jest.fn() };
+    mockCreateProgressIndicator.mockReturnValue(progress);
+    mockGetGlobalOptions.mockReturnValue({ verbose: false, quiet: false, config: 'figma-connecter.config.json' });
+    mockValidatePathOption.mockImplementation((value: string) => value);
+    mockValidateConfigPath.mockReturnValue('/repo/figma-connecter.config.json');
+    mockLoadProjectConfig.mockReturnValue({
+      filePath: '/repo/figma-connecter.config.json',
+      config: {
+        path: '/repo/src/components',
+        recursive: true,
+        emit: ['react'],
+        tsconfig: '/repo/tsconfig.build.json',
+        parser: 'webcomponent',
+        emitters: { react: { baseImportPath: '@ui/react' } },
+        tagNamespace: { prefix: 'ds', packages: { '/repo/packages/acme': { prefix: 'acme' } } },
+      },
+    });
+    mockParseEmitTargets.mockReturnValue(['react']);
+    mockFormatReportSummary.mockReturnValue('Summary line');
+    mockRunConnectPipeline.mockResolvedValue({ status: 'success', warnings: [], errors: [] });
+
+    const options = {
+      recursive: false,
+      emit: 'react',
+      strict: false,
+      continueOnError: true,
+    } as IConnectCommandOptions;
+
+    await runConnectCommand(options, new Command('connect'));
+
+    expect(mockLoadProjectConfig).toHaveBeenCalledWith({ configPath: '/repo/figma-connecter.config.json' });
+    expect(mockValidatePathOption).toHaveBeenCalledWith('/repo/src/components');
+    expect(mockRunConnectPipeline).toHaveBeenCalledWith(
+      expect.objectContaining({
+        inputPath: '/repo/src/components',
+        recursive: false,
+        strict: false,
+        tsconfigPath: '/repo/tsconfig.build.json',
+        parserTarget: 'webcomponent',
+        emitterSettings: { react: { baseImportPath: '@ui/react' } },
+        tagNamespace: { prefix: 'ds', packages: { '/repo/packages/acme': { prefix: 'acme' } } },
+      }),
+      expect.any(Object),
+    );
+  });
+
+  it('should pass resolved output location and import resolver options to the pipeline', async () => {
+    const progress = { start: jest.fn(), stop: jest.fn(), update: jest.fn() };
+    mockCreateProgressIndicator.mockReturnValue(progress);
+    mockGetGlobalOptions.mockReturnValue({ verbose: false, quiet: false, config: undefined });
+    mockValidatePathOption.mockImplementation((value: string) => `/abs/${value}`);
+    mockValidateConfigPath.mockReturnValue(undefined);
+    mockParseEmitTargets.mockReturnValue(['react']);
+    mockFormatReportSummary.mockReturnValue('Summary line');
+    mockRunConnectPipeline.mockResolvedValue({ status: 'success', warnings: [], errors: [] });
+
+    const options: IConnectCommandOptions = {
+      path: 'src',
+      recursive: true,
+      emit: 'react',
+      strict: false,
+      continueOnError: true,
+      outputLayout: 'mirrored',
+      outputDir: 'figma',
+      outputRoot: 'src',
+      importResolver: 'package',
+      tsconfig: 'tsconfig.build.json',
+    };
+
+    await runConnectCommand(options, new Command('connect'));
+
+    expect(mockValidatePathOption).toHaveBeenCalledWith('src', '--output-root');
+    expect(mockValidatePathOption).toHaveBeenCalledWith('tsconfig.build.json', '--tsconfig');
+    expect(mockRunConnectPipeline).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tsconfigPath: '/abs/tsconfig.build.json',
+        outputLayout: 'mirrored',
+        outputDir: path.resolve('figma'),
+        outputRoot: '/abs/src',
+        importResolver: 'package',
+      }),
+      expect.any(Object),
+    );
+  });
+
+  it('should pass every input path and discovery option to the pipeline', async () => {
+    const progress = { start: jest.fn(), stop: jest.fn(), update: jest.fn() };
+    mockCreateProgressIndicator.mockReturnValue(progress);
+    mockGetGlobalOptions.mockReturnValue({ verbose: false, quiet: false, config: undefined });
+    mockValidatePathOption.mockImplementation((value: string) => `/abs/${value}`);
+    mockValidateConfigPath.mockReturnValue(undefined);
+    mockParseEmitTargets.mockReturnValue(['webcomponent']);
+    mockFormatReportSummary.mockReturnValue('Summary line');
+    mockRunConnectPipeline.mockResolvedValue({ status: 'success', warnings: [], errors: [] });
+
+    const options: IConnectCommandOptions = {
+      path: ['a', 'b'],
+      recursive: true,
+      include: ['**/*.element.ts'],
+      exclude: ['**/legacy/'],
+      gitignore: false,
+      emit: 'webcomponent',
+      strict: false,
+      continueOnError: true,
+    };
+
+    await runConnectCommand(options, new Command('connect'));
+
+    expect(mockRunConnectPipeline).toHaveBeenCalledWith(
+      expect.objectContaining({
+        inputPath: '/abs/a',
+        inputPaths: ['/abs/a', '/abs/b'],
+        include: ['**/*.element.ts'],
+        exclude: ['**/legacy/'],
+        gitignore: false,
+      }),
+      expect.any(Object),
+    );
+  });
+
+  it('should load plugins and report the ones that fail as generation errors', async () => {
+    const progress = { start: jest.fn(), stop: jest.fn(), update: jest.fn() };
+    mockCreateProgressIndicator.mockReturnValue(progress);
+    mockGetGlobalOptions.mockReturnValue({ verbose: false, quiet: false, config: undefined });
+    mockValidatePathOption.mockReturnValue('/tmp/components');
+    mockValidateConfigPath.mockReturnValue(undefined);
+    mockParseEmitTargets.mockReturnValue(['webcomponent']);
+    mockFormatReportSummary.mockReturnValue('Summary line');
+    mockRunConnectPipeline.mockResolvedValue({ status: 'success', warnings: [], errors: [] });
+
+    const options: IConnectCommandOptions = {
+      recursive: true,
+      emit: 'webcomponent',
+      strict: false,
+      continueOnError: true,
+      plugin: ['./missing-figma-connecter-plugin.js'],
+    };
+
+    const previousExitCode = process.exitCode;
+    process.exitCode = 0;
+
+    await runConnectCommand(options, new Command('connect'));
+
+    const { Logger } = jest.requireMock('../../../src/core/logger');
+    const loggerInstance = Logger.mock.results[0]?.value as { error: jest.Mock };
+
+    expect(mockRunConnectPipeline).toHaveBeenCalled();
+    expect(loggerInstance.error).toHaveBeenCalledWith('Errors: 1');
+    expect(loggerInstance.error).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to load plugin "./missing-figma-connecter-plugin.js"'),
+    );
+    expect(progress.stop).toHaveBeenCalledWith('Connect pipeline complete', 'error');
+    expect(process.exitCode).toBe(1);
+    process.exitCode = previousExitCode;
+  });
 });
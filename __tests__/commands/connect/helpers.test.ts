@@ -18,8 +18,22 @@
  * @fileoverview Tests for connect command helpers.
  */
 
-import { resolveLogLevel, runCommandStages, type CommandStages } from '../../../src/commands/connect/helpers';
-import { LogLevel } from '../../../src/core/logger';
+import { Command } from 'commander';
+
+import {
+  applyProjectConfig,
+  isCliOptionSet,
+  resolveEmitterSettings,
+  resolveLogLevel,
+  runCommandStages,
+  writeReportOutputs,
+  type CommandStages,
+} from '../../../src/commands/connect/helpers';
+import type { IConnectCommandOptions } from '../../../src/commands/connect/types';
+import { Logger, LogLevel } from '../../../src/core/logger';
+import { ReportFormat } from '../../../src/core/types';
+import { createMemoryIoAdapter } from '../../../src/io/adapter';
+import { createMockReport } from '../../helpers/fixtures';
 
 describe('resolveLogLevel', () => {
   it('should prefer quiet over verbose', () => {
@@ -91,3 +105,111 @@ describe('runCommandStages', () => {
     await expect(runCommandStages(command)).rejects.toThrow('Test error');
   });
 });
+
+describe('applyProjectConfig', () => {
+  const createCommand = (): Command =>
+    new Command('connect')
+      .option('-p, --path <path>')
+      .option('-r, --recursive', '', false)
+      .option('-e, --emit <targets>', '', 'all')
+      .option('--strict', '', true)
+      .option('--no-strict')
+      .option('--base-import-path <path>');
+
+  const parseOptions = (command: Command, argv: string[]): IConnectCommandOptions => {
+    command.parse(argv, { from: 'user' });
+    return command.opts<IConnectCommandOptions>();
+  };
+
+  it('should fill defaulted and unset options from config', () => {
+    const command = createCommand();
+    const options = parseOptions(command, []);
+
+    const resolved = applyProjectConfig(options, command, {
+      path: '/repo/src',
+      recursive: true,
+      emit: ['webcomponent', 'react'],
+      strict: false,
+      baseImportPath: '@ui/components',
+    });
+
+    expect(resolved).toMatchObject({
+      path: '/repo/src',
+      recursive: true,
+      emit: 'webcomponent,react',
+      strict: false,
+      baseImportPath: '@ui/components',
+    });
+  });
+
+  it('should keep explicit CLI flags over config values', () => {
+    const command = createCommand();
+    const options = parseOptions(command, ['--path', './cli', '--emit', 'react', '--strict']);
+
+    const resolved = applyProjectConfig(options, command, {
+      path: '/repo/src',
+      emit: 'webcomponent',
+      strict: false,
+    });
+
+    expect(resolved).toMatchObject({ path: './cli', emit: 'react', strict: true });
+  });
+
+  it('should keep defaults when the config omits an option', () => {
+    const command = createCommand();
+    const options = parseOptions(command, []);
+
+    expect(applyProjectConfig(options, command, {})).toMatchObject({ recursive: false, emit: 'all', strict: true });
+  });
+
+  it('should report CLI-provided options', () => {
+    const command = createCommand();
+    const options = parseOptions(command, ['--recursive']);
+
+    expect(isCliOptionSet(options, command, 'recursive')).toBe(true);
+    expect(isCliOptionSet(options, command, 'emit')).toBe(false);
+    expect(isCliOptionSet(options, command, 'path')).toBe(false);
+  });
+});
+
+describe('resolveEmitterSettings', () => {
+  const emitters = { react: { baseImportPath: '@ui/react' } };
+
+  it('should return configured emitter settings', () => {
+    const command = new Command('connect').option('--base-import-path <path>');
+    command.parse([], { from: 'user' });
+
+    expect(resolveEmitterSettings(command.opts<IConnectCommandOptions>(), command, { emitters })).toEqual(emitters);
+  });
+
+  it('should drop per-emitter base import paths when the CLI flag is set', () => {
+    const command = new Command('connect').option('--base-import-path <path>');
+    command.parse(['--base-import-path', '@cli/components'], { from: 'user' });
+
+    expect(resolveEmitterSettings(command.opts<IConnectCommandOptions>(), command, { emitters })).toEqual({
+      react: { baseImportPath: undefined },
+    });
+  });
+});
+
+describe('writeReportOutputs', () => {
+  it('should write each requested report format', () => {
+    const io = createMemoryIoAdapter();
+    const logger = new Logger(LogLevel.ERROR);
+    const infoSpy = jest.spyOn(logger, 'info').mockImplementation(() => undefined);
+
+    writeReportOutputs(
+      createMockReport(),
+      [
+        { format: ReportFormat.Json, filePath: '/reports/report.json' },
+        { format: ReportFormat.Junit, filePath: '/reports/junit.xml' },
+      ],
+      logger,
+      io,
+    );
+
+    expect(JSON.parse(io.readFile('/reports/report.json'))).toEqual(createMockReport());
+    expect(io.readFile('/reports/junit.xml')).toContain('<testsuites name="figma-connecter" tests="0"');
+    expect(infoSpy).toHaveBeenCalledWith('Wrote junit report: /reports/junit.xml');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Tests for the shared pipeline options.
+ */
+
+/* eslint-disable @typescript-eslint/no-require-imports */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { Command } from 'commander';
+
+import type { EmitterTarget } from '../../../src/core/types';
+
+const SVELTE_PLUGIN_SOURCE = `
+module.exports = (api) => {
+  api.registerEmitterPlugin({
+    target: 'svelte',
+    factory: () => ({ target: 'svelte', emit: () => ({ filePath: '/svelte.figma.ts', content: '', action: 'created' }) }),
+    metadata: { fileExtension: '.svelte.figma.ts', displayName: 'Svelte', description: 'Svelte plugin' },
+  });
+};
+`;
+
+interface IIsolatedModules {
+  readonly factory: typeof import('../../../src/emitters/factory');
+  readonly options: typeof import('../../../src/commands/connect/options');
+}
+
+/**
+ * Loads fresh option and emitter registry modules.
+ *
+ * @returns Isolated modules sharing one emitter registry.
+ */
+const loadIsolatedModules = (): IIsolatedModules => {
+  let modules: IIsolatedModules | undefined;
+  jest.isolateModules(() => {
+    modules = {
+      factory: require('../../../src/emitters/factory') as typeof import('../../../src/emitters/factory'),
+      options: require('../../../src/commands/connect/options') as typeof import('../../../src/commands/connect/options'),
+    };
+  });
+  return modules as IIsolatedModules;
+};
+
+describe('addPipelineOptions', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'figma-connecter-options-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list emitters registered after the command was created in --emit help', () => {
+    const { factory, options } = loadIsolatedModules();
+    const command = options.addPipelineOptions(new Command('connect'));
+
+    factory.registerEmitterPlugin({
+      target: 'svelte' as EmitterTarget,
+      factory: () => ({ target: 'svelte' as EmitterTarget, emit: jest.fn() }),
+      metadata: { fileExtension: '.svelte.figma.ts', displayName: 'Svelte', description: 'Svelte plugin' },
+    });
+
+    expect(command.helpInformation()).toMatch(/Emit targets: [^(]*svelte/);
+    expect(command.helpInformation()).toContain('(default: "all")');
+  });
+
+  it('should load --plugin emitters before rendering help', () => {
+    const pluginPath = path.join(tempDir, 'svelte-plugin.js');
+    fs.writeFileSync(pluginPath, SVELTE_PLUGIN_SOURCE, 'utf8');
+    const { options } = loadIsolatedModules();
+    let helpText = '';
+    const command = options
+      .addPipelineOptions(new Command('connect'))
+      .exitOverride()
+      .configureOutput({
+        /**
+         * Captures help output.
+         *
+         * @param text - Help text written by Commander.
+         */
+        writeOut: (text) => {
+          helpText += text;
+        },
+      });
+
+    expect(() => command.parse(['--plugin', pluginPath, '--help'], { from: 'user' })).toThrow();
+    expect(helpText).toMatch(/Emit targets: [^(]*svelte/);
+  });
+});
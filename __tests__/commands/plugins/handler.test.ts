@@ -0,0 +1,134 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for plugins command handler.
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { Command } from 'commander';
+
+import { formatPluginList, formatPluginListJson, runPluginsCommand } from '../../../src/commands/plugins/handler';
+import { PluginsAction } from '../../../src/commands/plugins/types';
+import { getPluginInfo } from '../../../src/plugins';
+
+const mockLoadProjectConfig: jest.Mock = jest.fn();
+
+jest.mock('../../../src/config', () => ({
+  loadProjectConfig: (...args: unknown[]) => mockLoadProjectConfig(...args),
+}));
+
+describe('runPluginsCommand', () => {
+  let tempDir: string;
+  let stdoutSpy: jest.SpyInstance;
+  let stderrSpy: jest.SpyInstance;
+  let previousExitCode: typeof process.exitCode;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'figma-connecter-plugins-command-')));
+    mockLoadProjectConfig.mockReturnValue({ config: {} });
+    stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderrSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    previousExitCode = process.exitCode;
+    process.exitCode = 0;
+  });
+
+  afterEach(() => {
+    process.exitCode = previousExitCode;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Returns everything written to stdout.
+   *
+   * @returns Captured stdout text.
+   */
+  const getStdout = (): string => stdoutSpy.mock.calls.map(([chunk]) => String(chunk)).join('');
+
+  it('should list built-in emitters and parsers as text', async () => {
+    await runPluginsCommand(PluginsAction.List, {}, new Command('plugins'));
+
+    const output = getStdout();
+    expect(output).toContain('Emitters\n  webcomponent (Web Component)\n');
+    expect(output).toContain('    File extension: .react.figma.tsx\n    Source: built-in\n');
+    expect(output).toContain('Parsers\n  webcomponent (Web Component)\n');
+    expect(output).toContain('    File patterns: custom-elements.json\n    Source: built-in\n');
+    expect(process.exitCode).toBe(0);
+  });
+
+  it('should load config and CLI plugins and list them with their source module', async () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'solid-plugin.js'),
+      `module.exports = (api) => api.registerPlugin({ emitters: [{
+        target: 'solid',
+        factory: () => ({ target: 'solid', emit: () => ({ filePath: '/solid.figma.ts', content: '', action: 'created' }) }),
+        metadata: { fileExtension: '.solid.figma.ts', displayName: 'Solid', description: 'Solid wrappers' },
+      }] });`,
+      'utf8',
+    );
+    mockLoadProjectConfig.mockReturnValue({
+      filePath: path.join(tempDir, 'figma-connecter.config.json'),
+      config: { plugins: ['./solid-plugin.js'] },
+    });
+
+    await runPluginsCommand(PluginsAction.List, { json: true }, new Command('plugins'));
+
+    const output = JSON.parse(getStdout()) as ReturnType<typeof JSON.parse>;
+    expect(output.emitters).toContainEqual({
+      target: 'solid',
+      displayName: 'Solid',
+      description: 'Solid wrappers',
+      fileExtension: '.solid.figma.ts',
+      source: path.join(tempDir, 'solid-plugin.js'),
+    });
+    expect(output.pluginErrors).toEqual([]);
+  });
+
+  it('should report plugins that fail to load and exit with code 1', async () => {
+    await runPluginsCommand(
+      PluginsAction.List,
+      { json: true, plugin: ['./missing-figma-connecter-plugin.js'] },
+      new Command('plugins'),
+    );
+
+    const output = JSON.parse(getStdout()) as ReturnType<typeof JSON.parse>;
+    expect(output.pluginErrors).toEqual([
+      {
+        plugin: './missing-figma-connecter-plugin.js',
+        message: expect.stringContaining("Cannot find module './missing-figma-connecter-plugin.js'"),
+      },
+    ]);
+    expect(stderrSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Failed to load plugin "./missing-figma-connecter-plugin.js"'),
+    );
+    expect(process.exitCode).toBe(1);
+  });
+});
+
+describe('plugin list formatting', () => {
+  it('should keep text and JSON output in registry order', () => {
+    const info = getPluginInfo();
+
+    const text = formatPluginList(info);
+    const json = JSON.parse(formatPluginListJson(info, [])) as { emitters: { target: string }[] };
+
+    expect(text.indexOf('  webcomponent (Web Component)')).toBeLessThan(text.indexOf('  react (React)'));
+    expect(json.emitters.map((entry) => entry.target).slice(0, 3)).toEqual(['webcomponent', 'react', 'cem']);
+  });
+});
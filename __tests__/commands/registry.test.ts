@@ -26,6 +26,8 @@ describe('command registry', () => {
   it('should list registered command names', () => {
     const names = listCommandNames();
     expect(names).toContain('connect');
+    expect(names).toContain('check');
+    expect(names).toContain('plugins');
   });
 
   it('should register commands on a program instance', () => {
@@ -35,5 +37,7 @@ describe('command registry', () => {
 
     const commandNames = program.commands.map((command) => command.name());
     expect(commandNames).toContain('connect');
+    expect(commandNames).toContain('check');
+    expect(commandNames).toContain('plugins');
   });
 });
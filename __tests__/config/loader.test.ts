@@ -0,0 +1,187 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for the project config loader.
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { findProjectConfigFile, loadProjectConfig, readProjectConfigFile } from '../../src/config/loader';
+
+describe('project config loader', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'figma-connecter-config-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('findProjectConfigFile', () => {
+    it('should find a config file in a parent directory', () => {
+      const nested = path.join(tempDir, 'packages', 'components');
+      fs.mkdirSync(nested, { recursive: true });
+      const configPath = path.join(tempDir, 'figma-connecter.config.json');
+      fs.writeFileSync(configPath, '{}', 'utf8');
+
+      expect(findProjectConfigFile(nested)).toBe(configPath);
+    });
+
+    it('should prefer json over js and ts in the same directory', () => {
+      fs.writeFileSync(path.join(tempDir, 'figma-connecter.config.ts'), 'export default {};', 'utf8');
+      fs.writeFileSync(path.join(tempDir, 'figma-connecter.config.json'), '{}', 'utf8');
+
+      expect(findProjectConfigFile(tempDir)).toBe(path.join(tempDir, 'figma-connecter.config.json'));
+    });
+
+    it('should return the nearest config file', () => {
+      const nested = path.join(tempDir, 'app');
+      fs.mkdirSync(nested);
+      fs.writeFileSync(path.join(tempDir, 'figma-connecter.config.json'), '{}', 'utf8');
+      fs.writeFileSync(path.join(nested, 'figma-connecter.config.js'), 'module.exports = {};', 'utf8');
+
+      expect(findProjectConfigFile(nested)).toBe(path.join(nested, 'figma-connecter.config.js'));
+    });
+  });
+
+  describe('readProjectConfigFile', () => {
+    it('should read JSON config files', () => {
+      const configPath = path.join(tempDir, 'figma-connecter.config.json');
+      fs.writeFileSync(configPath, JSON.stringify({ recursive: true }), 'utf8');
+
+      expect(readProjectConfigFile(configPath)).toEqual({ recursive: true });
+    });
+
+    it('should evaluate CommonJS config files', () => {
+      const configPath = path.join(tempDir, 'figma-connecter.config.js');
+      fs.writeFileSync(configPath, "module.exports = { emit: ['react'] };", 'utf8');
+
+      expect(readProjectConfigFile(configPath)).toEqual({ emit: ['react'] });
+    });
+
+    it('should evaluate TypeScript config files with a default export', () => {
+      const configPath = path.join(tempDir, 'figma-connecter.config.ts');
+      fs.writeFileSync(
+        configPath,
+        "const strict: boolean = false;\nexport default { strict, baseImportPath: '@ui/components' };",
+        'utf8',
+      );
+
+      expect(readProjectConfigFile(configPath)).toEqual({ strict: false, baseImportPath: '@ui/components' });
+    });
+
+    it('should report parse failures with the config path', () => {
+      const configPath = path.join(tempDir, 'figma-connecter.config.json');
+      fs.writeFileSync(configPath, '{ invalid', 'utf8');
+
+      expect(() => readProjectConfigFile(configPath)).toThrow(`Failed to load config ${configPath}`);
+    });
+
+    it('should reject unsupported extensions', () => {
+      const configPath = path.join(tempDir, 'figma-connecter.config.yaml');
+      fs.writeFileSync(configPath, 'recursive: true', 'utf8');
+
+      expect(() => readProjectConfigFile(configPath)).toThrow('Unsupported config file extension');
+    });
+  });
+
+  describe('loadProjectConfig', () => {
+    it('should return an empty config when no file is found', () => {
+      expect(loadProjectConfig({ searchFrom: tempDir })).toEqual({ config: {} });
+    });
+
+    it('should resolve path-valued keys relative to the config file', () => {
+      const configPath = path.join(tempDir, 'figma-connecter.config.json');
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({ path: './src/components', tsconfig: 'tsconfig.build.json', recursive: true }),
+        'utf8',
+      );
+
+      const loaded = loadProjectConfig({ searchFrom: path.join(tempDir, 'nested') });
+
+      expect(loaded.filePath).toBe(configPath);
+      expect(loaded.config).toEqual({
+        path: path.join(tempDir, 'src', 'components'),
+        tsconfig: path.join(tempDir, 'tsconfig.build.json'),
+        recursive: true,
+      });
+    });
+
+    it('should resolve every entry of a path list', () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'figma-connecter.config.json'),
+        JSON.stringify({ path: ['./a', 'b'] }),
+        'utf8',
+      );
+
+      expect(loadProjectConfig({ searchFrom: tempDir }).config).toEqual({
+        path: [path.join(tempDir, 'a'), path.join(tempDir, 'b')],
+      });
+    });
+
+    it('should resolve tag namespace modules and package directories', () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'figma-connecter.config.json'),
+        JSON.stringify({
+          tagNamespace: {
+            module: './src/tag-name.ts',
+            export: 'TAG_NAME',
+            packages: { 'packages/acme': { prefix: 'acme' } },
+          },
+        }),
+        'utf8',
+      );
+
+      expect(loadProjectConfig({ searchFrom: tempDir }).config).toEqual({
+        tagNamespace: {
+          module: path.join(tempDir, 'src', 'tag-name.ts'),
+          export: 'TAG_NAME',
+          packages: { [path.join(tempDir, 'packages', 'acme')]: { prefix: 'acme' } },
+        },
+      });
+    });
+
+    it('should load an explicit config path without discovery', () => {
+      const configPath = path.join(tempDir, 'custom.config.json');
+      fs.writeFileSync(configPath, JSON.stringify({ force: true }), 'utf8');
+
+      expect(loadProjectConfig({ configPath })).toEqual({ filePath: configPath, config: { force: true } });
+    });
+
+    it('should throw when the config fails validation', () => {
+      const configPath = path.join(tempDir, 'figma-connecter.config.json');
+      fs.writeFileSync(configPath, JSON.stringify({ recursive: 'yes' }), 'utf8');
+
+      expect(() => loadProjectConfig({ configPath })).toThrow('"recursive" must be a boolean.');
+    });
+
+    it('should point tsconfig files passed as the config to --tsconfig', () => {
+      const configPath = path.join(tempDir, 'tsconfig.json');
+      fs.writeFileSync(configPath, JSON.stringify({ compilerOptions: { strict: true } }), 'utf8');
+
+      expect(() => loadProjectConfig({ configPath })).toThrow(
+        `Config ${configPath} looks like a tsconfig file. -c/--config takes a figma-connecter config file; ` +
+          'pass the tsconfig with --tsconfig or the "tsconfig" config key.',
+      );
+    });
+  });
+});
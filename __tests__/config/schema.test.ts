@@ -0,0 +1,166 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for project config schema validation.
+ */
+
+import { validateProjectConfig } from '../../src/config/schema';
+
+describe('validateProjectConfig', () => {
+  const source = 'figma-connecter.config.json';
+
+  it('should accept every supported option', () => {
+    const config = {
+      path: './src',
+      recursive: true,
+      include: ['**/*.element.ts'],
+      exclude: ['**/legacy/'],
+      gitignore: false,
+      dryRun: false,
+      force: false,
+      emit: ['webcomponent', 'react'],
+      strict: false,
+      continueOnError: true,
+      baseImportPath: '@ui/components',
+      tsconfig: './tsconfig.json',
+      parser: 'webcomponent',
+      emitters: { react: { baseImportPath: '@ui/react', fileName: '{name}.figma.tsx', importResolver: 'package' } },
+      urls: './figma-urls.yaml',
+      requireUrls: true,
+      outputLayout: 'mirrored',
+      outputDir: './figma',
+      outputRoot: './src',
+      importResolver: 'heuristic',
+      tagNamespace: {
+        module: './src/utils/tag-name/constants.ts',
+        export: 'TAG_NAME',
+        packages: { './packages/acme': { prefix: 'acme', separator: '' } },
+      },
+      figmaProperties: {
+        props: { hasIcon: 'Has Icon?', size: { name: 'Size', values: { sm: 'Small' } } },
+        components: { 'mdc-button': { debug: { skip: true } } },
+      },
+      plugins: ['@acme/figma-connecter-vue', './tools/figma-plugin.js'],
+    };
+
+    expect(validateProjectConfig(config, source)).toEqual(config);
+  });
+
+  it('should accept a comma-separated emit string', () => {
+    expect(validateProjectConfig({ emit: 'react' }, source)).toEqual({ emit: 'react' });
+  });
+
+  it('should accept a list of input paths', () => {
+    expect(validateProjectConfig({ path: ['./a', './b'] }, source)).toEqual({ path: ['./a', './b'] });
+  });
+
+  it('should reject empty discovery pattern lists', () => {
+    expect(() => validateProjectConfig({ include: [] }, source)).toThrow(
+      '"include" must be a non-empty array of non-empty strings.',
+    );
+    expect(() => validateProjectConfig({ path: ['./a', ''] }, source)).toThrow(
+      '"path" must be a non-empty array of non-empty strings.',
+    );
+    expect(() => validateProjectConfig({ plugins: 'vue' }, source)).toThrow(
+      '"plugins" must be a non-empty array of non-empty strings.',
+    );
+  });
+
+  it('should reject non-object configs', () => {
+    expect(() => validateProjectConfig([], source)).toThrow(
+      `Invalid config ${source}: config must be an object.`,
+    );
+  });
+
+  it('should reject unknown options', () => {
+    expect(() => validateProjectConfig({ compilerOptions: {} }, source)).toThrow(
+      'unknown option "compilerOptions".',
+    );
+  });
+
+  it('should reject invalid value types', () => {
+    expect(() => validateProjectConfig({ strict: 'true' }, source)).toThrow('"strict" must be a boolean.');
+    expect(() => validateProjectConfig({ path: '' }, source)).toThrow('"path" must be a non-empty string.');
+    expect(() => validateProjectConfig({ emit: [1] }, source)).toThrow(
+      '"emit" must be a string or an array of strings.',
+    );
+  });
+
+  it('should reject unknown output layouts', () => {
+    expect(() => validateProjectConfig({ outputLayout: 'nested' }, source)).toThrow(
+      '"outputLayout" must be one of: colocated, mirrored, flat.',
+    );
+  });
+
+  it('should reject unknown import resolvers', () => {
+    expect(() => validateProjectConfig({ emitters: { react: { importResolver: 'node' } } }, source)).toThrow(
+      '"emitters.react.importResolver" must be one of: heuristic, package.',
+    );
+  });
+
+  it('should reject incomplete tag namespace rules', () => {
+    expect(() => validateProjectConfig({ tagNamespace: { separator: '-' } }, source)).toThrow(
+      '"tagNamespace" must set "prefix" or "module".',
+    );
+    expect(() => validateProjectConfig({ tagNamespace: { module: './tag-name.ts' } }, source)).toThrow(
+      '"tagNamespace.module" requires "tagNamespace.export".',
+    );
+    expect(() => validateProjectConfig({ tagNamespace: { packages: { './acme': { separator: '-' } } } }, source)).toThrow(
+      '"tagNamespace.packages../acme" must set "prefix" or "module".',
+    );
+    expect(() => validateProjectConfig({ tagNamespace: { prefix: 'ds', suffix: 'x' } }, source)).toThrow(
+      'unknown option "tagNamespace.suffix".',
+    );
+  });
+
+  it('should reject invalid Figma property mappings', () => {
+    expect(() => validateProjectConfig({ figmaProperties: { props: { size: true } } }, source)).toThrow(
+      '"figmaProperties.props.size" must be a Figma property name or an object.',
+    );
+    expect(() => validateProjectConfig({ figmaProperties: { props: { size: false } } }, source)).toThrow(
+      '"figmaProperties.props.size" must be a Figma property name or an object.',
+    );
+    expect(() => validateProjectConfig({ figmaProperties: { props: { size: { skip: 'yes' } } } }, source)).toThrow(
+      '"figmaProperties.props.size.skip" must be a boolean.',
+    );
+    expect(() =>
+      validateProjectConfig({ figmaProperties: { props: { size: { values: { sm: 1 } } } } }, source),
+    ).toThrow('"figmaProperties.props.size.values" must be an object of non-empty strings.');
+    expect(() => validateProjectConfig({ figmaProperties: { components: { Button: [] } } }, source)).toThrow(
+      '"figmaProperties.components.Button" must be an object keyed by property name.',
+    );
+    expect(() => validateProjectConfig({ figmaProperties: { props: { size: { label: 'Size' } } } }, source)).toThrow(
+      'unknown option "figmaProperties.props.size.label".',
+    );
+  });
+
+  it('should reject unknown parser targets', () => {
+    expect(() => validateProjectConfig({ parser: 'svelte' }, source)).toThrow('unknown parser target "svelte"');
+  });
+
+  it('should reject unknown emitter targets and settings', () => {
+    expect(() => validateProjectConfig({ emitters: { svelte: {} } }, source)).toThrow(
+      'unknown emitter target "svelte" in "emitters"',
+    );
+    expect(() => validateProjectConfig({ emitters: { react: { outDir: 'x' } } }, source)).toThrow(
+      'unknown option "emitters.react.outDir".',
+    );
+    expect(() => validateProjectConfig({ emitters: { react: 'x' } }, source)).toThrow(
+      '"emitters.react" must be an object.',
+    );
+  });
+});
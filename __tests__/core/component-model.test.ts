@@ -41,10 +41,13 @@ describe('IComponentModel consistency', () => {
       'attributes',
       'className',
       'componentDir',
+      'cssParts',
+      'cssProperties',
       'events',
       'filePath',
       'importPath',
       'props',
+      'slots',
       'tagName',
     ]);
     expectKeysEqual(Object.keys(model.props[0]), [
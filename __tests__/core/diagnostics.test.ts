@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for located diagnostic messages.
+ */
+
+import { formatLocatedMessage, parseLocatedMessage } from '../../src/core/diagnostics';
+
+describe('diagnostics', () => {
+  const location = { filePath: '/repo/src/button.ts', line: 12, column: 5 };
+
+  it('should append and parse source locations', () => {
+    const text = formatLocatedMessage('Unable to resolve base class "Base".', location);
+
+    expect(text).toBe('Unable to resolve base class "Base". (at /repo/src/button.ts:12:5)');
+    expect(parseLocatedMessage(text)).toEqual({ message: 'Unable to resolve base class "Base".', location });
+  });
+
+  it('should return plain messages without a location', () => {
+    expect(parseLocatedMessage('No components found.')).toEqual({ message: 'No components found.' });
+  });
+});
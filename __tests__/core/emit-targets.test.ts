@@ -25,7 +25,20 @@ describe('parseEmitTargets', () => {
   it('should return all targets for "all"', () => {
     const targets = parseEmitTargets('all');
 
+    expect(targets).toEqual([
+      EmitterTarget.WebComponent,
+      EmitterTarget.React,
+      EmitterTarget.Cem,
+      EmitterTarget.Vue,
+      EmitterTarget.Angular,
+    ]);
+  });
+
+  it('should limit "all" to the provided all-targets list', () => {
+    const targets = parseEmitTargets('all', undefined, [EmitterTarget.WebComponent, EmitterTarget.React]);
+
     expect(targets).toEqual([EmitterTarget.WebComponent, EmitterTarget.React]);
+    expect(parseEmitTargets('cem', undefined, [EmitterTarget.React])).toEqual([EmitterTarget.Cem]);
   });
 
   it('should parse comma-separated targets with normalization', () => {
@@ -42,7 +55,7 @@ describe('parseEmitTargets', () => {
 
   it('should throw on invalid targets', () => {
     expect(() => parseEmitTargets('react,unknown')).toThrow(
-      'Invalid emit targets: unknown. Valid targets are: webcomponent, react, all.',
+      'Invalid emit targets: unknown. Valid targets are: webcomponent, react, cem, vue, angular, all.',
     );
   });
 
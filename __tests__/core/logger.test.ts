@@ -144,6 +144,25 @@ describe('Logger', () => {
     expect(output).toContain('\u001b[');
   });
 
+  it('should log diff lines without level prefixes and color them when enabled', () => {
+    const diff = ['--- a/file.ts', '+++ b/file.ts', '@@ -1,2 +1,2 @@', ' same', '-old', '+new'].join('\n');
+
+    new Logger({ level: LogLevel.INFO, useColors: false }).diff(diff);
+    expect(logSpy.mock.calls.map(([line]) => line)).toEqual(diff.split('\n'));
+
+    logSpy.mockClear();
+    new Logger({ level: LogLevel.INFO, useColors: true }).diff(diff);
+    const lines = logSpy.mock.calls.map(([line]) => line as string);
+    expect(lines[2]).toBe('\u001b[36m@@ -1,2 +1,2 @@\u001b[0m');
+    expect(lines[3]).toBe(' same');
+    expect(lines[4]).toBe('\u001b[31m-old\u001b[0m');
+    expect(lines[5]).toBe('\u001b[32m+new\u001b[0m');
+
+    logSpy.mockClear();
+    new Logger({ level: LogLevel.ERROR }).diff(diff);
+    expect(logSpy).not.toHaveBeenCalled();
+  });
+
   it('should merge base context with per-call context', () => {
     const logger = new Logger({
       level: LogLevel.INFO,
@@ -0,0 +1,133 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for JSON, JUnit, and SARIF report formatting.
+ */
+
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import { formatLocatedMessage } from '../../src/core/diagnostics';
+import { formatReport } from '../../src/core/report-formats';
+import { FileChangeStatus, ReportFormat, type IGenerationReport } from '../../src/core/types';
+import { createMockComponentModel, createMockReport } from '../helpers/fixtures';
+
+describe('report formats', () => {
+  const baseDir = path.resolve('/repo');
+  const buttonPath = path.join(baseDir, 'src', 'button.component.ts');
+  const cardPath = path.join(baseDir, 'src', 'card.component.ts');
+  const basePath = path.join(baseDir, 'src', 'base.ts');
+  const locatedWarning = formatLocatedMessage('Unable to resolve base class "Base".', {
+    filePath: basePath,
+    line: 4,
+    column: 22,
+  });
+
+  const createReport = (): IGenerationReport => ({
+    ...createMockReport(),
+    durationMs: 1500,
+    warnings: [locatedWarning, 'No Figma URL mapped.'],
+    errors: ['Card <failed> & stopped', 'Config error'],
+    fileChanges: [{ filePath: path.join(baseDir, 'button.figma.ts'), status: FileChangeStatus.Created }],
+    componentResults: [
+      {
+        componentName: 'Button',
+        model: createMockComponentModel({ className: 'Button', filePath: buttonPath }),
+        created: [],
+        updated: [],
+        unchanged: [],
+        warnings: [locatedWarning],
+        errors: [],
+      },
+      {
+        componentName: 'Card',
+        model: createMockComponentModel({ className: 'Card', filePath: cardPath }),
+        created: [],
+        updated: [],
+        unchanged: [],
+        warnings: [],
+        errors: ['Card <failed> & stopped'],
+      },
+    ],
+  });
+
+  it('should write the full report as JSON', () => {
+    const report = createReport();
+
+    const parsed = JSON.parse(formatReport(report, ReportFormat.Json, baseDir));
+
+    expect(parsed).toEqual(report);
+    expect(parsed.componentResults).toHaveLength(2);
+    expect(parsed.fileChanges).toHaveLength(1);
+  });
+
+  it('should write one JUnit test case per component', () => {
+    const xml = formatReport(createReport(), ReportFormat.Junit, baseDir);
+
+    expect(xml).toContain('<testsuites name="figma-connecter" tests="3" failures="2" errors="0" skipped="0" time="1.500">');
+    expect(xml).toContain('<testcase classname="src/button.component.ts" name="Button">');
+    expect(xml).toContain(`<system-out>warning: ${locatedWarning.replace(/"/g, '&quot;')}</system-out>`);
+    expect(xml).toContain(
+      '<failure message="Card &lt;failed&gt; &amp; stopped" type="error">Card &lt;failed&gt; &amp; stopped</failure>',
+    );
+    expect(xml).toContain('<testcase classname="figma-connecter" name="figma-connecter">');
+    expect(xml).toContain('>Config error</failure>');
+  });
+
+  it('should point located SARIF results at the source line', () => {
+    const sarif = JSON.parse(formatReport(createReport(), ReportFormat.Sarif, baseDir));
+    const [run] = sarif.runs;
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.name).toBe('figma-connecter');
+    expect(run.originalUriBaseIds).toEqual({
+      '%SRCROOT%': { uri: `${pathToFileURL(baseDir).href}/` },
+    });
+    expect(run.results).toHaveLength(4);
+    expect(run.results).toContainEqual({
+      ruleId: 'generation-warning',
+      level: 'warning',
+      message: { text: 'Unable to resolve base class "Base".' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/base.ts', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 4, startColumn: 22 },
+          },
+        },
+      ],
+    });
+    expect(run.results).toContainEqual({
+      ruleId: 'generation-error',
+      level: 'error',
+      message: { text: 'Card <failed> & stopped' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/card.component.ts', uriBaseId: '%SRCROOT%' },
+          },
+        },
+      ],
+    });
+    expect(run.results).toContainEqual({
+      ruleId: 'generation-warning',
+      level: 'warning',
+      message: { text: 'No Figma URL mapped.' },
+      locations: [],
+    });
+  });
+});
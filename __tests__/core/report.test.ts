@@ -21,6 +21,7 @@
 import {
   addCreatedFile,
   addError,
+  addPluginLoadErrors,
   addUnchangedFile,
   addUpdatedFile,
   addWarning,
@@ -33,6 +34,26 @@ import {
 import type { IComponentResult, IGenerationReport } from '../../src/core/types';
 import { GenerationStatus } from '../../src/core/types';
 
+describe('addPluginLoadErrors', () => {
+  it('should record plugin failures as structured and report errors', () => {
+    const report = addPluginLoadErrors({ ...createEmptyReport(), warnings: ['warn'] }, [
+      { plugin: './vue-plugin.js', resolvedPath: '/repo/vue-plugin.js', message: 'boom' },
+    ]);
+
+    expect(report.status).toBe(GenerationStatus.Error);
+    expect(report.errors).toEqual(['Failed to load plugin "./vue-plugin.js": boom']);
+    expect(report.pluginErrors).toEqual([
+      { plugin: './vue-plugin.js', resolvedPath: '/repo/vue-plugin.js', message: 'boom' },
+    ]);
+  });
+
+  it('should return the report unchanged when no plugin failed', () => {
+    const report = createEmptyReport();
+
+    expect(addPluginLoadErrors(report, [])).toBe(report);
+  });
+});
+
 describe('createEmptyReport', () => {
   it('should create a report with success status', () => {
     const report = createEmptyReport();
@@ -115,6 +136,38 @@ describe('createEmptyComponentResult', () => {
 });
 
 describe('formatReportSummary', () => {
+  it('should include unmapped URL count when present', () => {
+    const report: IGenerationReport = {
+      status: GenerationStatus.Success,
+      created: [],
+      updated: [],
+      unchanged: [],
+      warnings: [],
+      errors: [],
+      durationMs: 1,
+      unmappedUrls: ['mdc-button', 'mdc-avatar'],
+    };
+
+    expect(formatReportSummary(report)).toContain('Unmapped URLs: 2');
+    expect(formatReportSummary({ ...report, unmappedUrls: [] })).not.toContain('Unmapped URLs');
+  });
+
+  it('should include cached count when present', () => {
+    const report: IGenerationReport = {
+      status: GenerationStatus.Success,
+      created: [],
+      updated: [],
+      unchanged: [],
+      warnings: [],
+      errors: [],
+      durationMs: 1,
+      cached: ['button.webcomponent.figma.ts'],
+    };
+
+    expect(formatReportSummary(report)).toContain('Cached: 1');
+    expect(formatReportSummary({ ...report, cached: [] })).not.toContain('Cached');
+  });
+
   it('should format basic report summary', () => {
     const report: IGenerationReport = {
       status: GenerationStatus.Success,
@@ -209,6 +262,28 @@ describe('mergeResults', () => {
 
       expect(report.warnings).toEqual(['warn1', 'warn2']);
     });
+
+    it('should collect unmapped URL tag names', () => {
+      const results: IComponentResult[] = [
+        { created: [], updated: [], unchanged: [], warnings: [], errors: [], unmappedUrl: 'mdc-a' },
+        { created: [], updated: [], unchanged: [], warnings: [], errors: [] },
+        { created: [], updated: [], unchanged: [], warnings: [], errors: [], unmappedUrl: 'mdc-b' },
+      ];
+
+      expect(mergeResults(results, 0).unmappedUrls).toEqual(['mdc-a', 'mdc-b']);
+      expect(mergeResults([results[1]], 0).unmappedUrls).toBeUndefined();
+    });
+
+    it('should collect cached files', () => {
+      const results: IComponentResult[] = [
+        { created: [], updated: [], unchanged: [], warnings: [], errors: [], cached: ['a.figma.ts'] },
+        { created: [], updated: [], unchanged: [], warnings: [], errors: [] },
+        { created: [], updated: [], unchanged: [], warnings: [], errors: [], cached: ['b.figma.ts'] },
+      ];
+
+      expect(mergeResults(results, 0).cached).toEqual(['a.figma.ts', 'b.figma.ts']);
+      expect(mergeResults([results[1]], 0).cached).toBeUndefined();
+    });
   });
 
   describe('status determination', () => {
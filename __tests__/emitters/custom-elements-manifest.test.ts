@@ -0,0 +1,160 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for CustomElementsManifestEmitter.
+ */
+
+import path from 'node:path';
+
+import { EmitterTarget, PropertyVisibility, SlotMapping } from '../../src/core/types';
+import {
+  CUSTOM_ELEMENTS_MANIFEST_SCHEMA_VERSION,
+  CustomElementsManifestEmitter,
+} from '../../src/emitters/custom-elements-manifest';
+import { createMemoryIoAdapter } from '../../src/io/adapter';
+import { parseCustomElementsManifest } from '../../src/parsers/cem';
+import {
+  createMockComponentModel,
+  createMockEmitterOptions,
+  createMockEvent,
+  createMockProperty,
+} from '../helpers/fixtures';
+
+describe('CustomElementsManifestEmitter', () => {
+  const outputDir = path.resolve('/repo/packages/ui');
+  const button = createMockComponentModel({
+    className: 'Button',
+    tagName: 'mdc-button',
+    filePath: path.join(outputDir, 'src', 'button', 'button.component.ts'),
+    componentDir: path.join(outputDir, 'src', 'button'),
+    props: [
+      createMockProperty({
+        name: 'variant',
+        attribute: 'variant',
+        tsType: "'primary' | 'secondary'",
+        defaultValue: 'primary',
+        doc: 'Visual variant.',
+        reflect: true,
+      }),
+      createMockProperty({ name: 'count', attribute: null, tsType: 'number', defaultValue: 0 }),
+      createMockProperty({
+        name: 'internalState',
+        attribute: 'internal-state',
+        tsType: 'boolean',
+        visibility: PropertyVisibility.Protected,
+      }),
+    ],
+    events: [createMockEvent({ name: 'change', reactHandler: 'onChange', detailType: '{ value: string }' })],
+    slots: [{ name: '', mapping: SlotMapping.TextContent, doc: 'Label.' }],
+    cssProperties: [{ name: '--mdc-button-color', defaultValue: 'red', doc: null }],
+    cssParts: [{ name: 'label', doc: 'Label wrapper.' }],
+  });
+  const avatar = createMockComponentModel({
+    className: 'Avatar',
+    tagName: 'mdc-avatar',
+    filePath: path.join(outputDir, 'src', 'avatar', 'avatar.component.ts'),
+    componentDir: path.join(outputDir, 'src', 'avatar'),
+  });
+
+  const emitManifest = (models = [button, avatar]) =>
+    new CustomElementsManifestEmitter().emitAggregate({
+      models,
+      options: createMockEmitterOptions(),
+      outputDir,
+    });
+
+  it('should target cem and only emit aggregate output', () => {
+    const emitter = new CustomElementsManifestEmitter();
+
+    expect(emitter.target).toBe(EmitterTarget.Cem);
+    expect('emit' in emitter).toBe(false);
+  });
+
+  it('should write custom-elements.json to the output directory', () => {
+    const result = emitManifest();
+
+    expect(result.filePath).toBe(path.join(outputDir, 'custom-elements.json'));
+    expect(result.content.endsWith('}\n')).toBe(true);
+  });
+
+  it('should write one module per component ordered by path', () => {
+    const manifest = JSON.parse(emitManifest().content);
+
+    expect(manifest.schemaVersion).toBe(CUSTOM_ELEMENTS_MANIFEST_SCHEMA_VERSION);
+    expect(manifest.modules.map((module: { path: string }) => module.path)).toEqual([
+      'src/avatar/avatar.component.ts',
+      'src/button/button.component.ts',
+    ]);
+    expect(manifest.modules[1].exports).toEqual([
+      { kind: 'js', name: 'Button', declaration: { name: 'Button', module: 'src/button/button.component.ts' } },
+      {
+        kind: 'custom-element-definition',
+        name: 'mdc-button',
+        declaration: { name: 'Button', module: 'src/button/button.component.ts' },
+      },
+    ]);
+  });
+
+  it('should describe members, attributes, events, slots, and styling hooks', () => {
+    const [declaration] = JSON.parse(emitManifest([button]).content).modules[0].declarations;
+
+    expect(declaration).toMatchObject({ kind: 'class', name: 'Button', tagName: 'mdc-button', customElement: true });
+    expect(declaration.members).toEqual([
+      {
+        kind: 'field',
+        name: 'variant',
+        type: { text: "'primary' | 'secondary'" },
+        default: '"primary"',
+        description: 'Visual variant.',
+        attribute: 'variant',
+        reflects: true,
+      },
+      { kind: 'field', name: 'count', type: { text: 'number' }, default: '0' },
+      {
+        kind: 'field',
+        name: 'internalState',
+        type: { text: 'boolean' },
+        privacy: 'protected',
+        attribute: 'internal-state',
+      },
+    ]);
+    expect(declaration.attributes.map((attribute: { name: string }) => attribute.name)).toEqual([
+      'variant',
+      'internal-state',
+    ]);
+    expect(declaration.events).toEqual([{ name: 'change', type: { text: 'CustomEvent<{ value: string }>' } }]);
+    expect(declaration.slots).toEqual([{ name: '', description: 'Label.' }]);
+    expect(declaration.cssProperties).toEqual([{ name: '--mdc-button-color', default: 'red' }]);
+    expect(declaration.cssParts).toEqual([{ name: 'label', description: 'Label wrapper.' }]);
+  });
+
+  it('should round-trip through the cem parser', () => {
+    const result = emitManifest();
+    const io = createMemoryIoAdapter({ [result.filePath]: result.content });
+
+    const parsed = parseCustomElementsManifest({ inputPath: outputDir, io });
+    const parsedButton = parsed.value?.models.find((model) => model.tagName === 'mdc-button');
+
+    expect(parsed.warnings).toEqual([]);
+    expect(parsedButton?.filePath).toBe(button.filePath);
+    expect(parsedButton?.props.find((prop) => prop.name === 'variant')).toMatchObject({
+      defaultValue: 'primary',
+      enumValues: ['primary', 'secondary'],
+    });
+    expect(parsedButton?.events[0]).toMatchObject({ name: 'change', detailType: '{ value: string }' });
+  });
+});
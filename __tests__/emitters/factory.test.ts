@@ -22,7 +22,7 @@
 
 import { EmitterTarget } from '../../src/core/types';
 import type { IEmitResult } from '../../src/core/types';
-import { createEmitter, createEmitters, listEmitterTargets } from '../../src/emitters/factory';
+import { createEmitter, createEmitters, listDefaultEmitterTargets, listEmitterTargets } from '../../src/emitters/factory';
 import { FigmaReactEmitter } from '../../src/emitters/figma-react';
 import { FigmaWebComponentEmitter } from '../../src/emitters/figma-webcomponent';
 import type { IEmitter, IEmitterContext } from '../../src/emitters/types';
@@ -110,7 +110,19 @@ describe('createEmitters', () => {
 });
 describe('listEmitterTargets', () => {
   it('should include all emitter targets', () => {
-    expect(listEmitterTargets()).toEqual([EmitterTarget.WebComponent, EmitterTarget.React]);
+    expect(listEmitterTargets()).toEqual([
+      EmitterTarget.WebComponent,
+      EmitterTarget.React,
+      EmitterTarget.Cem,
+      EmitterTarget.Vue,
+      EmitterTarget.Angular,
+    ]);
+  });
+});
+
+describe('listDefaultEmitterTargets', () => {
+  it('should exclude aggregate and opt-in emitter targets', () => {
+    expect(listDefaultEmitterTargets()).toEqual([EmitterTarget.WebComponent, EmitterTarget.React]);
   });
 });
 
@@ -0,0 +1,216 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for FigmaAngularEmitter.
+ */
+
+import {
+  EmitterTarget,
+  FigmaPropertyType,
+  FileChangeStatus,
+  ImportResolverKind,
+  SlotMapping,
+} from '../../src/core/types';
+import { FIGMA_PACKAGE_HTML } from '../../src/core/constants';
+import { FigmaAngularEmitter } from '../../src/emitters/figma-angular';
+import { FigmaReactEmitter } from '../../src/emitters/figma-react';
+import { expectContainsAll, expectContainsInOrder, expectGeneratedSectionMarkers } from '../helpers/assertions';
+import {
+  createMockComponentModel,
+  createMockEmitterOptions,
+  createMockEvent,
+  createMockProperty,
+} from '../helpers/fixtures';
+
+/**
+ * Extracts the generated props section from emitted content.
+ *
+ * @param content - Emitted file content.
+ * @returns Lines between the props section markers.
+ */
+const getPropsSection = (content: string): string =>
+  content.slice(content.indexOf('// BEGIN GENERATED: props'), content.indexOf('// END GENERATED: props'));
+
+describe('FigmaAngularEmitter', () => {
+  let emitter: FigmaAngularEmitter;
+
+  beforeEach(() => {
+    emitter = new FigmaAngularEmitter();
+  });
+
+  describe('target', () => {
+    it('should return Angular target', () => {
+      expect(emitter.target).toBe(EmitterTarget.Angular);
+    });
+  });
+
+  describe('emit', () => {
+    describe('positive cases', () => {
+      it('should generate code connect file for minimal component', () => {
+        const model = createMockComponentModel({
+          className: 'ButtonComponent',
+          tagName: 'my-button',
+          filePath: '/src/components/button/button.component.ts',
+          componentDir: '/src/components/button',
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expect(result.filePath).toBe('/src/components/button/code-connect/button.angular.figma.ts');
+        expectContainsInOrder(result.content, [
+          '// @ts-ignore',
+          `import figma, { html } from '${FIGMA_PACKAGE_HTML}';`,
+          "figma.connect('<FIGMA_BUTTON_URL>', {",
+          'props: {},',
+          'example: () => html`<my-button></my-button>`,',
+          "imports: [\"import { ButtonComponent } from '../../../../dist/angular';\"],",
+          '});',
+        ]);
+        expect(result.action).toBe(FileChangeStatus.Created);
+      });
+
+      it('should render props as [prop] inputs and events as (event) outputs', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          tagName: 'my-button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          props: [
+            createMockProperty({ name: 'label', type: FigmaPropertyType.String }),
+            createMockProperty({ name: 'disabled', type: FigmaPropertyType.Boolean }),
+            createMockProperty({ name: 'icon-name', type: FigmaPropertyType.String }),
+          ],
+          events: [createMockEvent({ name: 'value-change', reactHandler: 'onValueChange' })],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectContainsAll(result.content, [
+          '// Events dispatched by <my-button>; listen with (<event>)="handler($event)".',
+          '// @event value-change',
+          [
+            'example: props => html`<my-button',
+            '    [disabled]="${props.disabled}"',
+            "    [iconName]=\"'${props['icon-name']}'\"",
+            "    [label]=\"'${props.label}'\"",
+            '    (value-change)="onValueChange($event)"',
+            '  ></my-button>`,',
+          ].join('\n'),
+        ]);
+      });
+
+      it('should project the default slot as content and named slots through slot attributes', () => {
+        const model = createMockComponentModel({
+          className: 'Card',
+          tagName: 'my-card',
+          filePath: '/src/card.component.ts',
+          componentDir: '/src',
+          slots: [
+            { name: '', mapping: SlotMapping.TextContent, doc: null },
+            { name: 'footer', mapping: SlotMapping.Children, doc: null },
+          ],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectContainsAll(result.content, [
+          "children: figma.textContent('Content'),",
+          [
+            'example: props => html`<my-card>',
+            '    ${props.children}',
+            '    <div slot="footer">${props.footer}</div>',
+            '  </my-card>`,',
+          ].join('\n'),
+        ]);
+      });
+
+      it('should share the props mapping with the React emitter', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          tagName: 'my-button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          props: [
+            createMockProperty({ name: 'variant', type: FigmaPropertyType.Enum, enumValues: ['primary', 'ghost'] }),
+            createMockProperty({ name: 'internalId', type: FigmaPropertyType.String }),
+          ],
+          slots: [{ name: 'icon', mapping: SlotMapping.Instance, doc: null }],
+        });
+        const options = createMockEmitterOptions({
+          figmaProperties: { components: { Button: { internalId: { skip: true }, variant: 'Style' } } },
+        });
+
+        const angular = emitter.emit({ model, options });
+        const react = new FigmaReactEmitter().emit({ model, options });
+
+        expect(getPropsSection(angular.content)).toBe(getPropsSection(react.content));
+        expect(angular.content).toContain("variant: figma.enum('Style', {");
+        expect(angular.content).not.toContain('internalId');
+      });
+
+      it('should include core sections for full output', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          tagName: 'my-button',
+          filePath: '/packages/components/src/components/button/button.component.ts',
+          componentDir: '/packages/components/src/components/button',
+          props: [createMockProperty({ name: 'disabled', type: FigmaPropertyType.Boolean })],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectGeneratedSectionMarkers(result.content);
+        expect(result.content).toContain("imports: [\"import { Button } from '../../../../dist/angular';\"],");
+      });
+    });
+
+    describe('import paths', () => {
+      it('should prefer the import resolver entry point over heuristics', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+        });
+        const importResolver = {
+          kind: ImportResolverKind.Package,
+          resolveComponentImport: jest.fn(),
+          resolveEntryImport: jest.fn(() => '@scope/ui/angular'),
+        };
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({ baseImportPath: '@ui/components', importResolver }),
+        });
+
+        expect(importResolver.resolveEntryImport).toHaveBeenCalledWith(model, 'angular');
+        expect(result.content).toContain("import { Button } from '@scope/ui/angular';");
+      });
+
+      it('should use the base import path when provided', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions({ baseImportPath: '@ui/components' }) });
+
+        expect(result.content).toContain("import { Button } from '@ui/components/dist/angular';");
+      });
+    });
+  });
+});
@@ -18,11 +18,24 @@
  * @fileoverview Tests for FigmaReactEmitter.
  */
 
-import { EmitterTarget, FigmaPropertyType, FileChangeStatus } from '../../src/core/types';
+import {
+  EmitterTarget,
+  FigmaPropertyType,
+  FileChangeStatus,
+  GeneratedSectionName,
+  ImportResolverKind,
+  OutputLayout,
+  SlotMapping,
+} from '../../src/core/types';
 import { FIGMA_PACKAGE_REACT } from '../../src/core/constants';
 import { FigmaReactEmitter } from '../../src/emitters/figma-react';
 import { expectContainsAll, expectContainsInOrder, expectGeneratedSectionMarkers } from '../helpers/assertions';
-import { createMockComponentModel, createMockEmitterOptions, createMockProperty } from '../helpers/fixtures';
+import {
+  createMockComponentModel,
+  createMockEmitterOptions,
+  createMockEvent,
+  createMockProperty,
+} from '../helpers/fixtures';
 
 describe('FigmaReactEmitter', () => {
   let emitter: FigmaReactEmitter;
@@ -58,10 +71,25 @@ describe('FigmaReactEmitter', () => {
         expect(result.content).toContain('figma.connect(');
         expect(result.content).toContain('<FIGMA_BUTTON_URL>');
         expect(result.content).toContain('props: {},');
-        expect(result.content).toContain('<ButtonComponent {...props} />');
+        expect(result.content).toContain('example: () => <ButtonComponent />,');
         expect(result.action).toBe(FileChangeStatus.Created);
       });
 
+      it('should use the mapped Figma URL when provided', () => {
+        const model = createMockComponentModel({
+          filePath: '/src/components/button/button.component.ts',
+          componentDir: '/src/components/button',
+        });
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({ figmaUrl: 'https://www.figma.com/design/abc?node-id=1-2' }),
+        });
+
+        expect(result.content).toContain("figma.connect('https://www.figma.com/design/abc?node-id=1-2', {");
+        expect(result.content).not.toContain('<FIGMA_BUTTON_URL>');
+      });
+
       it('should generate props section for component with properties', () => {
         const model = createMockComponentModel({
           tagName: 'my-button',
@@ -104,16 +132,149 @@ describe('FigmaReactEmitter', () => {
         expect(result.content).toContain('\'Ghost\': "ghost"');
       });
 
-      it('should generate JSX example with className and props spread', () => {
+      it('should document events with their handler props outside the connect config keys', () => {
+        const model = createMockComponentModel({
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          events: [
+            createMockEvent({ name: 'shown', reactHandler: 'onShown' }),
+            createMockEvent({ name: 'click', reactHandler: 'onClick' }),
+          ],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectContainsInOrder(result.content, [
+          '// END GENERATED: props',
+          '// BEGIN GENERATED: events',
+          '// Events dispatched by <TestComponent>; handle them with the matching handler props.',
+          '// @event click -> onClick',
+          '// @event shown -> onShown',
+          '// END GENERATED: events',
+          '// BEGIN GENERATED: example',
+        ]);
+        expect(result.content).not.toContain('events:');
+        expect(result.sections?.map((section) => section.name)).toEqual([
+          GeneratedSectionName.Props,
+          GeneratedSectionName.Events,
+          GeneratedSectionName.Example,
+        ]);
+      });
+
+      it('should generate JSX example with explicit camelCase attributes and handlers', () => {
         const model = createMockComponentModel({
           className: 'Button',
           filePath: '/src/button.component.ts',
           componentDir: '/src',
+          props: [
+            createMockProperty({ name: 'label', type: FigmaPropertyType.String }),
+            createMockProperty({ name: 'disabled', type: FigmaPropertyType.Boolean }),
+            createMockProperty({ name: 'icon-name', type: FigmaPropertyType.String }),
+          ],
+          events: [createMockEvent({ name: 'shown', reactHandler: 'onShown' })],
         });
 
         const result = emitter.emit({ model, options: createMockEmitterOptions() });
 
-        expect(result.content).toContain('<Button {...props} />');
+        expect(result.content).toContain(
+          [
+            '  example: props => (',
+            '    <Button',
+            '      disabled={props.disabled}',
+            "      iconName={props['icon-name']}",
+            '      label={props.label}',
+            '      onShown={() => {}}',
+            '    />',
+            '  ),',
+          ].join('\n'),
+        );
+        expect(result.content).not.toContain('{...props}');
+      });
+
+      it('should skip props missing from Figma in the props section and example', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          props: [
+            createMockProperty({ name: 'label', type: FigmaPropertyType.String }),
+            createMockProperty({ name: 'internalId', type: FigmaPropertyType.String }),
+          ],
+        });
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({
+            figmaProperties: { components: { Button: { internalId: { skip: true }, label: "Button's Label" } } },
+          }),
+        });
+
+        expect(result.content).toContain("label: figma.string('Button\\'s Label')");
+        expect(result.content).toContain('label={props.label}');
+        expect(result.content).not.toContain('internalId');
+      });
+
+      it('should render slots as JSX children mapped in props', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          props: [createMockProperty({ name: 'icon', type: FigmaPropertyType.String })],
+          slots: [
+            { name: '', mapping: SlotMapping.TextContent, doc: null },
+            { name: 'icon', mapping: SlotMapping.Instance, doc: null },
+          ],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectContainsAll(result.content, [
+          "children: figma.textContent('Content'),",
+          "iconSlot: figma.instance('Icon'),",
+          [
+            '  example: props => (',
+            '    <Button',
+            '      icon={props.icon}',
+            '    >',
+            '      {props.children}',
+            '      <span slot="icon">{props.iconSlot}</span>',
+            '    </Button>',
+            '  ),',
+          ].join('\n'),
+        ]);
+      });
+
+      it('should document CSS custom properties in a styling section after events', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          tagName: 'my-button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          cssProperties: [{ name: '--my-button-color', defaultValue: null, doc: null }],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectContainsInOrder(result.content, [
+          '  // END GENERATED: events',
+          '  // BEGIN GENERATED: styling',
+          '  // @cssproperty --my-button-color',
+          '  // END GENERATED: styling',
+          '  // BEGIN GENERATED: example',
+        ]);
+      });
+
+      it('should omit the props parameter when only events are rendered', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          events: [createMockEvent({ name: 'shown', reactHandler: 'onShown' })],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expect(result.content).toContain('example: () => (');
       });
 
       it('should include core sections for full output', () => {
@@ -140,8 +301,9 @@ describe('FigmaReactEmitter', () => {
         expectContainsAll(result.content, [
           "disabled: figma.boolean('Disabled')",
           "label: figma.string('Label')",
-          'example: props => {',
-          'return <Button {...props} />;',
+          'example: props => (',
+          'disabled={props.disabled}',
+          'label={props.label}',
         ]);
       });
     });
@@ -240,6 +402,51 @@ describe('FigmaReactEmitter', () => {
         expect(result.content).toContain("import { Button } from '../../../../dist/react';");
       });
 
+      it('should write to the configured output location and file name', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          tagName: 'my-button',
+          filePath: '/packages/components/src/components/button/button.component.ts',
+          componentDir: '/packages/components/src/components/button',
+        });
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({
+            fileName: '{name}.figma.tsx',
+            output: {
+              layout: OutputLayout.Mirrored,
+              outputDir: '/packages/components/figma',
+              sourceRoots: ['/packages/components/src'],
+            },
+          }),
+        });
+
+        expect(result.filePath).toBe('/packages/components/figma/components/button/button.figma.tsx');
+        expect(result.content).toContain("import { Button } from '../../../dist/react';");
+      });
+
+      it('should prefer the import resolver entry point over heuristics', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+        });
+        const importResolver = {
+          kind: ImportResolverKind.Package,
+          resolveComponentImport: jest.fn(),
+          resolveEntryImport: jest.fn(() => '@scope/ui/react'),
+        };
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({ baseImportPath: '@ui/components', importResolver }),
+        });
+
+        expect(importResolver.resolveEntryImport).toHaveBeenCalledWith(model, 'react');
+        expect(result.content).toContain("import { Button } from '@scope/ui/react';");
+      });
+
       it('should use custom import path when baseImportPath is provided', () => {
         const model = createMockComponentModel({
           className: 'Button',
@@ -0,0 +1,266 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for FigmaVueEmitter.
+ */
+
+import {
+  EmitterTarget,
+  FigmaPropertyType,
+  FileChangeStatus,
+  GeneratedSectionName,
+  ImportResolverKind,
+  OutputLayout,
+  SlotMapping,
+} from '../../src/core/types';
+import { FIGMA_PACKAGE_HTML } from '../../src/core/constants';
+import { FigmaVueEmitter } from '../../src/emitters/figma-vue';
+import { expectContainsAll, expectContainsInOrder, expectGeneratedSectionMarkers } from '../helpers/assertions';
+import {
+  createMockComponentModel,
+  createMockEmitterOptions,
+  createMockEvent,
+  createMockProperty,
+} from '../helpers/fixtures';
+
+describe('FigmaVueEmitter', () => {
+  let emitter: FigmaVueEmitter;
+
+  beforeEach(() => {
+    emitter = new FigmaVueEmitter();
+  });
+
+  describe('target', () => {
+    it('should return Vue target', () => {
+      expect(emitter.target).toBe(EmitterTarget.Vue);
+    });
+  });
+
+  describe('emit', () => {
+    describe('positive cases', () => {
+      it('should generate code connect file for minimal component', () => {
+        const model = createMockComponentModel({
+          className: 'ButtonComponent',
+          tagName: 'my-button',
+          filePath: '/src/components/button/button.component.ts',
+          componentDir: '/src/components/button',
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expect(result.filePath).toBe('/src/components/button/code-connect/button.vue.figma.ts');
+        expectContainsInOrder(result.content, [
+          '// @ts-ignore',
+          `import figma, { html } from '${FIGMA_PACKAGE_HTML}';`,
+          "figma.connect('<FIGMA_BUTTON_URL>', {",
+          'props: {},',
+          'example: () => html`<ButtonComponent></ButtonComponent>`,',
+          "imports: [\"import { ButtonComponent } from '../../../../dist/vue';\"],",
+          '});',
+        ]);
+        expect(result.action).toBe(FileChangeStatus.Created);
+      });
+
+      it('should render props as :prop bindings and events as @event listeners', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          props: [
+            createMockProperty({ name: 'label', type: FigmaPropertyType.String }),
+            createMockProperty({ name: 'disabled', type: FigmaPropertyType.Boolean }),
+            createMockProperty({ name: 'icon-name', type: FigmaPropertyType.String }),
+            createMockProperty({ name: 'size', type: FigmaPropertyType.Number }),
+          ],
+          events: [createMockEvent({ name: 'shown', reactHandler: 'onShown' })],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectContainsAll(result.content, [
+          "disabled: figma.boolean('Disabled')",
+          "label: figma.string('Label')",
+          [
+            'example: props => html`<Button',
+            '    :disabled="${props.disabled}"',
+            "    :iconName=\"'${props['icon-name']}'\"",
+            "    :label=\"'${props.label}'\"",
+            '    :size="${props.size}"',
+            '    @shown="() => {}"',
+            '  ></Button>`,',
+          ].join('\n'),
+        ]);
+      });
+
+      it('should document events with Vue listener syntax', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          events: [createMockEvent({ name: 'shown', reactHandler: 'onShown' })],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectContainsInOrder(result.content, [
+          '// END GENERATED: props',
+          '// BEGIN GENERATED: events',
+          '// Events dispatched by <Button>; listen with @<event>="handler".',
+          '// @event shown',
+          '// END GENERATED: events',
+          '// BEGIN GENERATED: example',
+          'example: () => html`<Button',
+        ]);
+        expect(result.sections?.map((section) => section.name)).toEqual([
+          GeneratedSectionName.Props,
+          GeneratedSectionName.Events,
+          GeneratedSectionName.Example,
+        ]);
+      });
+
+      it('should render the default slot as content and named slots through v-slot', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          props: [createMockProperty({ name: 'icon', type: FigmaPropertyType.String })],
+          slots: [
+            { name: '', mapping: SlotMapping.TextContent, doc: null },
+            { name: 'icon', mapping: SlotMapping.Instance, doc: null },
+          ],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectContainsAll(result.content, [
+          "children: figma.textContent('Content'),",
+          "iconSlot: figma.instance('Icon'),",
+          [
+            'example: props => html`<Button',
+            "    :icon=\"'${props.icon}'\"",
+            '  >',
+            '    ${props.children}',
+            '    <template v-slot:icon>${props.iconSlot}</template>',
+            '  </Button>`,',
+          ].join('\n'),
+        ]);
+      });
+
+      it('should skip props missing from Figma in the props section and example', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          props: [
+            createMockProperty({ name: 'label', type: FigmaPropertyType.String }),
+            createMockProperty({ name: 'internalId', type: FigmaPropertyType.String }),
+          ],
+        });
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({
+            figmaProperties: { components: { Button: { internalId: { skip: true } } } },
+          }),
+        });
+
+        expect(result.content).toContain(":label=\"'${props.label}'\"");
+        expect(result.content).not.toContain('internalId');
+      });
+
+      it('should include core sections for full output', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          tagName: 'my-button',
+          filePath: '/packages/components/src/components/button/button.component.ts',
+          componentDir: '/packages/components/src/components/button',
+          props: [createMockProperty({ name: 'disabled', type: FigmaPropertyType.Boolean })],
+          cssProperties: [{ name: '--my-button-color', defaultValue: null, doc: null }],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectGeneratedSectionMarkers(result.content);
+        expectContainsInOrder(result.content, [
+          '// BEGIN GENERATED: styling',
+          '// @cssproperty --my-button-color',
+          '// END GENERATED: styling',
+          '// BEGIN GENERATED: example',
+          "imports: [\"import { Button } from '../../../../dist/vue';\"],",
+        ]);
+      });
+    });
+
+    describe('import paths', () => {
+      it('should prefer the import resolver entry point over heuristics', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+        });
+        const importResolver = {
+          kind: ImportResolverKind.Package,
+          resolveComponentImport: jest.fn(),
+          resolveEntryImport: jest.fn(() => '@scope/ui/vue'),
+        };
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({ baseImportPath: '@ui/components', importResolver }),
+        });
+
+        expect(importResolver.resolveEntryImport).toHaveBeenCalledWith(model, 'vue');
+        expect(result.content).toContain("import { Button } from '@scope/ui/vue';");
+      });
+
+      it('should use the base import path when provided', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions({ baseImportPath: '@ui/components' }) });
+
+        expect(result.content).toContain("import { Button } from '@ui/components/dist/vue';");
+      });
+
+      it('should write to the configured output location and file name', () => {
+        const model = createMockComponentModel({
+          className: 'Button',
+          filePath: '/packages/components/src/components/button/button.component.ts',
+          componentDir: '/packages/components/src/components/button',
+        });
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({
+            fileName: '{name}.figma.ts',
+            output: {
+              layout: OutputLayout.Mirrored,
+              outputDir: '/packages/components/figma',
+              sourceRoots: ['/packages/components/src'],
+            },
+          }),
+        });
+
+        expect(result.filePath).toBe('/packages/components/figma/components/button/button.figma.ts');
+        expect(result.content).toContain("import { Button } from '../../../dist/vue';");
+      });
+    });
+  });
+});
@@ -18,7 +18,15 @@
  * @fileoverview Tests for FigmaWebComponentEmitter.
  */
 
-import { EmitterTarget, FigmaPropertyType, FileChangeStatus } from '../../src/core/types';
+import {
+  EmitterTarget,
+  FigmaPropertyType,
+  FileChangeStatus,
+  GeneratedSectionName,
+  ImportResolverKind,
+  OutputLayout,
+  SlotMapping,
+} from '../../src/core/types';
 import { FIGMA_PACKAGE_HTML } from '../../src/core/constants';
 import { FigmaWebComponentEmitter } from '../../src/emitters/figma-webcomponent';
 import { expectContainsAll, expectContainsInOrder, expectGeneratedSectionMarkers } from '../helpers/assertions';
@@ -26,6 +34,7 @@ import {
   createMockAttribute,
   createMockComponentModel,
   createMockEmitterOptions,
+  createMockEvent,
   createMockProperty,
 } from '../helpers/fixtures';
 
@@ -67,6 +76,135 @@ describe('FigmaWebComponentEmitter', () => {
         expect(result.action).toBe(FileChangeStatus.Created);
       });
 
+      it('should map slots in props and render them in the example', () => {
+        const model = createMockComponentModel({
+          tagName: 'my-button',
+          filePath: '/src/components/button/button.component.ts',
+          componentDir: '/src/components/button',
+          attributes: [createMockAttribute({ name: 'variant', propertyName: 'variant' })],
+          props: [createMockProperty({ name: 'variant', type: FigmaPropertyType.String })],
+          slots: [
+            { name: 'icon', mapping: SlotMapping.Instance, doc: null },
+            { name: '', mapping: SlotMapping.TextContent, doc: null },
+          ],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectContainsAll(result.content, ["children: figma.textContent('Content'),", "icon: figma.instance('Icon'),"]);
+        expect(result.content).toContain(
+          [
+            '  example: props => html`<my-button',
+            '    variant="${props.variant}"',
+            '  >',
+            '    ${props.children}',
+            '    <span slot="icon">${props.icon}</span>',
+            '  </my-button>`,',
+          ].join('\n'),
+        );
+      });
+
+      it('should render slot-only components with an opening tag', () => {
+        const model = createMockComponentModel({
+          tagName: 'my-card',
+          filePath: '/src/components/card/card.component.ts',
+          componentDir: '/src/components/card',
+          slots: [{ name: 'body', mapping: SlotMapping.Children, doc: null }],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expect(result.content).toContain("body: figma.children('Body'),");
+        expect(result.content).toContain('example: props => html`<my-card>\n    <div slot="body">${props.body}</div>\n  </my-card>`,');
+      });
+
+      it('should document events in an events section above the example', () => {
+        const model = createMockComponentModel({
+          tagName: 'my-button',
+          filePath: '/src/components/button/button.component.ts',
+          componentDir: '/src/components/button',
+          events: [createMockEvent({ name: 'shown', detailType: '{ visible: boolean }' })],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectContainsInOrder(result.content, [
+          '// END GENERATED: props',
+          '// BEGIN GENERATED: events',
+          "// Events dispatched by <my-button>; listen with addEventListener('<event>', handler).",
+          '// @event shown (detail: { visible: boolean })',
+          '// END GENERATED: events',
+          '// BEGIN GENERATED: example',
+        ]);
+      });
+
+      it('should document CSS custom properties and parts in a styling section', () => {
+        const model = createMockComponentModel({
+          tagName: 'my-button',
+          filePath: '/src/components/button/button.component.ts',
+          componentDir: '/src/components/button',
+          cssProperties: [{ name: '--my-button-color', defaultValue: '#fff', doc: 'Text color' }],
+          cssParts: [{ name: 'label', doc: null }],
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expectContainsInOrder(result.content, [
+          '// END GENERATED: events',
+          '// BEGIN GENERATED: styling',
+          '// Styling hooks exposed by <my-button>; link custom properties to the matching Figma variables.',
+          '// @cssproperty --my-button-color (default: #fff) - Text color',
+          '// @csspart label',
+          '// END GENERATED: styling',
+          '// BEGIN GENERATED: example',
+        ]);
+        expect(result.sections?.map((section) => section.name)).toContain(GeneratedSectionName.Styling);
+      });
+
+      it('should omit the styling section when the component has no styling hooks', () => {
+        const model = createMockComponentModel({
+          filePath: '/src/components/button/button.component.ts',
+          componentDir: '/src/components/button',
+        });
+
+        const result = emitter.emit({ model, options: createMockEmitterOptions() });
+
+        expect(result.content).not.toContain('GENERATED: styling');
+        expect(result.sections?.map((section) => section.name)).not.toContain(GeneratedSectionName.Styling);
+      });
+
+      it('should use the mapped Figma URL when provided', () => {
+        const model = createMockComponentModel({
+          filePath: '/src/components/button/button.component.ts',
+          componentDir: '/src/components/button',
+        });
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({ figmaUrl: 'https://www.figma.com/design/abc?node-id=1-2' }),
+        });
+
+        expect(result.content).toContain("figma.connect('https://www.figma.com/design/abc?node-id=1-2', {");
+        expect(result.content).not.toContain('<FIGMA_BUTTON_URL>');
+      });
+
+      it('should write to the configured output location and file name', () => {
+        const model = createMockComponentModel({
+          filePath: '/src/components/button/button.component.ts',
+          componentDir: '/src/components/button',
+        });
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({
+            fileName: '{name}.figma.ts',
+            output: { layout: OutputLayout.Flat, outputDir: '/figma' },
+          }),
+        });
+
+        expect(result.filePath).toBe('/figma/button.figma.ts');
+      });
+
       it('should generate props section for component with properties', () => {
         const model = createMockComponentModel({
           tagName: 'my-button',
@@ -109,6 +247,45 @@ describe('FigmaWebComponentEmitter', () => {
         expect(result.content).toContain('\'Ghost\': "ghost"');
       });
 
+      it('should apply configured Figma property names and skip props missing from Figma', () => {
+        const model = createMockComponentModel({
+          tagName: 'my-button',
+          className: 'MyButton',
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          props: [
+            createMockProperty({ name: 'size', type: FigmaPropertyType.Enum, enumValues: ['sm', 'lg'] }),
+            createMockProperty({ name: 'hasIcon', type: FigmaPropertyType.Boolean }),
+            createMockProperty({ name: 'disabled', type: FigmaPropertyType.Boolean }),
+            createMockProperty({ name: 'debug', type: FigmaPropertyType.Boolean }),
+          ],
+          attributes: [
+            createMockAttribute({ name: 'debug', propertyName: 'debug', type: FigmaPropertyType.Boolean }),
+            createMockAttribute({ name: 'disabled', propertyName: 'disabled', type: FigmaPropertyType.Boolean }),
+          ],
+        });
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({
+            figmaProperties: {
+              props: { hasIcon: 'Has Icon?', size: { values: { sm: 'Small' } }, disabled: 'Disabled' },
+              components: {
+                'my-button': { debug: { skip: true }, disabled: 'State / Disabled' },
+                MyButton: { hasIcon: 'Ignored' },
+              },
+            },
+          }),
+        });
+
+        expect(result.content).toContain("hasIcon: figma.boolean('Has Icon?')");
+        expect(result.content).toContain("disabled: figma.boolean('State / Disabled')");
+        expect(result.content).toContain("size: figma.enum('Size', {");
+        expect(result.content).toContain('\'Small\': "sm"');
+        expect(result.content).toContain('\'Lg\': "lg"');
+        expect(result.content).not.toContain('debug');
+      });
+
       it('should generate example template with attribute bindings', () => {
         const model = createMockComponentModel({
           tagName: 'my-button',
@@ -156,6 +333,26 @@ describe('FigmaWebComponentEmitter', () => {
         expect(result.content).toContain('imports: ["import \'@custom/components/button\';"]');
       });
 
+      it('should import the specifier from the import resolver when it resolves one', () => {
+        const model = createMockComponentModel({
+          filePath: '/src/button.component.ts',
+          componentDir: '/src',
+          importPath: 'button',
+        });
+        const importResolver = {
+          kind: ImportResolverKind.Package,
+          resolveComponentImport: jest.fn(() => '@scope/ui/button'),
+          resolveEntryImport: jest.fn(),
+        };
+
+        const result = emitter.emit({
+          model,
+          options: createMockEmitterOptions({ baseImportPath: '@custom/components', importResolver }),
+        });
+
+        expect(result.content).toContain('imports: ["import \'@scope/ui/button\';"]');
+      });
+
       it('should include core sections for full output', () => {
         const model = createMockComponentModel({
           className: 'Button',
@@ -22,8 +22,10 @@
 
 import { GENERATED_SECTION_MARKERS } from '../../src/core/constants';
 import {
+  buildEventDocsSection,
   buildEventsSection,
   buildPropsSection,
+  buildReactEventDocsSection,
   formatPropAccessor,
   formatPropKey,
   getComponentBaseName,
@@ -380,3 +382,49 @@ describe('file payload builders', () => {
     expect(result.warnings).toEqual([]);
   });
 });
+
+describe('buildEventDocsSection', () => {
+  it('should document each event with its detail type', () => {
+    const events: IEventDescriptor[] = [
+      { name: 'shown', reactHandler: 'onShown', detailType: null },
+      { name: 'change', reactHandler: 'onChange', detailType: '{\n  value: string;\n}' },
+    ];
+
+    expect(buildEventDocsSection('my-tag', events)).toEqual([
+      "// Events dispatched by <my-tag>; listen with addEventListener('<event>', handler).",
+      '// @event change (detail: { value: string; })',
+      '// @event shown',
+    ]);
+  });
+
+  it('should note when the component dispatches no events', () => {
+    expect(buildEventDocsSection('my-tag', [])).toEqual(['// <my-tag> dispatches no custom events.']);
+  });
+
+  it('should describe a framework listener syntax when provided', () => {
+    const events: IEventDescriptor[] = [{ name: 'shown', reactHandler: 'onShown', detailType: null }];
+
+    expect(buildEventDocsSection('Button', events, '@<event>="handler"')[0]).toBe(
+      '// Events dispatched by <Button>; listen with @<event>="handler".',
+    );
+  });
+});
+
+describe('buildReactEventDocsSection', () => {
+  it('should document each event with its handler prop and detail type', () => {
+    const events: IEventDescriptor[] = [
+      { name: 'shown', reactHandler: 'onShown', detailType: null },
+      { name: 'change', reactHandler: 'onChange', detailType: '{\n  value: string;\n}' },
+    ];
+
+    expect(buildReactEventDocsSection('Button', events)).toEqual([
+      '// Events dispatched by <Button>; handle them with the matching handler props.',
+      '// @event change -> onChange (detail: { value: string; })',
+      '// @event shown -> onShown',
+    ]);
+  });
+
+  it('should note when the component dispatches no events', () => {
+    expect(buildReactEventDocsSection('Button', [])).toEqual(['// <Button> dispatches no custom events.']);
+  });
+});
@@ -91,6 +91,9 @@ export const createMockComponentModel = (overrides?: Partial<IComponentModel>):
   props: [],
   attributes: [],
   events: [],
+  slots: [],
+  cssProperties: [],
+  cssParts: [],
   importPath: '@test/components',
   ...overrides,
 });
@@ -30,6 +30,7 @@ const outputRoot = path.join(packageRoot, '__tests__', '__output__', 'connect-cl
 const outputFixturesRoot = path.join(outputRoot, '__fixtures__');
 const outputComponentsRoot = path.join(outputFixturesRoot, 'components');
 const tsconfigPath = path.join(outputRoot, 'tsconfig.json');
+const projectConfigPath = path.join(outputRoot, 'figma-connecter.config.json');
 
 const writeTsconfig = (): void => {
   const tsconfig = {
@@ -45,11 +46,20 @@ const writeTsconfig = (): void => {
   fs.writeFileSync(tsconfigPath, JSON.stringify(tsconfig, null, 2), 'utf8');
 };
 
+const writeProjectConfig = (): void => {
+  const projectConfig = {
+    tsconfig: './tsconfig.json',
+    strict: true,
+  };
+  fs.writeFileSync(projectConfigPath, JSON.stringify(projectConfig, null, 2), 'utf8');
+};
+
 const prepareOutput = (): void => {
   fs.rmSync(outputRoot, { recursive: true, force: true });
   fs.mkdirSync(outputRoot, { recursive: true });
   fs.cpSync(fixturesRoot, outputFixturesRoot, { recursive: true });
   writeTsconfig();
+  writeProjectConfig();
 };
 
 const collectGeneratedFiles = (): Record<string, string> => {
@@ -95,7 +105,7 @@ describe('figma-connecter CLI integration', () => {
       'figma-connecter',
       '--quiet',
       '--config',
-      tsconfigPath,
+      projectConfigPath,
       'connect',
       '--path',
       outputComponentsRoot,
@@ -130,7 +140,8 @@ describe('figma-connecter CLI integration', () => {
       expectGeneratedSectionMarkers(content);
 
       if (relativePath.endsWith('.react.figma.tsx')) {
-        expectContainsAll(content, ["import figma from '@figma/code-connect';", 'example: props => {']);
+        expectContainsAll(content, ["import figma from '@figma/code-connect';", 'example:']);
+        expect(content).not.toContain('{...props}');
       } else {
         expect(content).toContain("import figma, { html } from '@figma/code-connect/html';");
         expect(content).toContain('example:');
@@ -0,0 +1,139 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview Tests for reading and preserving hand-edited connect file state.
+ */
+
+import {
+  extractConnectFileState,
+  isFigmaUrlPlaceholder,
+  preserveConnectFileState,
+  setConnectFileUrl,
+} from '../../src/io/connect-file';
+
+describe('connect file', () => {
+  const filePath = 'button.webcomponent.figma.ts';
+  const existing = [
+    "import figma, { html } from '@figma/code-connect/html';",
+    '',
+    "figma.connect('https://figma.com/design/abc?node-id=1-2', {",
+    '  // BEGIN GENERATED: props',
+    '  props: {},',
+    '  // END GENERATED: props',
+    '  // Hand-tuned variant mapping',
+    "  variant: { State: 'Hover' },",
+    "  links: [{ name: 'Docs', url: 'https://example.com' }],",
+    '});',
+    '',
+  ].join('\n');
+  const generated = [
+    "import figma, { html } from '@figma/code-connect/html';",
+    '',
+    "figma.connect('<FIGMA_BUTTON_URL>', {",
+    '  // BEGIN GENERATED: props',
+    "  props: { label: figma.string('Label') },",
+    '  // END GENERATED: props',
+    '  example: () => html`<mdc-button></mdc-button>`,',
+    '});',
+    '',
+  ].join('\n');
+
+  describe('extractConnectFileState', () => {
+    it('should read the URL and named options', () => {
+      const state = extractConnectFileState(existing, filePath);
+
+      expect(state?.url).toBe('https://figma.com/design/abc?node-id=1-2');
+      expect(state?.options.map((option) => option.name)).toEqual(['props', 'variant', 'links']);
+      expect(state?.options[1].text).toBe("  // Hand-tuned variant mapping\n  variant: { State: 'Hover' }");
+    });
+
+    it('should drop generated markers from carried comments', () => {
+      const state = extractConnectFileState(existing, filePath);
+
+      expect(state?.options[0].text).toBe('  props: {}');
+    });
+
+    it('should return null when there is no connect call', () => {
+      expect(extractConnectFileState('export const value = 1;', filePath)).toBeNull();
+    });
+
+    it('should read React connect calls with a component argument', () => {
+      const content = "figma.connect(Button, 'https://figma.com/react', { props: {} });";
+
+      expect(extractConnectFileState(content, 'button.react.figma.tsx')?.url).toBe('https://figma.com/react');
+    });
+  });
+
+  describe('isFigmaUrlPlaceholder', () => {
+    it('should detect emitter placeholders', () => {
+      expect(isFigmaUrlPlaceholder('<FIGMA_BUTTON_URL>')).toBe(true);
+      expect(isFigmaUrlPlaceholder('https://figma.com/button')).toBe(false);
+    });
+  });
+
+  describe('preserveConnectFileState', () => {
+    it('should keep the existing URL and append options the emitter does not produce', () => {
+      const result = preserveConnectFileState(existing, generated, filePath);
+
+      expect(result).toBe(
+        [
+          "import figma, { html } from '@figma/code-connect/html';",
+          '',
+          "figma.connect('https://figma.com/design/abc?node-id=1-2', {",
+          '  // BEGIN GENERATED: props',
+          "  props: { label: figma.string('Label') },",
+          '  // END GENERATED: props',
+          '  example: () => html`<mdc-button></mdc-button>`,',
+          '  // Hand-tuned variant mapping',
+          "  variant: { State: 'Hover' },",
+          "  links: [{ name: 'Docs', url: 'https://example.com' }],",
+          '});',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should prefer the mapped URL over the existing URL', () => {
+      const result = preserveConnectFileState(existing, generated, filePath, 'https://figma.com/mapped');
+
+      expect(result).toContain("figma.connect('https://figma.com/mapped', {");
+    });
+
+    it('should not carry placeholder URLs', () => {
+      const placeholder = existing.replace('https://figma.com/design/abc?node-id=1-2', '<FIGMA_OLD_URL>');
+
+      expect(preserveConnectFileState(placeholder, generated, filePath)).toContain(
+        "figma.connect('<FIGMA_BUTTON_URL>', {",
+      );
+    });
+
+    it('should return the generated content when the existing file has no connect call', () => {
+      expect(preserveConnectFileState('// manual notes', generated, filePath)).toBe(generated);
+    });
+  });
+
+  describe('setConnectFileUrl', () => {
+    it('should replace and escape the URL literal', () => {
+      const result = setConnectFileUrl(generated, filePath, "https://figma.com/it's");
+
+      expect(result).toContain("figma.connect('https://figma.com/it\\'s', {");
+    });
+
+    it('should leave content without a connect call unchanged', () => {
+      expect(setConnectFileUrl('const x = 1;', filePath, 'https://figma.com')).toBe('const x = 1;');
+    });
+  });
+});
@@ -25,6 +25,7 @@ import path from 'node:path';
 import {
   COMPONENT_SUFFIX,
   DEFAULT_EXCLUDE_DIRS,
+  deriveComponentName,
   discoverComponentFiles,
   isComponentFile,
 } from '../../src/io/file-discovery';
@@ -306,6 +307,118 @@ describe('discoverComponentFiles', () => {
   });
 });
 
+describe('discoverComponentFiles with discovery patterns', () => {
+  let tempDir: string;
+
+  /**
+   * Writes a file below the temp directory, creating parent directories.
+   */
+  const writeFile = (relativePath: string, content = ''): void => {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf8');
+  };
+
+  /**
+   * Lists discovered paths relative to the temp directory.
+   */
+  const relativePaths = (files: readonly { filePath: string }[]): string[] =>
+    files.map((file) => path.relative(tempDir, file.filePath).split(path.sep).join('/'));
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'figma-connecter-discovery-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should select files with custom include patterns', () => {
+    writeFile('button.element.ts');
+    writeFile('components/card/index.ts');
+    writeFile('components/card/card.js');
+    writeFile('utils/helpers.ts');
+
+    const result = discoverComponentFiles(tempDir, {
+      recursive: true,
+      include: ['**/*.element.ts', 'components/*/*.js'],
+    });
+
+    expect(relativePaths(result)).toEqual(['button.element.ts', 'components/card/card.js']);
+    expect(result.map((file) => file.componentName)).toEqual(['button', 'card']);
+  });
+
+  it('should skip files and directories matching exclude patterns', () => {
+    writeFile('button.component.ts');
+    writeFile('legacy/old.component.ts');
+    writeFile('card.stories.component.ts');
+
+    const result = discoverComponentFiles(tempDir, {
+      recursive: true,
+      exclude: ['legacy/', '*.stories.*'],
+    });
+
+    expect(relativePaths(result)).toEqual(['button.component.ts']);
+  });
+
+  it('should honor .gitignore files found while scanning', () => {
+    writeFile('.gitignore', 'generated/\n*.draft.component.ts\n');
+    writeFile('button.component.ts');
+    writeFile('card.draft.component.ts');
+    writeFile('generated/icon.component.ts');
+    writeFile('nested/.gitignore', '!*.draft.component.ts\n');
+    writeFile('nested/menu.draft.component.ts');
+
+    const result = discoverComponentFiles(tempDir, { recursive: true });
+
+    expect(relativePaths(result)).toEqual(['button.component.ts', 'nested/menu.draft.component.ts']);
+  });
+
+  it('should ignore .gitignore files when disabled', () => {
+    writeFile('.gitignore', 'generated/\n');
+    writeFile('generated/icon.component.ts');
+
+    const result = discoverComponentFiles(tempDir, { recursive: true, gitignore: false });
+
+    expect(relativePaths(result)).toEqual(['generated/icon.component.ts']);
+  });
+
+  it('should merge and deduplicate files from multiple roots', () => {
+    writeFile('a/button.component.ts');
+    writeFile('b/card.component.ts');
+
+    const result = discoverComponentFiles(
+      [path.join(tempDir, 'b'), path.join(tempDir, 'a'), path.join(tempDir, 'a', 'button.component.ts')],
+    );
+
+    expect(relativePaths(result)).toEqual(['a/button.component.ts', 'b/card.component.ts']);
+  });
+
+  it('should match file inputs against include patterns', () => {
+    writeFile('button.element.ts');
+
+    const result = discoverComponentFiles(path.join(tempDir, 'button.element.ts'), {
+      include: ['**/*.element.ts'],
+    });
+
+    expect(result.map((file) => file.componentName)).toEqual(['button']);
+  });
+});
+
+describe('deriveComponentName', () => {
+  it('should use the default component suffix', () => {
+    expect(deriveComponentName('src/button/button.component.ts')).toBe('button');
+  });
+
+  it('should use the text matched by the last wildcard of the matching pattern', () => {
+    expect(deriveComponentName('components/card/index.ts', ['components/*/index.ts'])).toBe('card');
+  });
+
+  it('should fall back to the file name before its first dot', () => {
+    expect(deriveComponentName('src/tooltip.view.ts', ['src/tooltip.view.ts'])).toBe('tooltip');
+  });
+});
+
 describe('constants', () => {
   it('should export expected COMPONENT_SUFFIX', () => {
     expect(COMPONENT_SUFFIX).toBe('.component.ts');
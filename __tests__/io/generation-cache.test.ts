@@ -0,0 +1,144 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for the incremental regeneration cache.
+ */
+
+import path from 'node:path';
+
+import { createMemoryIoAdapter } from '../../src/io/adapter';
+import {
+  createEmptyGenerationCache,
+  createGenerationCacheEntry,
+  GENERATION_CACHE_VERSION,
+  hashContent,
+  isGenerationCacheEntryFresh,
+  loadGenerationCache,
+  saveGenerationCache,
+} from '../../src/io/generation-cache';
+
+describe('generation cache', () => {
+  const root = path.resolve('/repo');
+  const cachePath = path.join(root, '.figma-connecter', 'cache.json');
+  const componentPath = path.join(root, 'src', 'button.component.ts');
+  const basePath = path.join(root, 'src', 'base.ts');
+  const outputPath = path.join(root, 'src', 'code-connect', 'button.webcomponent.figma.ts');
+
+  const createIo = () =>
+    createMemoryIoAdapter({
+      [componentPath]: 'export class Button extends Base {}',
+      [basePath]: 'export class Base {}',
+      [outputPath]: 'figma.connect()',
+    });
+
+  describe('createGenerationCacheEntry', () => {
+    it('should hash existing inputs and outputs', () => {
+      const entry = createGenerationCacheEntry(
+        'config',
+        [componentPath, basePath, path.join(root, 'missing.ts')],
+        [outputPath],
+        createIo(),
+      );
+
+      expect(entry).toEqual({
+        configHash: 'config',
+        inputs: {
+          [componentPath]: hashContent('export class Button extends Base {}'),
+          [basePath]: hashContent('export class Base {}'),
+        },
+        outputs: { [outputPath]: hashContent('figma.connect()') },
+      });
+    });
+  });
+
+  describe('isGenerationCacheEntryFresh', () => {
+    it('should accept entries whose settings and files are unchanged', () => {
+      const io = createIo();
+      const entry = createGenerationCacheEntry('config', [componentPath, basePath], [outputPath], io);
+
+      expect(isGenerationCacheEntryFresh(entry, 'config', io)).toBe(true);
+    });
+
+    it('should reject entries with different settings', () => {
+      const io = createIo();
+      const entry = createGenerationCacheEntry('config', [componentPath], [outputPath], io);
+
+      expect(isGenerationCacheEntryFresh(entry, 'other', io)).toBe(false);
+    });
+
+    it('should reject entries whose inherited files changed', () => {
+      const io = createIo();
+      const entry = createGenerationCacheEntry('config', [componentPath, basePath], [outputPath], io);
+      io.writeFile(basePath, 'export class Base { size = 1; }');
+
+      expect(isGenerationCacheEntryFresh(entry, 'config', io)).toBe(false);
+    });
+
+    it('should reject entries whose outputs were edited or removed', () => {
+      const io = createIo();
+      const entry = createGenerationCacheEntry('config', [componentPath], [outputPath], io);
+      io.writeFile(outputPath, 'figma.connect("edited")');
+
+      expect(isGenerationCacheEntryFresh(entry, 'config', io)).toBe(false);
+      expect(isGenerationCacheEntryFresh(entry, 'config', createMemoryIoAdapter({ [componentPath]: 'x' }))).toBe(false);
+    });
+
+    it('should reject entries without outputs', () => {
+      const io = createIo();
+      const entry = createGenerationCacheEntry('config', [componentPath], [], io);
+
+      expect(isGenerationCacheEntryFresh(entry, 'config', io)).toBe(false);
+    });
+  });
+
+  describe('loadGenerationCache', () => {
+    it('should round-trip a saved cache', () => {
+      const io = createIo();
+      const cache = {
+        ...createEmptyGenerationCache('1.0.0'),
+        entries: { [componentPath]: createGenerationCacheEntry('config', [componentPath], [outputPath], io) },
+      };
+
+      saveGenerationCache(cachePath, cache, io);
+
+      expect(loadGenerationCache(cachePath, '1.0.0', io)).toEqual(cache);
+    });
+
+    it('should return an empty cache when the file is missing or invalid', () => {
+      const empty = createEmptyGenerationCache('1.0.0');
+
+      expect(loadGenerationCache(cachePath, '1.0.0', createIo())).toEqual(empty);
+      expect(loadGenerationCache(cachePath, '1.0.0', createMemoryIoAdapter({ [cachePath]: '{ nope' }))).toEqual(empty);
+      expect(loadGenerationCache(cachePath, '1.0.0', createMemoryIoAdapter({ [cachePath]: '[]' }))).toEqual(empty);
+    });
+
+    it('should discard caches written by another tool or format version', () => {
+      const io = createIo();
+      saveGenerationCache(cachePath, { ...createEmptyGenerationCache('1.0.0'), entries: { a: {} as never } }, io);
+
+      expect(loadGenerationCache(cachePath, '2.0.0', io).entries).toEqual({});
+
+      saveGenerationCache(
+        cachePath,
+        { version: GENERATION_CACHE_VERSION + 1, toolVersion: '1.0.0', entries: { a: {} as never } },
+        io,
+      );
+
+      expect(loadGenerationCache(cachePath, '1.0.0', io).entries).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for listing files changed since a git ref.
+ */
+
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { listGitChangedFiles } from '../../src/io/git-changes';
+
+describe('listGitChangedFiles', () => {
+  let repoDir: string;
+
+  const git = (...args: string[]): void => {
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repoDir,
+      stdio: 'ignore',
+    });
+  };
+  const writeFile = (relativePath: string, content: string): void => {
+    const filePath = path.join(repoDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf8');
+  };
+
+  beforeEach(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'figma-connecter-git-')));
+    git('init', '--quiet');
+    writeFile('src/base.ts', 'export class Base {}');
+    writeFile('src/button/button.component.ts', 'export class Button {}');
+    git('add', '.');
+    git('commit', '--quiet', '-m', 'initial');
+    git('tag', 'baseline');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should list committed, uncommitted, and untracked changes as absolute paths', () => {
+    writeFile('src/base.ts', 'export class Base { size = 1; }');
+    git('commit', '--quiet', '-am', 'change base');
+    writeFile('src/button/button.component.ts', 'export class Button extends Base {}');
+    writeFile('src/card/card.component.ts', 'export class Card {}');
+
+    const changed = listGitChangedFiles('baseline', path.join(repoDir, 'src', 'button'));
+
+    expect([...changed].sort()).toEqual(
+      [
+        path.join(repoDir, 'src', 'base.ts'),
+        path.join(repoDir, 'src', 'button', 'button.component.ts'),
+        path.join(repoDir, 'src', 'card', 'card.component.ts'),
+      ].sort(),
+    );
+  });
+
+  it('should return an empty list when nothing changed', () => {
+    expect(listGitChangedFiles('baseline', repoDir)).toEqual([]);
+  });
+
+  it('should throw for unknown refs', () => {
+    expect(() => listGitChangedFiles('missing-ref', repoDir)).toThrow(
+      'Failed to list files changed since missing-ref',
+    );
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for .gitignore parsing and matching.
+ */
+
+import { isGitignored, parseGitignore } from '../../src/io/gitignore';
+
+describe('parseGitignore', () => {
+  it('should skip blank lines and comments', () => {
+    expect(parseGitignore('\n# comment\n\n', '/repo')).toEqual([]);
+  });
+
+  it('should parse negated and directory-only rules', () => {
+    const [ignored, negated] = parseGitignore('build/\n!keep.ts\n', '/repo');
+
+    expect(ignored).toMatchObject({ baseDir: '/repo', negated: false, directoryOnly: true });
+    expect(negated).toMatchObject({ baseDir: '/repo', negated: true, directoryOnly: false });
+  });
+});
+
+describe('isGitignored', () => {
+  it('should match unanchored patterns at any depth', () => {
+    const rules = parseGitignore('*.generated.ts\n', '/repo');
+
+    expect(isGitignored(rules, '/repo/src/a/button.generated.ts', false)).toBe(true);
+    expect(isGitignored(rules, '/repo/src/a/button.ts', false)).toBe(false);
+  });
+
+  it('should anchor patterns that contain a slash', () => {
+    const rules = parseGitignore('/out\nsrc/tmp\n', '/repo');
+
+    expect(isGitignored(rules, '/repo/out', true)).toBe(true);
+    expect(isGitignored(rules, '/repo/src/out', true)).toBe(false);
+    expect(isGitignored(rules, '/repo/src/tmp', true)).toBe(true);
+  });
+
+  it('should apply directory-only rules to directories only', () => {
+    const rules = parseGitignore('cache/\n', '/repo');
+
+    expect(isGitignored(rules, '/repo/cache', true)).toBe(true);
+    expect(isGitignored(rules, '/repo/cache', false)).toBe(false);
+  });
+
+  it('should let later negated rules re-include paths', () => {
+    const rules = parseGitignore('*.ts\n!keep.ts\n', '/repo');
+
+    expect(isGitignored(rules, '/repo/drop.ts', false)).toBe(true);
+    expect(isGitignored(rules, '/repo/keep.ts', false)).toBe(false);
+  });
+
+  it('should ignore rules for paths outside their base directory', () => {
+    const rules = parseGitignore('*.ts\n', '/repo/packages');
+
+    expect(isGitignored(rules, '/repo/index.ts', false)).toBe(false);
+  });
+});
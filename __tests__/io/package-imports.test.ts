@@ -0,0 +1,90 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for the package.json import resolver.
+ */
+
+import { ImportResolverKind } from '../../src/core/types';
+import { createMemoryIoAdapter } from '../../src/io/adapter';
+import { createPackageImportResolver } from '../../src/io/package-imports';
+import { createMockComponentModel } from '../helpers/fixtures';
+
+describe('createPackageImportResolver', () => {
+  const buttonModel = createMockComponentModel({
+    filePath: '/repo/packages/ui/src/components/button/button.component.ts',
+    componentDir: '/repo/packages/ui/src/components/button',
+  });
+
+  /**
+   * Creates a resolver over a single package.json at /repo/packages/ui.
+   */
+  const createResolver = (manifest: Record<string, unknown>) =>
+    createPackageImportResolver(
+      createMemoryIoAdapter({ '/repo/packages/ui/package.json': JSON.stringify(manifest) }),
+    );
+
+  it('should report the package resolver kind', () => {
+    expect(createResolver({ name: '@scope/ui' }).kind).toBe(ImportResolverKind.Package);
+  });
+
+  it('should resolve wildcard subpath exports to the component directory', () => {
+    const resolver = createResolver({
+      name: '@scope/ui',
+      exports: {
+        '.': './dist/index.js',
+        './*': { types: './dist/components/*/index.d.ts', import: './dist/components/*/index.js' },
+      },
+    });
+
+    expect(resolver.resolveComponentImport(buttonModel)).toBe('@scope/ui/button');
+  });
+
+  it('should resolve exact subpath exports using the module build directory', () => {
+    const resolver = createResolver({
+      name: '@scope/ui',
+      module: './es/index.js',
+      exports: { './button': './es/components/button/button.component.js' },
+    });
+
+    expect(resolver.resolveComponentImport(buttonModel)).toBe('@scope/ui/button');
+  });
+
+  it('should return undefined when no export targets the component', () => {
+    const resolver = createResolver({ name: '@scope/ui', exports: { '.': './dist/index.js' } });
+
+    expect(resolver.resolveComponentImport(buttonModel)).toBeUndefined();
+  });
+
+  it('should resolve named entry points declared in exports', () => {
+    const resolver = createResolver({
+      name: '@scope/ui',
+      exports: { '.': './dist/index.js', './react': { import: './dist/react/index.js' } },
+    });
+
+    expect(resolver.resolveEntryImport(buttonModel, 'react')).toBe('@scope/ui/react');
+    expect(resolver.resolveEntryImport(buttonModel, 'vue')).toBeUndefined();
+  });
+
+  it('should return undefined without a named package.json', () => {
+    const resolver = createPackageImportResolver(
+      createMemoryIoAdapter({ '/repo/packages/ui/package.json': '{"private": true}' }),
+    );
+
+    expect(resolver.resolveComponentImport(buttonModel)).toBeUndefined();
+    expect(resolver.resolveEntryImport(buttonModel, 'react')).toBeUndefined();
+  });
+});
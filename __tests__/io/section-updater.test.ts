@@ -25,6 +25,7 @@ import {
   DEFAULT_SECTION_MARKERS,
   extractGeneratedSection,
   hasGeneratedSection,
+  listChangedGeneratedSections,
   replaceGeneratedSection,
 } from '../../src/io/section-updater';
 
@@ -135,6 +136,35 @@ const y = 2;
   });
 });
 
+describe('listChangedGeneratedSections', () => {
+  const buildFile = (props: string, example?: string) =>
+    [
+      '// BEGIN GENERATED: props',
+      props,
+      '// END GENERATED: props',
+      ...(example === undefined ? [] : ['// BEGIN GENERATED: example', example, '// END GENERATED: example']),
+    ].join('\n');
+
+  it('should list sections whose content changed', () => {
+    expect(listChangedGeneratedSections(buildFile('a: 1', 'x'), buildFile('a: 2', 'x'))).toEqual([
+      GeneratedSectionName.Props,
+    ]);
+  });
+
+  it('should list added and removed sections', () => {
+    expect(listChangedGeneratedSections(buildFile('a: 1'), buildFile('a: 1', 'x'))).toEqual([
+      GeneratedSectionName.Example,
+    ]);
+    expect(listChangedGeneratedSections(buildFile('a: 1', 'x'), buildFile('a: 1'))).toEqual([
+      GeneratedSectionName.Example,
+    ]);
+  });
+
+  it('should ignore trailing whitespace and content outside sections', () => {
+    expect(listChangedGeneratedSections(`intro\n${buildFile('a: 1  ')}`, buildFile('a: 1'))).toEqual([]);
+  });
+});
+
 describe('replaceGeneratedSection', () => {
   describe('positive cases', () => {
     it('should replace existing generated section', () => {
@@ -314,6 +344,75 @@ describe('applyGeneratedSectionUpdates', () => {
     expect(applyGeneratedSectionUpdates(content, [])).toBeNull();
   });
 
+  it('should insert a missing section after the section it follows', () => {
+    const content = [
+      "figma.connect('url', {",
+      '  // BEGIN GENERATED: props',
+      '  props: {},',
+      '  // END GENERATED: props',
+      '  // BEGIN GENERATED: example',
+      '  example: () => html`<x></x>`,',
+      '  // END GENERATED: example',
+      '});',
+    ].join('\n');
+
+    const updated = applyGeneratedSectionUpdates(content, [
+      { name: GeneratedSectionName.Props, content: 'props: {},' },
+      { name: GeneratedSectionName.Events, content: 'events: {},', after: GeneratedSectionName.Props },
+      { name: GeneratedSectionName.Example, content: 'example: () => html`<x></x>`,' },
+    ]);
+
+    expect(updated).toBe(
+      [
+        "figma.connect('url', {",
+        '  // BEGIN GENERATED: props',
+        '  props: {},',
+        '  // END GENERATED: props',
+        '  // BEGIN GENERATED: events',
+        '  events: {},',
+        '  // END GENERATED: events',
+        '  // BEGIN GENERATED: example',
+        '  example: () => html`<x></x>`,',
+        '  // END GENERATED: example',
+        '});',
+      ].join('\n'),
+    );
+  });
+
+  it('should insert a section after a section inserted in the same update', () => {
+    const content = ['// BEGIN GENERATED: props', 'props', '// END GENERATED: props', '});'].join('\n');
+
+    const updated = applyGeneratedSectionUpdates(content, [
+      { name: GeneratedSectionName.Events, content: 'events', after: GeneratedSectionName.Props },
+      { name: GeneratedSectionName.Styling, content: 'styling', after: GeneratedSectionName.Events },
+    ]);
+
+    expect(updated).toBe(
+      [
+        '// BEGIN GENERATED: props',
+        'props',
+        '// END GENERATED: props',
+        '// BEGIN GENERATED: events',
+        'events',
+        '// END GENERATED: events',
+        '// BEGIN GENERATED: styling',
+        'styling',
+        '// END GENERATED: styling',
+        '});',
+      ].join('\n'),
+    );
+  });
+
+  it('should return null when neither a section nor the section it follows is present', () => {
+    const content = ['// BEGIN GENERATED: example', 'example', '// END GENERATED: example'].join('\n');
+
+    const updated = applyGeneratedSectionUpdates(content, [
+      { name: GeneratedSectionName.Events, content: 'events: {},', after: GeneratedSectionName.Props },
+    ]);
+
+    expect(updated).toBeNull();
+  });
+
   it('should return null when not all section markers are present', () => {
     const content = [
       "figma.connect('url', {",
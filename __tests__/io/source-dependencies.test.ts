@@ -0,0 +1,78 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for local source dependency discovery.
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import ts from 'typescript';
+
+import { listLocalDependencies } from '../../src/io/source-dependencies';
+
+describe('listLocalDependencies', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'figma-connecter-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeFile = (relativePath: string, contents: string): string => {
+    const filePath = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, contents, 'utf8');
+    return path.resolve(filePath);
+  };
+
+  it('should list direct and transitive local imports', () => {
+    const mixinPath = writeFile('mixins/focusable.ts', 'export const Focusable = <T>(base: T) => base;');
+    const basePath = writeFile(
+      'base.ts',
+      "import { Focusable } from './mixins/focusable';\nexport class Base {}\nexport { Focusable };",
+    );
+    const typesPath = writeFile('types.ts', 'export type Size = "small" | "large";');
+    const componentPath = writeFile(
+      'button.component.ts',
+      "import { Base } from './base';\nexport * from './types';\nexport class Button extends Base {}",
+    );
+    const program = ts.createProgram([componentPath], { noLib: true });
+
+    expect(listLocalDependencies(program, componentPath)).toEqual([basePath, typesPath, mixinPath]);
+  });
+
+  it('should skip unresolved and external imports', () => {
+    const componentPath = writeFile(
+      'card.component.ts',
+      "import { LitElement } from 'lit';\nimport './missing';\nexport class Card {}",
+    );
+    const program = ts.createProgram([componentPath], { noLib: true });
+
+    expect(listLocalDependencies(program, componentPath)).toEqual([]);
+  });
+
+  it('should return no dependencies for files outside the program', () => {
+    const program = ts.createProgram([], { noLib: true });
+
+    expect(listLocalDependencies(program, path.join(tempDir, 'missing.ts'))).toEqual([]);
+  });
+});
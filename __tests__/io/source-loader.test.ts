@@ -23,7 +23,11 @@ import os from 'node:os';
 import path from 'node:path';
 
 import { nodeIoAdapter } from '../../src/io/adapter';
-import { loadSourceProgram, resolveTsconfigPath } from '../../src/io/source-loader';
+import {
+  listTsconfigFiles,
+  loadSourceProgram,
+  resolveTsconfigPath,
+} from '../../src/io/source-loader';
 import { type IParser, ParserTarget } from '../../src/parsers/types';
 import type { PipelineContextSeed } from '../../src/pipeline/context';
 
@@ -89,6 +93,17 @@ describe('source-loader', () => {
     expect(resolveTsconfigPath(undefined, tempDir, 'tsconfig.base.json')).toBeUndefined();
   });
 
+  it('should list the resolved tsconfig and every file it extends', () => {
+    const basePath = path.join(tempDir, 'tsconfig.base.json');
+    const sharedPath = path.join(tempDir, 'tsconfig.shared.json');
+    const configPath = path.join(tempDir, 'tsconfig.json');
+    fs.writeFileSync(basePath, '{"compilerOptions": {"strict": true}}', 'utf8');
+    fs.writeFileSync(sharedPath, '{"extends": "./tsconfig.base.json"}', 'utf8');
+    fs.writeFileSync(configPath, '{"extends": "./tsconfig.shared.json"}', 'utf8');
+
+    expect(listTsconfigFiles(undefined, tempDir)).toEqual([configPath, sharedPath, basePath]);
+  });
+
   it('should merges program data into the provided context', () => {
     const filePath = path.join(tempDir, 'sample.component.ts');
     fs.writeFileSync(filePath, 'export class Sample {}', 'utf8');
@@ -229,6 +244,20 @@ describe('source-loader', () => {
     expect(result.sourceFileMap.get(resolved)).toBeDefined();
   });
 
+  it('should enable allowJs when JavaScript component files are loaded', () => {
+    const filePath = path.join(tempDir, 'sample.element.js');
+    fs.writeFileSync(filePath, '/** @type {string} */\nexport const sample = "a";', 'utf8');
+
+    const result = loadSourceProgram([filePath], {
+      context: createContextSeed(),
+      searchPath: tempDir,
+    });
+
+    expect(result.options.allowJs).toBe(true);
+    expect(result.sourceFileMap.get(path.resolve(filePath))).toBeDefined();
+    expect(result.errors).toEqual([]);
+  });
+
   it('should reports when TypeScript cannot load a source file', () => {
     const filePath = path.join(tempDir, 'sample.unknown');
     fs.writeFileSync(filePath, 'export const sample = 1;', 'utf8');
@@ -240,4 +269,23 @@ describe('source-loader', () => {
 
     expect(result.errors.some((error) => error.includes('TypeScript could not load source file'))).toBe(true);
   });
+
+  it('should reuse unchanged source files from a previous program', () => {
+    const basePath = path.join(tempDir, 'base.ts');
+    const filePath = path.join(tempDir, 'sample.component.ts');
+    fs.writeFileSync(basePath, 'export class Base {}', 'utf8');
+    fs.writeFileSync(filePath, "import { Base } from './base';\nexport class Sample extends Base {}", 'utf8');
+    const first = loadSourceProgram([filePath], { context: createContextSeed(), searchPath: tempDir });
+
+    fs.writeFileSync(basePath, 'export class Base { label = "x"; }', 'utf8');
+    const second = loadSourceProgram([filePath], {
+      context: createContextSeed(),
+      searchPath: tempDir,
+      reuse: { program: first.program, changedFiles: new Set([path.resolve(basePath)]) },
+    });
+
+    expect(second.program.getSourceFile(filePath)).toBe(first.program.getSourceFile(filePath));
+    expect(second.program.getSourceFile(basePath)).not.toBe(first.program.getSourceFile(basePath));
+    expect(second.program.getSourceFile(basePath)?.text).toContain('label');
+  });
 });
@@ -0,0 +1,61 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for unified diff formatting.
+ */
+
+import { formatUnifiedDiff } from '../../src/io/unified-diff';
+
+describe('formatUnifiedDiff', () => {
+  const lines = (count: number, changed: Record<number, string> = {}) =>
+    `${Array.from({ length: count }, (_, index) => changed[index + 1] ?? `line ${index + 1}`).join('\n')}\n`;
+
+  it('should return an empty string when content is unchanged', () => {
+    expect(formatUnifiedDiff('a\nb\n', 'a\nb\n')).toBe('');
+  });
+
+  it('should render new files as a single added hunk', () => {
+    expect(formatUnifiedDiff(undefined, 'a\nb\n')).toBe(['@@ -0,0 +1,2 @@', '+a', '+b'].join('\n'));
+  });
+
+  it('should limit hunks to changed lines and their context', () => {
+    expect(formatUnifiedDiff(lines(10), lines(10, { 5: 'changed' }))).toBe(
+      ['@@ -2,7 +2,7 @@', ' line 2', ' line 3', ' line 4', '-line 5', '+changed', ' line 6', ' line 7', ' line 8'].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('should split distant changes into separate hunks and merge close ones', () => {
+    const separate = formatUnifiedDiff(lines(20), lines(20, { 2: 'x', 18: 'y' }));
+    expect(separate.match(/^@@/gm)).toHaveLength(2);
+    expect(separate).toContain('@@ -1,5 +1,5 @@');
+    expect(separate).toContain('@@ -15,6 +15,6 @@');
+
+    const merged = formatUnifiedDiff(lines(20), lines(20, { 5: 'x', 10: 'y' }));
+    expect(merged.match(/^@@/gm)).toHaveLength(1);
+    expect(merged).toContain('@@ -2,12 +2,12 @@');
+  });
+
+  it('should report insertions and deletions with matching line counts', () => {
+    expect(formatUnifiedDiff('a\nb\nc\n', 'a\nc\nd\n', 0)).toBe(['@@ -2,1 +1,0 @@', '-b', '@@ -3,0 +3,1 @@', '+d'].join('\n'));
+  });
+
+  it('should ignore line ending differences', () => {
+    expect(formatUnifiedDiff('a\r\nb\r\n', 'a\nb\n')).toBe('');
+  });
+});
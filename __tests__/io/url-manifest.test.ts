@@ -0,0 +1,127 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for Figma URL manifest loading and lookup.
+ */
+
+import path from 'node:path';
+
+import { createMemoryIoAdapter } from '../../src/io/adapter';
+import { loadFigmaUrlManifest, lookupFigmaUrl } from '../../src/io/url-manifest';
+import { createMockComponentModel } from '../helpers/fixtures';
+
+describe('url manifest', () => {
+  const manifestDir = path.resolve('/repo');
+  const jsonPath = path.join(manifestDir, 'figma-urls.json');
+  const yamlPath = path.join(manifestDir, 'figma-urls.yaml');
+
+  describe('loadFigmaUrlManifest', () => {
+    it('should load JSON manifests and resolve path keys', () => {
+      const io = createMemoryIoAdapter({
+        [jsonPath]: JSON.stringify({
+          'mdc-button': 'https://figma.com/button',
+          './src/avatar': 'https://figma.com/avatar',
+        }),
+      });
+
+      const manifest = loadFigmaUrlManifest(jsonPath, io);
+
+      expect(manifest.filePath).toBe(jsonPath);
+      expect(manifest.entries.get('mdc-button')).toBe('https://figma.com/button');
+      expect(manifest.entries.get(path.join(manifestDir, 'src', 'avatar').split(path.sep).join('/'))).toBe(
+        'https://figma.com/avatar',
+      );
+    });
+
+    it('should load flat YAML manifests with comments and quotes', () => {
+      const io = createMemoryIoAdapter({
+        [yamlPath]: [
+          '# Figma node URLs',
+          '---',
+          'mdc-button: https://figma.com/button?node-id=1-2 # primary',
+          '"Avatar": \'https://figma.com/avatar#frame\'',
+          '',
+        ].join('\n'),
+      });
+
+      const manifest = loadFigmaUrlManifest(yamlPath, io);
+
+      expect(Object.fromEntries(manifest.entries)).toEqual({
+        'mdc-button': 'https://figma.com/button?node-id=1-2',
+        Avatar: 'https://figma.com/avatar#frame',
+      });
+    });
+
+    it('should reject nested YAML', () => {
+      const io = createMemoryIoAdapter({
+        [yamlPath]: 'components:\n  mdc-button: https://figma.com/button\n',
+      });
+
+      expect(() => loadFigmaUrlManifest(yamlPath, io)).toThrow(`${yamlPath}:1`);
+    });
+
+    it('should reject non-string JSON values', () => {
+      const io = createMemoryIoAdapter({
+        [jsonPath]: JSON.stringify({ 'mdc-button': { url: 'x' } }),
+      });
+
+      expect(() => loadFigmaUrlManifest(jsonPath, io)).toThrow('"mdc-button" must map to a URL string.');
+    });
+
+    it('should reject invalid JSON', () => {
+      const io = createMemoryIoAdapter({ [jsonPath]: '{ nope' });
+
+      expect(() => loadFigmaUrlManifest(jsonPath, io)).toThrow(`Invalid Figma URL manifest ${jsonPath}`);
+    });
+
+    it('should throw when the manifest is missing', () => {
+      expect(() => loadFigmaUrlManifest(jsonPath, createMemoryIoAdapter())).toThrow('Figma URL manifest not found');
+    });
+  });
+
+  describe('lookupFigmaUrl', () => {
+    const componentDir = path.join(manifestDir, 'src', 'button');
+    const model = createMockComponentModel({
+      className: 'Button',
+      tagName: 'mdc-button',
+      componentDir,
+      filePath: path.join(componentDir, 'button.component.ts'),
+    });
+
+    const createManifest = (entries: Record<string, string>) => ({
+      filePath: jsonPath,
+      entries: new Map(Object.entries(entries)),
+    });
+
+    it('should prefer tag name over class name', () => {
+      const manifest = createManifest({ Button: 'class-url', 'mdc-button': 'tag-url' });
+
+      expect(lookupFigmaUrl(manifest, model)).toBe('tag-url');
+    });
+
+    it('should fall back to class name and component paths', () => {
+      const dirKey = componentDir.split(path.sep).join('/');
+
+      expect(lookupFigmaUrl(createManifest({ Button: 'class-url' }), model)).toBe('class-url');
+      expect(lookupFigmaUrl(createManifest({ [dirKey]: 'dir-url' }), model)).toBe('dir-url');
+    });
+
+    it('should return undefined for unmapped components', () => {
+      expect(lookupFigmaUrl(createManifest({ other: 'url' }), model)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for mapping Custom Elements Manifest declarations to component models.
+ */
+
+import { FigmaPropertyType, PropertyVisibility, SlotMapping } from '../../../src/core/types';
+import { mapCemDeclaration } from '../../../src/parsers/cem/declaration-mapper';
+import type { ICemDeclaration } from '../../../src/parsers/cem/types';
+
+const createSource = (declaration: Partial<ICemDeclaration>) => ({
+  declaration: { kind: 'class', name: 'Button', customElement: true, ...declaration } as ICemDeclaration,
+  filePath: '/repo/dist/button/button.js',
+  tagName: 'mdc-button',
+});
+
+describe('mapCemDeclaration', () => {
+  it('should map identity fields from the declaration source', () => {
+    const model = mapCemDeclaration(createSource({}));
+
+    expect(model).toMatchObject({
+      className: 'Button',
+      tagName: 'mdc-button',
+      filePath: '/repo/dist/button/button.js',
+      componentDir: '/repo/dist/button',
+      props: [],
+      events: [],
+      slots: [],
+    });
+  });
+
+  it('should map attribute-backed fields to typed properties', () => {
+    const model = mapCemDeclaration(
+      createSource({
+        members: [
+          {
+            kind: 'field',
+            name: 'variant',
+            type: { text: "'primary' | 'secondary'" },
+            default: "'primary'",
+            attribute: 'variant',
+            reflects: true,
+            description: 'Visual variant.',
+          },
+          { kind: 'field', name: 'disabled', type: { text: 'boolean' }, default: 'false', attribute: 'disabled' },
+          { kind: 'field', name: 'size', type: { text: 'number | undefined' }, default: '24', attribute: 'size' },
+          { kind: 'field', name: 'internal', type: { text: 'string' } },
+          { kind: 'field', name: 'styles', static: true, attribute: 'styles' },
+          { kind: 'field', name: 'secret', privacy: 'private', attribute: 'secret' },
+          { kind: 'method', name: 'focus' },
+        ],
+      }),
+    );
+
+    expect(model.props.map((prop) => prop.name).sort()).toEqual(['disabled', 'size', 'variant']);
+    expect(model.props.find((prop) => prop.name === 'variant')).toEqual({
+      name: 'variant',
+      attribute: 'variant',
+      type: FigmaPropertyType.Enum,
+      tsType: "'primary' | 'secondary'",
+      reflect: true,
+      defaultValue: 'primary',
+      doc: 'Visual variant.',
+      visibility: PropertyVisibility.Public,
+      enumValues: ['primary', 'secondary'],
+    });
+    expect(model.props.find((prop) => prop.name === 'disabled')).toMatchObject({
+      type: FigmaPropertyType.Boolean,
+      defaultValue: false,
+    });
+    expect(model.props.find((prop) => prop.name === 'size')).toMatchObject({
+      type: FigmaPropertyType.Number,
+      defaultValue: 24,
+    });
+  });
+
+  it('should use separately listed attributes for fields and field-less attributes', () => {
+    const model = mapCemDeclaration(
+      createSource({
+        members: [{ kind: 'field', name: 'iconName', type: { text: 'string' } }],
+        attributes: [
+          { name: 'icon-name', fieldName: 'iconName', description: 'Icon to render.' },
+          { name: 'aria-label', type: { text: 'string' }, default: '"Button"' },
+        ],
+      }),
+    );
+
+    expect(model.props.find((prop) => prop.name === 'iconName')).toMatchObject({
+      attribute: 'icon-name',
+      type: FigmaPropertyType.String,
+      doc: 'Icon to render.',
+    });
+    expect(model.props.find((prop) => prop.name === 'ariaLabel')).toMatchObject({
+      attribute: 'aria-label',
+      type: FigmaPropertyType.String,
+      defaultValue: 'Button',
+    });
+  });
+
+  it('should map events, slots, CSS properties, and CSS parts', () => {
+    const model = mapCemDeclaration(
+      createSource({
+        events: [
+          { name: 'change', type: { text: 'CustomEvent<{ value: string }>' }, description: 'Fired on change.' },
+          { description: 'Unnamed event.' },
+        ],
+        slots: [
+          { name: '', description: 'Button label.' },
+          { name: 'icon', description: 'Leading icon.' },
+        ],
+        cssProperties: [{ name: '--mdc-button-color', default: ' red ', description: 'Text color.' }],
+        cssParts: [{ name: 'label', summary: 'Label wrapper.' }],
+      }),
+    );
+
+    expect(model.events).toEqual([
+      expect.objectContaining({ name: 'change', reactHandler: 'onChange', detailType: '{ value: string }' }),
+    ]);
+    expect(model.slots.map((slot) => slot.mapping)).toEqual([SlotMapping.TextContent, SlotMapping.Instance]);
+    expect(model.cssProperties).toEqual([{ name: '--mdc-button-color', defaultValue: 'red', doc: 'Text color.' }]);
+    expect(model.cssParts).toEqual([{ name: 'label', doc: 'Label wrapper.' }]);
+  });
+});
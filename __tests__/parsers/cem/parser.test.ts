@@ -0,0 +1,154 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for the Custom Elements Manifest parser.
+ */
+
+import path from 'node:path';
+
+import { createMemoryIoAdapter } from '../../../src/io/adapter';
+import { CemParser, parseCustomElementsManifest } from '../../../src/parsers/cem/parser';
+import { ParserTarget } from '../../../src/parsers/types';
+
+describe('parseCustomElementsManifest', () => {
+  const packageDir = path.resolve('/repo/packages/ui');
+  const manifestPath = path.join(packageDir, 'custom-elements.json');
+  const manifest = {
+    schemaVersion: '2.0.0',
+    modules: [
+      {
+        kind: 'javascript-module',
+        path: 'dist/button/button.js',
+        declarations: [
+          { kind: 'class', name: 'Button', customElement: true, tagName: 'mdc-button' },
+          { kind: 'function', name: 'helper' },
+        ],
+      },
+      {
+        kind: 'javascript-module',
+        path: 'dist/avatar/avatar.js',
+        declarations: [{ kind: 'class', name: 'Avatar', customElement: true }],
+        exports: [
+          {
+            kind: 'custom-element-definition',
+            name: 'mdc-avatar',
+            declaration: { name: 'Avatar', module: './dist/avatar/avatar.js' },
+          },
+        ],
+      },
+      {
+        kind: 'javascript-module',
+        path: 'dist/base.js',
+        declarations: [{ kind: 'class', name: 'Base', customElement: true }],
+      },
+    ],
+  };
+
+  it('should build models for custom elements in the manifest', () => {
+    const io = createMemoryIoAdapter({ [manifestPath]: JSON.stringify(manifest) });
+
+    const result = parseCustomElementsManifest({ inputPath: packageDir, io });
+
+    expect(result.errors).toEqual([]);
+    expect(result.value?.manifestPath).toBe(manifestPath);
+    expect(result.value?.models.map((model) => [model.className, model.tagName, model.filePath])).toEqual([
+      ['Button', 'mdc-button', path.join(packageDir, 'dist/button/button.js')],
+      ['Avatar', 'mdc-avatar', path.join(packageDir, 'dist/avatar/avatar.js')],
+    ]);
+    expect(result.warnings).toEqual([
+      'Skipping Base in dist/base.js: no tag name in the custom elements manifest.',
+    ]);
+  });
+
+  it('should warn about unknown slot mapping keywords', () => {
+    const slotManifest = {
+      modules: [
+        {
+          kind: 'javascript-module',
+          path: 'dist/card.js',
+          declarations: [
+            {
+              kind: 'class',
+              name: 'Card',
+              customElement: true,
+              tagName: 'mdc-card',
+              slots: [{ name: 'body', description: 'Body figma: txt' }],
+            },
+          ],
+        },
+      ],
+    };
+    const io = createMemoryIoAdapter({ [manifestPath]: JSON.stringify(slotManifest) });
+
+    const result = parseCustomElementsManifest({ inputPath: packageDir, io });
+
+    expect(result.warnings).toEqual([
+      'Card (mdc-card): Unknown Figma slot mapping "txt" for slot "body"; use children, instance, or text. ' +
+        'Using the inferred mapping.',
+    ]);
+  });
+
+  it('should accept a manifest file path', () => {
+    const io = createMemoryIoAdapter({ [manifestPath]: JSON.stringify(manifest) });
+
+    const result = parseCustomElementsManifest({ inputPath: manifestPath, io });
+
+    expect(result.value?.models).toHaveLength(2);
+  });
+
+  it('should follow the package.json customElements field', () => {
+    const customPath = path.join(packageDir, 'dist', 'manifest.json');
+    const io = createMemoryIoAdapter({
+      [path.join(packageDir, 'package.json')]: JSON.stringify({ customElements: 'dist/manifest.json' }),
+      [customPath]: JSON.stringify(manifest),
+    });
+
+    const result = parseCustomElementsManifest({ inputPath: packageDir, io });
+
+    expect(result.value?.manifestPath).toBe(customPath);
+  });
+
+  it('should report a missing manifest', () => {
+    const result = parseCustomElementsManifest({ inputPath: packageDir, io: createMemoryIoAdapter() });
+
+    expect(result.value).toBeUndefined();
+    expect(result.errors).toEqual([`Custom elements manifest not found at: ${packageDir}`]);
+  });
+
+  it('should report invalid manifests', () => {
+    const invalidJson = createMemoryIoAdapter({ [manifestPath]: '{ nope' });
+    const missingModules = createMemoryIoAdapter({ [manifestPath]: '{}' });
+
+    expect(parseCustomElementsManifest({ inputPath: packageDir, io: invalidJson }).errors[0]).toContain(
+      `Invalid custom elements manifest ${manifestPath}`,
+    );
+    expect(parseCustomElementsManifest({ inputPath: packageDir, io: missingModules }).errors).toEqual([
+      `Invalid custom elements manifest ${manifestPath}: expected a "modules" array.`,
+    ]);
+  });
+});
+
+describe('CemParser', () => {
+  it('should reject per-file parsing', () => {
+    const parser = new CemParser();
+
+    const result = parser.parse({ filePath: '/repo/button.component.ts' } as Parameters<CemParser['parse']>[0]);
+
+    expect(parser.target).toBe(ParserTarget.Cem);
+    expect(result.errors[0]).toContain('cannot parse /repo/button.component.ts');
+  });
+});
@@ -39,6 +39,12 @@ describe('createParser', () => {
     expect(typeof parser.parse).toBe('function');
   });
 
+  it('should return the cem manifest parser', () => {
+    const parser = createParser(ParserTarget.Cem);
+
+    expect(typeof parser.parseManifest).toBe('function');
+  });
+
   it('should throw for unsupported parser targets', () => {
     expect(() => createParser('unknown' as ParserTarget)).toThrow('No parser registered for target: unknown');
   });
@@ -60,7 +66,7 @@ describe('getDefaultParserTarget', () => {
 
 describe('listParserTargets', () => {
   it('should include all parser targets', () => {
-    expect(listParserTargets()).toEqual([ParserTarget.WebComponent]);
+    expect(listParserTargets()).toEqual([ParserTarget.WebComponent, ParserTarget.Cem]);
   });
 });
 
@@ -123,6 +123,7 @@ describe('resolveInheritanceChain', () => {
 
     expect(resolution.unresolved).toContain('UnknownBase');
     expect(resolution.warnings[0]).toContain('Unable to resolve base class');
+    expect(resolution.warnings[0]).toMatch(/ \(at .+:2:\d+\)$/);
   });
 
   it('should resolve mixin classes returned by identifier', () => {
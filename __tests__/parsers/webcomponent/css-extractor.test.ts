@@ -0,0 +1,108 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for CSS custom property and CSS part extraction.
+ */
+
+import ts from 'typescript';
+
+import {
+  extractCssParts,
+  extractCssPartsFromChain,
+  extractCssProperties,
+  extractCssPropertiesFromChain,
+} from '../../../src/parsers/webcomponent/css-extractor';
+
+const getClasses = (source: string): ts.ClassDeclaration[] => {
+  const sourceFile = ts.createSourceFile('css.ts', source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  return sourceFile.statements.filter(ts.isClassDeclaration);
+};
+
+describe('extractCssProperties', () => {
+  it('should extract custom properties with optional defaults and docs', () => {
+    const [classDecl] = getClasses(`
+      /**
+       * @cssproperty --mdc-button-color - Text color
+       * @cssproperty [--mdc-button-radius=0.5rem] - Corner radius
+       * @cssprop --mdc-button-gap
+       * @cssproperty not-a-custom-property - Ignored
+       */
+      class Button {}
+    `);
+
+    expect(extractCssProperties(classDecl).items).toEqual([
+      { name: '--mdc-button-color', defaultValue: null, doc: 'Text color' },
+      { name: '--mdc-button-radius', defaultValue: '0.5rem', doc: 'Corner radius' },
+      { name: '--mdc-button-gap', defaultValue: null, doc: null },
+    ]);
+  });
+
+  it('should return no custom properties for classes without tags', () => {
+    const [classDecl] = getClasses('/** Plain. */ class Plain {}');
+
+    expect(extractCssProperties(classDecl).items).toEqual([]);
+  });
+});
+
+describe('extractCssParts', () => {
+  it('should extract parts with optional docs', () => {
+    const [classDecl] = getClasses(`
+      /**
+       * @csspart label - Button label
+       * @csspart prefix-icon
+       */
+      class Button {}
+    `);
+
+    expect(extractCssParts(classDecl).items).toEqual([
+      { name: 'label', doc: 'Button label' },
+      { name: 'prefix-icon', doc: null },
+    ]);
+  });
+});
+
+describe('chain extraction', () => {
+  const [child, base] = getClasses(`
+    /**
+     * @cssproperty --color
+     * @csspart label
+     */
+    class Child extends Base {}
+
+    /**
+     * @cssproperty [--color=red] - Base color
+     * @cssproperty --gap - Base gap
+     * @csspart label - Base label
+     * @csspart icon - Base icon
+     */
+    class Base {}
+  `);
+
+  it('should merge custom properties across the chain, filling defaults and docs', () => {
+    expect(extractCssPropertiesFromChain([child, base]).items).toEqual([
+      { name: '--color', defaultValue: 'red', doc: 'Base color' },
+      { name: '--gap', defaultValue: null, doc: 'Base gap' },
+    ]);
+  });
+
+  it('should merge parts across the chain, filling docs', () => {
+    expect(extractCssPartsFromChain([child, base]).items).toEqual([
+      { name: 'label', doc: 'Base label' },
+      { name: 'icon', doc: 'Base icon' },
+    ]);
+  });
+});
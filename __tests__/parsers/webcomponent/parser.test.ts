@@ -87,6 +87,48 @@ describe('parseWebComponent', () => {
     expect(result.value?.events.length).toBeGreaterThan(0);
   });
 
+  it('should include extracted slots in the parsed model', () => {
+    const source = `
+      /**
+       * @tagname my-card
+       * @slot - Card body
+       */
+      export class CardComponent {
+        render() {
+          return html\`<slot name="icon"></slot><slot></slot>\`;
+        }
+      }
+    `;
+    const { checker, sourceFile } = createProgramFromSource(source, 'card.component.ts');
+
+    const result = parseWebComponent(
+      createParseContext(sourceFile, '/tmp/card/card.component.ts', '/tmp/card', checker),
+    );
+
+    expect(result.value?.slots.map((slot) => slot.name)).toEqual(['', 'icon']);
+  });
+
+  it('should include extracted CSS custom properties and parts in the parsed model', () => {
+    const source = `
+      /**
+       * @tagname my-chip
+       * @cssproperty [--my-chip-color=blue] - Chip color
+       * @csspart label - Chip label
+       */
+      export class ChipComponent {}
+    `;
+    const { checker, sourceFile } = createProgramFromSource(source, 'chip.component.ts');
+
+    const result = parseWebComponent(
+      createParseContext(sourceFile, '/tmp/chip/chip.component.ts', '/tmp/chip', checker),
+    );
+
+    expect(result.value?.cssProperties).toEqual([
+      { name: '--my-chip-color', defaultValue: 'blue', doc: 'Chip color' },
+    ]);
+    expect(result.value?.cssParts).toEqual([{ name: 'label', doc: 'Chip label' }]);
+  });
+
   it('should fall back to UnknownComponent when class name is missing', () => {
     const source = `
       /** @tagname my-anon */
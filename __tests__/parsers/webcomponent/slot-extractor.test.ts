@@ -0,0 +1,117 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * @fileoverview Tests for slot extraction.
+ */
+
+import ts from 'typescript';
+
+import { SlotMapping } from '../../../src/core/types';
+import { extractSlots, extractSlotsFromChain } from '../../../src/parsers/webcomponent/slot-extractor';
+
+const getClasses = (source: string): ts.ClassDeclaration[] => {
+  const sourceFile = ts.createSourceFile('slots.ts', source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  return sourceFile.statements.filter(ts.isClassDeclaration);
+};
+
+describe('extractSlots', () => {
+  it('should extract slots from class-level JSDoc tags', () => {
+    const [classDecl] = getClasses(`
+      /**
+       * @slot - Button label
+       * @slot prefix-icon - Leading icon
+       * @slot body - Card body figma: text
+       */
+      class Card {}
+    `);
+
+    expect(extractSlots(classDecl).items).toEqual([
+      { name: '', mapping: SlotMapping.TextContent, doc: 'Button label' },
+      { name: 'prefix-icon', mapping: SlotMapping.Instance, doc: 'Leading icon' },
+      { name: 'body', mapping: SlotMapping.TextContent, doc: 'Card body' },
+    ]);
+  });
+
+  it('should extract slots from render() templates', () => {
+    const [classDecl] = getClasses(`
+      class Card {
+        render() {
+          return html\`
+            <div part="header"><slot name="header"></slot></div>
+            <slot name='avatar'></slot>
+            <slot name=\${this.dynamic}></slot>
+            <slot></slot>
+          \`;
+        }
+      }
+    `);
+
+    expect(extractSlots(classDecl).items).toEqual([
+      { name: 'header', mapping: SlotMapping.Children, doc: null },
+      { name: 'avatar', mapping: SlotMapping.Instance, doc: null },
+      { name: '', mapping: SlotMapping.TextContent, doc: null },
+    ]);
+  });
+
+  it('should accept textContent overrides and warn on unknown mapping keywords', () => {
+    const [classDecl] = getClasses(`
+      /**
+       * @slot header - Header figma: textContent
+       * @slot icon - Icon figma: instnace
+       */
+      class Card {}
+    `);
+
+    const result = extractSlots(classDecl);
+
+    expect(result.items).toEqual([
+      { name: 'header', mapping: SlotMapping.TextContent, doc: 'Header' },
+      { name: 'icon', mapping: SlotMapping.Instance, doc: 'Icon' },
+    ]);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toContain(
+      'Unknown Figma slot mapping "instnace" for slot "icon"; use children, instance, or text.',
+    );
+  });
+
+  it('should return no slots for classes without JSDoc slots or render()', () => {
+    const [classDecl] = getClasses('class Empty { other() { return html`<slot></slot>`; } }');
+
+    expect(extractSlots(classDecl).items).toEqual([]);
+  });
+});
+
+describe('extractSlotsFromChain', () => {
+  it('should merge slots across the chain, keeping the first mapping and filling docs', () => {
+    const [child, base] = getClasses(`
+      class Child extends Base {
+        render() {
+          return html\`<slot name="icon"></slot>\`;
+        }
+      }
+      /**
+       * @slot icon - Icon content figma: children
+       * @slot footer
+       */
+      class Base {}
+    `);
+
+    expect(extractSlotsFromChain([child, base]).items).toEqual([
+      { name: 'icon', mapping: SlotMapping.Instance, doc: 'Icon content' },
+      { name: 'footer', mapping: SlotMapping.Children, doc: null },
+    ]);
+  });
+});
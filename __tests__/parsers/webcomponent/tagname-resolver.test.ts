@@ -1255,4 +1255,126 @@ describe("resolveTagName", () => {
 
     fs.rmSync(tempDir, { recursive: true, force: true });
   });
+
+  describe("configured namespace", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "figma-connecter-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const resolveInDir = (
+      componentDir: string,
+      namespace: Parameters<typeof resolveTagName>[0]["namespace"],
+    ) => {
+      fs.mkdirSync(componentDir, { recursive: true });
+      return resolveTagName({
+        componentDir,
+        componentFilePath: path.join(componentDir, "my-button.component.ts"),
+        className: "MyButton",
+        namespace,
+      });
+    };
+
+    it("should apply a configured static prefix", () => {
+      const result = resolveInDir(path.join(tempDir, "button"), {
+        prefix: "ds",
+      });
+
+      expect(result.tagName).toBe("ds-my-button");
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("should evaluate a re-exported module object through the type checker", () => {
+      const modulePath = path.join(tempDir, "tag-name.ts");
+      fs.writeFileSync(
+        path.join(tempDir, "values.ts"),
+        `
+          const BASE = 'wc';
+          export const TAG = { PREFIX: BASE, SEPARATOR: '--' } as const;
+        `,
+        "utf8",
+      );
+      fs.writeFileSync(modulePath, "export { TAG } from './values';", "utf8");
+
+      const result = resolveInDir(path.join(tempDir, "button"), {
+        module: modulePath,
+        export: "TAG",
+      });
+
+      expect(result.tagName).toBe("wc--my-button");
+    });
+
+    it("should use a string export as the prefix", () => {
+      const modulePath = path.join(tempDir, "prefix.ts");
+      fs.writeFileSync(modulePath, "export const PREFIX = 'sl';", "utf8");
+
+      const result = resolveInDir(path.join(tempDir, "button"), {
+        module: modulePath,
+        export: "PREFIX",
+        separator: "_",
+      });
+
+      expect(result.tagName).toBe("sl_my-button");
+    });
+
+    it("should prefer the closest package override", () => {
+      const acmeDir = path.join(tempDir, "packages", "acme");
+      const namespace = {
+        prefix: "ds",
+        packages: {
+          [path.join(tempDir, "packages")]: { prefix: "pkg" },
+          [acmeDir]: { prefix: "acme" },
+        },
+      };
+
+      expect(
+        resolveInDir(path.join(acmeDir, "src", "button"), namespace).tagName,
+      ).toBe("acme-my-button");
+      expect(
+        resolveInDir(path.join(tempDir, "packages", "core"), namespace).tagName,
+      ).toBe("pkg-my-button");
+      expect(resolveInDir(path.join(tempDir, "apps"), namespace).tagName).toBe(
+        "ds-my-button",
+      );
+    });
+
+    it("should apply the namespace to constructTagName calls", () => {
+      const componentDir = path.join(tempDir, "button");
+      fs.mkdirSync(componentDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(componentDir, "index.ts"),
+        `
+          import MyButton from './my-button.component';
+          const TAG_NAME = constructTagName('button');
+          MyButton.register(TAG_NAME);
+        `,
+        "utf8",
+      );
+
+      const result = resolveInDir(componentDir, { prefix: "acme" });
+
+      expect(result.tagName).toBe("acme-button");
+      expect(result.source).toBe("index-ts");
+    });
+
+    it("should warn when the module export cannot be resolved", () => {
+      const modulePath = path.join(tempDir, "empty.ts");
+      fs.writeFileSync(modulePath, "export const OTHER = 1;", "utf8");
+
+      const result = resolveInDir(path.join(tempDir, "button"), {
+        module: modulePath,
+        export: "TAG",
+      });
+
+      expect(result.tagName).toBe("my-button");
+      expect(result.warnings).toEqual([
+        `Unable to resolve tag-name namespace export "TAG" from ${modulePath}.`,
+      ]);
+    });
+  });
 });
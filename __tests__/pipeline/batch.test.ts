@@ -26,13 +26,19 @@ import ts from 'typescript';
 
 import type { Logger } from '../../src/core/logger';
 import { applyAggregateDiagnostics, createResult } from '../../src/core/result';
-import { type IEmitResult, EmitterTarget, GeneratedSectionName } from '../../src/core/types';
+import {
+  type IEmitResult,
+  EmitterTarget,
+  GeneratedSectionName,
+  ImportResolverKind,
+  OutputLayout,
+} from '../../src/core/types';
 import type { IEmitter } from '../../src/emitters/types';
 import { createMemoryIoAdapter } from '../../src/io/adapter';
 import type { IDiscoveredFile } from '../../src/io/types';
 import type { IParser } from '../../src/parsers/types';
 import { ParserTarget } from '../../src/parsers/types';
-import { processComponentBatch } from '../../src/pipeline/batch';
+import { processComponentBatch, processModelBatch } from '../../src/pipeline/batch';
 import { createMockComponentModel, createMockPipelineContext } from '../helpers/fixtures';
 
 // Type alias to avoid indexed access type
@@ -166,6 +172,35 @@ describe('processComponentBatch', () => {
     expect(parser.parse).toHaveBeenCalledTimes(2);
   });
 
+  it('should pass tag namespace settings to the parse context', () => {
+    const componentPath = path.join(tempDir, 'namespaced.component.ts');
+    const sourceFile = ts.createSourceFile(
+      componentPath,
+      'export class Namespaced {}',
+      ts.ScriptTarget.ESNext,
+      true,
+      ts.ScriptKind.TS,
+    );
+    const parser: IParser = {
+      target: ParserTarget.WebComponent,
+      parse: jest.fn().mockReturnValue(createResult(undefined)),
+    } as IParser;
+    const tagNamespace = { prefix: 'acme' };
+
+    processComponentBatch(
+      [createDiscoveredFile(componentPath)],
+      createMockPipelineContext({
+        parser,
+        dryRun: true,
+        sourceFileMap: new Map([[path.resolve(componentPath), sourceFile]]),
+        continueOnError: true,
+        tagNamespace,
+      }),
+    );
+
+    expect(parser.parse).toHaveBeenCalledWith(expect.objectContaining({ tagNamespace }));
+  });
+
   it('should write emissions and collects warnings/errors', () => {
     const componentPath = path.join(tempDir, 'sample.component.ts');
     fs.writeFileSync(componentPath, 'export class Sample {}', 'utf8');
@@ -404,6 +439,373 @@ describe('processComponentBatch', () => {
     expect(results[0].warnings.some((warning) => warning.includes('Generated section markers not found'))).toBe(false);
   });
 
+  it('should apply per-emitter settings and the output location', () => {
+    const componentPath = path.join(tempDir, 'settings.component.ts');
+    const sourceFile = ts.createSourceFile(
+      componentPath,
+      'export class Settings {}',
+      ts.ScriptTarget.ESNext,
+      true,
+      ts.ScriptKind.TS,
+    );
+    const model = createMockComponentModel({
+      className: 'Settings',
+      filePath: componentPath,
+      componentDir: tempDir,
+    });
+    const parser: IParser = {
+      target: ParserTarget.WebComponent,
+      parse: () => createResult(model),
+    } as IParser;
+    const createRecordingEmitter = (target: EmitterTarget): IEmitter & { emit: jest.Mock } => ({
+      target,
+      emit: jest.fn(
+        () =>
+          ({
+            filePath: path.join(tempDir, `settings.${target}.ts`),
+            content: 'content',
+            action: 'created',
+          }) as IEmitResult,
+      ),
+    });
+    const webComponentEmitter = createRecordingEmitter(EmitterTarget.WebComponent);
+    const reactEmitter = createRecordingEmitter(EmitterTarget.React);
+    const packageImportResolver = {
+      kind: ImportResolverKind.Package,
+      resolveComponentImport: jest.fn(),
+      resolveEntryImport: jest.fn(),
+    };
+    const figmaProperties = { props: { hasIcon: 'Has Icon?' } };
+
+    const context = createMockPipelineContext({
+      emitters: [webComponentEmitter, reactEmitter],
+      parser,
+      dryRun: true,
+      baseImportPath: '@ui/components',
+      emitterSettings: {
+        [EmitterTarget.React]: {
+          baseImportPath: '@ui/react',
+          fileName: '{name}.figma.tsx',
+          importResolver: ImportResolverKind.Package,
+        },
+      },
+      output: { layout: OutputLayout.Flat, outputDir: '/repo/figma' },
+      packageImportResolver,
+      figmaProperties,
+      sourceFileMap: new Map([[path.resolve(componentPath), sourceFile]]),
+      io: createMemoryIoAdapter(),
+    });
+
+    processComponentBatch([createDiscoveredFile(componentPath)], context);
+
+    expect(webComponentEmitter.emit).toHaveBeenCalledWith({
+      model,
+      options: {
+        dryRun: true,
+        baseImportPath: '@ui/components',
+        output: { layout: OutputLayout.Flat, outputDir: '/repo/figma' },
+        figmaProperties,
+      },
+    });
+    expect(reactEmitter.emit).toHaveBeenCalledWith({
+      model,
+      options: {
+        dryRun: true,
+        baseImportPath: '@ui/react',
+        fileName: '{name}.figma.tsx',
+        output: { layout: OutputLayout.Flat, outputDir: '/repo/figma' },
+        importResolver: packageImportResolver,
+        figmaProperties,
+      },
+    });
+  });
+
+  describe('figma url mapping', () => {
+    const setup = (componentName: string) => {
+      const componentPath = path.join(tempDir, `${componentName}.component.ts`);
+      const sourceFile = ts.createSourceFile(
+        componentPath,
+        'export class Mapped {}',
+        ts.ScriptTarget.ESNext,
+        true,
+        ts.ScriptKind.TS,
+      );
+      const model = createMockComponentModel({
+        className: 'Mapped',
+        tagName: `mdc-${componentName}`,
+        filePath: componentPath,
+        componentDir: tempDir,
+      });
+      const parser: IParser = {
+        target: ParserTarget.WebComponent,
+        parse: () => createResult(model),
+      } as IParser;
+      const emitter = {
+        target: EmitterTarget.WebComponent,
+        emit: jest.fn(
+          () =>
+            ({
+              filePath: path.join(tempDir, `${componentName}.figma.ts`),
+              content: 'content',
+              action: 'created',
+            }) as IEmitResult,
+        ),
+      };
+      return { componentPath, sourceFile, parser, emitter };
+    };
+
+    it('should pass mapped URLs to emitters', () => {
+      const { componentPath, sourceFile, parser, emitter } = setup('mapped');
+      const context = createMockPipelineContext({
+        emitters: [emitter],
+        parser,
+        dryRun: true,
+        urlManifest: { filePath: 'urls.json', entries: new Map([['mdc-mapped', 'https://figma.com/mapped']]) },
+        sourceFileMap: new Map([[path.resolve(componentPath), sourceFile]]),
+      });
+
+      const results = applyAggregateDiagnostics(processComponentBatch([createDiscoveredFile(componentPath)], context));
+
+      expect(emitter.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ options: expect.objectContaining({ figmaUrl: 'https://figma.com/mapped' }) }),
+      );
+      expect(results[0].unmappedUrl).toBeUndefined();
+    });
+
+    it('should record unmapped components and still emit placeholders', () => {
+      const { componentPath, sourceFile, parser, emitter } = setup('unmapped');
+      const context = createMockPipelineContext({
+        emitters: [emitter],
+        parser,
+        dryRun: true,
+        sourceFileMap: new Map([[path.resolve(componentPath), sourceFile]]),
+      });
+
+      const results = applyAggregateDiagnostics(processComponentBatch([createDiscoveredFile(componentPath)], context));
+
+      expect(emitter.emit).toHaveBeenCalledTimes(1);
+      expect(results[0].unmappedUrl).toBe('mdc-unmapped');
+      expect(results[0].errors).toEqual([]);
+    });
+
+    it('should fail unmapped components when URLs are required', () => {
+      const { componentPath, sourceFile, parser, emitter } = setup('required');
+      const context = createMockPipelineContext({
+        emitters: [emitter],
+        parser,
+        dryRun: true,
+        requireUrls: true,
+        urlManifest: { filePath: 'urls.json', entries: new Map() },
+        sourceFileMap: new Map([[path.resolve(componentPath), sourceFile]]),
+      });
+
+      const results = applyAggregateDiagnostics(processComponentBatch([createDiscoveredFile(componentPath)], context));
+
+      expect(results[0].created).toEqual([]);
+      expect(results[0].fileChanges ?? []).toEqual([]);
+      expect(results[0].unmappedUrl).toBe('mdc-required');
+      expect(results[0].errors).toEqual([
+        'No Figma URL mapped for mdc-required (Mapped). Add it to the Figma URL manifest.',
+      ]);
+    });
+
+    it('should treat hand-edited URLs in existing files as mapped', () => {
+      const { componentPath, sourceFile, parser, emitter } = setup('edited');
+      const io = createMemoryIoAdapter({
+        [path.join(tempDir, 'edited.figma.ts')]: "figma.connect('https://figma.com/edited', {});",
+      });
+      const context = createMockPipelineContext({
+        emitters: [emitter],
+        parser,
+        dryRun: true,
+        requireUrls: true,
+        sourceFileMap: new Map([[path.resolve(componentPath), sourceFile]]),
+        io,
+      });
+
+      const results = applyAggregateDiagnostics(processComponentBatch([createDiscoveredFile(componentPath)], context));
+
+      expect(results[0].unmappedUrl).toBeUndefined();
+      expect(results[0].errors).toEqual([]);
+    });
+  });
+
+  describe('hand-edited connect options', () => {
+    const existingContent = [
+      "figma.connect('https://figma.com/hand-edited', {",
+      '  // BEGIN GENERATED: props',
+      '  props: {},',
+      '  // END GENERATED: props',
+      '  // Reviewed by design',
+      "  variant: { type: 'primary' },",
+      '});',
+      '',
+    ].join('\n');
+
+    const setup = (componentName: string, emission: Partial<IEmitResult>) => {
+      const componentPath = path.join(tempDir, `${componentName}.component.ts`);
+      const targetPath = path.join(tempDir, `${componentName}.figma.ts`);
+      const sourceFile = ts.createSourceFile(
+        componentPath,
+        'export class Edited {}',
+        ts.ScriptTarget.ESNext,
+        true,
+        ts.ScriptKind.TS,
+      );
+      const model = createMockComponentModel({
+        className: 'Edited',
+        tagName: `mdc-${componentName}`,
+        filePath: componentPath,
+        componentDir: tempDir,
+      });
+      const parser: IParser = {
+        target: ParserTarget.WebComponent,
+        parse: () => createResult(model),
+      } as IParser;
+      const emitters: IEmitter[] = [
+        {
+          target: EmitterTarget.WebComponent,
+          emit: () => ({ filePath: targetPath, action: 'updated', ...emission }) as IEmitResult,
+        },
+      ];
+      const io = createMemoryIoAdapter({ [targetPath]: existingContent });
+      return { componentPath, targetPath, sourceFile, parser, emitters, io };
+    };
+
+    const generatedContent = [
+      "figma.connect('<FIGMA_EDITED_URL>', {",
+      '  // BEGIN GENERATED: props',
+      '  props: { label: figma.string("Label") },',
+      '  // END GENERATED: props',
+      '});',
+      '',
+    ].join('\n');
+
+    it('should keep the existing URL and custom options on forced rewrites', () => {
+      const { componentPath, targetPath, sourceFile, parser, emitters, io } = setup('forced', {
+        content: generatedContent,
+        sections: [{ name: GeneratedSectionName.Props, content: 'props: {}' }],
+      });
+      const context = createMockPipelineContext({
+        emitters,
+        parser,
+        dryRun: false,
+        force: true,
+        sourceFileMap: new Map([[path.resolve(componentPath), sourceFile]]),
+        io,
+      });
+
+      processComponentBatch([createDiscoveredFile(componentPath)], context);
+
+      expect(io.readFile(targetPath)).toBe(
+        [
+          "figma.connect('https://figma.com/hand-edited', {",
+          '  // BEGIN GENERATED: props',
+          '  props: { label: figma.string("Label") },',
+          '  // END GENERATED: props',
+          '  // Reviewed by design',
+          "  variant: { type: 'primary' },",
+          '});',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should keep the existing URL when emissions have no sections', () => {
+      const { componentPath, targetPath, sourceFile, parser, emitters, io } = setup('unsectioned', {
+        content: generatedContent,
+      });
+      const context = createMockPipelineContext({
+        emitters,
+        parser,
+        dryRun: false,
+        sourceFileMap: new Map([[path.resolve(componentPath), sourceFile]]),
+        io,
+      });
+
+      processComponentBatch([createDiscoveredFile(componentPath)], context);
+
+      expect(io.readFile(targetPath)).toContain("figma.connect('https://figma.com/hand-edited', {");
+      expect(io.readFile(targetPath)).toContain("variant: { type: 'primary' },");
+    });
+
+    it('should apply mapped URLs over existing URLs during section updates', () => {
+      const { componentPath, targetPath, sourceFile, parser, emitters, io } = setup('section-mapped', {
+        content: generatedContent,
+        sections: [{ name: GeneratedSectionName.Props, content: 'props: { size: 1 },' }],
+      });
+      const context = createMockPipelineContext({
+        emitters,
+        parser,
+        dryRun: false,
+        urlManifest: {
+          filePath: 'urls.json',
+          entries: new Map([['mdc-section-mapped', 'https://figma.com/manifest']]),
+        },
+        sourceFileMap: new Map([[path.resolve(componentPath), sourceFile]]),
+        io,
+      });
+
+      processComponentBatch([createDiscoveredFile(componentPath)], context);
+
+      const written = io.readFile(targetPath);
+      expect(written).toContain("figma.connect('https://figma.com/manifest', {");
+      expect(written).toContain('props: { size: 1 },');
+      expect(written).toContain("variant: { type: 'primary' },");
+    });
+
+    it('should record drifted sections for dry-run section updates', () => {
+      const { componentPath, targetPath, sourceFile, parser, emitters, io } = setup('drifted', {
+        content: generatedContent,
+        sections: [{ name: GeneratedSectionName.Props, content: 'props: { size: 1 },' }],
+      });
+      const context = createMockPipelineContext({
+        emitters,
+        parser,
+        dryRun: true,
+        sourceFileMap: new Map([[path.resolve(componentPath), sourceFile]]),
+        io,
+      });
+
+      const results = applyAggregateDiagnostics(processComponentBatch([createDiscoveredFile(componentPath)], context));
+
+      expect(results[0].fileChanges?.[0]).toEqual(
+        expect.objectContaining({ status: 'updated', driftedSections: [GeneratedSectionName.Props] }),
+      );
+      expect(io.readFile(targetPath)).toBe(existingContent);
+    });
+
+    it('should record unified diffs for the touched section when requested', () => {
+      const { componentPath, sourceFile, parser, emitters, io } = setup('diffed', {
+        content: generatedContent,
+        sections: [{ name: GeneratedSectionName.Props, content: 'props: { size: 1 },' }],
+      });
+      const context = createMockPipelineContext({
+        emitters,
+        parser,
+        dryRun: true,
+        diff: true,
+        sourceFileMap: new Map([[path.resolve(componentPath), sourceFile]]),
+        io,
+      });
+
+      const results = applyAggregateDiagnostics(processComponentBatch([createDiscoveredFile(componentPath)], context));
+
+      expect(results[0].fileChanges?.[0].diff).toBe(
+        [
+          '@@ -1,6 +1,6 @@',
+          " figma.connect('https://figma.com/hand-edited', {",
+          '   // BEGIN GENERATED: props',
+          '-  props: {},',
+          '+  props: { size: 1 },',
+          '   // END GENERATED: props',
+          '   // Reviewed by design',
+          "   variant: { type: 'primary' },",
+        ].join('\n'),
+      );
+    });
+  });
+
   it('should create files when sections are provided and the target is missing', () => {
     const componentPath = path.join(tempDir, 'sections-missing.component.ts');
     fs.writeFileSync(componentPath, 'export class SectionsMissing {}', 'utf8');
@@ -461,3 +863,158 @@ describe('processComponentBatch', () => {
     expect(results[0].fileChanges?.[0]?.reason).toBe('new file');
   });
 });
+
+describe('processModelBatch', () => {
+  const componentDir = path.resolve('/repo/dist/button');
+  const model = createMockComponentModel({
+    className: 'Button',
+    tagName: 'mdc-button',
+    filePath: path.join(componentDir, 'button.js'),
+    componentDir,
+  });
+  const file: IDiscoveredFile = {
+    filePath: model.filePath,
+    relativePath: 'dist/button/button.js',
+    fileName: 'button.js',
+    componentName: 'mdc-button',
+    dirPath: componentDir,
+  };
+
+  it('should emit parsed models without parsing source files', () => {
+    const parse = jest.fn();
+    const targetPath = path.join(componentDir, 'code-connect', 'Button.webcomponent.figma.ts');
+    const emit = jest.fn().mockReturnValue({
+      filePath: targetPath,
+      content: 'figma.connect("url", {});\n',
+      action: 'created',
+    } as IEmitResult);
+    const io = createMemoryIoAdapter();
+    const { checker: _checker, sourceFileMap: _sourceFileMap, ...seed } = createMockPipelineContext({
+      emitters: [{ target: EmitterTarget.WebComponent, emit }],
+      parser: { target: ParserTarget.Cem, parse } as IParser,
+      io,
+    });
+
+    const results = applyAggregateDiagnostics(processModelBatch([{ file, model }], seed));
+
+    expect(parse).not.toHaveBeenCalled();
+    expect(emit).toHaveBeenCalledWith(expect.objectContaining({ model }));
+    expect(results[0].created).toContain(targetPath);
+    expect(io.readFile(targetPath)).toBe('figma.connect("url", {});\n');
+  });
+
+  it('should fail a component whose output file another component already wrote', () => {
+    const targetPath = path.resolve('/repo/figma/button.webcomponent.figma.ts');
+    const otherModel = createMockComponentModel({
+      className: 'OtherButton',
+      filePath: path.resolve('/repo/other/button/button.js'),
+      componentDir: path.resolve('/repo/other/button'),
+    });
+    const emit = jest.fn(
+      ({ model: entry }: { model: { className: string } }) =>
+        ({
+          filePath: targetPath,
+          content: `// ${entry.className}\n`,
+          action: 'created',
+        }) as IEmitResult,
+    );
+    const io = createMemoryIoAdapter();
+    const { checker: _checker, sourceFileMap: _sourceFileMap, ...seed } = createMockPipelineContext({
+      emitters: [{ target: EmitterTarget.WebComponent, emit }],
+      io,
+      continueOnError: true,
+    });
+
+    const results = applyAggregateDiagnostics(
+      processModelBatch(
+        [
+          { file, model },
+          { file: { ...file, filePath: otherModel.filePath }, model: otherModel },
+        ],
+        seed,
+      ),
+    );
+
+    expect(results[0].created).toEqual([targetPath]);
+    expect(results[1].created).toEqual([]);
+    expect(results[1].errors).toEqual([
+      `OtherButton would overwrite ${targetPath}, which another component already generated. Use the mirrored layout or rename one of the component files.`,
+    ]);
+    expect(io.readFile(targetPath)).toBe('// Button\n');
+  });
+
+  describe('aggregate emitters', () => {
+    const outputDir = path.resolve('/repo');
+    const aggregatePath = path.join(outputDir, 'custom-elements.json');
+    const otherModel = createMockComponentModel({
+      className: 'Avatar',
+      tagName: 'mdc-avatar',
+      filePath: path.join(outputDir, 'dist/avatar/avatar.js'),
+      componentDir: path.join(outputDir, 'dist/avatar'),
+    });
+    const otherFile: IDiscoveredFile = { ...file, filePath: otherModel.filePath, componentName: 'mdc-avatar' };
+
+    const createAggregateEmitter = () => ({
+      target: EmitterTarget.Cem,
+      emitAggregate: jest.fn(
+        ({ models }: { models: readonly { tagName: string }[] }) =>
+          ({
+            filePath: aggregatePath,
+            content: `${models.map((entry) => entry.tagName).join(',')}\n`,
+            action: 'created',
+          }) as IEmitResult,
+      ),
+    });
+
+    it('should write one combined file for every parsed model', () => {
+      const emitter = createAggregateEmitter();
+      const io = createMemoryIoAdapter();
+      const { checker: _checker, sourceFileMap: _sourceFileMap, ...seed } = createMockPipelineContext({
+        emitters: [emitter],
+        io,
+        outputDir,
+      });
+
+      const results = applyAggregateDiagnostics(
+        processModelBatch(
+          [
+            { file, model },
+            { file: otherFile, model: otherModel },
+          ],
+          seed,
+        ),
+      );
+
+      expect(emitter.emitAggregate).toHaveBeenCalledTimes(1);
+      expect(emitter.emitAggregate).toHaveBeenCalledWith(
+        expect.objectContaining({ models: [model, otherModel], outputDir }),
+      );
+      expect(io.readFile(aggregatePath)).toBe('mdc-button,mdc-avatar\n');
+      expect(results).toHaveLength(3);
+      expect(results[2]).toMatchObject({ componentName: 'custom-elements.json', created: [aggregatePath] });
+    });
+
+    it('should skip aggregate output when the batch stops early', () => {
+      const emitter = createAggregateEmitter();
+      const sourcePath = path.join(outputDir, 'button.component.ts');
+      const sourceFile = ts.createSourceFile(sourcePath, 'export class Button {}', ts.ScriptTarget.ESNext, true);
+      const context = createMockPipelineContext({
+        emitters: [emitter],
+        parser: { target: ParserTarget.WebComponent, parse: () => createResult(model) } as IParser,
+        continueOnError: false,
+        sourceFileMap: new Map([[path.resolve(sourcePath), sourceFile]]),
+        outputDir,
+      });
+      const discovered = [sourcePath, path.join(outputDir, 'missing.component.ts')].map((filePath) => ({
+        ...file,
+        filePath,
+      }));
+
+      const results = applyAggregateDiagnostics(processComponentBatch(discovered, context));
+
+      expect(emitter.emitAggregate).not.toHaveBeenCalled();
+      expect(results).toHaveLength(2);
+      expect(results[1].errors).not.toHaveLength(0);
+    });
+  });
+});
@@ -75,6 +75,7 @@ describe('runConnectPipeline', () => {
 
   it('should return a warning when no components are discovered', async () => {
     discoverComponentFiles.mockReturnValue([]);
+    createDefaultParser.mockReturnValue({ target: ParserTarget.WebComponent, parse: jest.fn() } as IParser);
 
     const report = await runConnectPipeline(
       {
@@ -18,6 +18,10 @@
  * @fileoverview Tests for pipeline runner.
  */
 
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
 import type ts from 'typescript';
 
 import { createEmptyComponentResult } from '../../src/core/report';
@@ -29,7 +33,8 @@ import type { IDiscoveredFile } from '../../src/io/types';
 import type { ISourceLoadResult } from '../../src/io/source-loader';
 import type { IParser } from '../../src/parsers/types';
 import { ParserTarget } from '../../src/parsers/types';
-import { runConnectPipeline } from '../../src/pipeline/runner';
+import { runConnectPipeline, runPipelineSession } from '../../src/pipeline/runner';
+import { createMockComponentModel } from '../helpers/fixtures';
 
 // Type aliases to avoid indexed access types
 type Emitters = readonly IEmitter[];
@@ -44,7 +49,16 @@ jest.mock('../../src/emitters/factory', () => ({
   createEmitters: jest.fn(),
 }));
 
+jest.mock('../../src/io/git-changes', () => ({
+  listGitChangedFiles: jest.fn(),
+}));
+
+jest.mock('../../src/io/source-dependencies', () => ({
+  listLocalDependencies: jest.fn(),
+}));
+
 jest.mock('../../src/io/source-loader', () => ({
+  listTsconfigFiles: jest.requireActual('../../src/io/source-loader').listTsconfigFiles,
   loadSourceProgram: jest.fn(),
 }));
 
@@ -52,15 +66,23 @@ jest.mock('../../src/parsers/factory', () => ({
   createDefaultParser: jest.fn(),
 }));
 
+jest.mock('../../src/plugins/loader', () => ({
+  listLoadedPluginFiles: jest.fn(() => []),
+}));
+
 jest.mock('../../src/pipeline/batch', () => ({
   processComponentBatch: jest.fn(),
+  processModelBatch: jest.fn(),
 }));
 
 const { discoverComponentFiles } = jest.requireMock('../../src/io/file-discovery');
 const { createEmitters } = jest.requireMock('../../src/emitters/factory');
+const { listGitChangedFiles } = jest.requireMock('../../src/io/git-changes');
+const { listLocalDependencies } = jest.requireMock('../../src/io/source-dependencies');
 const { loadSourceProgram } = jest.requireMock('../../src/io/source-loader');
 const { createDefaultParser } = jest.requireMock('../../src/parsers/factory');
-const { processComponentBatch } = jest.requireMock('../../src/pipeline/batch');
+const { listLoadedPluginFiles } = jest.requireMock('../../src/plugins/loader');
+const { processComponentBatch, processModelBatch } = jest.requireMock('../../src/pipeline/batch');
 
 describe('runConnectPipeline (runner)', () => {
   const logger = {
@@ -76,6 +98,7 @@ describe('runConnectPipeline (runner)', () => {
 
   it('should return a warning when no components are discovered', async () => {
     discoverComponentFiles.mockReturnValue([]);
+    createDefaultParser.mockReturnValue({ target: ParserTarget.WebComponent, parse: jest.fn() } as IParser);
 
     const report = await runConnectPipeline(
       {
@@ -93,6 +116,35 @@ describe('runConnectPipeline (runner)', () => {
     expect(report.warnings[0]).toContain('No component files found');
   });
 
+  it('should discover components across every input path with the configured patterns', async () => {
+    discoverComponentFiles.mockReturnValue([]);
+    createDefaultParser.mockReturnValue({ target: ParserTarget.WebComponent, parse: jest.fn() } as IParser);
+
+    const report = await runConnectPipeline(
+      {
+        inputPath: '/tmp/a',
+        inputPaths: ['/tmp/a', '/tmp/b'],
+        recursive: true,
+        include: ['**/*.element.ts'],
+        exclude: ['**/legacy/'],
+        gitignore: false,
+        dryRun: true,
+        emitTargets: [EmitterTarget.WebComponent],
+        strict: false,
+        force: false,
+      },
+      logger,
+    );
+
+    expect(discoverComponentFiles).toHaveBeenCalledWith(['/tmp/a', '/tmp/b'], {
+      recursive: true,
+      include: ['**/*.element.ts'],
+      exclude: ['**/legacy/'],
+      gitignore: false,
+    });
+    expect(report.warnings[0]).toBe('No component files found at: /tmp/a, /tmp/b');
+  });
+
   it('should include loader errors and emitter warnings in the report', async () => {
     const discovered: IDiscoveredFile[] = [
       {
@@ -210,4 +262,363 @@ describe('runConnectPipeline (runner)', () => {
 
     expect(report.warnings).not.toContain('No emitters selected. Use --emit to specify targets.');
   });
+
+  describe('manifest parsers', () => {
+    const options = {
+      inputPath: '/tmp/package',
+      recursive: false,
+      dryRun: true,
+      emitTargets: [EmitterTarget.WebComponent],
+      strict: false,
+      force: false,
+    };
+
+    it('should emit manifest models without discovery or source loading', async () => {
+      const model = createMockComponentModel({
+        tagName: 'mdc-button',
+        filePath: '/tmp/package/src/button.ts',
+        componentDir: '/tmp/package/src',
+      });
+      const parser = {
+        target: ParserTarget.Cem,
+        parse: jest.fn(),
+        parseManifest: jest.fn().mockReturnValue(
+          createResult({ manifestPath: '/tmp/package/custom-elements.json', models: [model] }, ['Skipping Base']),
+        ),
+      } as IParser;
+
+      createEmitters.mockReturnValue([{ target: EmitterTarget.WebComponent, emit: jest.fn() }]);
+      createDefaultParser.mockReturnValue(parser);
+      processModelBatch.mockReturnValue(aggregateResults([createResult(createEmptyComponentResult())]));
+
+      const report = await runConnectPipeline(options, logger);
+
+      expect(discoverComponentFiles).not.toHaveBeenCalled();
+      expect(loadSourceProgram).not.toHaveBeenCalled();
+      expect(processComponentBatch).not.toHaveBeenCalled();
+      expect(processModelBatch).toHaveBeenCalledWith(
+        [
+          {
+            model,
+            file: {
+              filePath: '/tmp/package/src/button.ts',
+              relativePath: 'src/button.ts',
+              fileName: 'button.ts',
+              componentName: 'mdc-button',
+              dirPath: '/tmp/package/src',
+            },
+          },
+        ],
+        expect.objectContaining({ parser }),
+      );
+      expect(report.warnings).toContain('Skipping Base');
+    });
+
+    it('should stop with a warning when the manifest declares no components', async () => {
+      const parser = {
+        target: ParserTarget.Cem,
+        parse: jest.fn(),
+        parseManifest: jest
+          .fn()
+          .mockReturnValue(createResult({ manifestPath: '/tmp/package/custom-elements.json', models: [] })),
+      } as IParser;
+      createDefaultParser.mockReturnValue(parser);
+
+      const report = await runConnectPipeline(options, logger);
+
+      expect(report.status).toBe('warning');
+      expect(report.warnings).toContain('No components found in manifest: /tmp/package/custom-elements.json');
+      expect(processModelBatch).not.toHaveBeenCalled();
+    });
+
+    it('should report manifest read errors', async () => {
+      const parser = {
+        target: ParserTarget.Cem,
+        parse: jest.fn(),
+        parseManifest: jest
+          .fn()
+          .mockReturnValue(createResult(undefined, [], ['Custom elements manifest not found at: /tmp/package'])),
+      } as IParser;
+      createDefaultParser.mockReturnValue(parser);
+
+      const report = await runConnectPipeline(options, logger);
+
+      expect(report.errors).toContain('Custom elements manifest not found at: /tmp/package');
+      expect(processModelBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runPipelineSession', () => {
+    const options = {
+      inputPath: '/tmp/components',
+      recursive: false,
+      dryRun: true,
+      emitTargets: [EmitterTarget.WebComponent],
+      strict: false,
+      force: false,
+    };
+    const createFile = (name: string): IDiscoveredFile => ({
+      filePath: `/tmp/components/${name}.component.ts`,
+      relativePath: `${name}.component.ts`,
+      fileName: `${name}.component.ts`,
+      componentName: name,
+      dirPath: '/tmp/components',
+    });
+    const button = createFile('button');
+    const card = createFile('card');
+    const avatar = createFile('avatar');
+    const previousProgram = { name: 'previous' } as unknown as Program;
+    const nextProgram = { name: 'next' } as unknown as Program;
+    const parser = { target: ParserTarget.WebComponent, parse: jest.fn() } as IParser;
+
+    const createSourceLoad = (program: Program): ISourceLoadResult => {
+      const context = {
+        checker: {} as TypeChecker,
+        emitters: [],
+        parser,
+        dryRun: true,
+        strict: false,
+        force: false,
+        sourceFileMap: new Map(),
+        io: createMemoryIoAdapter(),
+      };
+      return {
+        context,
+        checker: context.checker,
+        errors: [],
+        options: {},
+        program,
+        sourceFiles: [],
+        sourceFileMap: context.sourceFileMap,
+      };
+    };
+    const previous = {
+      report: { status: 'success', created: [], updated: [], unchanged: [], warnings: [], errors: [], durationMs: 0 },
+      discovered: [button, card],
+      sourceLoad: createSourceLoad(previousProgram),
+    } as const;
+
+    beforeEach(() => {
+      discoverComponentFiles.mockReturnValue([button, card, avatar]);
+      createDefaultParser.mockReturnValue(parser);
+      loadSourceProgram.mockReturnValue(createSourceLoad(nextProgram));
+      processComponentBatch.mockReturnValue(aggregateResults([createResult(createEmptyComponentResult())]));
+      listLocalDependencies.mockImplementation((_program: Program, filePath: string) =>
+        filePath === button.filePath ? ['/tmp/components/base.ts'] : [],
+      );
+    });
+
+    it('should keep the source program and discovered files', () => {
+      createEmitters.mockReturnValue([{ target: EmitterTarget.WebComponent, emit: jest.fn() }]);
+
+      const session = runPipelineSession(options, logger);
+
+      expect(session.discovered).toEqual([button, card, avatar]);
+      expect(session.sourceLoad?.program).toBe(nextProgram);
+      expect(loadSourceProgram).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ reuse: undefined }));
+      expect(processComponentBatch).toHaveBeenCalledWith([button, card, avatar], expect.anything());
+    });
+
+    it('should reuse the previous program and process only affected components', () => {
+      createEmitters.mockReturnValue([{ target: EmitterTarget.WebComponent, emit: jest.fn() }]);
+
+      const session = runPipelineSession(options, logger, {
+        previous,
+        changedFiles: ['/tmp/components/base.ts'],
+      });
+
+      expect(loadSourceProgram).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({
+          reuse: { program: previousProgram, changedFiles: new Set(['/tmp/components/base.ts']) },
+        }),
+      );
+      expect(processComponentBatch).toHaveBeenCalledWith([button, avatar], expect.anything());
+      expect(session.discovered).toEqual([button, card, avatar]);
+    });
+
+    it('should process every component when an aggregate emitter is selected', () => {
+      createEmitters.mockReturnValue([{ target: EmitterTarget.Cem, emit: jest.fn(), emitAggregate: jest.fn() }]);
+
+      runPipelineSession(options, logger, { previous, changedFiles: ['/tmp/components/base.ts'] });
+
+      expect(processComponentBatch).toHaveBeenCalledWith([button, card, avatar], expect.anything());
+    });
+
+    it('should process only components changed since a git ref or importing a changed file', () => {
+      createEmitters.mockReturnValue([{ target: EmitterTarget.WebComponent, emit: jest.fn() }]);
+      listGitChangedFiles.mockReturnValue(['/tmp/components/base.ts', card.filePath]);
+
+      runPipelineSession({ ...options, changedSince: 'origin/main' }, logger);
+
+      expect(listGitChangedFiles).toHaveBeenCalledWith('origin/main', expect.any(String));
+      expect(loadSourceProgram).toHaveBeenCalledWith(
+        [button.filePath, card.filePath, avatar.filePath],
+        expect.anything(),
+      );
+      expect(processComponentBatch).toHaveBeenCalledWith([button, card], expect.anything());
+    });
+
+    it('should process every component changed since a git ref when an aggregate emitter is selected', () => {
+      createEmitters.mockReturnValue([{ target: EmitterTarget.Cem, emit: jest.fn(), emitAggregate: jest.fn() }]);
+
+      runPipelineSession({ ...options, changedSince: 'origin/main' }, logger);
+
+      expect(listGitChangedFiles).not.toHaveBeenCalled();
+      expect(processComponentBatch).toHaveBeenCalledWith([button, card, avatar], expect.anything());
+    });
+  });
+
+  describe('regeneration cache', () => {
+    let tempDir: string;
+    let componentPath: string;
+    let outputPath: string;
+    let cachePath: string;
+    let file: IDiscoveredFile;
+    const parser = { target: ParserTarget.WebComponent, parse: jest.fn() } as IParser;
+
+    const createOptions = (overrides: Record<string, unknown> = {}) => ({
+      inputPath: tempDir,
+      recursive: false,
+      dryRun: false,
+      emitTargets: [EmitterTarget.WebComponent],
+      strict: false,
+      force: false,
+      cachePath,
+      toolVersion: '1.0.0',
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'figma-connecter-'));
+      componentPath = path.join(tempDir, 'button.component.ts');
+      outputPath = path.join(tempDir, 'code-connect', 'button.webcomponent.figma.ts');
+      cachePath = path.join(tempDir, '.figma-connecter', 'cache.json');
+      fs.writeFileSync(componentPath, 'export class Button {}', 'utf8');
+      fs.mkdirSync(path.dirname(outputPath));
+      fs.writeFileSync(outputPath, 'figma.connect()', 'utf8');
+      file = {
+        filePath: componentPath,
+        relativePath: 'button.component.ts',
+        fileName: 'button.component.ts',
+        componentName: 'button',
+        dirPath: tempDir,
+      };
+
+      discoverComponentFiles.mockReturnValue([file]);
+      createDefaultParser.mockReturnValue(parser);
+      createEmitters.mockReturnValue([{ target: EmitterTarget.WebComponent, emit: jest.fn() }]);
+      loadSourceProgram.mockReturnValue({
+        context: { io: createMemoryIoAdapter() },
+        checker: {},
+        errors: [],
+        options: {},
+        program: {},
+        sourceFiles: [],
+        sourceFileMap: new Map(),
+      });
+      listLocalDependencies.mockReturnValue([]);
+      listLoadedPluginFiles.mockReturnValue([]);
+      processComponentBatch.mockReturnValue(
+        aggregateResults([
+          createResult({
+            ...createEmptyComponentResult(),
+            componentName: 'Button',
+            model: createMockComponentModel({ filePath: componentPath }),
+            created: [outputPath],
+          }),
+        ]),
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should skip unchanged components and report them as cached', async () => {
+      await runConnectPipeline(createOptions(), logger);
+      processComponentBatch.mockClear();
+
+      const report = await runConnectPipeline(createOptions(), logger);
+
+      expect(processComponentBatch).not.toHaveBeenCalled();
+      expect(report.cached).toEqual([outputPath]);
+      expect(report.created).toEqual([]);
+    });
+
+    it('should regenerate components whose source changed', async () => {
+      await runConnectPipeline(createOptions(), logger);
+      processComponentBatch.mockClear();
+      fs.writeFileSync(componentPath, 'export class Button { size = 1; }', 'utf8');
+
+      await runConnectPipeline(createOptions(), logger);
+
+      expect(processComponentBatch).toHaveBeenCalledWith([file], expect.anything());
+    });
+
+    it('should regenerate components whose generated output was edited', async () => {
+      await runConnectPipeline(createOptions(), logger);
+      processComponentBatch.mockClear();
+      fs.writeFileSync(outputPath, 'figma.connect("edited")', 'utf8');
+
+      await runConnectPipeline(createOptions(), logger);
+
+      expect(processComponentBatch).toHaveBeenCalledWith([file], expect.anything());
+    });
+
+    it('should regenerate every component when settings or the tool version change', async () => {
+      await runConnectPipeline(createOptions(), logger);
+      processComponentBatch.mockClear();
+
+      await runConnectPipeline(createOptions({ strict: true }), logger);
+      await runConnectPipeline(createOptions({ toolVersion: '2.0.0' }), logger);
+
+      expect(processComponentBatch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should regenerate every component when a loaded plugin module changes', async () => {
+      const pluginPath = path.join(tempDir, 'svelte-plugin.js');
+      fs.writeFileSync(pluginPath, 'module.exports = () => {};', 'utf8');
+      listLoadedPluginFiles.mockReturnValue([pluginPath]);
+      await runConnectPipeline(createOptions(), logger);
+      processComponentBatch.mockClear();
+      fs.writeFileSync(pluginPath, 'module.exports = (api) => api;', 'utf8');
+
+      await runConnectPipeline(createOptions(), logger);
+
+      expect(processComponentBatch).toHaveBeenCalledWith([file], expect.anything());
+    });
+
+    it('should regenerate every component when an extended tsconfig changes', async () => {
+      const basePath = path.join(tempDir, 'tsconfig.base.json');
+      fs.writeFileSync(basePath, '{ "compilerOptions": { "strict": true } }', 'utf8');
+      fs.writeFileSync(
+        path.join(tempDir, 'tsconfig.json'),
+        '{ "extends": "./tsconfig.base.json" }',
+        'utf8',
+      );
+      await runConnectPipeline(createOptions(), logger);
+      processComponentBatch.mockClear();
+      fs.writeFileSync(basePath, '{ "compilerOptions": { "strict": false } }', 'utf8');
+
+      await runConnectPipeline(createOptions(), logger);
+
+      expect(processComponentBatch).toHaveBeenCalledWith([file], expect.anything());
+    });
+
+    it('should ignore the cache when forced', async () => {
+      await runConnectPipeline(createOptions(), logger);
+      processComponentBatch.mockClear();
+
+      await runConnectPipeline(createOptions({ force: true }), logger);
+
+      expect(processComponentBatch).toHaveBeenCalledWith([file], expect.anything());
+    });
+
+    it('should not write the cache on dry runs', async () => {
+      await runConnectPipeline(createOptions({ dryRun: true }), logger);
+
+      expect(fs.existsSync(cachePath)).toBe(false);
+    });
+  });
 });
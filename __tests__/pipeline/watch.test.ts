@@ -0,0 +1,198 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for connect pipeline watch mode.
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { createEmptyReport } from '../../src/core/report';
+import { EmitterTarget } from '../../src/core/types';
+import type { IDiscoveredFile } from '../../src/io/types';
+import { type IWatchSystem, watchConnectPipeline } from '../../src/pipeline/watch';
+
+jest.mock('../../src/pipeline/runner', () => ({
+  runPipelineSession: jest.fn(),
+}));
+
+jest.mock('../../src/io/source-dependencies', () => ({
+  listLocalDependencies: jest.fn(),
+}));
+
+const { runPipelineSession } = jest.requireMock('../../src/pipeline/runner');
+const { listLocalDependencies } = jest.requireMock('../../src/io/source-dependencies');
+
+interface IFakeWatchSystem extends IWatchSystem {
+  readonly files: Map<string, () => void>;
+  readonly closed: string[];
+  directoryChange?: (filePath: string) => void;
+  directoryPath?: string;
+}
+
+const createFakeWatchSystem = (): IFakeWatchSystem => {
+  const system: IFakeWatchSystem = {
+    files: new Map(),
+    closed: [],
+    watchFile: (filePath, onChange) => {
+      system.files.set(filePath, onChange);
+      return {
+        close: () => {
+          system.files.delete(filePath);
+          system.closed.push(filePath);
+        },
+      };
+    },
+    watchDirectory: (dirPath, onChange) => {
+      system.directoryPath = dirPath;
+      system.directoryChange = onChange;
+      return { close: () => system.closed.push(dirPath) };
+    },
+  };
+  return system;
+};
+
+describe('watchConnectPipeline', () => {
+  const logger = {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  } as unknown as Parameters<typeof watchConnectPipeline>[1];
+  let tempDir: string;
+  let buttonFile: IDiscoveredFile;
+  let basePath: string;
+
+  const createSession = (discovered: readonly IDiscoveredFile[]) => ({
+    report: createEmptyReport(),
+    discovered,
+    sourceLoad: { program: {} },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'figma-connecter-'));
+    basePath = path.join(tempDir, 'base.ts');
+    buttonFile = {
+      filePath: path.join(tempDir, 'button.component.ts'),
+      relativePath: 'button.component.ts',
+      fileName: 'button.component.ts',
+      componentName: 'button',
+      dirPath: tempDir,
+    };
+    runPipelineSession.mockReturnValue(createSession([buttonFile]));
+    listLocalDependencies.mockReturnValue([basePath]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const startWatching = (system: IWatchSystem, onReport = jest.fn()) =>
+    watchConnectPipeline(
+      {
+        inputPath: tempDir,
+        recursive: true,
+        dryRun: false,
+        emitTargets: [EmitterTarget.React],
+        strict: false,
+        force: false,
+      },
+      logger,
+      { onReport, system, debounceMs: 50 },
+    );
+
+  it('should run once and watch components, their imports, and the input directory', () => {
+    const system = createFakeWatchSystem();
+    const onReport = jest.fn();
+
+    startWatching(system, onReport);
+
+    expect(runPipelineSession).toHaveBeenCalledWith(expect.anything(), logger, undefined);
+    expect(onReport).toHaveBeenCalledTimes(1);
+    expect([...system.files.keys()]).toEqual([buttonFile.filePath, basePath]);
+    expect(system.directoryPath).toBe(path.resolve(tempDir));
+  });
+
+  it('should debounce changes into one incremental rebuild', () => {
+    const system = createFakeWatchSystem();
+    const onReport = jest.fn();
+    startWatching(system, onReport);
+    const initial = runPipelineSession.mock.results[0].value;
+
+    system.files.get(basePath)?.();
+    system.files.get(buttonFile.filePath)?.();
+    system.directoryChange?.(path.join(tempDir, 'notes.md'));
+    jest.advanceTimersByTime(50);
+
+    expect(runPipelineSession).toHaveBeenCalledTimes(2);
+    expect(runPipelineSession).toHaveBeenLastCalledWith(expect.anything(), logger, {
+      previous: initial,
+      changedFiles: [basePath, buttonFile.filePath],
+    });
+    expect(onReport).toHaveBeenCalledTimes(2);
+  });
+
+  it('should rebuild for new component files and update file watchers', () => {
+    const system = createFakeWatchSystem();
+    startWatching(system);
+    const cardFile = { ...buttonFile, filePath: path.join(tempDir, 'card.component.ts'), componentName: 'card' };
+    runPipelineSession.mockReturnValue(createSession([cardFile]));
+    listLocalDependencies.mockReturnValue([]);
+
+    system.directoryChange?.(cardFile.filePath);
+    jest.advanceTimersByTime(50);
+
+    expect(runPipelineSession).toHaveBeenLastCalledWith(
+      expect.anything(),
+      logger,
+      expect.objectContaining({ changedFiles: [cardFile.filePath] }),
+    );
+    expect([...system.files.keys()]).toEqual([cardFile.filePath]);
+    expect(system.closed).toEqual([buttonFile.filePath, basePath]);
+  });
+
+  it('should log rebuild failures and keep watching', () => {
+    const system = createFakeWatchSystem();
+    startWatching(system);
+    runPipelineSession.mockImplementationOnce(() => {
+      throw new Error('boom');
+    });
+
+    system.files.get(basePath)?.();
+    jest.advanceTimersByTime(50);
+
+    expect(logger.error).toHaveBeenCalledWith('Regeneration failed: boom');
+    expect(system.files.has(basePath)).toBe(true);
+  });
+
+  it('should stop watchers and pending rebuilds on close', () => {
+    const system = createFakeWatchSystem();
+    const watcher = startWatching(system);
+
+    system.files.get(basePath)?.();
+    watcher.close();
+    jest.advanceTimersByTime(50);
+
+    expect(runPipelineSession).toHaveBeenCalledTimes(1);
+    expect(system.files.size).toBe(0);
+    expect(system.closed).toEqual([path.resolve(tempDir), buttonFile.filePath, basePath]);
+  });
+});
@@ -197,6 +197,44 @@ describe('plugins', () => {
       });
     });
 
+    it('should make string-keyed plugin emitter targets selectable with --emit', () => {
+      jest.isolateModules(() => {
+        const plugins = require('../src/plugins') as typeof import('../src/plugins');
+        const constants =
+          require('../src/commands/connect/constants') as typeof import('../src/commands/connect/constants');
+        const { parseEmitTargets } = require('../src/core/emit-targets') as typeof import('../src/core/emit-targets');
+        const { createEmitters } = require('../src/emitters/factory') as typeof import('../src/emitters/factory');
+
+        plugins.registerPlugin({
+          emitters: [
+            {
+              target: 'svelte',
+              factory: () => createTestEmitter('svelte' as EmitterTarget),
+              metadata: {
+                fileExtension: '.svelte.figma.ts',
+                displayName: 'Svelte',
+                description: 'Svelte emitter for tests',
+              },
+            },
+          ],
+        });
+
+        const targets = parseEmitTargets(
+          'webcomponent,svelte',
+          constants.getEmitTargets(),
+          constants.getEmitAllTargets(),
+        );
+
+        expect(targets).toEqual([EmitterTarget.WebComponent, 'svelte']);
+        expect(constants.getEmitTargetOptions()).toBe('webcomponent, react, cem, vue, angular, svelte, all');
+        expect(parseEmitTargets('all', constants.getEmitTargets(), constants.getEmitAllTargets())).toContain('svelte');
+        expect(createEmitters({ targets }).map((emitter) => emitter.target)).toEqual([
+          EmitterTarget.WebComponent,
+          'svelte',
+        ]);
+      });
+    });
+
     it('should register multiple parsers in a single call', () => {
       jest.isolateModules(() => {
         const plugins = require('../src/plugins') as typeof import('../src/plugins');
@@ -272,12 +310,15 @@ describe('plugins', () => {
         expect(emitterInfo).toEqual({
           displayName: 'Info IEmitter',
           description: 'Info emitter description',
+          fileExtension: '.info.figma.ts',
+          source: plugins.RUNTIME_PLUGIN_SOURCE,
         });
 
         const parserInfo = info.parsers.get(parserTarget);
         expect(parserInfo).toEqual({
           displayName: 'Info IParser',
           description: 'Info parser description',
+          source: plugins.RUNTIME_PLUGIN_SOURCE,
         });
       });
     });
@@ -292,6 +333,15 @@ describe('plugins', () => {
         expect(info.parsers.size).toBeGreaterThan(0);
         expect(info.emitters instanceof Map).toBe(true);
         expect(info.parsers instanceof Map).toBe(true);
+        expect(info.emitters.get(EmitterTarget.WebComponent)).toEqual(
+          expect.objectContaining({ fileExtension: '.webcomponent.figma.ts', source: plugins.BUILT_IN_PLUGIN_SOURCE }),
+        );
+        expect(info.parsers.get('webcomponent')).toEqual(
+          expect.objectContaining({
+            filePatterns: ['*.component.ts', '*.element.ts'],
+            source: plugins.BUILT_IN_PLUGIN_SOURCE,
+          }),
+        );
       });
     });
   });
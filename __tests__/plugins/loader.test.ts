@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for the plugin module loader.
+ */
+
+/* eslint-disable @typescript-eslint/no-require-imports */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const SVELTE_PLUGIN_SOURCE = `
+module.exports = (api) => {
+  api.registerEmitterPlugin({
+    target: 'svelte',
+    factory: () => ({ target: 'svelte', emit: () => ({ filePath: '/svelte.figma.ts', content: '', action: 'created' }) }),
+    metadata: { fileExtension: '.svelte.figma.ts', displayName: 'Svelte', description: 'Svelte plugin' },
+  });
+};
+`;
+
+/**
+ * Loads fresh plugin loader and registry modules.
+ *
+ * @returns Isolated plugins module.
+ */
+const loadPluginsModule = (): typeof import('../../src/plugins') => {
+  let plugins: typeof import('../../src/plugins') | undefined;
+  jest.isolateModules(() => {
+    plugins = require('../../src/plugins') as typeof import('../../src/plugins');
+  });
+  return plugins as typeof import('../../src/plugins');
+};
+
+describe('loadPlugins', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'figma-connecter-plugins-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should call the default export of a relative plugin with the registration API', () => {
+    fs.writeFileSync(path.join(tempDir, 'svelte-plugin.js'), SVELTE_PLUGIN_SOURCE, 'utf8');
+    const plugins = loadPluginsModule();
+
+    expect(plugins.loadPlugins(['./svelte-plugin.js'], tempDir)).toEqual([]);
+    expect(plugins.hasEmitterPlugin('svelte')).toBe(true);
+    expect(plugins.getPluginInfo().emitters.get('svelte')?.source).toBe(path.join(tempDir, 'svelte-plugin.js'));
+  });
+
+  it('should resolve package names from the base directory and accept an exports.default hook', () => {
+    const packageDir = path.join(tempDir, 'node_modules', 'figma-connecter-plugin-svelte');
+    fs.mkdirSync(packageDir, { recursive: true });
+    fs.writeFileSync(path.join(packageDir, 'package.json'), JSON.stringify({ name: 'figma-connecter-plugin-svelte', main: 'index.js' }), 'utf8');
+    fs.writeFileSync(
+      path.join(packageDir, 'index.js'),
+      SVELTE_PLUGIN_SOURCE.replace('module.exports =', 'exports.default ='),
+      'utf8',
+    );
+    const plugins = loadPluginsModule();
+
+    expect(plugins.loadPlugins(['figma-connecter-plugin-svelte'], tempDir)).toEqual([]);
+    expect(plugins.listEmitterTargets()).toContain('svelte');
+  });
+
+  it('should load each plugin file once per process', () => {
+    fs.writeFileSync(path.join(tempDir, 'svelte-plugin.js'), SVELTE_PLUGIN_SOURCE, 'utf8');
+    const plugins = loadPluginsModule();
+
+    expect(plugins.loadPlugins(['./svelte-plugin.js', path.join(tempDir, 'svelte-plugin.js')], tempDir)).toEqual([]);
+    expect(plugins.loadPlugins(['./svelte-plugin.js'], tempDir)).toEqual([]);
+    expect(plugins.listLoadedPluginFiles()).toEqual([path.join(tempDir, 'svelte-plugin.js')]);
+  });
+
+  it('should collect resolution, export, and registration failures', () => {
+    fs.writeFileSync(path.join(tempDir, 'no-hook.js'), 'module.exports = { name: "not a plugin" };', 'utf8');
+    fs.writeFileSync(path.join(tempDir, 'broken.js'), 'module.exports = () => { throw new Error("boom"); };', 'utf8');
+    const plugins = loadPluginsModule();
+
+    const errors = plugins.loadPlugins(['./missing.js', './no-hook.js', './broken.js'], tempDir);
+
+    expect(errors).toEqual([
+      { plugin: './missing.js', message: expect.stringContaining("Cannot find module './missing.js'") },
+      {
+        plugin: './no-hook.js',
+        resolvedPath: path.join(tempDir, 'no-hook.js'),
+        message: 'Plugin module must default-export a function `(api) => void`.',
+      },
+      { plugin: './broken.js', resolvedPath: path.join(tempDir, 'broken.js'), message: 'boom' },
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for glob pattern utilities.
+ */
+
+import { globToRegExp, matchesAnyGlob } from '../../src/utils/glob';
+
+describe('globToRegExp', () => {
+  it('should match any number of leading directories with **/', () => {
+    const pattern = globToRegExp('**/*.component.ts');
+
+    expect(pattern.test('button.component.ts')).toBe(true);
+    expect(pattern.test('src/button/button.component.ts')).toBe(true);
+    expect(pattern.test('src/button/button.ts')).toBe(false);
+  });
+
+  it('should capture single-segment wildcards', () => {
+    expect(globToRegExp('**/*.element.ts').exec('src/button.element.ts')?.[1]).toBe('button');
+    expect(globToRegExp('components/*/index.ts').exec('components/card/index.ts')?.[1]).toBe('card');
+    expect(globToRegExp('components/*/index.ts').test('components/a/b/index.ts')).toBe(false);
+  });
+
+  it('should support ?, character classes, and alternatives', () => {
+    expect(globToRegExp('?.ts').test('a.ts')).toBe(true);
+    expect(globToRegExp('[!a]*.ts').test('a.ts')).toBe(false);
+    expect(globToRegExp('[ab]*.ts').test('b.ts')).toBe(true);
+    expect(globToRegExp('**/*.{ts,js}').test('src/button.js')).toBe(true);
+    expect(globToRegExp('**/*.{ts,js}').test('src/button.tsx')).toBe(false);
+  });
+
+  it('should match directories below a trailing **', () => {
+    expect(globToRegExp('**/test/**').test('src/test/')).toBe(true);
+    expect(globToRegExp('**/test/**').test('src/test/button.component.ts')).toBe(true);
+    expect(globToRegExp('**/test/**').test('src/testing/')).toBe(false);
+  });
+
+  it('should escape regular expression characters', () => {
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+    expect(globToRegExp('(a)+.ts').test('(a)+.ts')).toBe(true);
+  });
+
+  it('should optionally ignore case', () => {
+    expect(globToRegExp('**/*.component.ts').test('Button.COMPONENT.TS')).toBe(false);
+    expect(globToRegExp('**/*.component.ts', true).test('Button.COMPONENT.TS')).toBe(true);
+  });
+});
+
+describe('matchesAnyGlob', () => {
+  it('should return true when any pattern matches', () => {
+    expect(matchesAnyGlob('src/button.element.ts', ['**/*.component.ts', '**/*.element.ts'])).toBe(true);
+    expect(matchesAnyGlob('src/button.ts', ['**/*.component.ts', '**/*.element.ts'])).toBe(false);
+    expect(matchesAnyGlob('src/button.ts', [])).toBe(false);
+  });
+});
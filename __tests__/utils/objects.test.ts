@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Tests for object utilities.
+ */
+
+import { isPlainObject } from '../../src/utils/objects';
+
+describe('isPlainObject', () => {
+  it('should accept plain objects', () => {
+    expect(isPlainObject({})).toBe(true);
+    expect(isPlainObject({ key: 'value' })).toBe(true);
+  });
+
+  it('should reject arrays, null, and primitives', () => {
+    expect(isPlainObject([])).toBe(false);
+    expect(isPlainObject(null)).toBe(false);
+    expect(isPlainObject(undefined)).toBe(false);
+    expect(isPlainObject('text')).toBe(false);
+    expect(isPlainObject(1)).toBe(false);
+  });
+});
@@ -20,10 +20,14 @@
 
 import path from 'node:path';
 
+import { OutputLayout } from '../../src/core/types';
 import {
   buildCodeConnectFilePath,
   normalizedBasename,
   normalizePath,
+  relativePosixPath,
+  resolveCodeConnectDir,
+  resolveDistImportPath,
   resolveDistReactImportPath,
 } from '../../src/utils/paths';
 
@@ -42,6 +46,14 @@ describe('normalizePath', () => {
   });
 });
 
+describe('relativePosixPath', () => {
+  it('should return a relative path with forward slashes', () => {
+    const base = path.resolve('repo');
+
+    expect(relativePosixPath(base, path.join(base, 'src', 'button.ts'))).toBe('src/button.ts');
+  });
+});
+
 describe('normalizedBasename', () => {
   it('should return the last path segment', () => {
     expect(normalizedBasename('/src/components/button')).toBe('button');
@@ -78,6 +90,50 @@ describe('buildCodeConnectFilePath', () => {
   });
 });
 
+describe('resolveCodeConnectDir', () => {
+  it('should default to a colocated code-connect directory', () => {
+    expect(resolveCodeConnectDir('/src/button')).toBe('/src/button/code-connect');
+    expect(resolveCodeConnectDir('/src/button', { layout: OutputLayout.Colocated })).toBe('/src/button/code-connect');
+  });
+
+  it('should mirror the component directory below the output directory', () => {
+    const output = { layout: OutputLayout.Mirrored, outputDir: '/repo/figma', sourceRoots: ['/repo/src'] };
+
+    expect(resolveCodeConnectDir('/repo/src/components/button', output)).toBe('/repo/figma/components/button');
+    expect(resolveCodeConnectDir('/other/button', output)).toBe('/repo/figma');
+  });
+
+  it('should mirror each component against the deepest input root containing it', () => {
+    const output = {
+      layout: OutputLayout.Mirrored,
+      outputDir: '/repo/figma',
+      sourceRoots: ['/repo/packages/a/src', '/repo/packages/b/src', '/repo/packages'],
+    };
+
+    expect(resolveCodeConnectDir('/repo/packages/a/src/button', output)).toBe('/repo/figma/button');
+    expect(resolveCodeConnectDir('/repo/packages/b/src/forms/input', output)).toBe('/repo/figma/forms/input');
+    expect(resolveCodeConnectDir('/repo/packages/c/card', output)).toBe('/repo/figma/c/card');
+  });
+
+  it('should write flat layouts directly into the output directory', () => {
+    expect(resolveCodeConnectDir('/repo/src/button', { layout: OutputLayout.Flat, outputDir: '/repo/figma' })).toBe(
+      '/repo/figma',
+    );
+  });
+});
+
+describe('resolveDistImportPath', () => {
+  it('should resolve relative path from code-connect to the named dist entry', () => {
+    expect(resolveDistImportPath('/packages/components/src/components/button', 'vue')).toBe('../../../../dist/vue');
+  });
+
+  it('should resolve relative to a custom code-connect directory', () => {
+    expect(resolveDistImportPath('/packages/components/src/button', 'vue', '/packages/components/figma')).toBe(
+      '../dist/vue',
+    );
+  });
+});
+
 describe('resolveDistReactImportPath', () => {
   it('should resolve relative path from code-connect to dist/react', () => {
     const result = resolveDistReactImportPath(
@@ -92,6 +148,12 @@ describe('resolveDistReactImportPath', () => {
     expect(result).toContain('dist/react');
   });
 
+  it('should resolve relative to a custom code-connect directory', () => {
+    expect(resolveDistReactImportPath('/packages/components/src/button', '/packages/components/figma')).toBe(
+      '../dist/react',
+    );
+  });
+
   it('should always return a path that starts with . or ..', () => {
     const result = resolveDistReactImportPath('/src/components/button');
     expect(result.startsWith('.') || result.startsWith('../')).toBe(true);
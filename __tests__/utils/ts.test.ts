@@ -20,7 +20,7 @@
 
 import ts from 'typescript';
 
-import { getDecoratorOptions, getJSDocSummary, getJSDocTagText, getLiteralValue } from '../../src/utils/ts';
+import { getDecoratorOptions, getJSDocSummary, getJSDocTagText, getLiteralValue, getNodeLocation } from '../../src/utils/ts';
 import { createMockSourceFile } from '../helpers/fixtures';
 
 const createSourceFile = (contents: string): ts.SourceFile => createMockSourceFile(contents);
@@ -135,4 +135,14 @@ describe('TypeScript AST utilities', () => {
     expect(getLiteralValue(getInitializer('other'))).toBeNull();
     expect(getLiteralValue(undefined)).toBeNull();
   });
+
+  it('should return 1-based node locations', () => {
+    const sourceFile = createSourceFile(`class TestComponent {
+  label = 'Label';
+}`);
+
+    const property = findNode(sourceFile, ts.isPropertyDeclaration);
+    expect(property).not.toBeNull();
+    expect(getNodeLocation(property!)).toEqual({ filePath: 'test.ts', line: 2, column: 3 });
+  });
 });
@@ -53,7 +53,7 @@ export function addGlobalOptions(program: Readonly<CommandInstance>): void {
       "Preview changes without writing files",
       DEFAULT_CONNECT_OPTIONS.dryRun,
     )
-    .option("-c, --config <path>", "Path to a config file");
+    .option("-c, --config <path>", "Path to a figma-connecter config file (auto-discovered when omitted)");
 }
 
 const { description = "Figma Connecter management tool", version = "1.0.0" } =
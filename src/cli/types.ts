@@ -24,6 +24,7 @@
  */
 
 import type { Logger } from "@/src/core/logger";
+import type { ReportFormat } from "@/src/core/types";
 
 export interface IGlobalCliOptions {
   readonly verbose?: boolean;
@@ -32,6 +33,14 @@ export interface IGlobalCliOptions {
   readonly config?: string;
 }
 
+/**
+ * Machine-readable report requested with `--report <format>:<path>`.
+ */
+export interface IReportOutput {
+  readonly format: ReportFormat;
+  readonly filePath: string;
+}
+
 export interface IProgressIndicator {
   start(label: string): void;
   update(label: string): void;
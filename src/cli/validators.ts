@@ -25,7 +25,60 @@
 import assert from "node:assert/strict";
 import path from "node:path";
 import { nodeIoAdapter } from "@/src/io/adapter";
-import type { IGlobalCliOptions } from "@/src/cli/types";
+import {
+  createDefaultParser,
+  createParser,
+  listParserTargets,
+} from "@/src/parsers/factory";
+import type { IParser, ParserTarget } from "@/src/parsers/types";
+import type { IGlobalCliOptions, IReportOutput } from "@/src/cli/types";
+import {
+  ImportResolverKind,
+  OutputLayout,
+  ReportFormat,
+} from "@/src/core/types";
+
+/**
+ * Creates the parser selected by a validated parser target.
+ *
+ * @param parserTarget - Validated parser target, or undefined for the default parser.
+ * @returns Selected parser.
+ */
+function createSelectedParser(parserTarget?: string): IParser {
+  return parserTarget
+    ? createParser(parserTarget as ParserTarget)
+    : createDefaultParser();
+}
+
+/**
+ * Validates `--changed-since <ref>` and the options it cannot be combined with.
+ *
+ * @param ref - Git ref to compare against, if provided.
+ * @param parserTarget - Validated parser target, or undefined for the default parser.
+ * @param watch - Whether watch mode is enabled.
+ * @throws Error if the ref is empty or looks like an option, watch mode is
+ * enabled, or the parser reads every component from a manifest.
+ */
+export function validateChangedSinceOption(
+  ref: string | undefined,
+  parserTarget?: string,
+  watch?: boolean,
+): void {
+  if (ref === undefined) {
+    return;
+  }
+
+  assert(
+    ref.trim().length > 0 && !ref.startsWith("-"),
+    `Invalid git ref for --changed-since: "${ref}".`,
+  );
+  assert(!watch, "--changed-since cannot be combined with --watch.");
+  const parser = createSelectedParser(parserTarget);
+  assert(
+    !parser.parseManifest,
+    `--changed-since is not supported with the ${parser.target} parser.`,
+  );
+}
 
 /**
  * Validates and resolves a config file path if provided.
@@ -73,6 +126,63 @@ export function validateGlobalOptions(
   );
 }
 
+/**
+ * Validates the import resolver option against the supported resolvers.
+ *
+ * @param value - The import resolver to validate.
+ * @returns The import resolver, or undefined if not provided.
+ * @throws Error if the resolver is unknown.
+ */
+export function validateImportResolverOption(
+  value?: string,
+): ImportResolverKind | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const resolvers: readonly string[] = Object.values(ImportResolverKind);
+  assert(
+    resolvers.includes(value),
+    `Invalid import resolver: ${value}. Allowed: ${resolvers.join(", ")}.`,
+  );
+
+  return value as ImportResolverKind;
+}
+
+/**
+ * Validates the output layout and output directory options together.
+ *
+ * The mirrored and flat layouts need an output directory; the colocated
+ * layout writes next to each component and accepts none.
+ *
+ * @param layout - Output layout, or undefined for the colocated default.
+ * @param outputDir - Output directory, if provided.
+ * @returns The output layout, or undefined if not provided.
+ * @throws Error if the layout is unknown or the output directory does not fit it.
+ */
+export function validateOutputOptions(
+  layout?: string,
+  outputDir?: string,
+): OutputLayout | undefined {
+  const layouts: readonly string[] = Object.values(OutputLayout);
+  assert(
+    layout === undefined || layouts.includes(layout),
+    `Invalid output layout: ${layout}. Allowed: ${layouts.join(", ")}.`,
+  );
+  const needsOutputDir =
+    layout === OutputLayout.Mirrored || layout === OutputLayout.Flat;
+  assert(
+    !needsOutputDir || Boolean(outputDir?.trim()),
+    `--output-layout ${layout} requires --output-dir.`,
+  );
+  assert(
+    needsOutputDir || outputDir === undefined,
+    "--output-dir requires --output-layout mirrored or flat.",
+  );
+
+  return layout as OutputLayout | undefined;
+}
+
 /**
  * Validates and resolves the path option.
  *
@@ -93,3 +203,86 @@ export function validatePathOption(
 
   return resolved;
 }
+
+/**
+ * Validates the parser option against the registered parser targets.
+ *
+ * @param value - The parser target to validate.
+ * @returns The parser target, or undefined if not provided.
+ * @throws Error if the target is not registered.
+ */
+export function validateParserOption(value?: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const targets: readonly string[] = listParserTargets();
+  assert(
+    targets.includes(value),
+    `Invalid parser target: ${value}. Allowed: ${targets.join(", ")}.`,
+  );
+
+  return value;
+}
+
+/**
+ * Validates `--report <format>:<path>` values and resolves their output paths.
+ *
+ * @param values - Raw report option values.
+ * @returns Report outputs with absolute file paths, in option order.
+ * @throws Error if a value has no path or names an unknown format.
+ */
+export function validateReportOptions(
+  values: readonly string[] = [],
+): IReportOutput[] {
+  const formats: readonly string[] = Object.values(ReportFormat);
+  return values.map(
+    /**
+     * Parses a single report option value.
+     *
+     * @param value - Raw `<format>:<path>` value.
+     * @returns Validated report output.
+     */
+    (value) => {
+      const separator = value.indexOf(":");
+      const format = (
+        separator === -1 ? value : value.slice(0, separator)
+      ).toLowerCase();
+      const filePath = separator === -1 ? "" : value.slice(separator + 1).trim();
+      assert(
+        formats.includes(format),
+        `Invalid report format: ${format}. Allowed: ${formats.join(", ")}.`,
+      );
+      assert(
+        filePath.length > 0,
+        `Missing report path for --report ${value}. Use <format>:<path>.`,
+      );
+      return {
+        format: format as ReportFormat,
+        filePath: path.resolve(process.cwd(), filePath),
+      };
+    },
+  );
+}
+
+/**
+ * Validates that `--watch` is used with a parser that loads a TypeScript program.
+ *
+ * @param watch - Whether watch mode is enabled.
+ * @param parserTarget - Validated parser target, or undefined for the default parser.
+ * @throws Error if the parser reads every component from a manifest.
+ */
+export function validateWatchOption(
+  watch: boolean | undefined,
+  parserTarget?: string,
+): void {
+  if (!watch) {
+    return;
+  }
+
+  const parser = createSelectedParser(parserTarget);
+  assert(
+    !parser.parseManifest,
+    `--watch is not supported with the ${parser.target} parser.`,
+  );
+}
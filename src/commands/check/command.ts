@@ -0,0 +1,30 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { addPipelineOptions } from '@/src/commands/connect/options';
+
+import { Command } from 'commander';
+
+import { runCheckCommand } from './handler';
+
+/**
+ * Check Command
+ *
+ * Fails when Code Connect files on disk differ from what `connect` would generate.
+ */
+export const checkCommand = addPipelineOptions(
+  new Command('check').description('Fail when Code Connect files are out of date'),
+).action(runCheckCommand);
@@ -0,0 +1,258 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Check Command Handler
+ *
+ * Runs the connect pipeline in dry-run mode and fails when any Code Connect
+ * file on disk differs from the output it would generate.
+ *
+ * @module commands/check/handler
+ */
+import path from "node:path";
+
+import CommandBuilder from "@/src/commands/command-builder";
+import {
+  buildConnectOptions,
+  createConnectContext,
+  isErrorReport,
+  logReportDiagnostics,
+  logReportSummary,
+  type ConnectCommandBaseContext,
+} from "@/src/commands/connect/handler";
+import {
+  runCommandStages,
+  writeReportOutputs,
+} from "@/src/commands/connect/helpers";
+import type { Logger } from "@/src/core/logger";
+import { addPluginLoadErrors } from "@/src/core/report";
+import type {
+  IConnectOptions,
+  IFileChangeDetail,
+  IGenerationReport,
+} from "@/src/core/types";
+import { FileChangeStatus } from "@/src/core/types";
+import { runConnectPipeline } from "@/src/pipeline";
+import type { CommandStages } from "@/src/cli/types";
+import { ProgressStatus } from "@/src/cli/types";
+import { Command } from "commander";
+import type { CheckCommandOptions } from "./types";
+
+const FAILED_EXIT_CODE = 1;
+const STALE_FILES_HEADER = "=== Stale Code Connect Files ===";
+const MISSING_FILE_LABEL = "missing";
+const CONTENT_DRIFT_LABEL = "content";
+
+type CheckCommandContext = ConnectCommandBaseContext & {
+  readonly connectOptions: IConnectOptions;
+};
+
+/**
+ * Builds the check command stages.
+ *
+ * @param options - Parsed command options.
+ * @param command - Commander command instance.
+ * @returns Command stages for the check command.
+ */
+const createCheckCommand = (
+  options: Readonly<CheckCommandOptions>,
+  command: Readonly<Command>,
+): CommandStages<CheckCommandContext, IGenerationReport> =>
+  new CommandBuilder<CheckCommandContext, IGenerationReport>()
+    .validate(createValidateStage(options, command))
+    .execute(executeCheckPipelineStage)
+    .report(reportCheckPipelineStage)
+    .onError(stopCheckProgressOnError)
+    .build();
+
+/**
+ * Creates the validate stage used by the check command builder.
+ *
+ * @param options - Parsed check command options.
+ * @param command - Commander command instance.
+ * @returns Function that builds a resolved check command context.
+ */
+function createValidateStage(
+  options: Readonly<CheckCommandOptions>,
+  command: Readonly<Command>,
+): () => CheckCommandContext {
+  /**
+   * Builds a connect context that always previews section updates.
+   *
+   * @returns Validated check command context.
+   */
+  const validate = (): CheckCommandContext => {
+    const context = createConnectContext(options, command);
+    return {
+      ...context,
+      connectOptions: {
+        ...buildConnectOptions(context),
+        dryRun: true,
+        force: false,
+      },
+    };
+  };
+  return validate;
+}
+
+/**
+ * Executes the connect pipeline in dry-run mode and updates progress state.
+ *
+ * @param context - Validated check command context.
+ * @returns Generation report from the pipeline.
+ */
+async function executeCheckPipelineStage(
+  context: Readonly<CheckCommandContext>,
+): Promise<IGenerationReport> {
+  context.progress.start("Checking Code Connect files");
+  const report = addPluginLoadErrors(
+    await runConnectPipeline(context.connectOptions, context.logger),
+    context.pluginErrors,
+  );
+  const status = isErrorReport(report)
+    ? ProgressStatus.Error
+    : ProgressStatus.Success;
+  context.progress.stop("Check complete", status);
+  return report;
+}
+
+/**
+ * Formats a stale file as a relative path and its drifted sections.
+ *
+ * @param change - File change that would be written.
+ * @returns Formatted stale-file line.
+ */
+function formatStaleFileLine(change: Readonly<IFileChangeDetail>): string {
+  const relative =
+    path.relative(process.cwd(), change.filePath) || change.filePath;
+  return `  - ${relative}: ${getDriftLabel(change)}`;
+}
+
+/**
+ * Describes why a file is stale.
+ *
+ * @param change - File change that would be written.
+ * @returns Drifted section names, or a label for missing files and non-section changes.
+ */
+function getDriftLabel(change: Readonly<IFileChangeDetail>): string {
+  if (change.status === FileChangeStatus.Created) {
+    return MISSING_FILE_LABEL;
+  }
+  return change.driftedSections?.length
+    ? change.driftedSections.join(", ")
+    : CONTENT_DRIFT_LABEL;
+}
+
+/**
+ * Collects files that the connect pipeline would create or update.
+ *
+ * @param report - Dry-run generation report.
+ * @returns File changes for stale or missing files.
+ */
+function getStaleFileChanges(
+  report: Readonly<IGenerationReport>,
+): IFileChangeDetail[] {
+  return (report.componentResults ?? []).flatMap(
+    /**
+     * Selects the stale file changes of a component.
+     *
+     * @param component - Component result to inspect.
+     * @returns File changes that are not unchanged.
+     */
+    (component) =>
+      (component.fileChanges ?? []).filter(
+        /**
+         * Keeps changes that would touch the file on disk.
+         *
+         * @param change - File change to inspect.
+         * @returns True when the file would be created or updated.
+         */
+        (change) => change.status !== FileChangeStatus.Unchanged,
+      ),
+  );
+}
+
+/**
+ * Logs stale files with their drifted sections.
+ *
+ * @param logger - Logger used for command output.
+ * @param staleFiles - File changes for stale or missing files.
+ * @returns Nothing.
+ */
+function logStaleFiles(
+  logger: Readonly<Logger>,
+  staleFiles: readonly IFileChangeDetail[],
+): void {
+  logger.info("");
+  if (staleFiles.length === 0) {
+    logger.info("Code Connect files are up to date.");
+    return;
+  }
+  logger.error(STALE_FILES_HEADER);
+  for (const change of staleFiles) {
+    logger.error(formatStaleFileLine(change));
+  }
+  logger.error(
+    `${staleFiles.length} Code Connect file(s) are stale. Run \`figma-connecter connect\` to regenerate them.`,
+  );
+}
+
+/**
+ * Reports the check outcome and sets a failing exit code for stale files or errors.
+ *
+ * @param context - Validated check command context.
+ * @param report - Dry-run generation report.
+ * @returns Nothing.
+ */
+function reportCheckPipelineStage(
+  context: Readonly<CheckCommandContext>,
+  report: Readonly<IGenerationReport>,
+): void {
+  const staleFiles = getStaleFileChanges(report);
+  logReportSummary(context.logger, report);
+  logStaleFiles(context.logger, staleFiles);
+  logReportDiagnostics(context.logger, report);
+  writeReportOutputs(report, context.reportOutputs, context.logger);
+  if (staleFiles.length > 0 || isErrorReport(report)) {
+    Reflect.set(process, "exitCode", FAILED_EXIT_CODE);
+  }
+}
+
+/**
+ * Executes the check command stages.
+ *
+ * @param options - Parsed check command options.
+ * @param command - Commander command instance for the current invocation.
+ * @returns Promise that resolves when command execution completes.
+ */
+export async function runCheckCommand(
+  options: Readonly<CheckCommandOptions>,
+  command: Readonly<Command>,
+): Promise<void> {
+  await runCommandStages(createCheckCommand(options, command));
+}
+
+/**
+ * Stops progress reporting when command execution fails.
+ *
+ * @param context - Validated check command context.
+ * @returns Nothing.
+ */
+function stopCheckProgressOnError(
+  context: Readonly<CheckCommandContext>,
+): void {
+  context.progress.stop("Check failed", ProgressStatus.Error);
+}
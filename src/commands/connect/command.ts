@@ -18,28 +18,19 @@ import { DEFAULT_CONNECT_OPTIONS } from '@/src/core/constants';
 
 import { Command } from 'commander';
 
-import { EMIT_TARGET_OPTIONS } from './constants';
 import { runConnectCommand } from './handler';
+import { addPipelineOptions } from './options';
 
 /**
  * Connect Command
  *
  * Generates or updates Figma Code Connect files for Web Components.
  */
-export const connectCommand = new Command('connect')
-  .description('Generate Figma Code Connect files for Web Components')
-  .requiredOption('-p, --path <path>', 'Path to component file or directory')
-  .option('-r, --recursive', 'Recursively scan subdirectories for components', DEFAULT_CONNECT_OPTIONS.recursive)
+export const connectCommand = addPipelineOptions(
+  new Command('connect').description('Generate Figma Code Connect files for Web Components'),
+)
   .option('-d, --dry-run', 'Preview changes without writing files')
-  .option('-e, --emit <targets>', `Emit targets: ${EMIT_TARGET_OPTIONS}`, DEFAULT_CONNECT_OPTIONS.emit)
-  .option('--strict', 'Fail on unresolved base classes', DEFAULT_CONNECT_OPTIONS.strict)
-  .option('--no-strict', 'Allow unresolved base classes')
-  .option(
-    '--continue-on-error',
-    'Continue processing components when errors occur',
-    DEFAULT_CONNECT_OPTIONS.continueOnError,
-  )
-  .option('--no-continue-on-error', 'Stop processing on first error')
-  .option('--base-import-path <path>', 'Override base import path for generated imports')
+  .option('--diff', 'Print a unified diff for each created or updated connect file')
   .option('--force', 'Force replacement of files instead of updating', DEFAULT_CONNECT_OPTIONS.force)
+  .option('--watch', 'Regenerate connect files when components or their imports change')
   .action(runConnectCommand);
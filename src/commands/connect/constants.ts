@@ -20,7 +20,29 @@
  * @module commands/connect/constants
  */
 import { formatEmitTargetOptions } from '@/src/core/emit-targets';
-import { listEmitterTargets } from '@/src/emitters/factory';
+import type { EmitTarget } from '@/src/core/types';
+import { listDefaultEmitterTargets, listEmitterTargets } from '@/src/emitters/factory';
 
-export const EMIT_TARGETS = listEmitterTargets();
-export const EMIT_TARGET_OPTIONS = formatEmitTargetOptions(EMIT_TARGETS);
+/**
+ * Lists every registered emit target, including plugin targets.
+ *
+ * Only targets registered before the call are listed, so read it after
+ * plugins load.
+ *
+ * @returns Registered emit targets in registry order.
+ */
+export const getEmitTargets = (): EmitTarget[] => listEmitterTargets();
+
+/**
+ * Lists the emit targets selected by `all`.
+ *
+ * @returns Registered per-component emit targets.
+ */
+export const getEmitAllTargets = (): EmitTarget[] => listDefaultEmitterTargets();
+
+/**
+ * Formats the registered emit targets for `--emit` help text.
+ *
+ * @returns Comma-separated targets plus `all`.
+ */
+export const getEmitTargetOptions = (): string => formatEmitTargetOptions(getEmitTargets());
@@ -27,34 +27,58 @@ import { getGlobalOptions } from "@/src/cli/options";
 
 import { createProgressIndicator } from "@/src/cli/progress";
 import {
+  validateChangedSinceOption,
   validateConfigPath,
   validateGlobalOptions,
+  validateImportResolverOption,
+  validateOutputOptions,
+  validateParserOption,
   validatePathOption,
+  validateReportOptions,
+  validateWatchOption,
 } from "@/src/cli/validators";
 import CommandBuilder from "@/src/commands/command-builder";
+import { loadProjectConfig, type IProjectConfig } from "@/src/config";
 import { DEFAULT_CONNECT_OPTIONS } from "@/src/core/constants";
 import { parseEmitTargets } from "@/src/core/emit-targets";
 import { Logger } from "@/src/core/logger";
-import { formatReportSummary } from "@/src/core/report";
+import {
+  addPluginLoadErrors,
+  createEmptyReport,
+  formatReportSummary,
+} from "@/src/core/report";
 import { hasErrors, hasWarnings } from "@/src/core/result";
 import type {
   IConnectOptions,
-  EmitterTarget,
+  EmitterSettingsMap,
+  EmitTarget,
   IGenerationReport,
   IComponentResult,
   IFileChangeDetail,
+  ImportResolverKind,
+  IPluginLoadError,
+  OutputLayout,
 } from "@/src/core/types";
-import { GenerationStatus } from "@/src/core/types";
-import { runConnectPipeline } from "@/src/pipeline";
+import { FileChangeStatus, GenerationStatus } from "@/src/core/types";
+import { DEFAULT_CACHE_PATH } from "@/src/io/generation-cache";
+import { runConnectPipeline, watchConnectPipeline } from "@/src/pipeline";
 import type {
   CommandContext,
   CommandStages,
   GlobalCliOptions,
+  IReportOutput,
 } from "@/src/cli/types";
 import { ProgressStatus } from "@/src/cli/types";
 import { Command } from "commander";
-import { EMIT_TARGETS } from "./constants";
-import { resolveLogLevel, runCommandStages } from "./helpers";
+import { getEmitAllTargets, getEmitTargets } from "./constants";
+import {
+  applyProjectConfig,
+  loadConnectPlugins,
+  resolveEmitterSettings,
+  resolveLogLevel,
+  runCommandStages,
+  writeReportOutputs,
+} from "./helpers";
 import type { IConnectCommandOptions } from "./types";
 
 type PipelineReport = IGenerationReport;
@@ -63,17 +87,32 @@ type PipelineFileChange = IFileChangeDetail;
 
 const FAILED_EXIT_CODE = 1;
 const DRY_RUN_DETAILS_HEADER = "=== Dry Run Details ===";
+const FILE_DIFFS_HEADER = "=== File Diffs ===";
+const NEW_FILE_DIFF_PATH = "/dev/null";
 const GENERATION_SUMMARY_HEADER = "=== Generation Summary ===";
 const UNKNOWN_COMPONENT_NAME = "UnknownComponent";
+const WATCH_STARTED_MESSAGE = "Watching for changes. Press Ctrl+C to stop.";
+const WATCH_STOPPED_MESSAGE = "Stopped watching.";
 
 interface IResolvedConnectInputs {
   readonly inputPath: string;
+  readonly inputPaths: readonly string[];
+  readonly urlManifestPath: string | undefined;
+  readonly tsconfigPath: string | undefined;
+  readonly importResolver: ImportResolverKind | undefined;
+  readonly outputLayout: OutputLayout | undefined;
+  readonly outputRoot: string | undefined;
   readonly configPath: string | undefined;
-  readonly emitTargets: readonly EmitterTarget[];
+  readonly projectConfig: IProjectConfig;
+  readonly emitterSettings: EmitterSettingsMap | undefined;
+  readonly emitTargets: readonly EmitTarget[];
+  readonly pluginErrors: readonly IPluginLoadError[];
   readonly dryRun: boolean;
+  readonly reportOutputs: readonly IReportOutput[];
+  readonly toolVersion: string | undefined;
 }
 
-type ConnectCommandBaseContext = CommandContext<
+export type ConnectCommandBaseContext = CommandContext<
   IConnectCommandOptions,
   IResolvedConnectInputs
 >;
@@ -87,20 +126,46 @@ type ConnectCommandContext = ConnectCommandBaseContext & {
  * @param context - Validated connect command context.
  * @returns Connect pipeline options derived from CLI inputs.
  */
-function buildConnectOptions(
+export function buildConnectOptions(
   context: Readonly<ConnectCommandBaseContext>,
 ): IConnectOptions {
-  const { options, inputPath, configPath, emitTargets, dryRun } = context;
+  const {
+    options,
+    inputPath,
+    inputPaths,
+    projectConfig,
+    emitterSettings,
+    emitTargets,
+    dryRun,
+  } = context;
   return {
     inputPath,
+    inputPaths,
     recursive: options.recursive,
+    include: options.include,
+    exclude: options.exclude,
+    gitignore: options.gitignore,
     dryRun,
     emitTargets,
     strict: options.strict,
-    tsconfigPath: configPath,
+    tsconfigPath: context.tsconfigPath,
     continueOnError: options.continueOnError,
     baseImportPath: options.baseImportPath,
     force: options.force ?? DEFAULT_CONNECT_OPTIONS.force,
+    parserTarget: validateParserOption(options.parser),
+    emitterSettings,
+    urlManifestPath: context.urlManifestPath,
+    requireUrls: options.requireUrls ?? DEFAULT_CONNECT_OPTIONS.requireUrls,
+    diff: options.diff ?? false,
+    cachePath: resolveCachePath(options.cache, context.configPath),
+    toolVersion: context.toolVersion,
+    changedSince: options.changedSince,
+    outputLayout: context.outputLayout,
+    outputDir: options.outputDir ? path.resolve(options.outputDir) : undefined,
+    outputRoot: context.outputRoot,
+    importResolver: context.importResolver,
+    tagNamespace: projectConfig.tagNamespace,
+    figmaProperties: projectConfig.figmaProperties,
   };
 }
 
@@ -125,39 +190,88 @@ const createConnectCommand = (
 /**
  * Resolves and validates inputs for the connect command.
  *
- * @param options - Parsed command options.
+ * @param cliOptions - Parsed command options before project config is applied.
  * @param command - Commander command instance.
  * @returns Resolved inputs and helpers for command execution.
  */
-function createConnectContext(
-  options: Readonly<IConnectCommandOptions>,
+export function createConnectContext(
+  cliOptions: Readonly<IConnectCommandOptions>,
   command: Readonly<Command>,
 ): ConnectCommandBaseContext {
   const globalOptions = getGlobalOptions(command);
   validateGlobalOptions(globalOptions);
   const logger = new Logger(resolveLogLevel(globalOptions));
   const progress = createProgressIndicator({ enabled: !globalOptions.quiet });
-  const dryRun = isDryRun(options, globalOptions);
   progress.start("Validating options");
-  const inputPath = validatePathOption(options.path);
-  const configPath = validateConfigPath(globalOptions.config);
-  const emitTargets = parseEmitTargets(options.emit, EMIT_TARGETS);
+  const loadedConfig = loadProjectConfig({
+    configPath: validateConfigPath(globalOptions.config),
+  });
+  const projectConfig = loadedConfig.config;
+  const configPath = loadedConfig.filePath;
+  const options = applyProjectConfig(cliOptions, command, projectConfig);
+  const pluginErrors = loadConnectPlugins(options, projectConfig, configPath);
+  const dryRun = isDryRun(options, globalOptions);
+  const inputPaths = validatePathOptions(options.path);
+  const inputPath = inputPaths[0];
+  const urlManifestPath = options.urls
+    ? validatePathOption(options.urls, "--urls")
+    : undefined;
+  const tsconfigPath = options.tsconfig
+    ? validatePathOption(options.tsconfig, "--tsconfig")
+    : undefined;
+  const importResolver = validateImportResolverOption(options.importResolver);
+  const outputLayout = validateOutputOptions(
+    options.outputLayout,
+    options.outputDir,
+  );
+  const outputRoot = options.outputRoot
+    ? validatePathOption(options.outputRoot, "--output-root")
+    : undefined;
+  const emitTargets = parseEmitTargets(
+    options.emit,
+    getEmitTargets(),
+    getEmitAllTargets(),
+  );
+  const emitterSettings = resolveEmitterSettings(
+    cliOptions,
+    command,
+    projectConfig,
+  );
+  const reportOutputs = validateReportOptions(options.report);
+  const parserTarget = validateParserOption(options.parser);
+  validateWatchOption(options.watch, parserTarget);
+  validateChangedSinceOption(
+    options.changedSince,
+    parserTarget,
+    options.watch,
+  );
   progress.stop("Options validated");
-  logger.info("Connect command initialized.");
+  logger.info(`${formatCommandTitle(command)} command initialized.`);
   logResolvedConnectOptions(logger, options, {
     configPath,
     dryRun,
     emitTargets,
-    inputPath,
+    inputPaths,
   });
 
   return {
     options,
     globalOptions,
     inputPath,
+    inputPaths,
+    urlManifestPath,
+    tsconfigPath,
+    importResolver,
+    outputLayout,
+    outputRoot,
     configPath,
+    projectConfig,
+    emitterSettings,
     emitTargets,
+    pluginErrors,
     dryRun,
+    reportOutputs,
+    toolVersion: command.parent?.version(),
     logger,
     progress,
   };
@@ -198,10 +312,13 @@ function createValidateStage(
 async function executeConnectPipelineStage(
   context: Readonly<ConnectCommandContext>,
 ): Promise<PipelineReport> {
+  if (context.options.watch) {
+    return watchConnectPipelineStage(context);
+  }
   context.progress.start("Running connect pipeline");
-  const report = await runConnectPipeline(
-    context.connectOptions,
-    context.logger,
+  const report = addPluginLoadErrors(
+    await runConnectPipeline(context.connectOptions, context.logger),
+    context.pluginErrors,
   );
   const pStatus = isErrorReport(report)
     ? ProgressStatus.Error
@@ -221,7 +338,8 @@ function isDryRun(
   globalOptions: Readonly<GlobalCliOptions>,
 ): boolean {
   return (
-    options.dryRun ?? globalOptions.dryRun ?? DEFAULT_CONNECT_OPTIONS.dryRun
+    Boolean(globalOptions.dryRun) ||
+    (options.dryRun ?? DEFAULT_CONNECT_OPTIONS.dryRun)
   );
 }
 
@@ -231,7 +349,7 @@ function isDryRun(
  * @param report - Generation report to evaluate.
  * @returns True when the report status is `error`.
  */
-function isErrorReport(report: Readonly<PipelineReport>): boolean {
+export function isErrorReport(report: Readonly<PipelineReport>): boolean {
   return report.status === GenerationStatus.Error;
 }
 
@@ -257,13 +375,38 @@ function logDryRunDetails(
   }
 }
 
+/**
+ * Logs unified diffs for every created or updated file in a pipeline report.
+ * @param logger - Logger used for command output.
+ * @param report - Pipeline report containing file changes with diffs.
+ * @returns Nothing.
+ */
+function logFileDiffs(
+  logger: Readonly<Logger>,
+  report: Readonly<PipelineReport>,
+): void {
+  const diffs = (report.componentResults ?? [])
+    .flatMap(getFileChanges)
+    .filter(hasFileDiff)
+    .map(formatFileDiff);
+  if (diffs.length === 0) {
+    return;
+  }
+
+  logger.info("");
+  logger.info(FILE_DIFFS_HEADER);
+  for (const diff of diffs) {
+    logger.diff(diff);
+  }
+}
+
 /**
  * Logs warning and error diagnostics from a pipeline report.
  * @param logger - Logger used for command output.
  * @param report - Pipeline report containing diagnostics.
  * @returns Nothing.
  */
-function logReportDiagnostics(
+export function logReportDiagnostics(
   logger: Readonly<Logger>,
   report: Readonly<PipelineReport>,
 ): void {
@@ -295,6 +438,24 @@ function logReportDiagnostics(
   }
 }
 
+/**
+ * Logs components emitted without a mapped Figma URL.
+ * @param logger - Logger used for command output.
+ * @param report - Pipeline report containing unmapped URL tag names.
+ * @returns Nothing.
+ */
+function logUnmappedUrls(
+  logger: Readonly<Logger>,
+  report: Readonly<PipelineReport>,
+): void {
+  if (!report.unmappedUrls?.length) {
+    return;
+  }
+  logger.debug("Components without a mapped Figma URL.", {
+    tagNames: report.unmappedUrls,
+  });
+}
+
 /**
  * Logs dry-run summary and file changes for a single component result.
  * @param logger - Logger used for command output.
@@ -311,6 +472,30 @@ function logComponentDryRunDetails(
   }
 }
 
+/**
+ * Formats a command name for log messages.
+ * @param command - Commander command instance.
+ * @returns Command name with its first letter capitalized.
+ */
+function formatCommandTitle(command: Readonly<Command>): string {
+  const name = command.name();
+  return `${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+}
+
+/**
+ * Formats a file change as a unified diff with `---`/`+++` headers.
+ * @param change - File change carrying diff hunks.
+ * @returns Unified diff text using working-directory-relative paths.
+ */
+function formatFileDiff(change: Readonly<PipelineFileChange>): string {
+  const relative = formatDisplayPath(change.filePath);
+  const previous =
+    change.status === FileChangeStatus.Created
+      ? NEW_FILE_DIFF_PATH
+      : `a/${relative}`;
+  return [`--- ${previous}`, `+++ b/${relative}`, change.diff].join("\n");
+}
+
 /**
  * Formats the dry-run summary line for a component result.
  * @param component - Component result to summarize.
@@ -341,6 +526,26 @@ function getComponentDisplayName(
   );
 }
 
+/**
+ * Returns the file changes recorded for a component result.
+ * @param component - Component result to inspect.
+ * @returns Recorded file changes, or an empty list.
+ */
+function getFileChanges(
+  component: Readonly<PipelineComponentResult>,
+): readonly PipelineFileChange[] {
+  return component.fileChanges ?? [];
+}
+
+/**
+ * Returns true when a file change carries diff hunks.
+ * @param change - File change to inspect.
+ * @returns True when the change has a non-empty diff.
+ */
+function hasFileDiff(change: Readonly<PipelineFileChange>): boolean {
+  return Boolean(change.diff);
+}
+
 /**
  * Builds the dry-run file-change lines for a component result.
  * @param component - Component result whose file changes should be logged.
@@ -349,7 +554,7 @@ function getComponentDisplayName(
 function getDryRunChangeLines(
   component: Readonly<PipelineComponentResult>,
 ): readonly string[] {
-  return (component.fileChanges ?? []).map(formatDryRunChangeLine);
+  return getFileChanges(component).map(formatDryRunChangeLine);
 }
 
 /**
@@ -360,8 +565,16 @@ function getDryRunChangeLines(
 function formatDryRunChangeLine(
   change: Readonly<PipelineFileChange>,
 ): string {
-  const relative = path.relative(process.cwd(), change.filePath) || change.filePath;
-  return `  - ${relative}: ${change.status} (${change.reason})`;
+  return `  - ${formatDisplayPath(change.filePath)}: ${change.status} (${change.reason})`;
+}
+
+/**
+ * Formats a file path relative to the working directory for display.
+ * @param filePath - Absolute file path.
+ * @returns Relative path, or the original path when it is the working directory.
+ */
+function formatDisplayPath(filePath: string): string {
+  return path.relative(process.cwd(), filePath) || filePath;
 }
 
 /**
@@ -370,7 +583,7 @@ function formatDryRunChangeLine(
  * @param report - Pipeline report to summarize.
  * @returns Nothing.
  */
-function logReportSummary(
+export function logReportSummary(
   logger: Readonly<Logger>,
   report: Readonly<PipelineReport>,
 ): void {
@@ -404,13 +617,16 @@ function logResolvedConnectOptions(
   resolved: Readonly<{
     configPath?: string;
     dryRun: boolean;
-    emitTargets: readonly EmitterTarget[];
-    inputPath: string;
+    emitTargets: readonly EmitTarget[];
+    inputPaths: readonly string[];
   }>,
 ): void {
   logger.debug("Resolved options", {
-    inputPath: resolved.inputPath,
+    inputPaths: resolved.inputPaths,
     recursive: options.recursive,
+    include: options.include,
+    exclude: options.exclude,
+    gitignore: options.gitignore,
     dryRun: resolved.dryRun,
     emitTargets: resolved.emitTargets,
     strict: options.strict,
@@ -418,6 +634,19 @@ function logResolvedConnectOptions(
     continueOnError: options.continueOnError,
     baseImportPath: options.baseImportPath,
     force: options.force,
+    urls: options.urls,
+    requireUrls: options.requireUrls,
+    parser: options.parser,
+    diff: options.diff,
+    report: options.report,
+    watch: options.watch,
+    cache: options.cache,
+    changedSince: options.changedSince,
+    importResolver: options.importResolver,
+    outputLayout: options.outputLayout,
+    outputDir: options.outputDir,
+    outputRoot: options.outputRoot,
+    plugin: options.plugin,
   });
   if (resolved.dryRun) {
     logger.info("Dry run enabled. No files will be written.");
@@ -438,9 +667,34 @@ function reportConnectPipelineStage(
   context: Readonly<ConnectCommandContext>,
   report: Readonly<PipelineReport>,
 ): void {
+  if (context.options.watch) {
+    context.logger.info(WATCH_STOPPED_MESSAGE);
+    return;
+  }
   reportPipelineOutcome(context, report);
 }
 
+/**
+ * Resolves the regeneration cache location.
+ *
+ * The cache lives next to the project config when one is loaded, otherwise
+ * under the current working directory.
+ *
+ * @param cache - Parsed `--cache` flag (false for `--no-cache`).
+ * @param configPath - Loaded project config path, when any.
+ * @returns Absolute cache path, or undefined when caching is disabled.
+ */
+function resolveCachePath(
+  cache: boolean | undefined,
+  configPath: string | undefined,
+): string | undefined {
+  if (cache === false) {
+    return undefined;
+  }
+  const baseDir = configPath ? path.dirname(configPath) : process.cwd();
+  return path.resolve(baseDir, DEFAULT_CACHE_PATH);
+}
+
 /**
  * Executes the connect command stages and wraps stage errors consistently.
  * @param options - Parsed connect command options.
@@ -454,6 +708,27 @@ export async function runConnectCommand(
   await runCommandStages(createConnectCommand(options, command));
 }
 
+/**
+ * Validates every configured input path, defaulting to the current directory.
+ *
+ * @param paths - Path option value from the CLI or project config.
+ * @returns Absolute input paths in the order they were given.
+ */
+function validatePathOptions(
+  paths: string | readonly string[] | undefined,
+): string[] {
+  const values = typeof paths === "string" ? [paths] : (paths ?? []);
+  return (values.length > 0 ? values : [""]).map(
+    /**
+     * Validates a single input path.
+     *
+     * @param value - Input path to validate.
+     * @returns Absolute input path.
+     */
+    (value) => validatePathOption(value),
+  );
+}
+
 /**
  * Stops progress reporting when command execution fails.
  *
@@ -475,13 +750,31 @@ function stopConnectProgressOnError(
 function reportPipelineOutcome(
   context: Readonly<ConnectCommandContext>,
   report: Readonly<PipelineReport>,
+): void {
+  logPipelineReport(context, report);
+  applyReportExitCode(report);
+}
+
+/**
+ * Logs a pipeline report and writes the requested report files.
+ * @param context - Validated connect command context.
+ * @param report - Pipeline generation report.
+ * @returns Nothing.
+ */
+function logPipelineReport(
+  context: Readonly<ConnectCommandContext>,
+  report: Readonly<PipelineReport>,
 ): void {
   logReportSummary(context.logger, report);
   if (context.dryRun) {
     logDryRunDetails(context.logger, report);
   }
+  if (context.connectOptions.diff) {
+    logFileDiffs(context.logger, report);
+  }
   logReportDiagnostics(context.logger, report);
-  applyReportExitCode(report);
+  logUnmappedUrls(context.logger, report);
+  writeReportOutputs(report, context.reportOutputs, context.logger);
 }
 
 /**
@@ -494,3 +787,55 @@ function applyReportExitCode(report: Readonly<PipelineReport>): void {
     Reflect.set(process, "exitCode", FAILED_EXIT_CODE);
   }
 }
+
+/**
+ * Runs the connect pipeline in watch mode until the process receives SIGINT.
+ *
+ * Every run is reported as soon as it completes.
+ * @param context - Validated connect command context.
+ * @returns Promise resolving to the last run's report once watching stops.
+ */
+function watchConnectPipelineStage(
+  context: Readonly<ConnectCommandContext>,
+): Promise<PipelineReport> {
+  return new Promise(
+    /**
+     * Starts watching and resolves when the user interrupts the process.
+     *
+     * @param resolve - Resolves the stage with the last report.
+     * @returns Nothing.
+     */
+    (resolve) => {
+      let lastReport: PipelineReport = createEmptyReport();
+      const watcher = watchConnectPipeline(
+        context.connectOptions,
+        context.logger,
+        {
+          /**
+           * Logs each run and remembers its report.
+           *
+           * @param report - Report of the completed run.
+           * @returns Nothing.
+           */
+          onReport: (report) => {
+            lastReport = addPluginLoadErrors(report, context.pluginErrors);
+            logPipelineReport(context, lastReport);
+          },
+        },
+      );
+      context.logger.info(WATCH_STARTED_MESSAGE);
+      process.once(
+        "SIGINT",
+        /**
+         * Stops watching and completes the stage.
+         *
+         * @returns Nothing.
+         */
+        () => {
+          watcher.close();
+          resolve(lastReport);
+        },
+      );
+    },
+  );
+}
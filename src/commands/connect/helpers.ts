@@ -19,8 +19,281 @@
  *
  * @module commands/connect/helpers
  */
-import { LogLevel } from "@/src/core/logger";
-import type { ICommandStages, IGlobalCliOptions } from "@/src/cli/types";
+import path from "node:path";
+
+import type {
+  ICommandStages,
+  IGlobalCliOptions,
+  IReportOutput,
+} from "@/src/cli/types";
+import type { IProjectConfig, ProjectConfigEmit } from "@/src/config/types";
+import { LogLevel, type Logger } from "@/src/core/logger";
+import { formatReport } from "@/src/core/report-formats";
+import type {
+  EmitterSettingsMap,
+  IEmitterSettings,
+  IGenerationReport,
+  IPluginLoadError,
+} from "@/src/core/types";
+import { nodeIoAdapter, type IIoAdapter } from "@/src/io/adapter";
+import { loadPlugins } from "@/src/plugins/loader";
+import type { Command } from "commander";
+
+import type { IConnectCommandOptions } from "./types";
+
+/** Commander value source reported for options left at their declared default. */
+const DEFAULT_OPTION_SOURCE = "default";
+
+/**
+ * Applies project config values to connect options not set on the command line.
+ *
+ * CLI flags always win; config values replace Commander defaults and unset options.
+ *
+ * @param options - Parsed connect command options.
+ * @param command - Commander command used to detect explicit CLI flags.
+ * @param config - Validated project config.
+ * @returns Connect options with config values applied.
+ */
+export function applyProjectConfig(
+  options: Readonly<IConnectCommandOptions>,
+  command: Readonly<Command>,
+  config: Readonly<IProjectConfig>,
+): IConnectCommandOptions {
+  return {
+    ...options,
+    path: resolveConfiguredOption(command, "path", options.path, config.path),
+    recursive: resolveConfiguredOption(
+      command,
+      "recursive",
+      options.recursive,
+      config.recursive,
+    ),
+    include: resolveConfiguredOption(
+      command,
+      "include",
+      options.include,
+      config.include,
+    ),
+    exclude: resolveConfiguredOption(
+      command,
+      "exclude",
+      options.exclude,
+      config.exclude,
+    ),
+    gitignore: resolveConfiguredOption(
+      command,
+      "gitignore",
+      options.gitignore,
+      config.gitignore,
+    ),
+    dryRun: resolveConfiguredOption(
+      command,
+      "dryRun",
+      options.dryRun,
+      config.dryRun,
+    ),
+    force: resolveConfiguredOption(
+      command,
+      "force",
+      options.force,
+      config.force,
+    ),
+    emit: resolveConfiguredOption(
+      command,
+      "emit",
+      options.emit,
+      formatConfiguredEmit(config.emit),
+    ),
+    strict: resolveConfiguredOption(
+      command,
+      "strict",
+      options.strict,
+      config.strict,
+    ),
+    continueOnError: resolveConfiguredOption(
+      command,
+      "continueOnError",
+      options.continueOnError,
+      config.continueOnError,
+    ),
+    baseImportPath: resolveConfiguredOption(
+      command,
+      "baseImportPath",
+      options.baseImportPath,
+      config.baseImportPath,
+    ),
+    urls: resolveConfiguredOption(command, "urls", options.urls, config.urls),
+    requireUrls: resolveConfiguredOption(
+      command,
+      "requireUrls",
+      options.requireUrls,
+      config.requireUrls,
+    ),
+    parser: resolveConfiguredOption(
+      command,
+      "parser",
+      options.parser,
+      config.parser,
+    ),
+    tsconfig: resolveConfiguredOption(
+      command,
+      "tsconfig",
+      options.tsconfig,
+      config.tsconfig,
+    ),
+    importResolver: resolveConfiguredOption(
+      command,
+      "importResolver",
+      options.importResolver,
+      config.importResolver,
+    ),
+    outputLayout: resolveConfiguredOption(
+      command,
+      "outputLayout",
+      options.outputLayout,
+      config.outputLayout,
+    ),
+    outputDir: resolveConfiguredOption(
+      command,
+      "outputDir",
+      options.outputDir,
+      config.outputDir,
+    ),
+    outputRoot: resolveConfiguredOption(
+      command,
+      "outputRoot",
+      options.outputRoot,
+      config.outputRoot,
+    ),
+  };
+}
+
+/**
+ * Normalizes a configured emit value into the CLI comma-separated form.
+ *
+ * @param emit - Emit value from the project config.
+ * @returns Comma-separated emit targets, or undefined when not configured.
+ */
+function formatConfiguredEmit(
+  emit: ProjectConfigEmit | undefined,
+): string | undefined {
+  if (emit === undefined) {
+    return undefined;
+  }
+  return typeof emit === "string" ? emit : emit.join(",");
+}
+
+/**
+ * Returns true when an option was explicitly provided on the command line.
+ *
+ * @param options - Parsed connect command options.
+ * @param command - Commander command used to read option value sources.
+ * @param key - Option key to inspect.
+ * @returns True when the option has a value that did not come from a default.
+ */
+export function isCliOptionSet(
+  options: Readonly<IConnectCommandOptions>,
+  command: Readonly<Command>,
+  key: keyof IConnectCommandOptions,
+): boolean {
+  return isExplicitCliValue(command, key, options[key]);
+}
+
+/**
+ * Returns true when a parsed option value did not come from a Commander default.
+ *
+ * @param command - Commander command used to read option value sources.
+ * @param key - Option key to inspect.
+ * @param value - Parsed option value.
+ * @returns True when the value is set and was not defaulted.
+ */
+function isExplicitCliValue(
+  command: Readonly<Command>,
+  key: keyof IConnectCommandOptions,
+  value: unknown,
+): boolean {
+  return (
+    value !== undefined &&
+    command.getOptionValueSource(key) !== DEFAULT_OPTION_SOURCE
+  );
+}
+
+/**
+ * Loads the plugins named in the project config and on the command line.
+ *
+ * Config entries resolve from the config file directory and `--plugin`
+ * values from the working directory. Config plugins load first.
+ *
+ * @param options - Parsed command options carrying `--plugin` values.
+ * @param config - Validated project config.
+ * @param configPath - Loaded project config path, when any.
+ * @returns Plugins that failed to load.
+ */
+export function loadConnectPlugins(
+  options: Readonly<Pick<IConnectCommandOptions, "plugin">>,
+  config: Readonly<IProjectConfig>,
+  configPath: string | undefined,
+): IPluginLoadError[] {
+  const configDir = configPath ? path.dirname(configPath) : process.cwd();
+  return [
+    ...loadPlugins(config.plugins ?? [], configDir),
+    ...loadPlugins(options.plugin ?? [], process.cwd()),
+  ];
+}
+
+/**
+ * Resolves per-emitter settings, letting an explicit `--base-import-path` win.
+ *
+ * @param options - Parsed connect command options.
+ * @param command - Commander command used to detect explicit CLI flags.
+ * @param config - Validated project config.
+ * @returns Emitter settings keyed by target, or undefined when none are configured.
+ */
+export function resolveEmitterSettings(
+  options: Readonly<IConnectCommandOptions>,
+  command: Readonly<Command>,
+  config: Readonly<IProjectConfig>,
+): EmitterSettingsMap | undefined {
+  if (!config.emitters || !isCliOptionSet(options, command, "baseImportPath")) {
+    return config.emitters;
+  }
+
+  return Object.fromEntries(
+    Object.entries(config.emitters).map(
+      /**
+       * Drops the per-emitter base import path in favor of the CLI flag.
+       *
+       * @param entry - Emitter target and its configured settings.
+       * @returns Emitter target and settings without `baseImportPath`.
+       */
+      (entry): [string, IEmitterSettings] => {
+        const [target, settings] = entry;
+        return [target, { ...settings, baseImportPath: undefined }];
+      },
+    ),
+  );
+}
+
+/**
+ * Picks the CLI value for an option when set explicitly, otherwise the config value.
+ *
+ * @param command - Commander command used to detect explicit CLI flags.
+ * @param key - Option key to resolve.
+ * @param cliValue - Value parsed from the command line or its default.
+ * @param configValue - Value supplied by the project config.
+ * @returns Resolved option value.
+ */
+function resolveConfiguredOption<TValue>(
+  command: Readonly<Command>,
+  key: keyof IConnectCommandOptions,
+  cliValue: TValue,
+  configValue: TValue | undefined,
+): TValue {
+  if (isExplicitCliValue(command, key, cliValue) || configValue === undefined) {
+    return cliValue;
+  }
+  return configValue;
+}
 
 /**
  * Resolves the log level based on global CLI options.
@@ -60,3 +333,24 @@ export async function runCommandStages<Context, IResult>(
     );
   }
 }
+
+/**
+ * Writes each requested machine-readable report to disk.
+ *
+ * @param report - Generation report to serialize.
+ * @param outputs - Validated report formats and destination paths.
+ * @param logger - Logger used to announce written reports.
+ * @param io - IO adapter used for writing.
+ * @returns Nothing.
+ */
+export function writeReportOutputs(
+  report: Readonly<IGenerationReport>,
+  outputs: readonly IReportOutput[],
+  logger: Readonly<Logger>,
+  io: Readonly<IIoAdapter> = nodeIoAdapter,
+): void {
+  for (const output of outputs) {
+    io.writeFile(output.filePath, formatReport(report, output.format));
+    logger.info(`Wrote ${output.format} report: ${output.filePath}`);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Connect Command - Shared Options
+ *
+ * Options shared by commands that run the connect pipeline.
+ *
+ * @module commands/connect/options
+ */
+import { getGlobalOptions } from '@/src/cli/options';
+import { validateConfigPath } from '@/src/cli/validators';
+import { loadProjectConfig } from '@/src/config';
+import { DEFAULT_CONNECT_OPTIONS } from '@/src/core/constants';
+
+import { Command, Help, type Option } from 'commander';
+
+import { getEmitTargetOptions } from './constants';
+import { loadConnectPlugins } from './helpers';
+import type { IConnectCommandOptions } from './types';
+
+/** Long flag of the option whose help lists the registered emit targets. */
+const EMIT_OPTION_FLAG = '--emit';
+
+/**
+ * Adds the pipeline input options shared by `connect` and `check`.
+ *
+ * The `--emit` help text is rebuilt when help renders, after the configured
+ * plugins have registered their emitters.
+ *
+ * @param command - Commander command to extend.
+ * @returns The same command with pipeline options registered.
+ */
+export function addPipelineOptions(command: Command): Command {
+  return command
+    .option(
+      '-p, --path <path>',
+      'Path to component file or directory (defaults to the config file `path`); repeatable',
+      collectOptionValues,
+    )
+    .option('-r, --recursive', 'Recursively scan subdirectories for components', DEFAULT_CONNECT_OPTIONS.recursive)
+    .option(
+      '--include <glob>',
+      'Glob pattern selecting component files (default **/*.component.ts); repeatable',
+      collectOptionValues,
+    )
+    .option('--exclude <glob>', 'Glob pattern for files or directories to skip; repeatable', collectOptionValues)
+    .option('--no-gitignore', 'Discover files even when .gitignore excludes them')
+    .option('-e, --emit <targets>', formatEmitOptionDescription(), DEFAULT_CONNECT_OPTIONS.emit)
+    .option('--strict', 'Fail on unresolved base classes', DEFAULT_CONNECT_OPTIONS.strict)
+    .option('--no-strict', 'Allow unresolved base classes')
+    .option(
+      '--continue-on-error',
+      'Continue processing components when errors occur',
+      DEFAULT_CONNECT_OPTIONS.continueOnError,
+    )
+    .option('--no-continue-on-error', 'Stop processing on first error')
+    .option('--base-import-path <path>', 'Override base import path for generated imports')
+    .option('--urls <path>', 'Path to a Figma URL manifest (JSON or YAML)')
+    .option('--require-urls', 'Fail components without a Figma URL mapping', DEFAULT_CONNECT_OPTIONS.requireUrls)
+    .option('--parser <target>', 'Parser target used to read components (e.g. webcomponent, cem)')
+    .option(
+      '--tsconfig <path>',
+      'Path to tsconfig.json for the TypeScript program (defaults to the config file `tsconfig`)',
+    )
+    .option('--import-resolver <name>', 'How generated imports are computed: heuristic or package')
+    .option('--output-layout <layout>', 'Where to write Code Connect files: colocated, mirrored, or flat')
+    .option('--output-dir <path>', 'Output directory for the mirrored and flat layouts')
+    .option('--output-root <path>', 'Source root mirrored below --output-dir (defaults to --path)')
+    .option('--no-cache', 'Regenerate every component instead of skipping unchanged ones')
+    .option('--changed-since <ref>', 'Only process components changed since a git ref, including their imports')
+    .option(
+      '--plugin <module>',
+      'Plugin package name or path to load before generation; repeatable',
+      collectOptionValues,
+    )
+    .option(
+      '--report <format:path>',
+      'Write a machine-readable report (json, junit, or sarif); repeatable',
+      collectOptionValues,
+      [],
+    )
+    .configureHelp({ optionDescription: describePipelineOption })
+    .on('beforeHelp', loadHelpPlugins.bind(undefined, command));
+}
+
+/**
+ * Formats the `--emit` description from the currently registered emit targets.
+ *
+ * @returns Option description listing every registered target.
+ */
+function formatEmitOptionDescription(): string {
+  return `Emit targets: ${getEmitTargetOptions()}`;
+}
+
+/**
+ * Describes a pipeline option for help output.
+ *
+ * @param option - Commander option being rendered.
+ * @returns Option description with Commander's default and choice details.
+ */
+function describePipelineOption(option: Option): string {
+  if (option.long === EMIT_OPTION_FLAG) {
+    option.description = formatEmitOptionDescription();
+  }
+  return new Help().optionDescription(option);
+}
+
+/**
+ * Loads the config and `--plugin` plugins before help renders.
+ *
+ * Config and plugin errors are left for the command itself to report, so
+ * help still renders with the targets that did load.
+ *
+ * @param command - Command whose help is about to render.
+ * @returns Nothing.
+ */
+function loadHelpPlugins(command: Command): void {
+  try {
+    const loadedConfig = loadProjectConfig({
+      configPath: validateConfigPath(getGlobalOptions(command).config),
+    });
+    loadConnectPlugins(command.opts<IConnectCommandOptions>(), loadedConfig.config, loadedConfig.filePath);
+  } catch {
+    // Help falls back to the emitters registered so far.
+  }
+}
+
+/**
+ * Collects repeated option values in the order they were passed.
+ *
+ * @param value - Value of the current option occurrence.
+ * @param previous - Values collected so far.
+ * @returns Collected values including the current one.
+ */
+export function collectOptionValues(value: string, previous: readonly string[] = []): string[] {
+  return [...previous, value];
+}
@@ -24,12 +24,29 @@
  * Options passed from Commander to the connect command.
  */
 export interface IConnectCommandOptions {
-  readonly path: string;
+  readonly path?: string | readonly string[];
   readonly recursive: boolean;
+  readonly include?: readonly string[];
+  readonly exclude?: readonly string[];
+  readonly gitignore?: boolean;
   readonly dryRun?: boolean;
+  readonly diff?: boolean;
   readonly force?: boolean;
   readonly emit: string;
   readonly strict: boolean;
   readonly continueOnError: boolean;
   readonly baseImportPath?: string;
+  readonly urls?: string;
+  readonly requireUrls?: boolean;
+  readonly parser?: string;
+  readonly tsconfig?: string;
+  readonly importResolver?: string;
+  readonly outputLayout?: string;
+  readonly outputDir?: string;
+  readonly outputRoot?: string;
+  readonly report?: readonly string[];
+  readonly cache?: boolean;
+  readonly changedSince?: string;
+  readonly watch?: boolean;
+  readonly plugin?: readonly string[];
 }
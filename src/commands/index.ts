@@ -40,5 +40,7 @@
  * ```
  */
 
+export * from './check';
 export * from './connect';
+export * from './plugins';
 export { listCommandNames, registerCommands } from './registry';
@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { collectOptionValues } from '@/src/commands/connect/options';
+
+import { Argument, Command } from 'commander';
+
+import { runPluginsCommand } from './handler';
+import { PluginsAction } from './types';
+
+/**
+ * Plugins Command
+ *
+ * Lists the registered parsers and emitters, including loaded plugins.
+ */
+export const pluginsCommand = new Command('plugins')
+  .description('List registered parsers and emitters, including loaded plugins')
+  .addArgument(
+    new Argument('[action]', 'Action to run').choices(Object.values(PluginsAction)).default(PluginsAction.List),
+  )
+  .option('--json', 'Print the plugin list as JSON')
+  .option('--plugin <module>', 'Plugin package name or path to load before listing; repeatable', collectOptionValues)
+  .action(runPluginsCommand);
@@ -0,0 +1,231 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Plugins Command Handler
+ *
+ * Loads the configured plugins and lists every registered parser and emitter
+ * with its metadata and the module it came from.
+ *
+ * @module commands/plugins/handler
+ */
+import { getGlobalOptions } from "@/src/cli/options";
+import { createProgressIndicator } from "@/src/cli/progress";
+import type { CommandContext, CommandStages } from "@/src/cli/types";
+import { validateConfigPath, validateGlobalOptions } from "@/src/cli/validators";
+import CommandBuilder from "@/src/commands/command-builder";
+import {
+  loadConnectPlugins,
+  resolveLogLevel,
+  runCommandStages,
+} from "@/src/commands/connect/helpers";
+import { loadProjectConfig } from "@/src/config";
+import { Logger } from "@/src/core/logger";
+import { formatPluginLoadError } from "@/src/core/report";
+import type { IPluginLoadError } from "@/src/core/types";
+import { getPluginInfo, type IPluginInfo } from "@/src/plugins";
+import type { IPluginInfoEntry } from "@/src/plugins/types";
+import { Command } from "commander";
+
+import type { IPluginsCommandOptions, PluginsAction } from "./types";
+
+const FAILED_EXIT_CODE = 1;
+const EMITTERS_HEADER = "Emitters";
+const PARSERS_HEADER = "Parsers";
+
+type PluginsCommandContext = CommandContext<
+  IPluginsCommandOptions,
+  { readonly pluginErrors: readonly IPluginLoadError[] }
+>;
+
+/**
+ * Registered parser or emitter listed by the plugins command.
+ */
+interface IPluginListEntry extends IPluginInfoEntry {
+  /** Target name used with `--emit` or `--parser`. */
+  readonly target: string;
+}
+
+/**
+ * Builds the plugins command stages.
+ *
+ * @param options - Parsed command options.
+ * @param command - Commander command instance.
+ * @returns Command stages for the plugins command.
+ */
+const createPluginsCommand = (
+  options: Readonly<IPluginsCommandOptions>,
+  command: Readonly<Command>,
+): CommandStages<PluginsCommandContext, IPluginInfo> =>
+  new CommandBuilder<PluginsCommandContext, IPluginInfo>()
+    .validate(createValidateStage(options, command))
+    .execute(getPluginInfo)
+    .report(reportPluginsStage)
+    .build();
+
+/**
+ * Creates the validate stage that loads the configured plugins.
+ *
+ * @param options - Parsed plugins command options.
+ * @param command - Commander command instance.
+ * @returns Function that builds the plugins command context.
+ */
+function createValidateStage(
+  options: Readonly<IPluginsCommandOptions>,
+  command: Readonly<Command>,
+): () => PluginsCommandContext {
+  /**
+   * Loads the project config and plugins, then returns the command context.
+   *
+   * @returns Plugins command context.
+   */
+  const validate = (): PluginsCommandContext => {
+    const globalOptions = getGlobalOptions(command);
+    validateGlobalOptions(globalOptions);
+    const loadedConfig = loadProjectConfig({
+      configPath: validateConfigPath(globalOptions.config),
+    });
+    return {
+      options,
+      globalOptions,
+      logger: new Logger(resolveLogLevel(globalOptions)),
+      progress: createProgressIndicator({ enabled: false }),
+      pluginErrors: loadConnectPlugins(
+        options,
+        loadedConfig.config,
+        loadedConfig.filePath,
+      ),
+    };
+  };
+  return validate;
+}
+
+/**
+ * Formats one listed parser or emitter as indented text lines.
+ *
+ * @param entry - Listed parser or emitter.
+ * @returns Text lines describing the entry.
+ */
+function formatPluginEntry(entry: Readonly<IPluginListEntry>): string[] {
+  return [
+    `  ${entry.target} (${entry.displayName})`,
+    `    ${entry.description}`,
+    ...(entry.fileExtension
+      ? [`    File extension: ${entry.fileExtension}`]
+      : []),
+    ...(entry.filePatterns?.length
+      ? [`    File patterns: ${entry.filePatterns.join(", ")}`]
+      : []),
+    `    Source: ${entry.source}`,
+  ];
+}
+
+/**
+ * Formats registered parsers and emitters as human-readable text.
+ *
+ * @param info - Registered plugin information.
+ * @returns Multiline plugin list.
+ */
+export function formatPluginList(info: Readonly<IPluginInfo>): string {
+  return [
+    EMITTERS_HEADER,
+    ...listPluginEntries(info.emitters).flatMap(formatPluginEntry),
+    PARSERS_HEADER,
+    ...listPluginEntries(info.parsers).flatMap(formatPluginEntry),
+  ].join("\n");
+}
+
+/**
+ * Formats registered parsers and emitters and plugin load failures as JSON.
+ *
+ * @param info - Registered plugin information.
+ * @param pluginErrors - Plugins that failed to load.
+ * @returns Pretty-printed JSON document.
+ */
+export function formatPluginListJson(
+  info: Readonly<IPluginInfo>,
+  pluginErrors: readonly IPluginLoadError[],
+): string {
+  return JSON.stringify(
+    {
+      emitters: listPluginEntries(info.emitters),
+      parsers: listPluginEntries(info.parsers),
+      pluginErrors,
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Lists plugin info entries with their targets in registry order.
+ *
+ * @param entries - Plugin info keyed by target.
+ * @returns Listed entries.
+ */
+function listPluginEntries(
+  entries: ReadonlyMap<string, IPluginInfoEntry>,
+): IPluginListEntry[] {
+  return Array.from(
+    entries,
+    /**
+     * Adds the target to a plugin info entry.
+     *
+     * @param entry - Target and plugin info.
+     * @returns Listed entry.
+     */
+    (entry) => ({ target: entry[0], ...entry[1] }),
+  );
+}
+
+/**
+ * Prints the plugin list and reports plugins that failed to load.
+ *
+ * @param context - Plugins command context.
+ * @param info - Registered plugin information.
+ * @returns Nothing.
+ */
+function reportPluginsStage(
+  context: Readonly<PluginsCommandContext>,
+  info: Readonly<IPluginInfo>,
+): void {
+  const output = context.options.json
+    ? formatPluginListJson(info, context.pluginErrors)
+    : formatPluginList(info);
+  process.stdout.write(`${output}\n`);
+  for (const error of context.pluginErrors) {
+    context.logger.error(formatPluginLoadError(error));
+  }
+  if (context.pluginErrors.length > 0) {
+    Reflect.set(process, "exitCode", FAILED_EXIT_CODE);
+  }
+}
+
+/**
+ * Executes the plugins command stages.
+ *
+ * @param _action - Requested action; `list` is the only action.
+ * @param options - Parsed plugins command options.
+ * @param command - Commander command instance for the current invocation.
+ * @returns Promise that resolves when command execution completes.
+ */
+export async function runPluginsCommand(
+  _action: PluginsAction,
+  options: Readonly<IPluginsCommandOptions>,
+  command: Readonly<Command>,
+): Promise<void> {
+  await runCommandStages(createPluginsCommand(options, command));
+}
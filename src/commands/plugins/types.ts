@@ -0,0 +1,38 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Plugins Command - Type Definitions
+ *
+ * @module commands/plugins/types
+ */
+
+/**
+ * Actions accepted by the plugins command.
+ */
+export enum PluginsAction {
+  List = "list",
+}
+
+/**
+ * Options passed from Commander to the plugins command.
+ */
+export interface IPluginsCommandOptions {
+  readonly json?: boolean;
+  readonly plugin?: readonly string[];
+}
+
+export type PluginsCommandOptions = IPluginsCommandOptions;
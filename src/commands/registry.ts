@@ -23,7 +23,9 @@
  */
 import { Command } from "commander";
 
+import { checkCommand } from "./check";
 import { connectCommand } from "./connect";
+import { pluginsCommand } from "./plugins";
 
 type CommandInstance = InstanceType<typeof Command>;
 
@@ -38,8 +40,28 @@ function getConnectCommand(): CommandInstance {
   return connectCommand;
 }
 
+/**
+ * Returns the singleton check command instance.
+ *
+ * @returns Check command instance.
+ */
+function getCheckCommand(): CommandInstance {
+  return checkCommand;
+}
+
+/**
+ * Returns the singleton plugins command instance.
+ *
+ * @returns Plugins command instance.
+ */
+function getPluginsCommand(): CommandInstance {
+  return pluginsCommand;
+}
+
 const COMMAND_REGISTRY: ReadonlyMap<string, CommandFactory> = new Map([
   [connectCommand.name(), getConnectCommand],
+  [checkCommand.name(), getCheckCommand],
+  [pluginsCommand.name(), getPluginsCommand],
 ]);
 
 /**
@@ -0,0 +1,48 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Project Config Constants
+ *
+ * File names and formats used for project config discovery.
+ *
+ * @module config/constants
+ */
+
+import { ConfigFileFormat } from "./types";
+
+/** Base file name shared by all supported project config files. */
+export const CONFIG_FILE_BASENAME = "figma-connecter.config";
+
+/**
+ * Supported config file names in lookup priority order.
+ */
+export const CONFIG_FILE_NAMES: readonly string[] = [
+  `${CONFIG_FILE_BASENAME}.${ConfigFileFormat.Json}`,
+  `${CONFIG_FILE_BASENAME}.${ConfigFileFormat.JavaScript}`,
+  `${CONFIG_FILE_BASENAME}.${ConfigFileFormat.TypeScript}`,
+];
+
+/**
+ * Config keys whose values are paths resolved from the config file directory.
+ */
+export const CONFIG_PATH_KEYS = [
+  "path",
+  "tsconfig",
+  "urls",
+  "outputDir",
+  "outputRoot",
+] as const;
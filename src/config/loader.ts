@@ -0,0 +1,353 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Project Config Loader
+ *
+ * Discovers, reads, and validates `figma-connecter.config.{json,js,ts}` files.
+ *
+ * @module config/loader
+ */
+
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import path from "node:path";
+import vm from "node:vm";
+
+import type { ITagNamespaceRule } from "@/src/core/types";
+import { nodeIoAdapter } from "@/src/io/adapter";
+import type { IIoAdapter } from "@/src/io/types";
+import { isPlainObject } from "@/src/utils/objects";
+import ts from "typescript";
+
+import { CONFIG_FILE_NAMES, CONFIG_PATH_KEYS } from "./constants";
+import { validateProjectConfig } from "./schema";
+import {
+  ConfigFileFormat,
+  type ILoadedProjectConfig,
+  type IProjectConfig,
+  type IProjectConfigLoadOptions,
+} from "./types";
+
+interface IModuleRecord {
+  exports: unknown;
+}
+
+interface IModuleScope {
+  readonly exports: unknown;
+  readonly require: NodeJS.Require;
+  readonly module: IModuleRecord;
+  readonly __filename: string;
+  readonly __dirname: string;
+}
+
+type ModuleWrapper = (scope: Readonly<IModuleScope>) => void;
+
+/** Config file formats keyed by file extension. */
+const CONFIG_FILE_FORMATS: ReadonlyMap<string, ConfigFileFormat> = new Map(
+  Object.values(ConfigFileFormat).map(
+    /**
+     * Pairs a config format with the file extension it is read from.
+     *
+     * @param format - Config file format.
+     * @returns Extension and format entry.
+     */
+    (format): [string, ConfigFileFormat] => [format, format],
+  ),
+);
+
+/** Key that identifies a tsconfig file passed where a project config is expected. */
+const TSCONFIG_COMPILER_OPTIONS_KEY = "compilerOptions";
+
+/**
+ * Rejects a tsconfig file passed as the project config.
+ *
+ * `-c/--config` used to take a tsconfig path, so point callers at the option
+ * that replaced it instead of reporting an unknown config key.
+ *
+ * @param raw - Raw config value.
+ * @param filePath - Config file path.
+ * @returns Nothing.
+ * @throws Error when the value looks like a tsconfig file.
+ */
+function assertNotTsconfigFile(raw: unknown, filePath: string): void {
+  assert(
+    !isPlainObject(raw) || !(TSCONFIG_COMPILER_OPTIONS_KEY in raw),
+    `Config ${filePath} looks like a tsconfig file. -c/--config takes a ` +
+      "figma-connecter config file; pass the tsconfig with --tsconfig or the " +
+      '"tsconfig" config key.',
+  );
+}
+
+/**
+ * Evaluates a JavaScript or TypeScript config module and returns its export.
+ *
+ * Sources are transpiled to CommonJS so both `export default` and
+ * `module.exports` styles are supported without a separate build step.
+ *
+ * @param filePath - Absolute config file path.
+ * @param source - Config file source text.
+ * @returns The module's default export, or `module.exports` when absent.
+ */
+function evaluateConfigModule(filePath: string, source: string): unknown {
+  const { outputText } = ts.transpileModule(source, {
+    fileName: filePath,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true,
+    },
+  });
+  const wrapper = vm.runInThisContext(
+    `(function (scope) {(function (exports, require, module, __filename, __dirname) {${outputText}\n})` +
+      "(scope.exports, scope.require, scope.module, scope.__filename, scope.__dirname);})",
+    { filename: filePath },
+  ) as ModuleWrapper;
+  const moduleRecord: IModuleRecord = { exports: {} };
+  wrapper({
+    exports: moduleRecord.exports,
+    require: createRequire(filePath),
+    module: moduleRecord,
+    __filename: filePath,
+    __dirname: path.dirname(filePath),
+  });
+  return getDefaultExport(moduleRecord.exports);
+}
+
+/**
+ * Searches for a project config file by walking up from a directory.
+ *
+ * @param searchFrom - Directory to start searching from.
+ * @param io - IO adapter used to check for files.
+ * @returns Absolute config file path, or undefined when none is found.
+ */
+export function findProjectConfigFile(
+  searchFrom: string,
+  io: Readonly<IIoAdapter> = nodeIoAdapter,
+): string | undefined {
+  const directory = path.resolve(searchFrom);
+  const match = CONFIG_FILE_NAMES.map(
+    /**
+     * Builds the candidate config path in the current directory.
+     *
+     * @param fileName - Config file name to check.
+     * @returns Absolute candidate path.
+     */
+    (fileName) => path.join(directory, fileName),
+  ).find(
+    /**
+     * Checks whether a candidate config file exists.
+     *
+     * @param candidate - Candidate config file path.
+     * @returns True when the file exists.
+     */
+    (candidate) => io.exists(candidate),
+  );
+  if (match) {
+    return match;
+  }
+
+  const parent = path.dirname(directory);
+  return parent === directory ? undefined : findProjectConfigFile(parent, io);
+}
+
+/**
+ * Returns the default export of an evaluated CommonJS module.
+ *
+ * @param exported - Evaluated `module.exports` value.
+ * @returns The `default` export when present, otherwise the exports object.
+ */
+function getDefaultExport(exported: unknown): unknown {
+  if (
+    typeof exported === "object" &&
+    exported !== null &&
+    "default" in exported
+  ) {
+    return exported.default;
+  }
+  return exported;
+}
+
+/**
+ * Resolves the config file format from its extension.
+ *
+ * @param filePath - Config file path.
+ * @returns Config file format.
+ * @throws Error when the extension is not supported.
+ */
+function getConfigFileFormat(filePath: string): ConfigFileFormat {
+  const format = CONFIG_FILE_FORMATS.get(path.extname(filePath).slice(1));
+  assert(
+    format,
+    `Unsupported config file extension: ${filePath}. Use .json, .js, or .ts.`,
+  );
+  return format;
+}
+
+/**
+ * Loads the project config from an explicit path or by upward discovery.
+ *
+ * @param options - Config path, search directory, and IO adapter.
+ * @returns Loaded config and its file path, or an empty config when none is found.
+ * @throws Error when the config cannot be read or fails validation.
+ */
+export function loadProjectConfig(
+  options: Readonly<IProjectConfigLoadOptions> = {},
+): ILoadedProjectConfig {
+  const io = options.io ?? nodeIoAdapter;
+  const filePath = options.configPath
+    ? path.resolve(options.configPath)
+    : findProjectConfigFile(options.searchFrom ?? process.cwd(), io);
+  if (!filePath) {
+    return { config: {} };
+  }
+
+  const raw = readProjectConfigFile(filePath, io);
+  assertNotTsconfigFile(raw, filePath);
+  const config = validateProjectConfig(raw, filePath);
+  return {
+    filePath,
+    config: resolveTagNamespacePaths(
+      resolveConfigPaths(config, path.dirname(filePath)),
+      path.dirname(filePath),
+    ),
+  };
+}
+
+/**
+ * Reads and evaluates a project config file.
+ *
+ * @param filePath - Absolute config file path.
+ * @param io - IO adapter used to read the file.
+ * @returns Raw (unvalidated) config value.
+ * @throws Error when the file cannot be parsed or evaluated.
+ */
+export function readProjectConfigFile(
+  filePath: string,
+  io: Readonly<IIoAdapter> = nodeIoAdapter,
+): unknown {
+  const format = getConfigFileFormat(filePath);
+  const source = io.readFile(filePath);
+  try {
+    return format === ConfigFileFormat.Json
+      ? JSON.parse(source)
+      : evaluateConfigModule(filePath, source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    assert.fail(`Failed to load config ${filePath}: ${message}`);
+  }
+}
+
+/**
+ * Resolves path-valued config keys relative to the config directory.
+ *
+ * @param config - Validated project config.
+ * @param configDir - Directory containing the config file.
+ * @returns Config with absolute path values.
+ */
+function resolveConfigPaths(
+  config: Readonly<IProjectConfig>,
+  configDir: string,
+): IProjectConfig {
+  return CONFIG_PATH_KEYS.reduce<IProjectConfig>(
+    /**
+     * Resolves a single path-valued key when present.
+     *
+     * @param resolved - Config accumulated so far.
+     * @param key - Path-valued config key.
+     * @returns Config with the key resolved.
+     */
+    (resolved, key) => {
+      const value = resolved[key];
+      if (typeof value === "string") {
+        return { ...resolved, [key]: path.resolve(configDir, value) };
+      }
+      if (!value) {
+        return resolved;
+      }
+      return {
+        ...resolved,
+        [key]: value.map(
+          /**
+           * Resolves a single path entry.
+           *
+           * @param entry - Path entry from the config.
+           * @returns Absolute path.
+           */
+          (entry) => path.resolve(configDir, entry),
+        ),
+      };
+    },
+    config,
+  );
+}
+
+/**
+ * Resolves tag-name namespace module paths and package directories.
+ *
+ * @param config - Config with top-level paths resolved.
+ * @param configDir - Directory containing the config file.
+ * @returns Config with absolute namespace paths.
+ */
+function resolveTagNamespacePaths(
+  config: Readonly<IProjectConfig>,
+  configDir: string,
+): IProjectConfig {
+  const { tagNamespace } = config;
+  if (!tagNamespace) {
+    return config;
+  }
+
+  const resolved = resolveTagNamespaceRule(tagNamespace, configDir);
+  return {
+    ...config,
+    tagNamespace: tagNamespace.packages
+      ? {
+          ...resolved,
+          packages: Object.fromEntries(
+            Object.entries(tagNamespace.packages).map(
+              /**
+               * Resolves a package directory and its rule.
+               *
+               * @param entry - Package directory and namespace rule.
+               * @returns Absolute package directory and resolved rule.
+               */
+              (entry): [string, ITagNamespaceRule] => [
+                path.resolve(configDir, entry[0]),
+                resolveTagNamespaceRule(entry[1], configDir),
+              ],
+            ),
+          ),
+        }
+      : resolved,
+  };
+}
+
+/**
+ * Resolves a namespace rule's module path relative to the config directory.
+ *
+ * @param rule - Namespace rule from the config.
+ * @param configDir - Directory containing the config file.
+ * @returns Rule with an absolute module path.
+ */
+function resolveTagNamespaceRule<T extends ITagNamespaceRule>(
+  rule: Readonly<T>,
+  configDir: string,
+): T {
+  return rule.module
+    ? { ...rule, module: path.resolve(configDir, rule.module) }
+    : { ...rule };
+}
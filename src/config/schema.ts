@@ -0,0 +1,572 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Project Config Schema
+ *
+ * Validates raw project config values against the supported schema.
+ *
+ * @module config/schema
+ */
+
+import assert from "node:assert/strict";
+
+import {
+  type IEmitterSettings,
+  type IFigmaPropertyMapping,
+  type IFigmaPropertySettings,
+  type ITagNamespaceRule,
+  type ITagNamespaceSettings,
+  ImportResolverKind,
+  OutputLayout,
+} from "@/src/core/types";
+import { listEmitterTargets } from "@/src/emitters/factory";
+import { listParserTargets } from "@/src/parsers/factory";
+import { isPlainObject } from "@/src/utils/objects";
+
+import type { IProjectConfig } from "./types";
+
+type ConfigFieldValidator = (
+  value: unknown,
+  key: string,
+  source: string,
+) => void;
+
+/**
+ * Validators for every supported top-level config key.
+ */
+const CONFIG_FIELD_VALIDATORS: Readonly<
+  Record<keyof IProjectConfig, ConfigFieldValidator>
+> = {
+  path: assertPathField,
+  recursive: assertBooleanField,
+  include: assertStringListField,
+  exclude: assertStringListField,
+  gitignore: assertBooleanField,
+  dryRun: assertBooleanField,
+  force: assertBooleanField,
+  emit: assertEmitField,
+  strict: assertBooleanField,
+  continueOnError: assertBooleanField,
+  baseImportPath: assertStringField,
+  tsconfig: assertStringField,
+  parser: assertParserField,
+  emitters: assertEmittersField,
+  urls: assertStringField,
+  requireUrls: assertBooleanField,
+  outputLayout: createEnumFieldValidator(OutputLayout),
+  outputDir: assertStringField,
+  outputRoot: assertStringField,
+  importResolver: createEnumFieldValidator(ImportResolverKind),
+  tagNamespace: assertTagNamespaceField,
+  figmaProperties: assertFigmaPropertiesField,
+  plugins: assertStringListField,
+};
+
+/**
+ * Validators for every supported per-emitter settings key.
+ */
+const EMITTER_SETTINGS_VALIDATORS: Readonly<
+  Record<keyof IEmitterSettings, ConfigFieldValidator>
+> = {
+  baseImportPath: assertStringField,
+  fileName: assertStringField,
+  importResolver: createEnumFieldValidator(ImportResolverKind),
+};
+
+/**
+ * Validators for every supported Figma property settings key.
+ */
+const FIGMA_PROPERTIES_VALIDATORS: Readonly<
+  Record<keyof IFigmaPropertySettings, ConfigFieldValidator>
+> = {
+  props: assertFigmaPropertyMapField,
+  components: assertFigmaComponentsField,
+};
+
+/**
+ * Validators for every supported Figma property mapping key.
+ */
+const FIGMA_PROPERTY_MAPPING_VALIDATORS: Readonly<
+  Record<keyof IFigmaPropertyMapping, ConfigFieldValidator>
+> = {
+  name: assertStringField,
+  values: assertStringMapField,
+  skip: assertBooleanField,
+};
+
+/**
+ * Validators for every supported tag-name namespace rule key.
+ */
+const TAG_NAMESPACE_RULE_VALIDATORS: Readonly<
+  Record<keyof ITagNamespaceRule, ConfigFieldValidator>
+> = {
+  prefix: assertStringField,
+  separator: assertSeparatorField,
+  module: assertStringField,
+  export: assertStringField,
+};
+
+/**
+ * Validators for every supported top-level tag-name namespace key.
+ */
+const TAG_NAMESPACE_VALIDATORS: Readonly<
+  Record<keyof ITagNamespaceSettings, ConfigFieldValidator>
+> = {
+  ...TAG_NAMESPACE_RULE_VALIDATORS,
+  packages: assertTagNamespacePackagesField,
+};
+
+/**
+ * Asserts that a config value is a boolean.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertBooleanField(value: unknown, key: string, source: string): void {
+  assert(
+    typeof value === "boolean",
+    formatConfigError(source, `"${key}" must be a boolean.`),
+  );
+}
+
+/**
+ * Asserts that the emit value is a string or a list of strings.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertEmitField(value: unknown, key: string, source: string): void {
+  const valid =
+    typeof value === "string" ||
+    (Array.isArray(value) && value.every(isString));
+  assert(
+    valid,
+    formatConfigError(source, `"${key}" must be a string or an array of strings.`),
+  );
+}
+
+/**
+ * Asserts that emitter settings are keyed by registered emitter targets.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertEmittersField(value: unknown, key: string, source: string): void {
+  assert(
+    isPlainObject(value),
+    formatConfigError(source, `"${key}" must be an object keyed by emitter target.`),
+  );
+  const targets: readonly string[] = listEmitterTargets();
+  for (const [target, settings] of Object.entries(value)) {
+    assert(
+      targets.includes(target),
+      formatConfigError(
+        source,
+        `unknown emitter target "${target}" in "${key}". Allowed: ${targets.join(", ")}.`,
+      ),
+    );
+    assertObjectFields(
+      settings,
+      `${key}.${target}`,
+      source,
+      EMITTER_SETTINGS_VALIDATORS,
+    );
+  }
+}
+
+/**
+ * Asserts that per-component Figma property maps are keyed by component.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertFigmaComponentsField(
+  value: unknown,
+  key: string,
+  source: string,
+): void {
+  assert(
+    isPlainObject(value),
+    formatConfigError(source, `"${key}" must be an object keyed by tag name or class name.`),
+  );
+  for (const [component, propertyMap] of Object.entries(value)) {
+    assertFigmaPropertyMapField(propertyMap, `${key}.${component}`, source);
+  }
+}
+
+/**
+ * Asserts that the Figma property settings are well formed.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertFigmaPropertiesField(
+  value: unknown,
+  key: string,
+  source: string,
+): void {
+  assertObjectFields(value, key, source, FIGMA_PROPERTIES_VALIDATORS);
+}
+
+/**
+ * Asserts that a Figma property map holds names or mapping objects.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertFigmaPropertyMapField(
+  value: unknown,
+  key: string,
+  source: string,
+): void {
+  assert(
+    isPlainObject(value),
+    formatConfigError(source, `"${key}" must be an object keyed by property name.`),
+  );
+  for (const [propName, setting] of Object.entries(value)) {
+    const settingKey = `${key}.${propName}`;
+    if (isPlainObject(setting)) {
+      assertObjectFields(
+        setting,
+        settingKey,
+        source,
+        FIGMA_PROPERTY_MAPPING_VALIDATORS,
+      );
+      continue;
+    }
+    assert(
+      isString(setting) && setting.trim().length > 0,
+      formatConfigError(
+        source,
+        `"${settingKey}" must be a Figma property name or an object.`,
+      ),
+    );
+  }
+}
+
+/**
+ * Asserts that a value is an object whose keys all have validators.
+ *
+ * @param value - Value to check.
+ * @param key - Config key path used in error messages.
+ * @param source - Config source used in error messages.
+ * @param validators - Validators keyed by supported field name.
+ * @returns Nothing.
+ */
+function assertObjectFields(
+  value: unknown,
+  key: string,
+  source: string,
+  validators: Readonly<Record<string, ConfigFieldValidator>>,
+): void {
+  assert(
+    isPlainObject(value),
+    formatConfigError(source, `"${key}" must be an object.`),
+  );
+  for (const [field, fieldValue] of Object.entries(value)) {
+    const validator = validators[field];
+    const fieldKey = key ? `${key}.${field}` : field;
+    assert(
+      validator,
+      formatConfigError(source, `unknown option "${fieldKey}".`),
+    );
+    if (fieldValue !== undefined) {
+      validator(fieldValue, fieldKey, source);
+    }
+  }
+}
+
+/**
+ * Asserts that the parser value names a registered parser target.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertParserField(value: unknown, key: string, source: string): void {
+  assertStringField(value, key, source);
+  const targets: readonly string[] = listParserTargets();
+  assert(
+    targets.includes(value as string),
+    formatConfigError(
+      source,
+      `unknown parser target "${String(value)}". Allowed: ${targets.join(", ")}.`,
+    ),
+  );
+}
+
+/**
+ * Asserts that the path value is a non-empty string or a list of them.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertPathField(value: unknown, key: string, source: string): void {
+  if (Array.isArray(value)) {
+    assertStringListField(value, key, source);
+    return;
+  }
+  assertStringField(value, key, source);
+}
+
+/**
+ * Asserts that a separator value is a string; an empty separator is allowed.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertSeparatorField(
+  value: unknown,
+  key: string,
+  source: string,
+): void {
+  assert(
+    isString(value),
+    formatConfigError(source, `"${key}" must be a string.`),
+  );
+}
+
+/**
+ * Asserts that a config value is a non-empty list of non-empty strings.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertStringListField(
+  value: unknown,
+  key: string,
+  source: string,
+): void {
+  const valid =
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      /**
+       * Checks that a list entry is a non-empty string.
+       *
+       * @param entry - List entry to check.
+       * @returns True when the entry is a non-empty string.
+       */
+      (entry) => isString(entry) && entry.trim().length > 0,
+    );
+  assert(
+    valid,
+    formatConfigError(source, `"${key}" must be a non-empty array of non-empty strings.`),
+  );
+}
+
+/**
+ * Asserts that a config value maps keys to non-empty strings.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertStringMapField(
+  value: unknown,
+  key: string,
+  source: string,
+): void {
+  const valid =
+    isPlainObject(value) &&
+    Object.values(value).every(
+      /**
+       * Checks that a mapped value is a non-empty string.
+       *
+       * @param entry - Mapped value to check.
+       * @returns True when the value is a non-empty string.
+       */
+      (entry) => isString(entry) && entry.trim().length > 0,
+    );
+  assert(
+    valid,
+    formatConfigError(source, `"${key}" must be an object of non-empty strings.`),
+  );
+}
+
+/**
+ * Asserts that a config value is a non-empty string.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertStringField(value: unknown, key: string, source: string): void {
+  assert(
+    typeof value === "string" && value.trim().length > 0,
+    formatConfigError(source, `"${key}" must be a non-empty string.`),
+  );
+}
+
+/**
+ * Asserts that the tag-name namespace settings are well formed.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertTagNamespaceField(
+  value: unknown,
+  key: string,
+  source: string,
+): void {
+  assertObjectFields(value, key, source, TAG_NAMESPACE_VALIDATORS);
+  const settings = value as ITagNamespaceSettings;
+  if (!settings.packages || settings.prefix || settings.module) {
+    assertTagNamespaceRule(settings, key, source);
+  }
+}
+
+/**
+ * Asserts that per-package namespace rules are keyed by package directory.
+ *
+ * @param value - Config value to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertTagNamespacePackagesField(
+  value: unknown,
+  key: string,
+  source: string,
+): void {
+  assert(
+    isPlainObject(value),
+    formatConfigError(source, `"${key}" must be an object keyed by package directory.`),
+  );
+  for (const [packageDir, rule] of Object.entries(value)) {
+    const ruleKey = `${key}.${packageDir}`;
+    assertObjectFields(rule, ruleKey, source, TAG_NAMESPACE_RULE_VALIDATORS);
+    assertTagNamespaceRule(rule as ITagNamespaceRule, ruleKey, source);
+  }
+}
+
+/**
+ * Asserts that a namespace rule sets a prefix or a module export.
+ *
+ * @param rule - Namespace rule to check.
+ * @param key - Config key used in error messages.
+ * @param source - Config source used in error messages.
+ * @returns Nothing.
+ */
+function assertTagNamespaceRule(
+  rule: Readonly<ITagNamespaceRule>,
+  key: string,
+  source: string,
+): void {
+  assert(
+    rule.prefix || rule.module,
+    formatConfigError(source, `"${key}" must set "prefix" or "module".`),
+  );
+  assert(
+    !rule.module || rule.export,
+    formatConfigError(source, `"${key}.module" requires "${key}.export".`),
+  );
+}
+
+/**
+ * Creates a validator asserting that a config value is one of an enum's values.
+ *
+ * @param values - String enum whose values are allowed.
+ * @returns Validator for the enum-valued field.
+ */
+function createEnumFieldValidator(
+  values: Readonly<Record<string, string>>,
+): ConfigFieldValidator {
+  const allowed: readonly string[] = Object.values(values);
+  /**
+   * Asserts that a config value is one of the allowed enum values.
+   *
+   * @param value - Config value to check.
+   * @param key - Config key used in error messages.
+   * @param source - Config source used in error messages.
+   * @returns Nothing.
+   */
+  const validate = (value: unknown, key: string, source: string): void => {
+    assert(
+      allowed.includes(value as string),
+      formatConfigError(
+        source,
+        `"${key}" must be one of: ${allowed.join(", ")}.`,
+      ),
+    );
+  };
+  return validate;
+}
+
+/**
+ * Formats a config validation error message.
+ *
+ * @param source - Config source (usually the file path).
+ * @param message - Validation failure details.
+ * @returns Formatted error message.
+ */
+function formatConfigError(source: string, message: string): string {
+  return `Invalid config ${source}: ${message}`;
+}
+
+/**
+ * Returns true when a value is a string.
+ *
+ * @param value - Value to check.
+ * @returns True when the value is a string.
+ */
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+/**
+ * Validates a raw project config value against the supported schema.
+ *
+ * @param raw - Raw config value read from a config file.
+ * @param source - Config source used in error messages (usually the file path).
+ * @returns The validated project config.
+ * @throws Error when the config has unknown keys or invalid values.
+ */
+export function validateProjectConfig(
+  raw: unknown,
+  source: string,
+): IProjectConfig {
+  assert(
+    isPlainObject(raw),
+    formatConfigError(source, "config must be an object."),
+  );
+  assertObjectFields(raw, "", source, CONFIG_FIELD_VALIDATORS);
+  return raw;
+}
@@ -0,0 +1,126 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Project Config Types
+ *
+ * Contracts for `figma-connecter.config.*` project configuration files.
+ *
+ * @module config/types
+ */
+
+import type {
+  IEmitterSettings,
+  IFigmaPropertySettings,
+  ImportResolverKind,
+  ITagNamespaceSettings,
+  OutputLayout,
+} from "@/src/core/types";
+import type { IIoAdapter } from "@/src/io/types";
+
+/**
+ * Supported project config file formats.
+ */
+export enum ConfigFileFormat {
+  Json = "json",
+  JavaScript = "js",
+  TypeScript = "ts",
+}
+
+/**
+ * Emit targets in a project config: a comma-separated string or a list.
+ */
+export type ProjectConfigEmit = string | readonly string[];
+
+/**
+ * Project configuration loaded from a `figma-connecter.config.*` file.
+ *
+ * Relative paths are resolved from the directory containing the config file.
+ */
+export interface IProjectConfig {
+  /** Path or paths to component files or directories. */
+  readonly path?: string | readonly string[];
+  /** Whether to recursively scan subdirectories. */
+  readonly recursive?: boolean;
+  /** Glob patterns selecting component files. */
+  readonly include?: readonly string[];
+  /** Glob patterns for files and directories to skip during discovery. */
+  readonly exclude?: readonly string[];
+  /** Skip paths matched by `.gitignore` files during discovery. */
+  readonly gitignore?: boolean;
+  /** Preview changes without writing files. */
+  readonly dryRun?: boolean;
+  /** Force replace existing connect files instead of section updates. */
+  readonly force?: boolean;
+  /** Emit targets as a comma-separated string or list. */
+  readonly emit?: ProjectConfigEmit;
+  /** Fail on unresolved base classes. */
+  readonly strict?: boolean;
+  /** Continue processing components when errors occur. */
+  readonly continueOnError?: boolean;
+  /** Override base import path for generated imports. */
+  readonly baseImportPath?: string;
+  /** Path to tsconfig.json for TypeScript program creation. */
+  readonly tsconfig?: string;
+  /** Parser target used to parse component sources. */
+  readonly parser?: string;
+  /** Per-emitter settings keyed by emitter target. */
+  readonly emitters?: Readonly<Record<string, IEmitterSettings>>;
+  /** Path to a Figma URL manifest (JSON or YAML). */
+  readonly urls?: string;
+  /** Fail components that have no Figma URL mapping. */
+  readonly requireUrls?: boolean;
+  /** Where generated Code Connect files are written. */
+  readonly outputLayout?: OutputLayout;
+  /** Output directory for the mirrored and flat layouts. */
+  readonly outputDir?: string;
+  /** Source root mirrored below `outputDir`. */
+  readonly outputRoot?: string;
+  /** Import resolver used by emitters without their own `importResolver` setting. */
+  readonly importResolver?: ImportResolverKind;
+  /** Namespace applied to derived tag names, with per-package overrides. */
+  readonly tagNamespace?: ITagNamespaceSettings;
+  /** Figma property names and enum keys, globally and per component. */
+  readonly figmaProperties?: IFigmaPropertySettings;
+  /** Plugin modules (package names or paths) loaded before generation. */
+  readonly plugins?: readonly string[];
+}
+
+/**
+ * Result of loading a project config file.
+ */
+export interface ILoadedProjectConfig {
+  /** Absolute path of the loaded config file, when one was found. */
+  readonly filePath?: string;
+  /** Validated config with paths resolved to absolute paths. */
+  readonly config: IProjectConfig;
+}
+
+/**
+ * Options controlling project config discovery and loading.
+ */
+export interface IProjectConfigLoadOptions {
+  /** Explicit config file path; disables discovery when provided. */
+  readonly configPath?: string;
+  /** Directory to start the upward search from (defaults to `process.cwd()`). */
+  readonly searchFrom?: string;
+  /** IO adapter used for file access. */
+  readonly io?: IIoAdapter;
+}
+
+export type ProjectConfig = IProjectConfig;
+export type LoadedProjectConfig = ILoadedProjectConfig;
+export type ProjectConfigLoadOptions = IProjectConfigLoadOptions;
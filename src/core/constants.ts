@@ -39,6 +39,7 @@ interface IDefaultConnectOptions {
   readonly strict: boolean;
   readonly continueOnError: boolean;
   readonly force: boolean;
+  readonly requireUrls: boolean;
 }
 
 /**
@@ -51,6 +52,7 @@ export const DEFAULT_CONNECT_OPTIONS: IDefaultConnectOptions = {
   strict: true,
   continueOnError: true,
   force: false,
+  requireUrls: false,
 };
 
 /**
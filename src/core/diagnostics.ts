@@ -0,0 +1,71 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Located Diagnostics Module
+ *
+ * Attaches source locations to diagnostic messages and reads them back, so
+ * plain-string warnings can point reporters at the offending source line.
+ *
+ * @module core/diagnostics
+ */
+
+import type { ISourceLocation } from "./types";
+
+/** Matches a diagnostic message ending in ` (at <file>:<line>:<column>)`. */
+const LOCATED_MESSAGE_PATTERN = /^([\s\S]*) \(at (.+):(\d+):(\d+)\)$/;
+
+/**
+ * Diagnostic message split into its text and optional source location.
+ */
+export interface ILocatedMessage {
+  /** Message text without the location suffix. */
+  readonly message: string;
+  /** Source location, when the message carries one. */
+  readonly location?: ISourceLocation;
+}
+
+/**
+ * Appends a source location to a diagnostic message.
+ *
+ * @param message - Diagnostic message text.
+ * @param location - Source location the message refers to.
+ * @returns Message ending in ` (at <file>:<line>:<column>)`.
+ */
+export function formatLocatedMessage(
+  message: string,
+  location: Readonly<ISourceLocation>,
+): string {
+  return `${message} (at ${location.filePath}:${location.line}:${location.column})`;
+}
+
+/**
+ * Splits a diagnostic message into its text and source location.
+ *
+ * @param text - Diagnostic message, with or without a location suffix.
+ * @returns Message text and the parsed location, if any.
+ */
+export function parseLocatedMessage(text: string): ILocatedMessage {
+  const match = LOCATED_MESSAGE_PATTERN.exec(text);
+  if (!match) {
+    return { message: text };
+  }
+  const [, message, filePath, line, column] = match;
+  return {
+    message,
+    location: { filePath, line: Number(line), column: Number(column) },
+  };
+}
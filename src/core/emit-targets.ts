@@ -23,9 +23,9 @@
  */
 
 import assert from "node:assert/strict";
-import { EmitterTarget } from "./types";
+import { type EmitTarget, EmitterTarget } from "./types";
 
-const ALL_TARGETS = Object.values(EmitterTarget);
+const BUILT_IN_TARGETS: readonly EmitTarget[] = Object.values(EmitterTarget);
 
 /**
  * Validates tokens against the allowed target set.
@@ -37,7 +37,7 @@ const ALL_TARGETS = Object.values(EmitterTarget);
  */
 function assertValidTargetTokens(
   tokens: readonly string[],
-  normalizedTargets: readonly EmitterTarget[],
+  normalizedTargets: readonly EmitTarget[],
   allowed: Readonly<Set<string>>,
 ): void {
   const invalid = tokens.filter(isInvalidTarget.bind(undefined, allowed));
@@ -54,7 +54,7 @@ function assertValidTargetTokens(
  * @returns Comma-separated list of targets plus "all".
  */
 export function formatEmitTargetOptions(
-  targets: readonly EmitterTarget[] = listEmitTargets(),
+  targets: readonly EmitTarget[] = listEmitTargets(),
 ): string {
   return [...targets, "all"].join(", ");
 }
@@ -93,17 +93,20 @@ function isInvalidTarget(
 function isKnownTarget(
   allowed: Readonly<Set<string>>,
   token: string,
-): token is EmitterTarget {
+): token is EmitTarget {
   return allowed.has(token);
 }
 
 /**
- * Returns all registered emit targets.
+ * Returns the built-in emit targets.
  *
- * @returns Array of supported emit targets.
+ * Callers that accept plugin targets pass the emitter registry's targets to
+ * `parseEmitTargets` instead.
+ *
+ * @returns Array of built-in emit targets.
  */
-export function listEmitTargets(): EmitterTarget[] {
-  return [...ALL_TARGETS];
+export function listEmitTargets(): EmitTarget[] {
+  return [...BUILT_IN_TARGETS];
 }
 
 /**
@@ -113,8 +116,8 @@ export function listEmitTargets(): EmitterTarget[] {
  * @returns Deduplicated normalized targets.
  */
 function normalizeAllowedTargets(
-  allowedTargets: readonly EmitterTarget[],
-): EmitterTarget[] {
+  allowedTargets: readonly EmitTarget[],
+): EmitTarget[] {
   const normalizedTargets = Array.from(new Set(allowedTargets));
   assert(normalizedTargets.length > 0, "No emit targets registered.");
   return normalizedTargets;
@@ -135,20 +138,22 @@ function normalizeToken(token: string): string {
  *
  * @param raw - The raw emit targets string (e.g., "webcomponent,react" or "all").
  * @param allowedTargets - Allowed emit targets to validate against.
+ * @param allTargets - Targets selected by "all"; defaults to every allowed target.
  * @returns Array of validated emitter targets.
  * @throws Error if emit targets are empty or contain invalid values.
  */
 export function parseEmitTargets(
   raw: string,
-  allowedTargets: readonly EmitterTarget[] = listEmitTargets(),
-): EmitterTarget[] {
+  allowedTargets: readonly EmitTarget[] = listEmitTargets(),
+  allTargets: readonly EmitTarget[] = allowedTargets,
+): EmitTarget[] {
   assert(raw.trim().length > 0, "Emit targets cannot be empty.");
 
   const normalizedTargets = normalizeAllowedTargets(allowedTargets);
   const tokens = parseTargetTokens(raw);
 
   if (tokens.includes("all")) {
-    return normalizedTargets;
+    return normalizeAllowedTargets(allTargets);
   }
 
   const allowed = new Set<string>(normalizedTargets);
@@ -176,8 +181,8 @@ function parseTargetTokens(raw: string): string[] {
 function resolveUniqueTargets(
   tokens: readonly string[],
   allowed: Readonly<Set<string>>,
-): EmitterTarget[] {
-  const unique: EmitterTarget[] = [];
+): EmitTarget[] {
+  const unique: EmitTarget[] = [];
   for (const token of new Set(tokens)) {
     if (isKnownTarget(allowed, token)) {
       unique.push(token);
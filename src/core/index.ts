@@ -30,6 +30,8 @@ export {
   FIGMA_PACKAGE_REACT,
   GENERATED_SECTION_MARKERS,
 } from "./constants";
+export type { ILocatedMessage } from "./diagnostics";
+export { formatLocatedMessage, parseLocatedMessage } from "./diagnostics";
 export {
   formatEmitTargetOptions,
   listEmitTargets,
@@ -49,6 +51,12 @@ export {
   resolveLogLevel,
 } from "./logger";
 export type { IReportTimer } from "./report";
+export {
+  formatJsonReport,
+  formatJunitReport,
+  formatReport,
+  formatSarifReport,
+} from "./report-formats";
 export {
   addCreatedFile,
   addError,
@@ -87,6 +95,8 @@ export type {
   IConnectOptions,
   IEmitResult,
   EmitTarget,
+  ICssPartDescriptor,
+  ICssPropertyDescriptor,
   IEmitterOptions,
   IEventDescriptor,
   IExtractionResult,
@@ -98,6 +108,14 @@ export type {
   GenerationStatus,
   IPropertyDescriptor,
   PropertyVisibility,
+  ISlotDescriptor,
+  ISourceLocation,
   ITagNameResult,
 } from "./types";
-export { ClassDiscoveryMethod, EmitterTarget, FileChangeStatus } from "./types";
+export {
+  ClassDiscoveryMethod,
+  EmitterTarget,
+  FileChangeStatus,
+  ReportFormat,
+  SlotMapping,
+} from "./types";
@@ -130,6 +130,17 @@ const COLORS: Readonly<Record<string, string>> = {
   dim: "\x1b[2m",
 };
 
+/**
+ * Colors applied to unified diff lines by prefix; the first matching prefix wins.
+ */
+const DIFF_LINE_COLORS: readonly (readonly [string, string])[] = [
+  ["+++", COLORS.dim],
+  ["---", COLORS.dim],
+  ["@@", COLORS.cyan],
+  ["+", COLORS.green],
+  ["-", COLORS.red],
+];
+
 /**
  * Logger class for structured CLI output.
  *
@@ -263,6 +274,23 @@ export class Logger {
     this.log(LogLevel.DEBUG, message, context);
   }
 
+  /**
+   * Logs unified diff text (info level) without level prefixes.
+   *
+   * Added, removed, and hunk header lines are colored when colors are enabled.
+   *
+   * @param text - Unified diff text with one diff line per text line.
+   * @returns Nothing.
+   */
+  diff(text: string): void {
+    if (this.level < LogLevel.INFO) {
+      return;
+    }
+    for (const line of text.split("\n")) {
+      console.log(this.colorizeDiffLine(line));
+    }
+  }
+
   /**
    * Logs a success message (info level with green color).
    *
@@ -313,6 +341,28 @@ export class Logger {
     }
   }
 
+  /**
+   * Applies the diff color matching a line prefix.
+   *
+   * @param line - Unified diff line.
+   * @returns Colorized line, or the line unchanged when colors are disabled.
+   */
+  private colorizeDiffLine(line: string): string {
+    if (!this.isColorOutputEnabled) {
+      return line;
+    }
+    const match = DIFF_LINE_COLORS.find(
+      /**
+       * Matches a diff prefix against the line.
+       *
+       * @param entry - Prefix and color pair.
+       * @returns True when the line starts with the prefix.
+       */
+      (entry) => line.startsWith(entry[0]),
+    );
+    return match ? `${match[1]}${line}${COLORS.reset}` : line;
+  }
+
   /**
    * Applies color to a string based on log level.
    *
@@ -0,0 +1,451 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Report Formats Module
+ *
+ * Serializes generation reports into machine-readable formats for CI:
+ * JSON, JUnit XML, and SARIF 2.1.0.
+ *
+ * @module core/report-formats
+ */
+
+import { pathToFileURL } from "node:url";
+
+import { relativePosixPath } from "@/src/utils/paths";
+
+import { parseLocatedMessage } from "./diagnostics";
+import type {
+  IComponentResult,
+  IGenerationReport,
+  ISourceLocation,
+} from "./types";
+import { ReportFormat } from "./types";
+
+/** Tool name written to JUnit suites and SARIF runs. */
+const TOOL_NAME = "figma-connecter";
+
+/** Test case name for components without a resolved name. */
+const UNKNOWN_COMPONENT_NAME = "UnknownComponent";
+
+/** SARIF schema and version emitted by {@link formatSarifReport}. */
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const SARIF_VERSION = "2.1.0";
+
+/** SARIF base id that artifact URIs are resolved against. */
+const SARIF_SRCROOT = "%SRCROOT%";
+
+/** XML characters that must be escaped in text and attribute values. */
+const XML_ESCAPES: Readonly<Record<string, string>> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&apos;",
+};
+
+/**
+ * SARIF result level for a diagnostic.
+ */
+enum SarifLevel {
+  Warning = "warning",
+  Error = "error",
+}
+
+/** SARIF rule identifiers keyed by result level. */
+const SARIF_RULES: Readonly<Record<SarifLevel, { id: string; text: string }>> = {
+  [SarifLevel.Warning]: {
+    id: "generation-warning",
+    text: "Code Connect generation warning",
+  },
+  [SarifLevel.Error]: {
+    id: "generation-error",
+    text: "Code Connect generation error",
+  },
+};
+
+interface IReportDiagnostic {
+  readonly level: SarifLevel;
+  readonly text: string;
+  readonly filePath?: string;
+}
+
+/**
+ * Builds the SARIF physical location for a diagnostic.
+ *
+ * @param baseDir - Directory artifact URIs are made relative to.
+ * @param filePath - File the diagnostic belongs to.
+ * @param location - Parsed source location, when the message carries one.
+ * @returns SARIF locations array, empty when no file is known.
+ */
+function buildSarifLocations(
+  baseDir: string,
+  filePath: string | undefined,
+  location: Readonly<ISourceLocation> | undefined,
+): object[] {
+  const targetPath = location?.filePath ?? filePath;
+  if (!targetPath) {
+    return [];
+  }
+  return [
+    {
+      physicalLocation: {
+        artifactLocation: {
+          uri: relativePosixPath(baseDir, targetPath),
+          uriBaseId: SARIF_SRCROOT,
+        },
+        ...(location
+          ? {
+              region: {
+                startLine: location.line,
+                startColumn: location.column,
+              },
+            }
+          : {}),
+      },
+    },
+  ];
+}
+
+/**
+ * Collects the diagnostics of every component result with the component file.
+ *
+ * @param report - Generation report to read.
+ * @returns Component diagnostics, warnings before errors per component.
+ */
+function collectComponentDiagnostics(
+  report: Readonly<IGenerationReport>,
+): IReportDiagnostic[] {
+  return (report.componentResults ?? []).flatMap(
+    /**
+     * Lists warnings and errors of a single component.
+     *
+     * @param component - Component result to read.
+     * @returns Component diagnostics tagged with the component file.
+     */
+    (component) => [
+      ...component.warnings.map(
+        toReportDiagnostic.bind(undefined, SarifLevel.Warning, component.model?.filePath),
+      ),
+      ...component.errors.map(
+        toReportDiagnostic.bind(undefined, SarifLevel.Error, component.model?.filePath),
+      ),
+    ],
+  );
+}
+
+/**
+ * Collects every report diagnostic, including those no component produced.
+ *
+ * @param report - Generation report to read.
+ * @returns Report-level diagnostics followed by component diagnostics.
+ */
+function collectDiagnostics(
+  report: Readonly<IGenerationReport>,
+): IReportDiagnostic[] {
+  return [
+    ...collectUnattributedDiagnostics(report),
+    ...collectComponentDiagnostics(report),
+  ];
+}
+
+/**
+ * Collects report-level diagnostics that no component result reports.
+ *
+ * @param report - Generation report to read.
+ * @returns Diagnostics without a component file, such as discovery warnings.
+ */
+function collectUnattributedDiagnostics(
+  report: Readonly<IGenerationReport>,
+): IReportDiagnostic[] {
+  const attributed = new Set(
+    collectComponentDiagnostics(report).map(getDiagnosticText),
+  );
+  return [
+    ...report.warnings.map(
+      toReportDiagnostic.bind(undefined, SarifLevel.Warning, undefined),
+    ),
+    ...report.errors.map(
+      toReportDiagnostic.bind(undefined, SarifLevel.Error, undefined),
+    ),
+  ].filter(
+    /**
+     * Keeps diagnostics no component result already reports.
+     *
+     * @param diagnostic - Report-level diagnostic.
+     * @returns True when the diagnostic is not attributed to a component.
+     */
+    (diagnostic) => !attributed.has(diagnostic.text),
+  );
+}
+
+/**
+ * Escapes text for use in XML content and attribute values.
+ *
+ * @param value - Raw text.
+ * @returns XML-safe text.
+ */
+function escapeXml(value: string): string {
+  return value.replace(
+    /[&<>"']/g,
+    /**
+     * Replaces a single reserved character.
+     *
+     * @param character - Reserved XML character.
+     * @returns Escaped entity.
+     */
+    (character) => XML_ESCAPES[character],
+  );
+}
+
+/**
+ * Formats a generation report as pretty-printed JSON, including component results and file changes.
+ *
+ * @param report - Generation report to serialize.
+ * @returns JSON document text.
+ */
+export function formatJsonReport(report: Readonly<IGenerationReport>): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/**
+ * Formats a single component result as a JUnit test case.
+ *
+ * Errors become a `<failure>` and warnings are written to `<system-out>`.
+ * @param baseDir - Directory class names are made relative to.
+ * @param component - Component result to format.
+ * @returns Test case XML lines.
+ */
+function formatJunitTestCase(
+  baseDir: string,
+  component: Readonly<IComponentResult>,
+): string[] {
+  const name =
+    component.componentName ??
+    component.model?.className ??
+    UNKNOWN_COMPONENT_NAME;
+  const className = component.model
+    ? relativePosixPath(baseDir, component.model.filePath)
+    : TOOL_NAME;
+  const failure =
+    component.errors.length > 0
+      ? [
+          `      <failure message="${escapeXml(component.errors[0])}" type="error">` +
+            `${escapeXml(component.errors.join("\n"))}</failure>`,
+        ]
+      : [];
+  const output =
+    component.warnings.length > 0
+      ? [
+          `      <system-out>${escapeXml(component.warnings.map(formatWarningLine).join("\n"))}</system-out>`,
+        ]
+      : [];
+  return [
+    `    <testcase classname="${escapeXml(className)}" name="${escapeXml(name)}">`,
+    ...failure,
+    ...output,
+    "    </testcase>",
+  ];
+}
+
+/**
+ * Formats a generation report as JUnit XML with one test case per component.
+ *
+ * Report-level errors not tied to a component become an extra failing test case.
+ * @param report - Generation report to serialize.
+ * @param baseDir - Directory class names are made relative to.
+ * @returns JUnit XML document text.
+ */
+export function formatJunitReport(
+  report: Readonly<IGenerationReport>,
+  baseDir: string = process.cwd(),
+): string {
+  const components = [...(report.componentResults ?? [])];
+  const unattributedErrors = collectUnattributedDiagnostics(report)
+    .filter(
+      /**
+       * Keeps error diagnostics.
+       *
+       * @param diagnostic - Report diagnostic.
+       * @returns True for errors.
+       */
+      (diagnostic) => diagnostic.level === SarifLevel.Error,
+    )
+    .map(getDiagnosticText);
+  if (unattributedErrors.length > 0) {
+    components.push({
+      componentName: TOOL_NAME,
+      created: [],
+      updated: [],
+      unchanged: [],
+      warnings: [],
+      errors: unattributedErrors,
+    });
+  }
+
+  const failures = components.filter(hasComponentErrors).length;
+  const time = (report.durationMs / 1000).toFixed(3);
+  const counts = `tests="${components.length}" failures="${failures}" errors="0" skipped="0" time="${time}"`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" ${counts}>`,
+    `  <testsuite name="${TOOL_NAME}" ${counts}>`,
+    ...components.flatMap(formatJunitTestCase.bind(undefined, baseDir)),
+    "  </testsuite>",
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Formats a generation report in the requested machine-readable format.
+ *
+ * @param report - Generation report to serialize.
+ * @param format - Output format.
+ * @param baseDir - Directory file paths are made relative to in JUnit and SARIF output.
+ * @returns Serialized report text.
+ */
+export function formatReport(
+  report: Readonly<IGenerationReport>,
+  format: Readonly<ReportFormat>,
+  baseDir: string = process.cwd(),
+): string {
+  if (format === ReportFormat.Junit) {
+    return formatJunitReport(report, baseDir);
+  }
+  if (format === ReportFormat.Sarif) {
+    return formatSarifReport(report, baseDir);
+  }
+  return formatJsonReport(report);
+}
+
+/**
+ * Builds the absolute `file://` URI of the SARIF source root.
+ *
+ * SARIF requires base URIs to end with a slash so relative artifact URIs
+ * resolve beneath them.
+ * @param baseDir - Directory artifact URIs are made relative to.
+ * @returns Directory URI with a trailing slash.
+ */
+function buildSarifRootUri(baseDir: string): string {
+  const { href } = pathToFileURL(baseDir);
+  return href.endsWith("/") ? href : `${href}/`;
+}
+
+/**
+ * Formats a generation report as a SARIF 2.1.0 log.
+ *
+ * Diagnostics that carry a source location point at that line, so code
+ * scanning can annotate it; others point at the component file.
+ * @param report - Generation report to serialize.
+ * @param baseDir - Directory artifact URIs are made relative to.
+ * @returns SARIF JSON document text.
+ */
+export function formatSarifReport(
+  report: Readonly<IGenerationReport>,
+  baseDir: string = process.cwd(),
+): string {
+  const results = collectDiagnostics(report).map(
+    /**
+     * Converts a report diagnostic into a SARIF result.
+     *
+     * @param diagnostic - Report diagnostic.
+     * @returns SARIF result object.
+     */
+    (diagnostic) => {
+      const { message, location } = parseLocatedMessage(diagnostic.text);
+      return {
+        ruleId: SARIF_RULES[diagnostic.level].id,
+        level: diagnostic.level,
+        message: { text: message },
+        locations: buildSarifLocations(baseDir, diagnostic.filePath, location),
+      };
+    },
+  );
+  const sarif = {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            rules: Object.values(SARIF_RULES).map(
+              /**
+               * Converts a rule definition into a SARIF reporting descriptor.
+               *
+               * @param rule - Rule identifier and description.
+               * @returns SARIF rule object.
+               */
+              (rule) => ({ id: rule.id, shortDescription: { text: rule.text } }),
+            ),
+          },
+        },
+        originalUriBaseIds: {
+          [SARIF_SRCROOT]: { uri: buildSarifRootUri(baseDir) },
+        },
+        results,
+      },
+    ],
+  };
+  return `${JSON.stringify(sarif, null, 2)}\n`;
+}
+
+/**
+ * Formats a warning for JUnit `<system-out>` output.
+ *
+ * @param warning - Warning message.
+ * @returns Prefixed warning line.
+ */
+function formatWarningLine(warning: string): string {
+  return `warning: ${warning}`;
+}
+
+/**
+ * Returns the raw text of a report diagnostic.
+ *
+ * @param diagnostic - Report diagnostic.
+ * @returns Diagnostic message text.
+ */
+function getDiagnosticText(diagnostic: Readonly<IReportDiagnostic>): string {
+  return diagnostic.text;
+}
+
+/**
+ * Returns true when a component result has errors.
+ *
+ * @param component - Component result to inspect.
+ * @returns True when the component failed.
+ */
+function hasComponentErrors(component: Readonly<IComponentResult>): boolean {
+  return component.errors.length > 0;
+}
+
+/**
+ * Creates a report diagnostic.
+ *
+ * @param level - Diagnostic level.
+ * @param filePath - Component file the diagnostic belongs to.
+ * @param text - Diagnostic message.
+ * @returns Report diagnostic.
+ */
+function toReportDiagnostic(
+  level: SarifLevel,
+  filePath: string | undefined,
+  text: string,
+): IReportDiagnostic {
+  return { level, text, filePath };
+}
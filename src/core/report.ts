@@ -23,7 +23,11 @@
  * @module core/report
  */
 
-import type { IComponentResult, IGenerationReport } from "./types";
+import type {
+  IComponentResult,
+  IGenerationReport,
+  IPluginLoadError,
+} from "./types";
 import { GenerationStatus } from "./types";
 
 /**
@@ -68,6 +72,31 @@ export function addError(
   };
 }
 
+/**
+ * Records plugin load failures on a generation report.
+ *
+ * Each failure is kept under `pluginErrors` and also added to `errors`, so the
+ * run fails and every report format lists it.
+ * @param report - Generation report to update.
+ * @param pluginErrors - Plugin modules that failed to load.
+ * @returns Updated report, or the same report when there are no failures.
+ */
+export function addPluginLoadErrors(
+  report: Readonly<IGenerationReport>,
+  pluginErrors: readonly IPluginLoadError[],
+): IGenerationReport {
+  if (pluginErrors.length === 0) {
+    return report;
+  }
+  const errors = [...report.errors, ...pluginErrors.map(formatPluginLoadError)];
+  return {
+    ...report,
+    status: determineStatus(errors.length, report.warnings.length),
+    errors,
+    pluginErrors: [...(report.pluginErrors ?? []), ...pluginErrors],
+  };
+}
+
 /**
  * Appends an unchanged file path to a component result.
  * @param result - Component result to update.
@@ -188,6 +217,15 @@ function determineStatus(
   return GenerationStatus.Success;
 }
 
+/**
+ * Formats a plugin load failure as a report error message.
+ * @param error - Plugin load failure.
+ * @returns Error message naming the plugin.
+ */
+export function formatPluginLoadError(error: Readonly<IPluginLoadError>): string {
+  return `Failed to load plugin "${error.plugin}": ${error.message}`;
+}
+
 /**
  * Formats a generation report as a human-readable summary block.
  * @param report - Generation report to summarize.
@@ -206,6 +244,10 @@ export function formatReportSummary(
       ? [`Warnings: ${report.warnings.length}`]
       : []),
     ...(report.errors.length > 0 ? [`Errors: ${report.errors.length}`] : []),
+    ...(report.cached?.length ? [`Cached: ${report.cached.length}`] : []),
+    ...(report.unmappedUrls?.length
+      ? [`Unmapped URLs: ${report.unmappedUrls.length}`]
+      : []),
   ];
 
   return lines.join("\n");
@@ -253,5 +295,11 @@ export function reportReducer(
     unchanged,
     warnings,
     errors,
+    ...(result.unmappedUrl
+      ? { unmappedUrls: [...(report.unmappedUrls ?? []), result.unmappedUrl] }
+      : {}),
+    ...(result.cached?.length
+      ? { cached: [...(report.cached ?? []), ...result.cached] }
+      : {}),
   };
 }
@@ -32,17 +32,23 @@
  * Emit targets for code generation.
  * - `webcomponent`: Generates `*.webcomponent.figma.ts` files using `@figma/code-connect/html`
  * - `react`: Generates `*.react.figma.tsx` files using `@figma/code-connect`
+ * - `cem`: Generates one project-level `custom-elements.json` manifest
+ * - `vue`: Generates `*.vue.figma.ts` files using `@figma/code-connect/html`
+ * - `angular`: Generates `*.angular.figma.ts` files using `@figma/code-connect/html`
  */
 export enum EmitterTarget {
   WebComponent = 'webcomponent',
   React = 'react',
+  Cem = 'cem',
+  Vue = 'vue',
+  Angular = 'angular',
 }
 
 /**
- * String union of available emitter targets.
- * Useful for parsing CLI inputs before mapping to `EmitterTarget`.
+ * Emitter target identifier: a built-in `EmitterTarget` value or the target
+ * name of a registered emitter plugin (for example `svelte`).
  */
-export type EmitTarget = `${EmitterTarget}`;
+export type EmitTarget = string;
 
 // ============================================================================
 // Generic Extraction IResult
@@ -69,14 +75,22 @@ export interface IExtractionResult<T> {
 export interface IConnectOptions {
   /** Path to component file or directory. */
   readonly inputPath: string;
+  /** Every component file or directory to scan; defaults to `[inputPath]`. */
+  readonly inputPaths?: readonly string[];
   /** Whether to recursively scan subdirectories. */
   readonly recursive: boolean;
+  /** Glob patterns selecting component files (default `*.component.ts`). */
+  readonly include?: readonly string[];
+  /** Glob patterns for files and directories to skip during discovery. */
+  readonly exclude?: readonly string[];
+  /** Skip paths matched by `.gitignore` files during discovery (default true). */
+  readonly gitignore?: boolean;
   /** Preview changes without writing files. */
   readonly dryRun: boolean;
   /** Force replace existing connect files instead of section updates. */
   readonly force: boolean;
   /** Target formats to emit (webcomponent, react). */
-  readonly emitTargets: readonly EmitterTarget[];
+  readonly emitTargets: readonly EmitTarget[];
   /** Fail on unresolved base classes. */
   readonly strict: boolean;
   /** Path to tsconfig.json for TypeScript program creation. */
@@ -85,8 +99,55 @@ export interface IConnectOptions {
   readonly continueOnError?: boolean;
   /** Override base import path for generated imports. */
   readonly baseImportPath?: string;
+  /** Parser target used to parse component sources (defaults to the first registered parser). */
+  readonly parserTarget?: string;
+  /** Per-emitter settings keyed by emitter target. */
+  readonly emitterSettings?: EmitterSettingsMap;
+  /** Path to a Figma URL manifest (JSON or YAML). */
+  readonly urlManifestPath?: string;
+  /** Fail components that have no Figma URL mapping. */
+  readonly requireUrls?: boolean;
+  /** Record unified diffs for created and updated files. */
+  readonly diff?: boolean;
+  /** Regeneration cache file; components are always regenerated when omitted. */
+  readonly cachePath?: string;
+  /** figma-connecter version recorded in the cache; a different version invalidates it. */
+  readonly toolVersion?: string;
+  /** Git ref; only components changed since it, or importing a changed file, are processed. */
+  readonly changedSince?: string;
+  /** Where generated Code Connect files are written (defaults to colocated). */
+  readonly outputLayout?: OutputLayout;
+  /** Output directory for the mirrored and flat layouts. */
+  readonly outputDir?: string;
+  /** Source root mirrored below `outputDir`; defaults to the input directory. */
+  readonly outputRoot?: string;
+  /** Import resolver used by emitters without their own `importResolver` setting. */
+  readonly importResolver?: ImportResolverKind;
+  /** Namespace applied to derived tag names; absolute paths. */
+  readonly tagNamespace?: ITagNamespaceSettings;
+  /** Figma property names and enum keys used by the Code Connect emitters. */
+  readonly figmaProperties?: IFigmaPropertySettings;
 }
 
+/**
+ * Settings applied to a single emitter target.
+ */
+export interface IEmitterSettings {
+  /** Override base import path for this emitter only. */
+  readonly baseImportPath?: string;
+  /** Generated file name template; `{name}` is replaced with the component name. */
+  readonly fileName?: string;
+  /** Import resolver used for this emitter only. */
+  readonly importResolver?: ImportResolverKind;
+}
+
+/**
+ * Emitter settings keyed by emitter target.
+ */
+export type EmitterSettingsMap = Readonly<
+  Partial<Record<EmitTarget, IEmitterSettings>>
+>;
+
 // ============================================================================
 // Component Model Types
 // ============================================================================
@@ -110,6 +171,11 @@ export enum PropertyVisibility {
   Protected = 'protected',
 }
 
+/**
+ * Default value parsed from a property initializer or manifest entry.
+ */
+export type PropertyDefaultValue = string | number | boolean | null;
+
 /**
  * Describes a property extracted from a Web Component's `@property` decorator.
  */
@@ -125,13 +191,27 @@ export interface IPropertyDescriptor {
   /** Whether the property reflects to an attribute. */
   readonly reflect: boolean;
   /** Default value from initializer, if present. */
-  readonly defaultValue: string | number | boolean | null;
+  readonly defaultValue: PropertyDefaultValue;
   /** JSDoc summary for the property. */
   readonly doc: string | null;
   /** Visibility of the property within the class. */
   readonly visibility?: PropertyVisibility;
   /** Enum values if the type is 'enum'. */
   readonly enumValues?: readonly string[];
+  /** Declaration site in the component source, when parsed from TypeScript. */
+  readonly location?: ISourceLocation;
+}
+
+/**
+ * Position in a source file, using 1-based line and column numbers.
+ */
+export interface ISourceLocation {
+  /** Path to the source file. */
+  readonly filePath: string;
+  /** 1-based line number. */
+  readonly line: number;
+  /** 1-based column number. */
+  readonly column: number;
 }
 
 /**
@@ -147,7 +227,7 @@ export interface IAttributeDescriptor {
   /** Whether the attribute reflects from the property. */
   readonly reflect: boolean;
   /** Default value from initializer, if present. */
-  readonly defaultValue: string | number | boolean | null;
+  readonly defaultValue: PropertyDefaultValue;
   /** JSDoc summary for the attribute. */
   readonly doc: string | null;
 }
@@ -164,6 +244,52 @@ export interface IEventDescriptor {
   readonly detailType: string | null;
 }
 
+/**
+ * Figma Code Connect helper used to map slot content.
+ */
+export enum SlotMapping {
+  /** Nested layers mapped with `figma.children(...)`. */
+  Children = 'children',
+  /** Instance-swap property mapped with `figma.instance(...)`. */
+  Instance = 'instance',
+  /** Text layer mapped with `figma.textContent(...)`. */
+  TextContent = 'textContent',
+}
+
+/**
+ * Describes a slot exposed by a component.
+ */
+export interface ISlotDescriptor {
+  /** The slot name, or an empty string for the default slot. */
+  readonly name: string;
+  /** The Figma helper used to map the slot content. */
+  readonly mapping: SlotMapping;
+  /** JSDoc summary for the slot. */
+  readonly doc: string | null;
+}
+
+/**
+ * Describes a CSS custom property exposed by a component.
+ */
+export interface ICssPropertyDescriptor {
+  /** The custom property name, including the leading `--`. */
+  readonly name: string;
+  /** The documented default value, if any. */
+  readonly defaultValue: string | null;
+  /** JSDoc summary for the custom property. */
+  readonly doc: string | null;
+}
+
+/**
+ * Describes a CSS shadow part exposed by a component.
+ */
+export interface ICssPartDescriptor {
+  /** The part name used with `::part(...)`. */
+  readonly name: string;
+  /** JSDoc summary for the part. */
+  readonly doc: string | null;
+}
+
 /**
  * The unified component model consumed by emitters.
  * This is the output of parsing and the input for code generation.
@@ -183,6 +309,12 @@ export interface IComponentModel {
   readonly attributes: readonly IAttributeDescriptor[];
   /** Events extracted from JSDoc or dispatchEvent calls. */
   readonly events: readonly IEventDescriptor[];
+  /** Slots extracted from `@slot` JSDoc tags or `<slot>` elements in `render()`. */
+  readonly slots: readonly ISlotDescriptor[];
+  /** CSS custom properties extracted from `@cssproperty` JSDoc tags. */
+  readonly cssProperties: readonly ICssPropertyDescriptor[];
+  /** CSS shadow parts extracted from `@csspart` JSDoc tags. */
+  readonly cssParts: readonly ICssPartDescriptor[];
   /** Import path for the component. */
   readonly importPath: string;
 }
@@ -200,6 +332,15 @@ export enum GenerationStatus {
   Error = 'error',
 }
 
+/**
+ * Machine-readable formats a generation report can be written in.
+ */
+export enum ReportFormat {
+  Json = 'json',
+  Junit = 'junit',
+  Sarif = 'sarif',
+}
+
 /**
  * Report produced by the generation process.
  * Used for CLI output and CI integration.
@@ -221,6 +362,24 @@ export interface IGenerationReport {
   readonly durationMs: number;
   /** Optional per-component results for detailed reporting. */
   readonly componentResults?: readonly IComponentResult[];
+  /** Tag names of components emitted without a mapped Figma URL. */
+  readonly unmappedUrls?: readonly string[];
+  /** Connect files of components skipped because their cache entry was fresh. */
+  readonly cached?: readonly string[];
+  /** Plugin modules that failed to load before generation. */
+  readonly pluginErrors?: readonly IPluginLoadError[];
+}
+
+/**
+ * Plugin module that could not be loaded.
+ */
+export interface IPluginLoadError {
+  /** Module name or path as configured. */
+  readonly plugin: string;
+  /** Resolved module file, when resolution succeeded. */
+  readonly resolvedPath?: string;
+  /** Reason the plugin failed to load. */
+  readonly message: string;
 }
 
 /**
@@ -252,6 +411,10 @@ export interface IFileChangeDetail {
   readonly status: FileChangeStatus;
   /** Reason describing why the file changed. */
   readonly reason: FileChangeReason;
+  /** Generated sections that differ from the existing file, for updated files. */
+  readonly driftedSections?: readonly GeneratedSectionName[];
+  /** Unified diff hunks for created or updated files, when diffs are requested. */
+  readonly diff?: string;
 }
 
 /**
@@ -274,6 +437,10 @@ export interface IComponentResult {
   readonly warnings: readonly string[];
   /** Errors for this component. */
   readonly errors: readonly string[];
+  /** Tag name recorded when the component has no mapped Figma URL. */
+  readonly unmappedUrl?: string;
+  /** Connect files left untouched because the component's cache entry was fresh. */
+  readonly cached?: readonly string[];
 }
 
 /**
@@ -306,6 +473,32 @@ export enum TagNameSource {
   Unknown = 'unknown',
 }
 
+/**
+ * Namespace rule applied to tag names derived from file names or
+ * `constructTagName(...)` calls.
+ *
+ * Set either a static `prefix` or a `module` plus `export`. The export may be
+ * a string (the prefix) or an object with `PREFIX`/`SEPARATOR` members.
+ */
+export interface ITagNamespaceRule {
+  /** Static namespace prefix, e.g. `acme`. */
+  readonly prefix?: string;
+  /** Separator between prefix and name; defaults to `-`. */
+  readonly separator?: string;
+  /** Module exporting the namespace value. */
+  readonly module?: string;
+  /** Exported identifier read from `module`. */
+  readonly export?: string;
+}
+
+/**
+ * Tag-name namespace settings with per-package overrides.
+ */
+export interface ITagNamespaceSettings extends ITagNamespaceRule {
+  /** Rules keyed by package directory; the closest directory to a component wins. */
+  readonly packages?: Readonly<Record<string, ITagNamespaceRule>>;
+}
+
 /**
  * IResult of resolving a component's tag name.
  */
@@ -320,6 +513,101 @@ export interface ITagNameResult {
 // IEmitter Types
 // ============================================================================
 
+/**
+ * Layouts for placing generated Code Connect files.
+ */
+export enum OutputLayout {
+  /** `<componentDir>/code-connect/<file>`. */
+  Colocated = 'colocated',
+  /** `<outputDir>/<componentDir relative to the source root>/<file>`. */
+  Mirrored = 'mirrored',
+  /** `<outputDir>/<file>`. */
+  Flat = 'flat',
+}
+
+/**
+ * Resolved location for generated Code Connect files.
+ */
+export interface IOutputLocation {
+  /** Layout used to place each file. */
+  readonly layout: OutputLayout;
+  /** Absolute output directory for the mirrored and flat layouts. */
+  readonly outputDir?: string;
+  /** Absolute source roots mirrored below `outputDir`; each file uses the deepest root containing it. */
+  readonly sourceRoots?: readonly string[];
+}
+
+/**
+ * Strategies for computing the import specifiers written into generated files.
+ */
+export enum ImportResolverKind {
+  /** Source-layout heuristics (`/packages/components/src/`, `<root>/dist/react`). */
+  Heuristic = 'heuristic',
+  /** Public specifiers read from the owning package's `package.json`. */
+  Package = 'package',
+}
+
+/**
+ * Resolves public import specifiers for component models.
+ *
+ * Methods return undefined when no specifier can be resolved so emitters
+ * fall back to their heuristics.
+ */
+export interface IImportResolver {
+  /** Strategy implemented by the resolver. */
+  readonly kind: ImportResolverKind;
+  /**
+   * Resolves the specifier that imports the component module itself.
+   *
+   * @param model - Component model being emitted.
+   * @returns Import specifier, or undefined when unresolved.
+   */
+  resolveComponentImport(model: Readonly<IComponentModel>): string | undefined;
+  /**
+   * Resolves the specifier of a named package entry point such as `react`.
+   *
+   * @param model - Component model being emitted.
+   * @param entry - Entry point name without the leading `./`.
+   * @returns Import specifier, or undefined when unresolved.
+   */
+  resolveEntryImport(
+    model: Readonly<IComponentModel>,
+    entry: string,
+  ): string | undefined;
+}
+
+/**
+ * Figma naming for a single component property.
+ */
+export interface IFigmaPropertyMapping {
+  /** Figma property name; defaults to the title-cased prop name. */
+  readonly name?: string;
+  /** Figma enum value keys keyed by code value; unmapped values are title-cased. */
+  readonly values?: Readonly<Record<string, string>>;
+  /** Whether the prop has no Figma counterpart and is left out of the output. */
+  readonly skip?: boolean;
+}
+
+/**
+ * Figma mapping for a prop: a property name or full mapping settings.
+ */
+export type FigmaPropertySetting = string | IFigmaPropertyMapping;
+
+/**
+ * Figma mappings keyed by code property name.
+ */
+export type FigmaPropertyMap = Readonly<Record<string, FigmaPropertySetting>>;
+
+/**
+ * Figma property naming applied by the Code Connect emitters.
+ */
+export interface IFigmaPropertySettings {
+  /** Mappings applied to every component. */
+  readonly props?: FigmaPropertyMap;
+  /** Mappings keyed by tag name or class name; they win over `props`. */
+  readonly components?: Readonly<Record<string, FigmaPropertyMap>>;
+}
+
 /**
  * Options for emitter configuration.
  */
@@ -328,6 +616,16 @@ export interface IEmitterOptions {
   readonly dryRun: boolean;
   /** Base import path for components. */
   readonly baseImportPath?: string;
+  /** Figma node URL for the component; a placeholder is emitted when absent. */
+  readonly figmaUrl?: string;
+  /** Output location for generated files; colocated when omitted. */
+  readonly output?: IOutputLocation;
+  /** Generated file name template; the emitter default is used when omitted. */
+  readonly fileName?: string;
+  /** Resolver for public import specifiers; heuristics are used when omitted. */
+  readonly importResolver?: IImportResolver;
+  /** Figma property names and enum keys for mapped props. */
+  readonly figmaProperties?: IFigmaPropertySettings;
 }
 
 /**
@@ -345,6 +643,8 @@ export interface IGeneratedSectionMarkers {
  */
 export enum GeneratedSectionName {
   Props = 'props',
+  Events = 'events',
+  Styling = 'styling',
   Example = 'example',
 }
 
@@ -358,6 +658,8 @@ export interface IGeneratedSectionPayload {
   readonly content: string;
   /** Marker strings used to delimit the section. */
   readonly markers?: IGeneratedSectionMarkers;
+  /** Section this one follows; used to insert it into files written before it existed. */
+  readonly after?: GeneratedSectionName;
 }
 
 /**
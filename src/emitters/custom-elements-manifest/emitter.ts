@@ -0,0 +1,298 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Custom Elements Manifest Emitter
+ *
+ * Writes a single project-level `custom-elements.json` (schema 2.x)
+ * describing every component in the batch.
+ *
+ * @module emitters/custom-elements-manifest/emitter
+ */
+
+import path from "node:path";
+
+import {
+  type ICssPartDescriptor,
+  type ICssPropertyDescriptor,
+  type IComponentModel,
+  type IEmitResult,
+  type IEventDescriptor,
+  type IPropertyDescriptor,
+  type ISlotDescriptor,
+  type PropertyDefaultValue,
+  EmitterTarget,
+  FileChangeStatus,
+  PropertyVisibility,
+} from "@/src/core/types";
+import type {
+  IAggregateEmitterContext,
+  IEmitter,
+} from "@/src/emitters/types";
+import type {
+  ICemAttribute,
+  ICemClassMember,
+  ICemCssPart,
+  ICemCssProperty,
+  ICemDeclaration,
+  ICemEvent,
+  ICemModule,
+  ICemSlot,
+  ICustomElementsManifest,
+} from "@/src/parsers/cem/types";
+import { relativePosixPath } from "@/src/utils/paths";
+
+/** File name of the generated manifest. */
+export const CUSTOM_ELEMENTS_MANIFEST_FILE_NAME = "custom-elements.json";
+
+/** Custom Elements Manifest schema version written by the emitter. */
+export const CUSTOM_ELEMENTS_MANIFEST_SCHEMA_VERSION = "2.1.0";
+
+/**
+ * Returns an object with a `description` key when documentation is present.
+ *
+ * @param doc - Documentation text.
+ * @returns Description entry, or an empty object.
+ */
+function withDescription(doc: string | null): {
+  readonly description?: string;
+} {
+  return doc ? { description: doc } : {};
+}
+
+/**
+ * Formats a default value as manifest source text.
+ *
+ * @param value - Parsed default value.
+ * @returns Source text (strings are quoted), or undefined when absent.
+ */
+function formatDefaultValue(
+  value: PropertyDefaultValue,
+): string | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Orders models by module path, then class name, for stable output.
+ *
+ * @param left - First model.
+ * @param right - Second model.
+ * @returns Sort order.
+ */
+function compareModels(
+  left: Readonly<IComponentModel>,
+  right: Readonly<IComponentModel>,
+): number {
+  return (
+    left.filePath.localeCompare(right.filePath) ||
+    left.className.localeCompare(right.className)
+  );
+}
+
+/**
+ * Converts an attribute-backed property to a manifest attribute.
+ *
+ * @param prop - Property descriptor with an attribute.
+ * @returns Manifest attribute.
+ */
+function toCemAttribute(prop: Readonly<IPropertyDescriptor>): ICemAttribute {
+  const defaultValue = formatDefaultValue(prop.defaultValue);
+  return {
+    name: prop.attribute ?? prop.name,
+    type: { text: prop.tsType },
+    ...(defaultValue === undefined ? {} : { default: defaultValue }),
+    ...withDescription(prop.doc),
+    fieldName: prop.name,
+  };
+}
+
+/**
+ * Converts a CSS part descriptor to a manifest CSS part.
+ *
+ * @param part - CSS part descriptor.
+ * @returns Manifest CSS part.
+ */
+function toCemCssPart(part: Readonly<ICssPartDescriptor>): ICemCssPart {
+  return { name: part.name, ...withDescription(part.doc) };
+}
+
+/**
+ * Converts a CSS custom property descriptor to a manifest CSS property.
+ *
+ * @param property - CSS custom property descriptor.
+ * @returns Manifest CSS property.
+ */
+function toCemCssProperty(
+  property: Readonly<ICssPropertyDescriptor>,
+): ICemCssProperty {
+  return {
+    name: property.name,
+    ...(property.defaultValue === null
+      ? {}
+      : { default: property.defaultValue }),
+    ...withDescription(property.doc),
+  };
+}
+
+/**
+ * Builds the custom element declaration for a component model.
+ *
+ * @param model - Component model.
+ * @returns Manifest class declaration.
+ */
+function toCemDeclaration(model: Readonly<IComponentModel>): ICemDeclaration {
+  return {
+    kind: "class",
+    name: model.className,
+    tagName: model.tagName,
+    customElement: true,
+    members: model.props.map(toCemField),
+    attributes: model.props.filter(hasAttribute).map(toCemAttribute),
+    events: model.events.map(toCemEvent),
+    slots: model.slots.map(toCemSlot),
+    cssProperties: model.cssProperties.map(toCemCssProperty),
+    cssParts: model.cssParts.map(toCemCssPart),
+  };
+}
+
+/**
+ * Converts an event descriptor to a manifest event.
+ *
+ * @param event - Event descriptor.
+ * @returns Manifest event typed as `CustomEvent<T>` when a detail type is known.
+ */
+function toCemEvent(event: Readonly<IEventDescriptor>): ICemEvent {
+  return {
+    name: event.name,
+    type: {
+      text: event.detailType ? `CustomEvent<${event.detailType}>` : "Event",
+    },
+  };
+}
+
+/**
+ * Converts a property descriptor to a manifest field member.
+ *
+ * @param prop - Property descriptor.
+ * @returns Manifest field.
+ */
+function toCemField(prop: Readonly<IPropertyDescriptor>): ICemClassMember {
+  const defaultValue = formatDefaultValue(prop.defaultValue);
+  return {
+    kind: "field",
+    name: prop.name,
+    type: { text: prop.tsType },
+    ...(defaultValue === undefined ? {} : { default: defaultValue }),
+    ...withDescription(prop.doc),
+    ...(prop.visibility === PropertyVisibility.Protected
+      ? { privacy: "protected" as const }
+      : {}),
+    ...(prop.attribute === null ? {} : { attribute: prop.attribute }),
+    ...(prop.reflect ? { reflects: true } : {}),
+  };
+}
+
+/**
+ * Builds the manifest module for a component model.
+ *
+ * @param outputDir - Directory module paths are relative to.
+ * @param model - Component model.
+ * @returns Manifest module with the declaration and its exports.
+ */
+function toCemModule(
+  outputDir: string,
+  model: Readonly<IComponentModel>,
+): ICemModule {
+  const modulePath = relativePosixPath(outputDir, model.filePath);
+  const declaration = { name: model.className, module: modulePath };
+  return {
+    kind: "javascript-module",
+    path: modulePath,
+    declarations: [toCemDeclaration(model)],
+    exports: [
+      { kind: "js", name: model.className, declaration },
+      { kind: "custom-element-definition", name: model.tagName, declaration },
+    ],
+  };
+}
+
+/**
+ * Converts a slot descriptor to a manifest slot.
+ *
+ * @param slot - Slot descriptor.
+ * @returns Manifest slot.
+ */
+function toCemSlot(slot: Readonly<ISlotDescriptor>): ICemSlot {
+  return { name: slot.name, ...withDescription(slot.doc) };
+}
+
+/**
+ * Returns true when a property is backed by an HTML attribute.
+ *
+ * @param prop - Property descriptor.
+ * @returns True when the property has an attribute.
+ */
+function hasAttribute(prop: Readonly<IPropertyDescriptor>): boolean {
+  return prop.attribute !== null;
+}
+
+/**
+ * Builds a Custom Elements Manifest from component models.
+ *
+ * @param models - Component models to describe.
+ * @param outputDir - Directory module paths are relative to.
+ * @returns Manifest with one module per component, ordered by path.
+ */
+export function buildCustomElementsManifest(
+  models: readonly IComponentModel[],
+  outputDir: string,
+): ICustomElementsManifest {
+  return {
+    schemaVersion: CUSTOM_ELEMENTS_MANIFEST_SCHEMA_VERSION,
+    modules: [...models]
+      .sort(compareModels)
+      .map(toCemModule.bind(undefined, outputDir)),
+  };
+}
+
+/**
+ * IEmitter for the project-level Custom Elements Manifest.
+ * Produces a single `custom-elements.json` for the whole batch.
+ */
+export class CustomElementsManifestEmitter implements IEmitter {
+  readonly target = EmitterTarget.Cem;
+
+  /**
+   * Emits a `custom-elements.json` describing every component in the batch.
+   *
+   * @param aggregateContext - Context containing all models and the output directory.
+   * @returns Emit result containing the manifest JSON.
+   */
+  emitAggregate(
+    aggregateContext: Readonly<IAggregateEmitterContext>,
+  ): IEmitResult {
+    const { models, outputDir } = aggregateContext;
+    const manifest = buildCustomElementsManifest(models, outputDir);
+    return {
+      filePath: path.join(outputDir, CUSTOM_ELEMENTS_MANIFEST_FILE_NAME),
+      content: `${JSON.stringify(manifest, null, 2)}\n`,
+      action: FileChangeStatus.Created,
+    };
+  }
+}
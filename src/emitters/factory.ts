@@ -29,9 +29,12 @@
  */
 
 import { RegistryFactory } from "@/src/core/registry-factory";
-import { EmitterTarget } from "@/src/core/types";
+import { type EmitTarget, EmitterTarget } from "@/src/core/types";
 
+import { CustomElementsManifestEmitter } from "./custom-elements-manifest";
+import { FigmaAngularEmitter } from "./figma-angular";
 import { FigmaReactEmitter } from "./figma-react";
+import { FigmaVueEmitter } from "./figma-vue";
 import { FigmaWebComponentEmitter } from "./figma-webcomponent";
 import type { IEmitter } from "./types";
 
@@ -40,7 +43,7 @@ import type { IEmitter } from "./types";
  * @param target - Emitter target to instantiate.
  * @returns Emitter instance registered for the target.
  */
-export function createEmitter(target: Readonly<EmitterTarget>): IEmitter {
+export function createEmitter(target: EmitTarget): IEmitter {
   return getEmitterFactory().createInstance(target);
 }
 
@@ -64,7 +67,7 @@ export function createEmitters(
  * Options for selecting emitter targets from the registry.
  */
 export interface IEmitterFactoryOptions {
-  readonly targets: readonly EmitterTarget[];
+  readonly targets: readonly EmitTarget[];
 }
 
 /**
@@ -77,17 +80,43 @@ export interface IEmitterMetadata {
   readonly displayName: string;
   /** Description of what this emitter generates */
   readonly description: string;
+  /**
+   * Whether the emitter writes one project-level file instead of one file per
+   * component. Aggregate targets are not selected by `all`.
+   */
+  readonly aggregate?: boolean;
+  /**
+   * Whether the target must be requested by name. Opt-in targets are not
+   * selected by `all`, so adding one does not change default output.
+   */
+  readonly optIn?: boolean;
 }
 
 /**
  * Plugin registration options for emitters.
  */
 export interface IEmitterPluginOptions {
-  readonly target: EmitterTarget;
+  readonly target: EmitTarget;
   readonly factory: () => IEmitter;
   readonly metadata: IEmitterMetadata;
 }
 
+/**
+ * Creates the built-in Angular emitter instance.
+ * @returns Angular emitter implementation.
+ */
+function createAngularEmitter(): IEmitter {
+  return new FigmaAngularEmitter();
+}
+
+/**
+ * Creates the built-in Custom Elements Manifest emitter instance.
+ * @returns Custom Elements Manifest emitter implementation.
+ */
+function createCemEmitter(): IEmitter {
+  return new CustomElementsManifestEmitter();
+}
+
 /**
  * Creates the built-in React emitter instance.
  * @returns React emitter implementation.
@@ -96,6 +125,14 @@ function createReactEmitter(): IEmitter {
   return new FigmaReactEmitter();
 }
 
+/**
+ * Creates the built-in Vue emitter instance.
+ * @returns Vue emitter implementation.
+ */
+function createVueEmitter(): IEmitter {
+  return new FigmaVueEmitter();
+}
+
 /**
  * Creates the built-in Web Component emitter instance.
  * @returns Web Component emitter implementation.
@@ -108,7 +145,7 @@ function createWebComponentEmitter(): IEmitter {
  * IEmitter factory implementation extending generic registry factory.
  */
 class EmitterFactoryImpl extends RegistryFactory<
-  EmitterTarget,
+  EmitTarget,
   IEmitter,
   IEmitterMetadata
 > {
@@ -141,6 +178,42 @@ const emitterFactory = new EmitterFactoryImpl([
       },
     },
   ],
+  [
+    EmitterTarget.Cem,
+    {
+      factory: createCemEmitter,
+      metadata: {
+        fileExtension: ".json",
+        displayName: "Custom Elements Manifest",
+        description: "Project-level custom-elements.json (schema 2.x)",
+        aggregate: true,
+      },
+    },
+  ],
+  [
+    EmitterTarget.Vue,
+    {
+      factory: createVueEmitter,
+      metadata: {
+        fileExtension: ".vue.figma.ts",
+        displayName: "Vue",
+        description: "Figma Code Connect for Vue wrapper components",
+        optIn: true,
+      },
+    },
+  ],
+  [
+    EmitterTarget.Angular,
+    {
+      factory: createAngularEmitter,
+      metadata: {
+        fileExtension: ".angular.figma.ts",
+        displayName: "Angular",
+        description: "Figma Code Connect for Angular wrapper components",
+        optIn: true,
+      },
+    },
+  ],
 ]);
 
 /**
@@ -148,7 +221,7 @@ const emitterFactory = new EmitterFactoryImpl([
  * @returns Read-only map of emitter targets to metadata.
  */
 export const getAllEmitterMetadata = (): ReadonlyMap<
-  EmitterTarget,
+  EmitTarget,
   IEmitterMetadata
 > => emitterFactory.getAllMetadata();
 
@@ -166,7 +239,7 @@ function getEmitterFactory(): EmitterFactoryImpl {
  * @returns Metadata registered for the target.
  */
 export const getEmitterMetadata = (
-  target: Readonly<EmitterTarget>,
+  target: EmitTarget,
 ): IEmitterMetadata => emitterFactory.getMetadata(target);
 
 /**
@@ -174,14 +247,32 @@ export const getEmitterMetadata = (
  * @param target - Emitter target to inspect.
  * @returns True when the target has a registered emitter plugin.
  */
-export const hasEmitterPlugin = (target: Readonly<EmitterTarget>): boolean =>
+export const hasEmitterPlugin = (target: EmitTarget): boolean =>
   emitterFactory.hasPlugin(target);
 
+/**
+ * Lists the emitter targets selected by `all`: every registered target except aggregate and opt-in emitters.
+ * @returns Per-component emitter targets in factory order.
+ */
+export const listDefaultEmitterTargets = (): EmitTarget[] =>
+  emitterFactory.listTargets().filter(
+    /**
+     * Keeps targets that emit one file per component without being requested by name.
+     *
+     * @param target - Registered emitter target.
+     * @returns True when the target is neither an aggregate nor an opt-in emitter.
+     */
+    (target) => {
+      const metadata = emitterFactory.getMetadata(target);
+      return !metadata.aggregate && !metadata.optIn;
+    },
+  );
+
 /**
  * Lists all registered emitter targets.
  * @returns Registered emitter targets in factory order.
  */
-export const listEmitterTargets = (): EmitterTarget[] =>
+export const listEmitterTargets = (): EmitTarget[] =>
   emitterFactory.listTargets();
 
 /**
@@ -14,11 +14,15 @@
  * limitations under the License.
  */
 
+import path from "node:path";
+
 import {
   buildGeneratedSectionMarkers,
   FIGMA_PACKAGE_REACT,
 } from "@/src/core/constants";
 import {
+  type IComponentModel,
+  type IEmitterOptions,
   type IGeneratedSectionMarkers,
   type IEmitResult,
   EmitterTarget,
@@ -29,14 +33,26 @@ import type { IEmitter, IEmitterContext } from "@/src/emitters/types";
 import {
   buildCodeConnectPayload,
   buildPropsSection,
+  buildReactEventDocsSection,
   buildReactExampleSection,
+  buildSlotBindings,
+  buildStylingDocsSection,
+  formatCodeConnectFileName,
   getComponentBaseName,
+  omitUnmappedFigmaProps,
+  resolveFigmaPropertyMap,
+  resolveFigmaUrl,
 } from "@/src/emitters/shared/utils";
 import {
   buildCodeConnectFilePath,
   resolveDistReactImportPath,
 } from "@/src/utils/paths";
 
+/** Default generated file name template. */
+const DEFAULT_FILE_NAME_TEMPLATE = "{name}.react.figma.tsx";
+/** Package entry point that exports the React wrappers. */
+const REACT_ENTRY_NAME = "react";
+
 /**
  * IEmitter for generating Figma Code Connect files for React components.
  * Produces `*.react.figma.tsx` files using `@figma/code-connect`.
@@ -45,27 +61,61 @@ export class FigmaReactEmitter implements IEmitter {
   readonly target = EmitterTarget.React;
 
   /**
-   * Builds generated props/example section content and markers.
+   * Builds generated props/events/styling/example section content and markers.
    *
    * @param emitterContext - Context containing model and emitter options.
    * @returns Section payload and warnings for output generation.
    */
   private buildSectionPayload(emitterContext: Readonly<IEmitterContext>): {
+    readonly eventsMarkers: IGeneratedSectionMarkers;
+    readonly eventsSection: string;
     readonly exampleMarkers: IGeneratedSectionMarkers;
     readonly exampleSection: string;
     readonly propsMarkers: IGeneratedSectionMarkers;
     readonly propsSection: string;
+    readonly stylingMarkers: IGeneratedSectionMarkers;
+    readonly stylingSection?: string;
     readonly warnings: readonly string[];
   } {
-    const { model } = emitterContext;
-    const { lines: propsLines, warnings } = buildPropsSection(model.props, 0);
+    const propertyMap = resolveFigmaPropertyMap(
+      emitterContext.model,
+      emitterContext.options.figmaProperties,
+    );
+    const model = omitUnmappedFigmaProps(emitterContext.model, propertyMap);
+    const slots = buildSlotBindings(model.props, model.slots);
+    const { lines: propsLines, warnings } = buildPropsSection(
+      model.props,
+      0,
+      slots,
+      propertyMap,
+    );
+    const stylingLines = buildStylingDocsSection(
+      model.tagName,
+      model.cssProperties,
+      model.cssParts,
+    );
     return {
       propsSection: propsLines.join("\n"),
-      exampleSection: buildReactExampleSection(model.className),
+      eventsSection: buildReactEventDocsSection(
+        model.className,
+        model.events,
+      ).join("\n"),
+      exampleSection: buildReactExampleSection(
+        model.className,
+        model.props,
+        model.events,
+        slots,
+      ),
       propsMarkers: buildGeneratedSectionMarkers(GeneratedSectionName.Props),
+      eventsMarkers: buildGeneratedSectionMarkers(GeneratedSectionName.Events),
       exampleMarkers: buildGeneratedSectionMarkers(
         GeneratedSectionName.Example,
       ),
+      stylingSection:
+        stylingLines.length > 0 ? stylingLines.join("\n") : undefined,
+      stylingMarkers: buildGeneratedSectionMarkers(
+        GeneratedSectionName.Styling,
+      ),
       warnings,
     };
   }
@@ -73,18 +123,33 @@ export class FigmaReactEmitter implements IEmitter {
   /**
    * Resolves the component import path for React Code Connect output.
    *
-   * @param componentDir - Absolute component directory path.
-   * @param baseImportPath - Optional override for component import base.
+   * A selected import resolver wins; otherwise the base import path or the
+   * `<root>/dist/react` heuristic is used.
+   *
+   * @param model - Component model being emitted.
+   * @param filePath - Generated file path the import is relative to.
+   * @param options - Emitter options with the base import path and resolver.
    * @returns Import path string for the React component.
    */
   private resolveReactImportPath(
-    componentDir: string,
-    baseImportPath?: string,
+    model: Readonly<IComponentModel>,
+    filePath: string,
+    options: Readonly<IEmitterOptions>,
   ): string {
-    if (baseImportPath) {
-      return `${baseImportPath}/dist/react`;
+    const resolved = options.importResolver?.resolveEntryImport(
+      model,
+      REACT_ENTRY_NAME,
+    );
+    if (resolved) {
+      return resolved;
+    }
+    if (options.baseImportPath) {
+      return `${options.baseImportPath}/dist/react`;
     }
-    return resolveDistReactImportPath(componentDir);
+    return resolveDistReactImportPath(
+      model.componentDir,
+      path.posix.dirname(filePath),
+    );
   }
 
   /**
@@ -96,18 +161,26 @@ export class FigmaReactEmitter implements IEmitter {
   emit(emitterContext: Readonly<IEmitterContext>): IEmitResult {
     const { model, options } = emitterContext;
     const componentName = getComponentBaseName(model);
-    const fileName = `${componentName}.react.figma.tsx`;
-    const filePath = buildCodeConnectFilePath(model.componentDir, fileName);
-    const figmaUrl = `<FIGMA_${componentName.toUpperCase()}_URL>`;
-    const importPath = this.resolveReactImportPath(
+    const fileName = formatCodeConnectFileName(
+      options.fileName ?? DEFAULT_FILE_NAME_TEMPLATE,
+      componentName,
+    );
+    const filePath = buildCodeConnectFilePath(
       model.componentDir,
-      options.baseImportPath,
+      fileName,
+      options.output,
     );
+    const figmaUrl = resolveFigmaUrl(componentName, options.figmaUrl);
+    const importPath = this.resolveReactImportPath(model, filePath, options);
     const {
       propsSection,
+      eventsSection,
       exampleSection,
       propsMarkers,
+      eventsMarkers,
       exampleMarkers,
+      stylingSection,
+      stylingMarkers,
       warnings,
     } = this.buildSectionPayload(emitterContext);
     return this.buildEmitResult({
@@ -117,8 +190,12 @@ export class FigmaReactEmitter implements IEmitter {
       figmaUrl,
       propsSection,
       propsMarkers,
+      eventsSection,
+      eventsMarkers,
       exampleSection,
       exampleMarkers,
+      stylingSection,
+      stylingMarkers,
       warnings,
     });
   }
@@ -132,6 +209,8 @@ export class FigmaReactEmitter implements IEmitter {
   private buildEmitResult(
     emitOptions: Readonly<{
       className: string;
+      eventsMarkers: Readonly<IGeneratedSectionMarkers>;
+      eventsSection: string;
       exampleMarkers: Readonly<IGeneratedSectionMarkers>;
       exampleSection: string;
       figmaUrl: string;
@@ -139,6 +218,8 @@ export class FigmaReactEmitter implements IEmitter {
       importPath: string;
       propsMarkers: Readonly<IGeneratedSectionMarkers>;
       propsSection: string;
+      stylingMarkers: Readonly<IGeneratedSectionMarkers>;
+      stylingSection?: string;
       warnings: readonly string[];
     }>,
   ): IEmitResult {
@@ -150,9 +231,13 @@ export class FigmaReactEmitter implements IEmitter {
       propsSection,
       propsMarkers,
     } = emitOptions;
-    const { exampleSection, exampleMarkers, warnings } = emitOptions;
+    const { eventsSection, eventsMarkers, exampleSection, exampleMarkers } =
+      emitOptions;
+    const { stylingSection, stylingMarkers, warnings } = emitOptions;
     return buildCodeConnectPayload({
       action: FileChangeStatus.Created,
+      eventsMarkers,
+      eventsSection,
       exampleMarkers,
       exampleSection,
       filePath,
@@ -165,6 +250,8 @@ export class FigmaReactEmitter implements IEmitter {
       ],
       propsMarkers,
       propsSection,
+      stylingMarkers,
+      stylingSection,
       warnings,
     });
   }
@@ -0,0 +1,50 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EmitterTarget, type IEmitResult } from "@/src/core/types";
+import type { IEmitter, IEmitterContext } from "@/src/emitters/types";
+import {
+  buildVueExampleSection,
+  emitTemplateCodeConnect,
+  type ITemplateEmitterConfig,
+} from "@/src/emitters/shared/utils";
+
+/** Vue wrapper file name, import entry and template syntax. */
+const VUE_TEMPLATE: ITemplateEmitterConfig = {
+  entryName: "vue",
+  fileNameTemplate: "{name}.vue.figma.ts",
+  listenerSyntax: '@<event>="handler"',
+  buildExample: buildVueExampleSection,
+};
+
+/**
+ * IEmitter for generating Figma Code Connect files for Vue wrapper components.
+ * Produces `*.vue.figma.ts` files using `@figma/code-connect/html` with Vue
+ * template syntax in the example.
+ */
+export class FigmaVueEmitter implements IEmitter {
+  readonly target = EmitterTarget.Vue;
+
+  /**
+   * Emits a Figma Code Connect file for a Vue wrapper component.
+   *
+   * @param emitterContext - Context containing model and emitter options.
+   * @returns Emit result containing file content and metadata.
+   */
+  emit(emitterContext: Readonly<IEmitterContext>): IEmitResult {
+    return emitTemplateCodeConnect(emitterContext, VUE_TEMPLATE);
+  }
+}
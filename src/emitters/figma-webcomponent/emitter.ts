@@ -27,16 +27,26 @@ import {
 } from "@/src/core/types";
 import type { IEmitter, IEmitterContext } from "@/src/emitters/types";
 import {
+  buildEventDocsSection,
   buildExampleTemplate,
   buildCodeConnectPayload,
   buildPropsSection,
+  buildSlotBindings,
+  buildStylingDocsSection,
+  formatCodeConnectFileName,
   getComponentBaseName,
   indent,
+  omitUnmappedFigmaProps,
+  resolveFigmaPropertyMap,
+  resolveFigmaUrl,
 } from "@/src/emitters/shared/utils";
 import { buildCodeConnectFilePath } from "@/src/utils/paths";
 
 import { buildImportsLine } from "./helpers";
 
+/** Default generated file name template. */
+const DEFAULT_FILE_NAME_TEMPLATE = "{name}.webcomponent.figma.ts";
+
 /**
  * IEmitter for generating Figma Code Connect files for Web Components.
  * Produces `*.webcomponent.figma.ts` files using `@figma/code-connect/html`.
@@ -45,30 +55,63 @@ export class FigmaWebComponentEmitter implements IEmitter {
   readonly target = EmitterTarget.WebComponent;
 
   /**
-   * Builds generated props/example section content and markers.
+   * Builds generated props/events/styling/example section content and markers.
    *
    * @param emitterContext - Context containing model and emitter options.
    * @returns Section payload and warnings for output generation.
    */
   private buildSectionPayload(emitterContext: Readonly<IEmitterContext>): {
+    readonly eventsMarkers: IGeneratedSectionMarkers;
+    readonly eventsSection: string;
     readonly exampleMarkers: IGeneratedSectionMarkers;
     readonly exampleSection: string;
     readonly importsLine: string;
     readonly propsMarkers: IGeneratedSectionMarkers;
     readonly propsSection: string;
+    readonly stylingMarkers: IGeneratedSectionMarkers;
+    readonly stylingSection?: string;
     readonly warnings: readonly string[];
   } {
-    const { model, options } = emitterContext;
-    const { lines: propsLines, warnings } = buildPropsSection(model.props, 0);
-    const example = buildExampleTemplate(model.tagName, model.attributes);
+    const { options } = emitterContext;
+    const propertyMap = resolveFigmaPropertyMap(
+      emitterContext.model,
+      options.figmaProperties,
+    );
+    const model = omitUnmappedFigmaProps(emitterContext.model, propertyMap);
+    const slots = buildSlotBindings(model.props, model.slots);
+    const { lines: propsLines, warnings } = buildPropsSection(
+      model.props,
+      0,
+      slots,
+      propertyMap,
+    );
+    const stylingLines = buildStylingDocsSection(
+      model.tagName,
+      model.cssProperties,
+      model.cssParts,
+    );
+    const example = buildExampleTemplate(
+      model.tagName,
+      model.attributes,
+      slots,
+    );
     return {
       propsSection: propsLines.join("\n"),
+      eventsSection: buildEventDocsSection(model.tagName, model.events).join(
+        "\n",
+      ),
       exampleSection: `example: ${example.example},`,
       importsLine: buildImportsLine(model, options),
       propsMarkers: buildGeneratedSectionMarkers(GeneratedSectionName.Props),
+      eventsMarkers: buildGeneratedSectionMarkers(GeneratedSectionName.Events),
       exampleMarkers: buildGeneratedSectionMarkers(
         GeneratedSectionName.Example,
       ),
+      stylingSection:
+        stylingLines.length > 0 ? stylingLines.join("\n") : undefined,
+      stylingMarkers: buildGeneratedSectionMarkers(
+        GeneratedSectionName.Styling,
+      ),
       warnings,
     };
   }
@@ -80,17 +123,28 @@ export class FigmaWebComponentEmitter implements IEmitter {
    * @returns Emit result containing file content and metadata.
    */
   emit(emitterContext: Readonly<IEmitterContext>): IEmitResult {
-    const { model } = emitterContext;
+    const { model, options } = emitterContext;
     const componentName = getComponentBaseName(model);
-    const fileName = `${componentName}.webcomponent.figma.ts`;
-    const filePath = buildCodeConnectFilePath(model.componentDir, fileName);
-    const figmaUrl = `<FIGMA_${componentName.toUpperCase()}_URL>`;
+    const fileName = formatCodeConnectFileName(
+      options.fileName ?? DEFAULT_FILE_NAME_TEMPLATE,
+      componentName,
+    );
+    const filePath = buildCodeConnectFilePath(
+      model.componentDir,
+      fileName,
+      options.output,
+    );
+    const figmaUrl = resolveFigmaUrl(componentName, options.figmaUrl);
     const {
       propsSection,
+      eventsSection,
       exampleSection,
       importsLine,
       propsMarkers,
+      eventsMarkers,
       exampleMarkers,
+      stylingSection,
+      stylingMarkers,
       warnings,
     } = this.buildSectionPayload(emitterContext);
     return this.buildEmitResult({
@@ -98,9 +152,13 @@ export class FigmaWebComponentEmitter implements IEmitter {
       figmaUrl,
       propsSection,
       propsMarkers,
+      eventsSection,
+      eventsMarkers,
       exampleSection,
       exampleMarkers,
       importsLine,
+      stylingSection,
+      stylingMarkers,
       warnings,
     });
   }
@@ -113,6 +171,8 @@ export class FigmaWebComponentEmitter implements IEmitter {
    */
   private buildEmitResult(
     emitOptions: Readonly<{
+      eventsMarkers: Readonly<IGeneratedSectionMarkers>;
+      eventsSection: string;
       exampleMarkers: Readonly<IGeneratedSectionMarkers>;
       exampleSection: string;
       figmaUrl: string;
@@ -120,14 +180,20 @@ export class FigmaWebComponentEmitter implements IEmitter {
       importsLine: string;
       propsMarkers: Readonly<IGeneratedSectionMarkers>;
       propsSection: string;
+      stylingMarkers: Readonly<IGeneratedSectionMarkers>;
+      stylingSection?: string;
       warnings: readonly string[];
     }>,
   ): IEmitResult {
     const { filePath, figmaUrl, propsSection, propsMarkers, exampleSection } =
       emitOptions;
-    const { exampleMarkers, importsLine, warnings } = emitOptions;
+    const { eventsSection, eventsMarkers, exampleMarkers, importsLine } =
+      emitOptions;
+    const { stylingSection, stylingMarkers, warnings } = emitOptions;
     return buildCodeConnectPayload({
       action: FileChangeStatus.Created,
+      eventsMarkers,
+      eventsSection,
       exampleMarkers,
       exampleSection,
       filePath,
@@ -140,6 +206,8 @@ export class FigmaWebComponentEmitter implements IEmitter {
       ],
       propsMarkers,
       propsSection,
+      stylingMarkers,
+      stylingSection,
       warnings,
     });
   }
@@ -34,6 +34,8 @@ export function buildImportsLine(
   options: Readonly<IEmitterOptions>,
 ): string {
   const baseImportPath = options.baseImportPath ?? DEFAULT_IMPORT_BASE;
-  const importPath = `${baseImportPath}/${model.importPath}`;
+  const importPath =
+    options.importResolver?.resolveComponentImport(model) ??
+    `${baseImportPath}/${model.importPath}`;
   return `imports: ["import '${importPath}';"],`;
 }
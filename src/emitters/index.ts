@@ -29,8 +29,12 @@ export {
   createEmitters,
   getAllEmitterMetadata,
   getEmitterMetadata,
+  listDefaultEmitterTargets,
   listEmitterTargets,
 } from './factory';
+export * from './custom-elements-manifest';
+export * from './figma-angular';
 export * from './figma-react';
+export * from './figma-vue';
 export * from './figma-webcomponent';
 export type { IEmitter, IEmitterContext, EmitterResult } from './types';
@@ -22,10 +22,17 @@
  * @module emitters/shared/figma-mapper
  */
 
+import { formatLocatedMessage } from "@/src/core/diagnostics";
 import {
+  type FigmaPropertyMap,
+  type FigmaPropertySetting,
   FigmaPropertyType,
   type IComponentModel,
+  type IFigmaPropertyMapping,
+  type IFigmaPropertySettings,
   type IPropertyDescriptor,
+  type ISlotDescriptor,
+  SlotMapping,
 } from "@/src/core/types";
 import { normalizedBasename } from "@/src/utils/paths";
 
@@ -39,6 +46,18 @@ type PropertyFigmaType = FigmaPropertyType;
 
 const COMPONENT_FILE_NAME_PATTERN = /^(.*)\.component\.[tj]sx?$/i;
 
+/** Placeholder replaced with the component name in file name templates. */
+const FILE_NAME_TEMPLATE_TOKEN = "{name}";
+
+/** Figma layer label used for the default (unnamed) slot. */
+const DEFAULT_SLOT_LABEL = "Content";
+
+const SLOT_FIGMA_HELPERS: Readonly<Record<SlotMapping, string>> = {
+  [SlotMapping.Children]: "figma.children",
+  [SlotMapping.Instance]: "figma.instance",
+  [SlotMapping.TextContent]: "figma.textContent",
+};
+
 const SCALAR_FIGMA_MAPPERS: Readonly<
   Record<FigmaScalarPropertyType, (label: string) => string>
 > = {
@@ -50,12 +69,16 @@ const SCALAR_FIGMA_MAPPERS: Readonly<
 /**
  * Builds a single enum mapping line.
  *
+ * @param valueKeys - Figma enum keys keyed by code value.
  * @param value - Enum value to emit.
  * @returns Formatted enum mapping line.
  */
-function buildEnumEntryLine(value: string): string {
-  const key = toTitleCase(value);
-  return `'${key}': ${JSON.stringify(value)},`;
+function buildEnumEntryLine(
+  valueKeys: Readonly<Record<string, string>>,
+  value: string,
+): string {
+  const key = valueKeys[value] ?? toTitleCase(value);
+  return `${quoteFigmaName(key)}: ${JSON.stringify(value)},`;
 }
 
 /**
@@ -65,7 +88,7 @@ function buildEnumEntryLine(value: string): string {
  * @returns Boolean mapping expression.
  */
 function buildBooleanMapping(label: string): string {
-  return `figma.boolean('${label}')`;
+  return `figma.boolean(${quoteFigmaName(label)})`;
 }
 
 /**
@@ -73,14 +96,20 @@ function buildBooleanMapping(label: string): string {
  *
  * @param label - Display label for the property.
  * @param enumValues - Enum values to map.
+ * @param valueKeys - Figma enum keys keyed by code value.
  * @returns Multi-line enum mapping.
  */
 function buildEnumMappingLines(
   label: string,
   enumValues: readonly string[],
+  valueKeys: Readonly<Record<string, string>> = {},
 ): string[] {
   const sorted = enumValues.toSorted(compareByLocale);
-  return [`figma.enum('${label}', {`, ...sorted.map(buildEnumEntryLine), "})"];
+  return [
+    `figma.enum(${quoteFigmaName(label)}, {`,
+    ...sorted.map(buildEnumEntryLine.bind(undefined, valueKeys)),
+    "})",
+  ];
 }
 
 /**
@@ -90,7 +119,7 @@ function buildEnumMappingLines(
  * @returns String mapping expression.
  */
 function buildStringMapping(label: string): string {
-  return `figma.string('${label}')`;
+  return `figma.string(${quoteFigmaName(label)})`;
 }
 
 /**
@@ -123,6 +152,18 @@ export interface IFigmaPropMapping {
   readonly warning?: string;
 }
 
+/**
+ * Formats a generated file name from a template.
+ *
+ * @param template - File name template containing `{name}` placeholders.
+ * @param componentName - Base component name substituted for `{name}`.
+ * @returns Generated file name.
+ */
+export const formatCodeConnectFileName = (
+  template: string,
+  componentName: string,
+): string => template.replaceAll(FILE_NAME_TEMPLATE_TOKEN, componentName);
+
 /**
  * Derives the base component name used in emitted file content.
  *
@@ -140,18 +181,37 @@ export const getComponentBaseName = (
   return normalizedBasename(model.componentDir);
 };
 
+/**
+ * Resolves the Figma node URL written into `figma.connect(...)`.
+ *
+ * @param componentName - Base component name used for the placeholder.
+ * @param figmaUrl - Mapped Figma URL, if one was resolved.
+ * @returns Mapped URL or a `<FIGMA_<NAME>_URL>` placeholder.
+ */
+export const resolveFigmaUrl = (
+  componentName: string,
+  figmaUrl?: string,
+): string => figmaUrl ?? `<FIGMA_${componentName.toUpperCase()}_URL>`;
+
 /**
  * Maps a property descriptor to one or more Figma Code Connect expressions.
  *
  * @param prop - Property descriptor to map.
+ * @param propertyMap - Figma mappings resolved for the component.
  * @returns Figma mapping lines and any warning generated during mapping.
  */
 export const mapPropToFigma = (
   prop: Readonly<IPropertyDescriptor>,
+  propertyMap: Readonly<FigmaPropertyMap> = {},
 ): IFigmaPropMapping => {
-  const label = toTitleCase(prop.name);
+  const mapping = normalizeFigmaPropertySetting(
+    getFigmaPropertySetting(propertyMap, prop.name),
+  );
+  const label = mapping.name ?? toTitleCase(prop.name);
   if (hasEnumMapping(prop)) {
-    return { lines: buildEnumMappingLines(label, prop.enumValues) };
+    return {
+      lines: buildEnumMappingLines(label, prop.enumValues, mapping.values),
+    };
   }
 
   const expression = getScalarMappingExpression(prop.type, label);
@@ -159,12 +219,113 @@ export const mapPropToFigma = (
     return { lines: [expression] };
   }
 
+  const warning = `Property '${prop.name}' has unknown type '${prop.type}'. Emitting as figma.string().`;
   return {
     lines: [buildStringMapping(label)],
-    warning: `Property '${prop.name}' has unknown type '${prop.type}'. Emitting as figma.string().`,
+    warning: prop.location
+      ? formatLocatedMessage(warning, prop.location)
+      : warning,
+  };
+};
+
+/**
+ * Removes props marked as missing from Figma, along with their attributes.
+ *
+ * @param model - Component model to filter.
+ * @param propertyMap - Figma mappings resolved for the component.
+ * @returns Model without the props mapped to `{ skip: true }`.
+ */
+export const omitUnmappedFigmaProps = (
+  model: Readonly<IComponentModel>,
+  propertyMap: Readonly<FigmaPropertyMap>,
+): IComponentModel => {
+  if (!Object.values(propertyMap).some(isSkippedFigmaPropertySetting)) {
+    return model;
+  }
+  return {
+    ...model,
+    props: model.props.filter(
+      /**
+       * Keeps props that exist in Figma.
+       *
+       * @param prop - Property descriptor.
+       * @returns True when the prop is not skipped.
+       */
+      (prop) =>
+        !isSkippedFigmaPropertySetting(
+          getFigmaPropertySetting(propertyMap, prop.name),
+        ),
+    ),
+    attributes: model.attributes.filter(
+      /**
+       * Keeps attributes whose property exists in Figma.
+       *
+       * @param attribute - Attribute descriptor.
+       * @returns True when the backing prop is not skipped.
+       */
+      (attribute) =>
+        !isSkippedFigmaPropertySetting(
+          getFigmaPropertySetting(propertyMap, attribute.propertyName),
+        ),
+    ),
   };
 };
 
+/**
+ * Resolves the Figma property mappings for a component.
+ *
+ * Entries keyed by the component's tag name, then class name, win over the
+ * global `props` entries.
+ *
+ * @param model - Component model to resolve.
+ * @param settings - Configured Figma property settings.
+ * @returns Figma mappings keyed by code property name.
+ */
+export const resolveFigmaPropertyMap = (
+  model: Readonly<IComponentModel>,
+  settings?: Readonly<IFigmaPropertySettings>,
+): FigmaPropertyMap => ({
+  ...settings?.props,
+  ...(settings?.components?.[model.tagName] ??
+    settings?.components?.[model.className]),
+});
+
+/**
+ * Maps a slot descriptor to its Figma Code Connect expression.
+ *
+ * @param slot - Slot descriptor to map.
+ * @returns `figma.children(...)`, `figma.instance(...)`, or `figma.textContent(...)` expression.
+ */
+export const mapSlotToFigma = (slot: Readonly<ISlotDescriptor>): string => {
+  const label = toTitleCase(slot.name) || DEFAULT_SLOT_LABEL;
+  return `${SLOT_FIGMA_HELPERS[slot.mapping]}('${label}')`;
+};
+
+/**
+ * Normalizes a configured prop setting to mapping settings.
+ *
+ * @param setting - Configured setting, if any.
+ * @returns Mapping settings; empty when the prop uses the defaults.
+ */
+function normalizeFigmaPropertySetting(
+  setting?: Readonly<FigmaPropertySetting>,
+): IFigmaPropertyMapping {
+  if (typeof setting === "string") {
+    return { name: setting };
+  }
+  return setting ?? {};
+}
+
+/**
+ * Quotes a Figma property name or enum key as a single-quoted string literal.
+ *
+ * @param name - Figma name to quote.
+ * @returns Single-quoted, escaped string literal.
+ */
+function quoteFigmaName(name: string): string {
+  return `'${name.replaceAll("\\", "\\\\").replaceAll("'", "\\'")}'`;
+}
+
 /**
  * Returns a new array sorted by each item's `name` property.
  *
@@ -175,6 +336,22 @@ export const sortByName = <T extends { name: string }>(
   items: readonly T[],
 ): T[] => items.toSorted(compareByName);
 
+/**
+ * Returns the configured setting for a prop, ignoring inherited object keys.
+ *
+ * @param propertyMap - Figma mappings resolved for the component.
+ * @param propName - Code property name.
+ * @returns Configured setting, or undefined when the prop is not listed.
+ */
+function getFigmaPropertySetting(
+  propertyMap: Readonly<FigmaPropertyMap>,
+  propName: string,
+): FigmaPropertySetting | undefined {
+  return Object.hasOwn(propertyMap, propName)
+    ? propertyMap[propName]
+    : undefined;
+}
+
 /**
  * Returns the scalar mapping expression for a supported Figma property type.
  *
@@ -218,3 +395,15 @@ function isScalarPropertyType(
 ): propType is FigmaScalarPropertyType {
   return Object.hasOwn(SCALAR_FIGMA_MAPPERS, propType);
 }
+
+/**
+ * Returns true when a configured prop setting marks the prop as missing from Figma.
+ *
+ * @param setting - Configured setting, if any.
+ * @returns True when the setting is an object with `skip: true`.
+ */
+function isSkippedFigmaPropertySetting(
+  setting?: Readonly<FigmaPropertySetting>,
+): boolean {
+  return typeof setting === "object" && setting.skip === true;
+}
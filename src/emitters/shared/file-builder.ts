@@ -141,6 +141,30 @@ export const createFilePayload = (
   warnings: [],
 });
 
+/**
+ * Adds an events section and matching metadata to a payload draft.
+ *
+ * The section records that it follows the props section so it can be inserted
+ * into connect files generated before events were emitted.
+ *
+ * @param input - Events section content and metadata.
+ * @returns Builder that appends the events block.
+ */
+export const withEvents = (
+  input: Readonly<ISectionBuilderInput>,
+): FilePayloadBuilder => {
+  const {
+    content,
+    markers,
+    name = GeneratedSectionName.Events,
+    depth = 1,
+  } = input;
+  return withSections({
+    lines: wrapGeneratedSection(content, markers, depth),
+    sections: [{ name, content, markers, after: GeneratedSectionName.Props }],
+  });
+};
+
 /**
  * Adds an example section and matching metadata to a payload draft.
  *
@@ -176,6 +200,8 @@ interface ISectionBlock {
 
 export interface ICodeConnectPayloadInput {
   readonly action?: FileChangeStatus;
+  readonly eventsMarkers?: IGeneratedSectionMarkers;
+  readonly eventsSection?: string;
   readonly exampleMarkers: IGeneratedSectionMarkers;
   readonly exampleSection: string;
   readonly filePath: string;
@@ -184,6 +210,8 @@ export interface ICodeConnectPayloadInput {
   readonly importLines: readonly string[];
   readonly propsMarkers: IGeneratedSectionMarkers;
   readonly propsSection: string;
+  readonly stylingMarkers?: IGeneratedSectionMarkers;
+  readonly stylingSection?: string;
   readonly warnings?: readonly string[];
 }
 
@@ -229,6 +257,30 @@ export function withSections(
   return applySectionBlock.bind(undefined, block);
 }
 
+/**
+ * Adds a styling section and matching metadata to a payload draft.
+ *
+ * The section records that it follows the events section so it can be inserted
+ * into connect files generated before the component declared styling hooks.
+ *
+ * @param input - Styling section content and metadata.
+ * @returns Builder that appends the styling block.
+ */
+export const withStyling = (
+  input: Readonly<ISectionBuilderInput>,
+): FilePayloadBuilder => {
+  const {
+    content,
+    markers,
+    name = GeneratedSectionName.Styling,
+    depth = 1,
+  } = input;
+  return withSections({
+    lines: wrapGeneratedSection(content, markers, depth),
+    sections: [{ name, content, markers, after: GeneratedSectionName.Events }],
+  });
+};
+
 /**
  * Adds warnings to a payload draft.
  *
@@ -241,7 +293,8 @@ export const withWarnings = (
 
 /**
  * Builds a standard Code Connect file payload with imports, generated sections,
- * footer content, and warnings.
+ * footer content, and warnings. The events and styling sections are included
+ * when provided.
  *
  * @param input - Precomputed content blocks for a Code Connect file.
  * @returns Emit result with generated content, sections, and warnings.
@@ -251,6 +304,8 @@ export function buildCodeConnectPayload(
 ): IEmitResult {
   const {
     action = FileChangeStatus.Created,
+    eventsMarkers,
+    eventsSection,
     exampleMarkers,
     exampleSection,
     filePath,
@@ -259,6 +314,8 @@ export function buildCodeConnectPayload(
     importLines,
     propsMarkers,
     propsSection,
+    stylingMarkers,
+    stylingSection,
     warnings = [],
   } = input;
 
@@ -272,6 +329,22 @@ export function buildCodeConnectPayload(
       name: GeneratedSectionName.Props,
       depth: 1,
     }),
+    eventsSection !== undefined && eventsMarkers
+      ? withEvents({
+          content: eventsSection,
+          markers: eventsMarkers,
+          name: GeneratedSectionName.Events,
+          depth: 1,
+        })
+      : withSections({ lines: [] }),
+    stylingSection !== undefined && stylingMarkers
+      ? withStyling({
+          content: stylingSection,
+          markers: stylingMarkers,
+          name: GeneratedSectionName.Styling,
+          depth: 1,
+        })
+      : withSections({ lines: [] }),
     withExample({
       content: exampleSection,
       markers: exampleMarkers,
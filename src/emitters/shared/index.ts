@@ -27,4 +27,5 @@ export * from "./figma-mapper";
 export * from "./file-builder";
 export * from "./formatting";
 export * from "./section-builder";
+export * from "./template-emitter";
 export * from "./utils";
@@ -17,22 +17,33 @@
 /**
  * Section Builder Module
  *
- * Builds props, events, and example sections for Figma Code Connect files.
+ * Builds props, events, slots, styling, and example sections for Figma Code Connect files.
  *
  * @module emitters/shared/section-builder
  */
 
 import type {
+  FigmaPropertyMap,
   IAttributeDescriptor,
+  ICssPartDescriptor,
+  ICssPropertyDescriptor,
   IEventDescriptor,
   IPropertyDescriptor,
+  ISlotDescriptor,
 } from "@/src/core/types";
-import { FigmaPropertyType } from "@/src/core/types";
-import { mapPropToFigma, sortByName } from "./figma-mapper";
+import { FigmaPropertyType, SlotMapping } from "@/src/core/types";
+import { toCamelCase, toPascalCase } from "@/src/utils/strings";
+import { mapPropToFigma, mapSlotToFigma, sortByName } from "./figma-mapper";
 import { formatPropAccessor, formatPropKey, indent } from "./formatting";
 
 const INNER_INDENT_LEVEL = 2;
 
+/** Prop key used for the default (unnamed) slot. */
+const DEFAULT_SLOT_PROP_KEY = "children";
+
+/** Suffix applied to slot prop keys that collide with component props. */
+const SLOT_PROP_KEY_SUFFIX = "Slot";
+
 interface IPropsAccumulator {
   readonly lines: readonly string[];
   readonly warnings: readonly string[];
@@ -43,6 +54,14 @@ export interface IPropsSection {
   readonly warnings: readonly string[];
 }
 
+/**
+ * Slot paired with the `props` key its Figma mapping is stored under.
+ */
+export interface ISlotBinding {
+  readonly slot: ISlotDescriptor;
+  readonly propKey: string;
+}
+
 /**
  * Appends a warning when one is present.
  *
@@ -74,6 +93,33 @@ function buildAttributeBinding(
   return `${attribute.name}="\${${bindingExpression}}"`;
 }
 
+/**
+ * Builds a single documented `@csspart` line.
+ *
+ * @param part - CSS part descriptor.
+ * @returns Comment line naming the part and its description.
+ */
+function buildCssPartDocLine(part: Readonly<ICssPartDescriptor>): string {
+  const doc = part.doc ? ` - ${part.doc.replace(/\s+/g, " ")}` : "";
+  return `// @csspart ${part.name}${doc}`;
+}
+
+/**
+ * Builds a single documented `@cssproperty` line.
+ *
+ * @param property - CSS custom property descriptor.
+ * @returns Comment line naming the custom property, its default, and its description.
+ */
+function buildCssPropertyDocLine(
+  property: Readonly<ICssPropertyDescriptor>,
+): string {
+  const defaultValue = property.defaultValue
+    ? ` (default: ${property.defaultValue})`
+    : "";
+  const doc = property.doc ? ` - ${property.doc.replace(/\s+/g, " ")}` : "";
+  return `// @cssproperty ${property.name}${defaultValue}${doc}`;
+}
+
 /**
  * Builds a single event mapping line.
  *
@@ -89,6 +135,86 @@ function buildEventLine(
   return `${indent(depth + 1)}${key}: '${event.reactHandler}',`;
 }
 
+/**
+ * Builds a single documented `@event` line.
+ *
+ * @param event - Event descriptor.
+ * @returns Comment line naming the event and its detail type.
+ */
+function buildEventDocLine(event: Readonly<IEventDescriptor>): string {
+  return `// @event ${event.name}${formatEventDetail(event)}`;
+}
+
+/**
+ * Builds the documented `@event` usage block for HTML Code Connect files.
+ *
+ * @param tagName - Custom element tag or component name dispatching the events.
+ * @param events - Event descriptors to document.
+ * @param listener - Listener syntax shown in the header line.
+ * @returns Comment lines ready to insert above the example.
+ */
+export const buildEventDocsSection = (
+  tagName: string,
+  events: readonly IEventDescriptor[],
+  listener = "addEventListener('<event>', handler)",
+): string[] => {
+  if (events.length === 0) {
+    return [`// <${tagName}> dispatches no custom events.`];
+  }
+
+  const sorted = sortByName(events);
+  return [
+    `// Events dispatched by <${tagName}>; listen with ${listener}.`,
+    ...sorted.map(buildEventDocLine),
+  ];
+};
+
+/**
+ * Builds the documented event block for React Code Connect files.
+ *
+ * React's `figma.connect` config has no `events` property, so each event is
+ * listed as a comment naming the `onX` handler prop used in the example.
+ *
+ * @param componentName - React component name dispatching the events.
+ * @param events - Event descriptors to document.
+ * @returns Comment lines ready to insert above the example.
+ */
+export const buildReactEventDocsSection = (
+  componentName: string,
+  events: readonly IEventDescriptor[],
+): string[] => {
+  if (events.length === 0) {
+    return [`// <${componentName}> dispatches no custom events.`];
+  }
+
+  return [
+    `// Events dispatched by <${componentName}>; handle them with the matching handler props.`,
+    ...sortByName(events).map(buildReactEventDocLine),
+  ];
+};
+
+/**
+ * Builds a single documented React event handler line.
+ *
+ * @param event - Event descriptor.
+ * @returns Comment line naming the event, its handler prop, and its detail type.
+ */
+function buildReactEventDocLine(event: Readonly<IEventDescriptor>): string {
+  return `// @event ${event.name} -> ${event.reactHandler}${formatEventDetail(event)}`;
+}
+
+/**
+ * Formats the detail type suffix of a documented event line.
+ *
+ * @param event - Event descriptor.
+ * @returns ` (detail: <type>)`, or an empty string when the event has no detail type.
+ */
+function formatEventDetail(event: Readonly<IEventDescriptor>): string {
+  return event.detailType
+    ? ` (detail: ${event.detailType.replace(/\s+/g, " ")})`
+    : "";
+}
+
 /**
  * Builds the `events` section for a Figma Code Connect payload.
  *
@@ -110,6 +236,33 @@ export const buildEventsSection = (
   return [`${indent(depth)}events: {`, ...eventLines, `${indent(depth)}},`];
 };
 
+/**
+ * Builds the documented styling hooks block for Code Connect files.
+ *
+ * Token-driven custom properties are listed so they can be linked to the
+ * matching Figma variables.
+ *
+ * @param tagName - Custom element tag name exposing the styling hooks.
+ * @param cssProperties - CSS custom properties to document.
+ * @param cssParts - CSS shadow parts to document.
+ * @returns Comment lines, or an empty list when the component has no styling hooks.
+ */
+export const buildStylingDocsSection = (
+  tagName: string,
+  cssProperties: readonly ICssPropertyDescriptor[],
+  cssParts: readonly ICssPartDescriptor[],
+): string[] => {
+  if (cssProperties.length === 0 && cssParts.length === 0) {
+    return [];
+  }
+
+  return [
+    `// Styling hooks exposed by <${tagName}>; link custom properties to the matching Figma variables.`,
+    ...sortByName(cssProperties).map(buildCssPropertyDocLine),
+    ...sortByName(cssParts).map(buildCssPartDocLine),
+  ];
+};
+
 export interface IExampleTemplate {
   readonly example: string;
   readonly usesProps: boolean;
@@ -120,13 +273,15 @@ export interface IExampleTemplate {
  *
  * @param tagName - Custom element tag name to render.
  * @param attributes - Attributes to bind from `props`.
+ * @param slots - Slot bindings rendered as element content.
  * @returns Example template string plus whether it references props.
  */
 export const buildExampleTemplate = (
   tagName: string,
   attributes: readonly IAttributeDescriptor[],
+  slots: readonly ISlotBinding[] = [],
 ): IExampleTemplate => {
-  if (attributes.length === 0) {
+  if (attributes.length === 0 && slots.length === 0) {
     return {
       example: `() => html\`<${tagName}></${tagName}>\``,
       usesProps: false,
@@ -135,8 +290,13 @@ export const buildExampleTemplate = (
 
   const sorted = sortByName(attributes);
   const bindings = sorted.map(buildAttributeBinding).map(formatBindingLine);
-
-  const lines = [`<${tagName}`, ...bindings, `></${tagName}>`];
+  const content = slots.map(buildHtmlSlotContent).map(formatBindingLine);
+  const openTag =
+    bindings.length > 0 ? [`<${tagName}`, ...bindings, ">"] : [`<${tagName}>`];
+  const lines =
+    content.length > 0
+      ? [...openTag, ...content, `</${tagName}>`]
+      : [`<${tagName}`, ...bindings, `></${tagName}>`];
   return {
     example: `props => html\`${lines.join("\n")}\``,
     usesProps: true,
@@ -148,13 +308,17 @@ export const buildExampleTemplate = (
  *
  * @param props - Property descriptors to serialize.
  * @param depth - Base indentation depth.
+ * @param slots - Slot bindings appended after the properties.
+ * @param propertyMap - Figma property names and enum keys for the component.
  * @returns Section lines plus any mapping warnings.
  */
 export const buildPropsSection = (
   props: readonly IPropertyDescriptor[],
   depth = 1,
+  slots: readonly ISlotBinding[] = [],
+  propertyMap: Readonly<FigmaPropertyMap> = {},
 ): IPropsSection => {
-  if (props.length === 0) {
+  if (props.length === 0 && slots.length === 0) {
     return createEmptyPropsSection(depth);
   }
 
@@ -165,12 +329,15 @@ export const buildPropsSection = (
   };
 
   const aggregated = sorted.reduce(
-    reducePropsAccumulator.bind(undefined, depth),
+    reducePropsAccumulator.bind(undefined, depth, propertyMap),
     initial,
   );
 
   return {
-    lines: aggregated.lines.concat(`${indent(depth)}},`),
+    lines: aggregated.lines.concat(
+      slots.map(buildSlotMappingLine.bind(undefined, depth)),
+      `${indent(depth)}},`,
+    ),
     warnings: aggregated.warnings,
   };
 };
@@ -178,15 +345,345 @@ export const buildPropsSection = (
 /**
  * Builds the React example block used by `figma.connect(...)`.
  *
+ * Each mapped prop becomes an explicit camelCase JSX attribute bound to
+ * `props`, and each event becomes a no-op `onX` handler. Code Connect renders
+ * boolean props bound this way as shorthand attributes in Dev Mode.
+ *
  * @param className - React component class or function name to render.
+ * @param props - Mapped properties to bind from `props`.
+ * @param events - Events to render as handler props.
+ * @param slots - Slot bindings rendered as element children.
+ * @returns Multi-line example section string.
+ */
+export const buildReactExampleSection = (
+  className: string,
+  props: readonly IPropertyDescriptor[] = [],
+  events: readonly IEventDescriptor[] = [],
+  slots: readonly ISlotBinding[] = [],
+): string => {
+  const attributes = [
+    ...sortByName(props).map(buildReactPropAttribute),
+    ...sortByName(events).map(buildReactHandlerAttribute),
+  ];
+  if (attributes.length === 0 && slots.length === 0) {
+    return `example: () => <${className} />,`;
+  }
+
+  const usesProps = props.length > 0 || slots.length > 0 ? "props" : "()";
+  const attributeLines = attributes.map(formatJsxAttributeLine);
+  const content = slots.map(buildReactSlotContent).map(formatJsxChildLine);
+  const element =
+    content.length === 0
+      ? [`${indent(1)}<${className}`, ...attributeLines, `${indent(1)}/>`]
+      : [
+          ...(attributeLines.length > 0
+            ? [`${indent(1)}<${className}`, ...attributeLines, `${indent(1)}>`]
+            : [`${indent(1)}<${className}>`]),
+          ...content,
+          `${indent(1)}</${className}>`,
+        ];
+  return [`example: ${usesProps} => (`, ...element, "),"].join("\n");
+};
+
+/**
+ * Pairs slots with the `props` keys their Figma mappings are stored under.
+ *
+ * The default slot maps to `children`; named slots use their camelCase name,
+ * suffixed with `Slot` when it collides with a component prop.
+ *
+ * @param props - Component properties whose keys must not be reused.
+ * @param slots - Slots to bind.
+ * @returns Slot bindings with the default slot first, then by name.
+ */
+export const buildSlotBindings = (
+  props: readonly IPropertyDescriptor[],
+  slots: readonly ISlotDescriptor[],
+): ISlotBinding[] => {
+  const propNames = new Set(props.map(getPropertyName));
+  return sortByName(slots).map(
+    /**
+     * Binds a slot to a non-colliding prop key.
+     *
+     * @param slot - Slot descriptor.
+     * @returns Slot binding.
+     */
+    (slot) => {
+      const key = slot.name ? toCamelCase(slot.name) : DEFAULT_SLOT_PROP_KEY;
+      return {
+        slot,
+        propKey: propNames.has(key) ? `${key}${SLOT_PROP_KEY_SUFFIX}` : key,
+      };
+    },
+  );
+};
+
+/**
+ * Builds the Angular example block used by `figma.connect(...)`.
+ *
+ * Mapped props become `[prop]` input bindings (string values are quoted so
+ * Angular reads them as literals), events become `(event)` output bindings
+ * calling an `onEvent($event)` handler, and slots are projected as element
+ * content, wrapped in a `slot`-attributed element for named slots.
+ *
+ * @param tagName - Element selector of the Angular wrapper component.
+ * @param props - Mapped properties to bind from `props`.
+ * @param events - Events to render as output bindings.
+ * @param slots - Slot bindings projected as element content.
+ * @returns Multi-line example section string.
+ */
+export const buildAngularExampleSection = (
+  tagName: string,
+  props: readonly IPropertyDescriptor[] = [],
+  events: readonly IEventDescriptor[] = [],
+  slots: readonly ISlotBinding[] = [],
+): string =>
+  buildTemplateExampleSection(
+    tagName,
+    [
+      ...sortByName(props).map(buildAngularInputBinding),
+      ...sortByName(events).map(buildAngularOutputBinding),
+    ],
+    slots.map(buildHtmlSlotContent),
+    props.length > 0 || slots.length > 0,
+  );
+
+/**
+ * Builds the Vue example block used by `figma.connect(...)`.
+ *
+ * Mapped props become `:prop` bindings (string values are quoted so Vue reads
+ * them as literals), events become no-op `@event` listeners, the default slot
+ * renders as element content and named slots render through `v-slot`.
+ *
+ * @param className - Vue wrapper component name to render.
+ * @param props - Mapped properties to bind from `props`.
+ * @param events - Events to render as listeners.
+ * @param slots - Slot bindings rendered as element content.
+ * @returns Multi-line example section string.
+ */
+export const buildVueExampleSection = (
+  className: string,
+  props: readonly IPropertyDescriptor[] = [],
+  events: readonly IEventDescriptor[] = [],
+  slots: readonly ISlotBinding[] = [],
+): string =>
+  buildTemplateExampleSection(
+    className,
+    [
+      ...sortByName(props).map(buildVuePropBinding),
+      ...sortByName(events).map(buildVueListener),
+    ],
+    slots.map(buildVueSlotContent),
+    props.length > 0 || slots.length > 0,
+  );
+
+/**
+ * Builds the HTML example content for a slot binding.
+ *
+ * @param binding - Slot binding.
+ * @returns Interpolated slot content, wrapped in a slotted element for named slots.
+ */
+function buildHtmlSlotContent(binding: Readonly<ISlotBinding>): string {
+  const value = `\${${formatPropAccessor(binding.propKey)}}`;
+  return wrapSlotContent(binding.slot, value);
+}
+
+/**
+ * Builds the React example child for a slot binding.
+ *
+ * @param binding - Slot binding.
+ * @returns JSX child expression, wrapped in a slotted element for named slots.
+ */
+function buildReactSlotContent(binding: Readonly<ISlotBinding>): string {
+  const value = `{${formatPropAccessor(binding.propKey)}}`;
+  return wrapSlotContent(binding.slot, value);
+}
+
+/**
+ * Builds a no-op JSX handler attribute for an event.
+ *
+ * @param event - Event descriptor.
+ * @returns JSX handler attribute.
+ */
+function buildReactHandlerAttribute(event: Readonly<IEventDescriptor>): string {
+  return `${event.reactHandler}={() => {}}`;
+}
+
+/**
+ * Builds a JSX attribute bound to a mapped prop.
+ *
+ * @param prop - Property descriptor.
+ * @returns camelCase JSX attribute reading from `props`.
+ */
+function buildReactPropAttribute(prop: Readonly<IPropertyDescriptor>): string {
+  return `${toCamelCase(prop.name)}={${formatPropAccessor(prop.name)}}`;
+}
+
+/**
+ * Builds an Angular `[prop]` input binding for a mapped prop.
+ *
+ * @param prop - Property descriptor.
+ * @returns camelCase input binding reading from `props`.
+ */
+function buildAngularInputBinding(prop: Readonly<IPropertyDescriptor>): string {
+  return `[${toCamelCase(prop.name)}]="${formatTemplateExpression(prop)}"`;
+}
+
+/**
+ * Builds an Angular `(event)` output binding for an event.
+ *
+ * @param event - Event descriptor.
+ * @returns Output binding calling an `onEvent($event)` handler.
+ */
+function buildAngularOutputBinding(event: Readonly<IEventDescriptor>): string {
+  return `(${event.name})="on${toPascalCase(event.name)}($event)"`;
+}
+
+/**
+ * Builds an HTML-template example block for a framework component.
+ *
+ * @param className - Component name or element selector to render.
+ * @param attributes - Template attributes placed on the opening tag.
+ * @param content - Element content lines.
+ * @param usesProps - Whether the example reads from `props`.
  * @returns Multi-line example section string.
  */
-export const buildReactExampleSection = (className: string): string =>
-  [
-    "example: props => {",
-    `${indent(1)}return <${className} {...props} />;`,
-    "},",
-  ].join("\n");
+function buildTemplateExampleSection(
+  className: string,
+  attributes: readonly string[],
+  content: readonly string[],
+  usesProps: boolean,
+): string {
+  if (attributes.length === 0 && content.length === 0) {
+    return `example: () => html\`<${className}></${className}>\`,`;
+  }
+
+  const bindings = attributes.map(formatBindingLine);
+  const children = content.map(formatBindingLine);
+  const openTag =
+    bindings.length > 0
+      ? [`<${className}`, ...bindings, ">"]
+      : [`<${className}>`];
+  const lines =
+    children.length > 0
+      ? [...openTag, ...children, `</${className}>`]
+      : [`<${className}`, ...bindings, `></${className}>`];
+  const parameter = usesProps ? "props" : "()";
+  return `example: ${parameter} => html\`${lines.join("\n")}\`,`;
+}
+
+/**
+ * Builds a single slot mapping line for the props section.
+ *
+ * @param depth - Base indentation depth.
+ * @param binding - Slot binding.
+ * @returns Formatted slot mapping line.
+ */
+function buildSlotMappingLine(
+  depth: number,
+  binding: Readonly<ISlotBinding>,
+): string {
+  const key = formatPropKey(binding.propKey);
+  return `${indent(depth + 1)}${key}: ${mapSlotToFigma(binding.slot)},`;
+}
+
+/**
+ * Builds a no-op Vue listener for an event.
+ *
+ * @param event - Event descriptor.
+ * @returns `@event` listener attribute.
+ */
+function buildVueListener(event: Readonly<IEventDescriptor>): string {
+  return `@${event.name}="() => {}"`;
+}
+
+/**
+ * Builds a Vue `:prop` binding for a mapped prop.
+ *
+ * @param prop - Property descriptor.
+ * @returns camelCase binding reading from `props`.
+ */
+function buildVuePropBinding(prop: Readonly<IPropertyDescriptor>): string {
+  return `:${toCamelCase(prop.name)}="${formatTemplateExpression(prop)}"`;
+}
+
+/**
+ * Builds the Vue example content for a slot binding.
+ *
+ * @param binding - Slot binding.
+ * @returns Interpolated default-slot content, or a `v-slot` template for named slots.
+ */
+function buildVueSlotContent(binding: Readonly<ISlotBinding>): string {
+  const value = `\${${formatPropAccessor(binding.propKey)}}`;
+  return binding.slot.name
+    ? `<template v-slot:${binding.slot.name}>${value}</template>`
+    : value;
+}
+
+/**
+ * Formats a prop read as a framework template expression.
+ *
+ * @param prop - Property descriptor.
+ * @returns Interpolated value; string values are wrapped in a quoted literal.
+ */
+function formatTemplateExpression(prop: Readonly<IPropertyDescriptor>): string {
+  const value = `\${${formatPropAccessor(prop.name)}}`;
+  return isLiteralPropType(prop.type) ? value : `'${value}'`;
+}
+
+/**
+ * Formats a JSX child line inside the example element.
+ *
+ * @param child - JSX child text.
+ * @returns Indented child line.
+ */
+function formatJsxChildLine(child: string): string {
+  return `${indent(2)}${child}`;
+}
+
+/**
+ * Returns a property descriptor's name.
+ *
+ * @param prop - Property descriptor.
+ * @returns Property name.
+ */
+function getPropertyName(prop: Readonly<IPropertyDescriptor>): string {
+  return prop.name;
+}
+
+/**
+ * Returns true when a prop value can be written into a template expression as-is.
+ *
+ * @param type - Normalized property type.
+ * @returns True for boolean and number props.
+ */
+function isLiteralPropType(type: FigmaPropertyType): boolean {
+  return type === FigmaPropertyType.Boolean || type === FigmaPropertyType.Number;
+}
+
+/**
+ * Wraps slot content in a slotted element when the slot is named.
+ *
+ * @param slot - Slot descriptor.
+ * @param value - Interpolated slot content.
+ * @returns Default-slot content as-is, or a `slot`-attributed wrapper element.
+ */
+function wrapSlotContent(slot: Readonly<ISlotDescriptor>, value: string): string {
+  if (!slot.name) {
+    return value;
+  }
+  const element = slot.mapping === SlotMapping.Children ? "div" : "span";
+  return `<${element} slot="${slot.name}">${value}</${element}>`;
+}
+
+/**
+ * Formats a JSX attribute line inside the example element.
+ *
+ * @param attribute - JSX attribute text.
+ * @returns Indented attribute line.
+ */
+function formatJsxAttributeLine(attribute: string): string {
+  return `${indent(2)}${attribute}`;
+}
 
 /**
  * Formats a binding line with one level of indentation.
@@ -213,16 +710,18 @@ function formatInnerEnumLine(depth: number, innerLine: string): string {
  * Builds one props-accumulator step for a property descriptor.
  *
  * @param depth - Base indentation depth.
+ * @param propertyMap - Figma mappings resolved for the component.
  * @param accumulator - Current accumulator.
  * @param prop - Property descriptor to map.
  * @returns Updated accumulator.
  */
 function reducePropsAccumulator(
   depth: number,
+  propertyMap: Readonly<FigmaPropertyMap>,
   accumulator: Readonly<IPropsAccumulator>,
   prop: Readonly<IPropertyDescriptor>,
 ): IPropsAccumulator {
-  const figmaMapping = mapPropToFigma(prop);
+  const figmaMapping = mapPropToFigma(prop, propertyMap);
   const propKey = formatPropKey(prop.name);
   const warnings = appendWarning(accumulator.warnings, figmaMapping.warning);
 
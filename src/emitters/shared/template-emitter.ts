@@ -0,0 +1,207 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Framework Template Emitter Module
+ *
+ * Builds HTML Code Connect files for framework wrappers (Vue, Angular) whose
+ * examples are written in the framework's template syntax. The props mapping
+ * is shared with the other emitters so Figma properties stay identical.
+ *
+ * @module emitters/shared/template-emitter
+ */
+
+import path from "node:path";
+
+import {
+  buildGeneratedSectionMarkers,
+  FIGMA_PACKAGE_HTML,
+} from "@/src/core/constants";
+import {
+  type IComponentModel,
+  type IEmitResult,
+  type IEmitterOptions,
+  type IEventDescriptor,
+  type IPropertyDescriptor,
+  FileChangeStatus,
+  GeneratedSectionName,
+} from "@/src/core/types";
+import type { IEmitterContext } from "@/src/emitters/types";
+import {
+  buildCodeConnectFilePath,
+  resolveDistImportPath,
+} from "@/src/utils/paths";
+
+import {
+  formatCodeConnectFileName,
+  getComponentBaseName,
+  omitUnmappedFigmaProps,
+  resolveFigmaPropertyMap,
+  resolveFigmaUrl,
+} from "./figma-mapper";
+import { buildCodeConnectPayload } from "./file-builder";
+import { indent } from "./formatting";
+import {
+  type ISlotBinding,
+  buildEventDocsSection,
+  buildPropsSection,
+  buildSlotBindings,
+  buildStylingDocsSection,
+} from "./section-builder";
+
+/**
+ * Framework-specific settings for a template Code Connect emitter.
+ */
+export interface ITemplateEmitterConfig {
+  /** Package entry point below `dist` that exports the wrappers, such as `vue`. */
+  readonly entryName: string;
+  /** Default generated file name template. */
+  readonly fileNameTemplate: string;
+  /** Listener syntax shown in the generated events section. */
+  readonly listenerSyntax: string;
+  /**
+   * Whether templates render the wrapper by its custom element tag name
+   * (Angular selectors) instead of its class name.
+   */
+  readonly rendersTagName?: boolean;
+  /**
+   * Builds the example section in the framework's template syntax.
+   *
+   * @param elementName - Wrapper component name or element selector to render.
+   * @param props - Mapped properties to bind from `props`.
+   * @param events - Events to listen to.
+   * @param slots - Slot bindings rendered as element content.
+   * @returns Example section string.
+   */
+  readonly buildExample: (
+    elementName: string,
+    props: readonly IPropertyDescriptor[],
+    events: readonly IEventDescriptor[],
+    slots: readonly ISlotBinding[],
+  ) => string;
+}
+
+/**
+ * Emits an HTML Code Connect file whose example uses a framework template syntax.
+ *
+ * @param emitterContext - Context containing model and emitter options.
+ * @param config - Framework-specific file name, import entry and example builder.
+ * @returns Emit result containing file content and metadata.
+ */
+export function emitTemplateCodeConnect(
+  emitterContext: Readonly<IEmitterContext>,
+  config: Readonly<ITemplateEmitterConfig>,
+): IEmitResult {
+  const { options } = emitterContext;
+  const propertyMap = resolveFigmaPropertyMap(
+    emitterContext.model,
+    options.figmaProperties,
+  );
+  const model = omitUnmappedFigmaProps(emitterContext.model, propertyMap);
+  const componentName = getComponentBaseName(model);
+  const elementName = config.rendersTagName ? model.tagName : model.className;
+  const filePath = buildCodeConnectFilePath(
+    model.componentDir,
+    formatCodeConnectFileName(
+      options.fileName ?? config.fileNameTemplate,
+      componentName,
+    ),
+    options.output,
+  );
+  const slots = buildSlotBindings(model.props, model.slots);
+  const props = buildPropsSection(model.props, 0, slots, propertyMap);
+  const styling = buildStylingDocsSection(
+    model.tagName,
+    model.cssProperties,
+    model.cssParts,
+  );
+  const importPath = resolveTemplateImportPath(
+    model,
+    filePath,
+    options,
+    config.entryName,
+  );
+  return buildCodeConnectPayload({
+    action: FileChangeStatus.Created,
+    eventsMarkers: buildGeneratedSectionMarkers(GeneratedSectionName.Events),
+    eventsSection: buildEventDocsSection(
+      elementName,
+      model.events,
+      config.listenerSyntax,
+    ).join("\n"),
+    exampleMarkers: buildGeneratedSectionMarkers(GeneratedSectionName.Example),
+    exampleSection: config.buildExample(
+      elementName,
+      model.props,
+      model.events,
+      slots,
+    ),
+    filePath,
+    footerLines: [
+      `${indent(1)}imports: ["import { ${model.className} } from '${importPath}';"],`,
+      "});",
+      "",
+    ],
+    headerLines: [
+      `figma.connect('${resolveFigmaUrl(componentName, options.figmaUrl)}', {`,
+    ],
+    importLines: [
+      "// @ts-ignore",
+      `import figma, { html } from '${FIGMA_PACKAGE_HTML}';`,
+      "",
+    ],
+    propsMarkers: buildGeneratedSectionMarkers(GeneratedSectionName.Props),
+    propsSection: props.lines.join("\n"),
+    stylingMarkers: buildGeneratedSectionMarkers(GeneratedSectionName.Styling),
+    stylingSection: styling.length > 0 ? styling.join("\n") : undefined,
+    warnings: props.warnings,
+  });
+}
+
+/**
+ * Resolves the wrapper import path for a template Code Connect file.
+ *
+ * A selected import resolver wins; otherwise the base import path or the
+ * `<root>/dist/<entry>` heuristic is used.
+ *
+ * @param model - Component model being emitted.
+ * @param filePath - Generated file path the import is relative to.
+ * @param options - Emitter options with the base import path and resolver.
+ * @param entryName - Package entry point that exports the wrappers.
+ * @returns Import path string for the wrapper component.
+ */
+function resolveTemplateImportPath(
+  model: Readonly<IComponentModel>,
+  filePath: string,
+  options: Readonly<IEmitterOptions>,
+  entryName: string,
+): string {
+  const resolved = options.importResolver?.resolveEntryImport(
+    model,
+    entryName,
+  );
+  if (resolved) {
+    return resolved;
+  }
+  if (options.baseImportPath) {
+    return `${options.baseImportPath}/dist/${entryName}`;
+  }
+  return resolveDistImportPath(
+    model.componentDir,
+    entryName,
+    path.posix.dirname(filePath),
+  );
+}
@@ -26,10 +26,12 @@ export {
   buildCodeConnectPayload,
   buildFilePayload,
   createFilePayload,
+  withEvents,
   withExample,
   withImports,
   withProps,
   withSections,
+  withStyling,
   withWarnings,
   wrapGeneratedSection,
   type ICodeConnectPayloadInput,
@@ -37,8 +39,13 @@ export {
   type IFilePayloadDraft,
 } from "./file-builder";
 export {
+  formatCodeConnectFileName,
   getComponentBaseName,
   mapPropToFigma,
+  mapSlotToFigma,
+  omitUnmappedFigmaProps,
+  resolveFigmaPropertyMap,
+  resolveFigmaUrl,
   sortByName,
   type IFigmaPropMapping,
 } from "./figma-mapper";
@@ -51,10 +58,21 @@ export {
   toTitleCase,
 } from "./formatting";
 export {
+  buildAngularExampleSection,
+  buildEventDocsSection,
   buildEventsSection,
   buildExampleTemplate,
   buildPropsSection,
+  buildReactEventDocsSection,
   buildReactExampleSection,
+  buildSlotBindings,
+  buildStylingDocsSection,
+  buildVueExampleSection,
   type IExampleTemplate,
   type IPropsSection,
+  type ISlotBinding,
 } from "./section-builder";
+export {
+  emitTemplateCodeConnect,
+  type ITemplateEmitterConfig,
+} from "./template-emitter";
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import type { IComponentModel, IEmitResult, IEmitterOptions, EmitterTarget } from '@/src/core/types';
+import type { EmitTarget, IComponentModel, IEmitResult, IEmitterOptions } from '@/src/core/types';
 
 /**
  * Context for emitter operations, containing model and emitter options.
@@ -25,14 +25,31 @@ export interface IEmitterContext {
 }
 
 /**
- * Emitters transform a component model into a file payload.
+ * Context for aggregate emitter operations, containing every model in the batch.
+ */
+export interface IAggregateEmitterContext {
+  readonly models: readonly IComponentModel[];
+  readonly options: IEmitterOptions;
+  /** Directory that receives project-level output. */
+  readonly outputDir: string;
+}
+
+/**
+ * Emitters transform component models into file payloads.
+ *
+ * Per-component emitters implement `emit`, which runs once per component.
+ * Aggregate emitters implement `emitAggregate`, which runs once after the
+ * batch with every parsed model and contributes a single combined file.
  */
 export interface IEmitter {
-  readonly target: EmitterTarget;
-  emit(emitterContext: IEmitterContext): IEmitResult;
+  readonly target: EmitTarget;
+  emit?(emitterContext: IEmitterContext): IEmitResult;
+  emitAggregate?(aggregateContext: IAggregateEmitterContext): IEmitResult;
 }
 
 /**
  * IResult type for emitter operations.
  */
 export type EmitterResult = IEmitResult;
+
+export type AggregateEmitterContext = IAggregateEmitterContext;
@@ -26,6 +26,7 @@ export {
   validatePathOption,
 } from "./cli";
 export * from "./commands";
+export * from "./config";
 export * from "./core";
 export * from "./emitters";
 export * from "./io";
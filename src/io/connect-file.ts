@@ -0,0 +1,421 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Connect File Module
+ *
+ * Reads and rewrites the hand-editable parts of a Code Connect file: the
+ * Figma URL passed to `figma.connect(...)` and any options outside the
+ * generated sections.
+ *
+ * @module io/connect-file
+ */
+
+import ts from "typescript";
+
+import { GENERATED_SECTION_MARKERS } from "@/src/core/constants";
+
+import type { IConnectFileOption, IConnectFileState } from "./types";
+
+/** Indentation used for top-level `figma.connect` options. */
+const OPTION_INDENT = "  ";
+
+/** Matches the `<FIGMA_<NAME>_URL>` placeholders written by emitters. */
+const FIGMA_URL_PLACEHOLDER_PATTERN = /^<FIGMA_[A-Z0-9_]+_URL>$/;
+
+interface IConnectCall {
+  readonly sourceFile: ts.SourceFile;
+  readonly url?: ts.StringLiteral | ts.NoSubstitutionTemplateLiteral;
+  readonly details?: ts.ObjectLiteralExpression;
+}
+
+interface ITextEdit {
+  readonly start: number;
+  readonly end: number;
+  readonly text: string;
+}
+
+/**
+ * Applies text edits to content, processing them from last to first.
+ *
+ * @param content - Original content.
+ * @param edits - Non-overlapping edits against the original content.
+ * @returns Content with all edits applied.
+ */
+function applyTextEdits(content: string, edits: readonly ITextEdit[]): string {
+  return [...edits]
+    .sort(
+      /**
+       * Orders edits by descending start offset.
+       *
+       * @param left - First edit.
+       * @param right - Second edit.
+       * @returns Sort order placing later edits first.
+       */
+      (left, right) => right.start - left.start,
+    )
+    .reduce(
+      /**
+       * Applies a single edit.
+       *
+       * @param text - Content accumulated so far.
+       * @param edit - Edit to apply.
+       * @returns Content with the edit applied.
+       */
+      (text, edit) => `${text.slice(0, edit.start)}${edit.text}${text.slice(edit.end)}`,
+      content,
+    );
+}
+
+/**
+ * Builds the edit inserting preserved options before the closing brace.
+ *
+ * @param call - Parsed connect call in the emitted content.
+ * @param options - Preserved options not already present in the emitted content.
+ * @returns Insert edit, or undefined when nothing needs inserting.
+ */
+function buildOptionsEdit(
+  call: Readonly<IConnectCall>,
+  options: readonly IConnectFileOption[],
+): ITextEdit | undefined {
+  if (!call.details || options.length === 0) {
+    return undefined;
+  }
+  const emittedNames = new Set(getOptionNames(call.details));
+  const missing = options.filter(
+    /**
+     * Keeps preserved options the emitter did not produce.
+     *
+     * @param option - Preserved option candidate.
+     * @returns True when the option is absent from the emitted content.
+     */
+    (option) => !emittedNames.has(option.name),
+  );
+  if (missing.length === 0) {
+    return undefined;
+  }
+
+  const text = call.sourceFile.text;
+  const closingBrace = call.details.getEnd() - 1;
+  const lineStart = text.lastIndexOf("\n", closingBrace) + 1;
+  const insertAt = text.slice(lineStart, closingBrace).trim() ? closingBrace : lineStart;
+  return {
+    start: insertAt,
+    end: insertAt,
+    text: missing.map(formatOptionLine).join(""),
+  };
+}
+
+/**
+ * Builds the edit replacing the Figma URL literal.
+ *
+ * @param call - Parsed connect call in the target content.
+ * @param url - URL to write.
+ * @returns Replace edit, or undefined when the content has no URL literal.
+ */
+function buildUrlEdit(
+  call: Readonly<IConnectCall>,
+  url: string | undefined,
+): ITextEdit | undefined {
+  if (!call.url || url === undefined) {
+    return undefined;
+  }
+  return {
+    start: call.url.getStart(call.sourceFile),
+    end: call.url.getEnd(),
+    text: `'${url.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`,
+  };
+}
+
+/**
+ * Extracts the Figma URL and non-generated options from a connect file.
+ *
+ * @param content - Existing connect file content.
+ * @param filePath - Connect file path (selects TS or TSX parsing).
+ * @returns Extracted state, or null when no `figma.connect(...)` call is found.
+ */
+export function extractConnectFileState(
+  content: string,
+  filePath: string,
+): IConnectFileState | null {
+  const call = findConnectCall(content, filePath);
+  if (!call) {
+    return null;
+  }
+
+  return {
+    url: call.url?.text,
+    options: call.details
+      ? call.details.properties.flatMap(
+          toConnectFileOption.bind(undefined, call.sourceFile),
+        )
+      : [],
+  };
+}
+
+/**
+ * Finds the first `figma.connect(...)` call in file content.
+ *
+ * @param content - File content to parse.
+ * @param filePath - File path used to select the script kind.
+ * @returns Parsed connect call, or null when none is found.
+ */
+function findConnectCall(content: string, filePath: string): IConnectCall | null {
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+  );
+  let found: ts.CallExpression | undefined;
+
+  /**
+   * Visits nodes until the connect call is found.
+   *
+   * @param node - AST node to inspect.
+   * @returns Nothing.
+   */
+  const visit = (node: Readonly<ts.Node>): void => {
+    if (found) {
+      return;
+    }
+    if (ts.isCallExpression(node) && isConnectCallee(node.expression)) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(sourceFile, visit);
+
+  if (!found) {
+    return null;
+  }
+  return {
+    sourceFile,
+    url: found.arguments.find(isUrlLiteral),
+    details: found.arguments.find(ts.isObjectLiteralExpression),
+  };
+}
+
+/**
+ * Formats a preserved option as lines ready for insertion.
+ *
+ * @param option - Preserved option.
+ * @returns Option text with a trailing comma and newline.
+ */
+function formatOptionLine(option: Readonly<IConnectFileOption>): string {
+  return `${option.text},\n`;
+}
+
+/**
+ * Returns leading comment lines for a property, excluding generated markers.
+ *
+ * @param sourceFile - Source file containing the property.
+ * @param property - Object literal property.
+ * @returns Trimmed comment lines written above the property.
+ */
+function getLeadingCommentLines(
+  sourceFile: Readonly<ts.SourceFile>,
+  property: Readonly<ts.ObjectLiteralElementLike>,
+): readonly string[] {
+  return sourceFile.text
+    .slice(property.getFullStart(), property.getStart(sourceFile))
+    .split(/\r?\n/)
+    .map(
+      /**
+       * Trims a trivia line.
+       *
+       * @param line - Raw trivia line.
+       * @returns Trimmed line.
+       */
+      (line) => line.trim(),
+    )
+    .filter(isPreservedCommentLine);
+}
+
+/**
+ * Returns the static name of an object literal property.
+ *
+ * @param property - Object literal property.
+ * @returns Property name, or undefined for spreads and computed names.
+ */
+function getOptionName(
+  property: Readonly<ts.ObjectLiteralElementLike>,
+): string | undefined {
+  const { name } = property;
+  if (!name) {
+    return undefined;
+  }
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) {
+    return name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Lists the static property names of an object literal.
+ *
+ * @param details - Object literal passed to `figma.connect`.
+ * @returns Property names in source order.
+ */
+function getOptionNames(details: Readonly<ts.ObjectLiteralExpression>): string[] {
+  return details.properties
+    .map(getOptionName)
+    .filter(
+      /**
+       * Narrows to defined property names.
+       *
+       * @param name - Candidate property name.
+       * @returns True when the name is defined.
+       */
+      (name): name is string => name !== undefined,
+    );
+}
+
+/**
+ * Returns true when a callee is `figma.connect`.
+ *
+ * @param expression - Call expression callee.
+ * @returns True when the callee is `figma.connect`.
+ */
+function isConnectCallee(expression: Readonly<ts.Expression>): boolean {
+  return (
+    ts.isPropertyAccessExpression(expression) &&
+    expression.name.text === "connect" &&
+    ts.isIdentifier(expression.expression) &&
+    expression.expression.text === "figma"
+  );
+}
+
+/**
+ * Returns true when a URL is an emitter placeholder rather than a real URL.
+ *
+ * @param url - URL to inspect.
+ * @returns True for `<FIGMA_<NAME>_URL>` placeholders.
+ */
+export function isFigmaUrlPlaceholder(url: string): boolean {
+  return FIGMA_URL_PLACEHOLDER_PATTERN.test(url);
+}
+
+/**
+ * Returns true when a trivia line is a comment that is not a generated marker.
+ *
+ * @param line - Trimmed trivia line.
+ * @returns True when the line should be preserved with its option.
+ */
+function isPreservedCommentLine(line: string): boolean {
+  return (
+    (line.startsWith("//") || line.startsWith("/*") || line.startsWith("*")) &&
+    !line.startsWith(GENERATED_SECTION_MARKERS.start) &&
+    !line.startsWith(GENERATED_SECTION_MARKERS.end)
+  );
+}
+
+/**
+ * Returns true when a call argument is a static string URL literal.
+ *
+ * @param argument - Call argument to inspect.
+ * @returns True for string and no-substitution template literals.
+ */
+function isUrlLiteral(
+  argument: Readonly<ts.Expression>,
+): argument is ts.StringLiteral | ts.NoSubstitutionTemplateLiteral {
+  return (
+    ts.isStringLiteral(argument) || ts.isNoSubstitutionTemplateLiteral(argument)
+  );
+}
+
+/**
+ * Carries the hand-edited URL and options of an existing connect file into new content.
+ *
+ * The existing URL is kept unless it is a placeholder or `figmaUrl` is provided.
+ * Existing options the new content does not define are appended before the
+ * closing brace of the `figma.connect` options object.
+ *
+ * @param existingContent - Current connect file content.
+ * @param emittedContent - Newly generated connect file content.
+ * @param filePath - Connect file path (selects TS or TSX parsing).
+ * @param figmaUrl - Mapped Figma URL that takes precedence over the existing URL.
+ * @returns Generated content with preserved URL and options applied.
+ */
+export function preserveConnectFileState(
+  existingContent: string,
+  emittedContent: string,
+  filePath: string,
+  figmaUrl?: string,
+): string {
+  const existing = extractConnectFileState(existingContent, filePath);
+  const call = findConnectCall(emittedContent, filePath);
+  if (!existing || !call) {
+    return emittedContent;
+  }
+
+  const keptUrl =
+    existing.url && !isFigmaUrlPlaceholder(existing.url) ? existing.url : undefined;
+  const edits = [
+    buildUrlEdit(call, figmaUrl ?? keptUrl),
+    buildOptionsEdit(call, existing.options),
+  ].filter(
+    /**
+     * Narrows to defined edits.
+     *
+     * @param edit - Candidate edit.
+     * @returns True when the edit is defined.
+     */
+    (edit): edit is ITextEdit => edit !== undefined,
+  );
+  return applyTextEdits(emittedContent, edits);
+}
+
+/**
+ * Replaces the Figma URL in connect file content.
+ *
+ * @param content - Connect file content.
+ * @param filePath - Connect file path (selects TS or TSX parsing).
+ * @param url - URL to write.
+ * @returns Content with the URL replaced, or unchanged content when no URL literal exists.
+ */
+export function setConnectFileUrl(
+  content: string,
+  filePath: string,
+  url: string,
+): string {
+  const call = findConnectCall(content, filePath);
+  const edit = call ? buildUrlEdit(call, url) : undefined;
+  return edit ? applyTextEdits(content, [edit]) : content;
+}
+
+/**
+ * Converts an object literal property into a preserved connect option.
+ *
+ * @param sourceFile - Source file containing the property.
+ * @param property - Object literal property.
+ * @returns Single-item list with the option, or an empty list for unnamed properties.
+ */
+function toConnectFileOption(
+  sourceFile: Readonly<ts.SourceFile>,
+  property: Readonly<ts.ObjectLiteralElementLike>,
+): IConnectFileOption[] {
+  const name = getOptionName(property);
+  if (name === undefined) {
+    return [];
+  }
+  const lines = [
+    ...getLeadingCommentLines(sourceFile, property),
+    property.getText(sourceFile),
+  ];
+  return [{ name, text: `${OPTION_INDENT}${lines.join(`\n${OPTION_INDENT}`)}` }];
+}
@@ -17,7 +17,9 @@
 /**
  * File Discovery Module
  *
- * Locates Web Component source files for processing.
+ * Locates Web Component source files for processing. Files are selected by
+ * include globs, filtered by exclude globs, excluded directory names, and
+ * `.gitignore` files, and may come from several input roots.
  *
  * @module io/file-discovery
  */
@@ -28,8 +30,15 @@ import type {
   IDiscoveredFile,
   IFileDiscoveryOptions,
   IFileDiscoveryFileSystem,
+  IGitignoreRule,
 } from "@/src/io/types";
-import { POSIX_PATH_SEPARATOR } from "@/src/utils";
+import {
+  globToRegExp,
+  matchesAnyGlob,
+  POSIX_PATH_SEPARATOR,
+} from "@/src/utils";
+
+import { isGitignored, parseGitignore } from "./gitignore";
 
 export type {
   DiscoveredFile,
@@ -46,6 +55,12 @@ export const COMPONENT_SUFFIX = ".component.ts";
 /** Glob pattern for component discovery. */
 export const COMPONENT_GLOB = `**/*${COMPONENT_SUFFIX}`;
 
+/** Default include patterns for component discovery. */
+export const DEFAULT_INCLUDE_PATTERNS: readonly string[] = [COMPONENT_GLOB];
+
+/** File name of the ignore files honored during discovery. */
+const GITIGNORE_FILE_NAME = ".gitignore";
+
 /** Default directory names to exclude from traversal. */
 export const DEFAULT_EXCLUDE_DIRS: readonly string[] = ["node_modules", "dist"];
 
@@ -61,6 +76,13 @@ const defaultFileSystem: IFileDiscoveryFileSystem = {
    */
   readdirSync: (targetPath: string) =>
     fs.readdirSync(targetPath, { withFileTypes: true }),
+  /**
+   * Reads a text file.
+   *
+   * @param targetPath - File path to read.
+   * @returns File content.
+   */
+  readFileSync: (targetPath: string) => fs.readFileSync(targetPath, "utf8"),
 };
 
 /**
@@ -77,19 +99,75 @@ function compareDiscoveredFiles(
 }
 
 /**
- * Discovers component source files from a file path or directory path.
+ * Derives a component name from the include pattern that matched a file.
  *
- * When the input is a file, the file is returned only when it matches
- * the component naming convention. When the input is a directory, the
- * directory is scanned and optionally traversed recursively.
+ * The name is the text matched by the pattern's last single-segment `*`
+ * wildcard: `*.element.ts` yields `button` for `button.element.ts`, and a
+ * `components/<wildcard>/index.ts` pattern yields the directory name. Without
+ * a wildcard match, the file name before its first dot is used.
  *
- * @param inputPath - File or directory path to inspect.
- * @param options - Discovery options controlling recursion, exclusions, and filesystem access.
+ * @param matchPath - POSIX path the include patterns were matched against.
+ * @param include - Include glob patterns.
+ * @returns Component name.
+ */
+export function deriveComponentName(
+  matchPath: string,
+  include: readonly string[] = DEFAULT_INCLUDE_PATTERNS,
+): string {
+  for (const pattern of include) {
+    const match = globToRegExp(pattern, true).exec(matchPath);
+    const captured = match?.slice(1).findLast(Boolean);
+    if (captured) {
+      return captured;
+    }
+  }
+  return path.posix.basename(matchPath).split(".")[0];
+}
+
+/**
+ * Discovers component source files from one or more file or directory paths.
+ *
+ * A file input is returned only when it matches an include pattern. A
+ * directory input is scanned, optionally recursively, skipping excluded
+ * directories, paths matched by exclude patterns, and paths ignored by
+ * `.gitignore` files found inside the scanned tree. Files found through
+ * several roots are returned once.
+ *
+ * @param inputPath - File or directory path, or a list of them.
+ * @param options - Discovery options controlling patterns, recursion, exclusions, and filesystem access.
  * @returns Sorted list of discovered component files.
  */
 export function discoverComponentFiles(
-  inputPath: string,
+  inputPath: string | readonly string[],
   options: Readonly<IFileDiscoveryOptions> = {},
+): IDiscoveredFile[] {
+  const inputPaths = typeof inputPath === "string" ? [inputPath] : inputPath;
+  const discovered = new Map(
+    inputPaths
+      .flatMap(discoverRootFiles.bind(undefined, options))
+      .map(
+        /**
+         * Keys a discovered file by path for de-duplication.
+         *
+         * @param file - Discovered file.
+         * @returns File path and file pair.
+         */
+        (file) => [file.filePath, file] as const,
+      ),
+  );
+  return [...discovered.values()].toSorted(compareDiscoveredFiles);
+}
+
+/**
+ * Discovers component source files under a single file or directory path.
+ *
+ * @param options - Discovery options.
+ * @param inputPath - File or directory path to inspect.
+ * @returns Discovered component files in traversal order.
+ */
+function discoverRootFiles(
+  options: Readonly<IFileDiscoveryOptions>,
+  inputPath: string,
 ): IDiscoveredFile[] {
   if (!inputPath) {
     return [];
@@ -105,25 +183,44 @@ export function discoverComponentFiles(
   const excludeDirs = new Set(
     (options.excludeDirs ?? DEFAULT_EXCLUDE_DIRS).map(normalizeDirectoryName),
   );
+  const include = options.include ?? DEFAULT_INCLUDE_PATTERNS;
+  const exclude = options.exclude ?? [];
+  const useGitignore =
+    (options.gitignore ?? true) && fileSystem.readFileSync !== undefined;
   const recursive = options.recursive ?? false;
   let results: IDiscoveredFile[] = [];
 
   const stats = fileSystem.statSync(targetPath);
   const rootDir = stats.isDirectory() ? targetPath : path.dirname(targetPath);
 
+  /**
+   * Converts a path to the POSIX form matched by glob patterns.
+   *
+   * @param entryPath - Path below the root directory.
+   * @returns POSIX path relative to the root directory.
+   */
+  const toMatchPath = (entryPath: string): string =>
+    toPosixPath(path.relative(rootDir, entryPath));
+
   /**
    * Adds a matching component file to the results list.
    *
+   * @param patterns - Include patterns to match.
    * @param filePath - File path to evaluate and add.
+   * @param matchPath - POSIX path matched against the include patterns.
    * @returns Nothing.
    */
-  const addFile = (filePath: string): void => {
-    if (!isComponentFile(filePath)) {
+  const addFile = (
+    patterns: readonly string[],
+    filePath: string,
+    matchPath: string,
+  ): void => {
+    if (!matchesAnyGlob(matchPath, patterns, true)) {
       return;
     }
 
     const fileName = path.basename(filePath);
-    const componentName = path.basename(filePath, COMPONENT_SUFFIX);
+    const componentName = deriveComponentName(matchPath, patterns);
     const dirPath = path.dirname(filePath);
     const relativePath = path.relative(rootDir, filePath) || fileName;
 
@@ -139,51 +236,104 @@ export function discoverComponentFiles(
     ];
   };
 
+  /**
+   * Returns true when a directory entry should be skipped.
+   *
+   * @param entryPath - Entry path.
+   * @param isDirectory - Whether the entry is a directory.
+   * @param rules - Gitignore rules that apply to the entry.
+   * @returns True when the entry is excluded or ignored.
+   */
+  const isSkipped = (
+    entryPath: string,
+    isDirectory: boolean,
+    rules: readonly IGitignoreRule[],
+  ): boolean => {
+    const matchPath = toMatchPath(entryPath);
+    return (
+      matchesAnyGlob(
+        isDirectory ? `${matchPath}${POSIX_PATH_SEPARATOR}` : matchPath,
+        exclude,
+      ) || isGitignored(rules, entryPath, isDirectory)
+    );
+  };
+
   /**
    * Traverses a directory tree to discover component files.
    *
    * @param dirPath - Directory path to traverse.
+   * @param inheritedRules - Gitignore rules from enclosing directories.
    * @returns Nothing.
    */
-  const traverse = (dirPath: string): void => {
-    for (const entry of fileSystem.readdirSync(dirPath)) {
-      const entryPath = dirPath.includes(POSIX_PATH_SEPARATOR)
-        ? path.posix.join(dirPath, entry.name)
-        : path.join(dirPath, entry.name);
+  const traverse = (
+    dirPath: string,
+    inheritedRules: readonly IGitignoreRule[],
+  ): void => {
+    const entries = fileSystem.readdirSync(dirPath);
+    const joinPath = dirPath.includes(POSIX_PATH_SEPARATOR)
+      ? path.posix.join
+      : path.join;
+    const rules = useGitignore
+      ? [
+          ...inheritedRules,
+          ...readGitignoreRules(fileSystem, dirPath, entries, joinPath),
+        ]
+      : inheritedRules;
+
+    for (const entry of entries) {
+      const entryPath = joinPath(dirPath, entry.name);
 
       if (entry.isDirectory()) {
-        if (excludeDirs.has(entry.name.toLowerCase())) {
+        if (
+          excludeDirs.has(entry.name.toLowerCase()) ||
+          isSkipped(entryPath, true, rules)
+        ) {
           continue;
         }
         if (recursive) {
-          traverse(entryPath);
+          traverse(entryPath, rules);
         }
         continue;
       }
 
-      if (entry.isFile()) {
-        addFile(entryPath);
+      if (entry.isFile() && !isSkipped(entryPath, false, rules)) {
+        addFile(include, entryPath, toMatchPath(entryPath));
       }
     }
   };
 
   if (stats.isFile()) {
-    addFile(targetPath);
+    addFile(
+      include.map(toUnanchoredGlob),
+      targetPath,
+      toPosixPath(path.resolve(targetPath)),
+    );
   } else if (stats.isDirectory()) {
-    traverse(targetPath);
+    traverse(targetPath, []);
   }
 
-  return results.toSorted(compareDiscoveredFiles);
+  return results;
 }
 
 /**
- * Checks whether the provided file path matches the component suffix.
+ * Checks whether the provided file path matches the component include patterns.
+ *
+ * Patterns are matched against the end of the path, so relative patterns
+ * also match absolute paths.
  *
  * @param filePath - File path to evaluate.
- * @returns True when the file path ends with the component suffix.
+ * @param include - Include glob patterns.
+ * @returns True when the file path matches an include pattern.
  */
-export function isComponentFile(filePath: string): boolean {
-  return filePath.toLowerCase().endsWith(COMPONENT_SUFFIX);
+export function isComponentFile(
+  filePath: string,
+  include: readonly string[] = DEFAULT_INCLUDE_PATTERNS,
+): boolean {
+  return matchesAnyGlob(
+    toPosixPath(filePath),
+    include.map(toUnanchoredGlob),
+    true,
+  );
 }
 
 /**
@@ -194,3 +344,56 @@ export function isComponentFile(filePath: string): boolean {
 function normalizeDirectoryName(directoryName: string): string {
   return directoryName.toLowerCase();
 }
+
+/**
+ * Reads the `.gitignore` rules of a directory when it contains one.
+ *
+ * @param fileSystem - File system provider with `readFileSync`.
+ * @param dirPath - Directory being scanned.
+ * @param entries - Directory entries.
+ * @param joinPath - Path join function matching the directory path style.
+ * @returns Rules from the directory's `.gitignore`, or an empty list.
+ */
+function readGitignoreRules(
+  fileSystem: Readonly<IFileDiscoveryFileSystem>,
+  dirPath: string,
+  entries: readonly fs.Dirent[],
+  joinPath: (...paths: string[]) => string,
+): IGitignoreRule[] {
+  const hasGitignore = entries.some(
+    /**
+     * Checks whether an entry is the directory's `.gitignore` file.
+     *
+     * @param entry - Directory entry.
+     * @returns True for a `.gitignore` file.
+     */
+    (entry) => entry.isFile() && entry.name === GITIGNORE_FILE_NAME,
+  );
+  if (!hasGitignore || !fileSystem.readFileSync) {
+    return [];
+  }
+  return parseGitignore(
+    fileSystem.readFileSync(joinPath(dirPath, GITIGNORE_FILE_NAME)),
+    dirPath,
+  );
+}
+
+/**
+ * Converts platform path separators to POSIX separators.
+ *
+ * @param filePath - Platform path.
+ * @returns POSIX path.
+ */
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join(POSIX_PATH_SEPARATOR);
+}
+
+/**
+ * Prefixes a relative glob with a leading globstar so it matches at any depth.
+ *
+ * @param pattern - Include glob pattern.
+ * @returns Pattern that also matches absolute paths ending in the original pattern.
+ */
+function toUnanchoredGlob(pattern: string): string {
+  return pattern.startsWith("**/") ? pattern : `**/${pattern}`;
+}
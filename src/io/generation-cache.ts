@@ -0,0 +1,230 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Generation Cache Module
+ *
+ * Reads, validates, and writes the persistent regeneration cache that lets
+ * the pipeline skip components whose inputs and outputs are unchanged.
+ *
+ * @module io/generation-cache
+ */
+
+import { createHash } from "node:crypto";
+
+import type {
+  IGenerationCache,
+  IGenerationCacheEntry,
+  IIoAdapter,
+} from "@/src/io/types";
+
+/** Default cache file location, relative to the working directory. */
+export const DEFAULT_CACHE_PATH = ".figma-connecter/cache.json";
+
+/** Cache file format version; bump when the entry shape changes. */
+export const GENERATION_CACHE_VERSION = 1;
+
+/**
+ * Creates an empty cache for a tool version.
+ *
+ * @param toolVersion - figma-connecter version writing the cache.
+ * @returns Cache without entries.
+ */
+export function createEmptyGenerationCache(
+  toolVersion: string,
+): IGenerationCache {
+  return { version: GENERATION_CACHE_VERSION, toolVersion, entries: {} };
+}
+
+/**
+ * Creates a cache entry by hashing the given input and output files.
+ *
+ * @param configHash - Hash of the pipeline settings that shape output.
+ * @param inputPaths - Component file and local dependency paths.
+ * @param outputPaths - Emitted connect file paths.
+ * @param io - IO adapter used to read files.
+ * @returns Cache entry for the component.
+ */
+export function createGenerationCacheEntry(
+  configHash: string,
+  inputPaths: readonly string[],
+  outputPaths: readonly string[],
+  io: Readonly<IIoAdapter>,
+): IGenerationCacheEntry {
+  return {
+    configHash,
+    inputs: hashFiles(inputPaths, io),
+    outputs: hashFiles(outputPaths, io),
+  };
+}
+
+/**
+ * Hashes text content.
+ *
+ * @param content - Text to hash.
+ * @returns Hex-encoded SHA-256 digest.
+ */
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Hashes the files that exist among the given paths.
+ *
+ * @param filePaths - Files to hash.
+ * @param io - IO adapter used to read files.
+ * @returns Content hashes keyed by file path.
+ */
+function hashFiles(
+  filePaths: readonly string[],
+  io: Readonly<IIoAdapter>,
+): Record<string, string> {
+  return Object.fromEntries(
+    filePaths
+      .filter(
+        /**
+         * Keeps files that exist.
+         *
+         * @param filePath - Candidate file path.
+         * @returns True when the file exists.
+         */
+        (filePath) => io.exists(filePath),
+      )
+      .map(
+        /**
+         * Hashes a single file.
+         *
+         * @param filePath - File to hash.
+         * @returns Path and content hash pair.
+         */
+        (filePath) => [filePath, hashContent(io.readFile(filePath))],
+      ),
+  );
+}
+
+/**
+ * Returns true when every recorded file still exists with the recorded hash.
+ *
+ * @param hashes - Content hashes keyed by file path.
+ * @param io - IO adapter used to read files.
+ * @returns True when no recorded file changed or disappeared.
+ */
+function hasMatchingHashes(
+  hashes: Readonly<Record<string, string>>,
+  io: Readonly<IIoAdapter>,
+): boolean {
+  return Object.entries(hashes).every(
+    /**
+     * Compares one recorded hash with the file on disk.
+     *
+     * @param entry - File path and recorded hash.
+     * @returns True when the file exists with the same content.
+     */
+    (entry) => {
+      const [filePath, hash] = entry;
+      return io.exists(filePath) && hashContent(io.readFile(filePath)) === hash;
+    },
+  );
+}
+
+/**
+ * Returns true when a parsed value has the cache file shape.
+ *
+ * @param value - Parsed JSON value.
+ * @returns True for objects with a version, tool version, and entries map.
+ */
+function isGenerationCache(value: unknown): value is IGenerationCache {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { version, toolVersion, entries } = value as Record<string, unknown>;
+  return (
+    typeof version === "number" &&
+    typeof toolVersion === "string" &&
+    typeof entries === "object" &&
+    entries !== null &&
+    !Array.isArray(entries)
+  );
+}
+
+/**
+ * Returns true when a cache entry still describes the component's current inputs and outputs.
+ *
+ * @param entry - Cache entry to check.
+ * @param configHash - Hash of the current pipeline settings.
+ * @param io - IO adapter used to read files.
+ * @returns True when settings, inputs, and emitted files are all unchanged.
+ */
+export function isGenerationCacheEntryFresh(
+  entry: Readonly<IGenerationCacheEntry>,
+  configHash: string,
+  io: Readonly<IIoAdapter>,
+): boolean {
+  return (
+    entry.configHash === configHash &&
+    Object.keys(entry.outputs).length > 0 &&
+    hasMatchingHashes(entry.inputs, io) &&
+    hasMatchingHashes(entry.outputs, io)
+  );
+}
+
+/**
+ * Loads the regeneration cache.
+ *
+ * A missing, unreadable, or outdated cache (different format or tool version)
+ * yields an empty cache, so every component is regenerated.
+ *
+ * @param filePath - Cache file path.
+ * @param toolVersion - Current figma-connecter version.
+ * @param io - IO adapter used to read the cache.
+ * @returns Loaded cache, or an empty cache.
+ */
+export function loadGenerationCache(
+  filePath: string,
+  toolVersion: string,
+  io: Readonly<IIoAdapter>,
+): IGenerationCache {
+  if (!io.exists(filePath)) {
+    return createEmptyGenerationCache(toolVersion);
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(io.readFile(filePath));
+    return isGenerationCache(parsed) &&
+      parsed.version === GENERATION_CACHE_VERSION &&
+      parsed.toolVersion === toolVersion
+      ? parsed
+      : createEmptyGenerationCache(toolVersion);
+  } catch {
+    return createEmptyGenerationCache(toolVersion);
+  }
+}
+
+/**
+ * Writes the regeneration cache as pretty-printed JSON.
+ *
+ * @param filePath - Cache file path.
+ * @param cache - Cache to write.
+ * @param io - IO adapter used for writing.
+ * @returns Nothing.
+ */
+export function saveGenerationCache(
+  filePath: string,
+  cache: Readonly<IGenerationCache>,
+  io: Readonly<IIoAdapter>,
+): void {
+  io.writeFile(filePath, `${JSON.stringify(cache, null, 2)}\n`);
+}
@@ -0,0 +1,89 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Git Changes Module
+ *
+ * Lists the files a local git checkout changed since a ref, so the pipeline
+ * can limit a run to the components touched by a pull request.
+ *
+ * @module io/git-changes
+ */
+
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import path from "node:path";
+
+/**
+ * Lists files that differ from a git ref, including uncommitted and untracked files.
+ *
+ * Deleted files are included; callers only match them against existing
+ * component and dependency paths.
+ *
+ * @param ref - Git ref to compare against (branch, tag, or commit).
+ * @param cwd - Directory inside the git checkout.
+ * @returns Absolute paths of changed files.
+ * @throws Error when git is unavailable, `cwd` is not a checkout, or the ref is unknown.
+ */
+export function listGitChangedFiles(ref: string, cwd: string): string[] {
+  const root = runGit(["rev-parse", "--show-toplevel"], cwd, ref).trim();
+  const output = [
+    runGit(["diff", "--name-only", ref, "--"], root, ref),
+    runGit(["ls-files", "--others", "--exclude-standard"], root, ref),
+  ].join("\n");
+
+  return [
+    ...new Set(
+      output
+        .split(/\r?\n/)
+        .filter(Boolean)
+        .map(
+          /**
+           * Resolves a repository-relative path reported by git.
+           *
+           * @param filePath - Path relative to the repository root.
+           * @returns Absolute file path.
+           */
+          (filePath) => path.resolve(root, filePath),
+        ),
+    ),
+  ];
+}
+
+/**
+ * Runs a git command and returns its standard output.
+ *
+ * @param args - Git arguments.
+ * @param cwd - Working directory for git.
+ * @param ref - Ref being compared, used in error messages.
+ * @returns Command output.
+ * @throws Error when the command fails.
+ */
+function runGit(args: readonly string[], cwd: string, ref: string): string {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+  } catch (error) {
+    const stderr = (error as { stderr?: unknown }).stderr;
+    const detail = typeof stderr === "string" ? stderr.trim() : "";
+    const message =
+      detail || (error instanceof Error ? error.message : String(error));
+    assert.fail(`Failed to list files changed since ${ref}: ${message}`);
+  }
+}
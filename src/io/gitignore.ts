@@ -0,0 +1,109 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Gitignore Module
+ *
+ * Parses `.gitignore` files and checks paths against their rules so file
+ * discovery skips ignored sources.
+ *
+ * @module io/gitignore
+ */
+
+import path from "node:path";
+
+import { globToRegExp, POSIX_PATH_SEPARATOR } from "@/src/utils";
+
+import type { IGitignoreRule } from "./types";
+
+/**
+ * Returns true when a path is ignored by the given rules.
+ *
+ * Rules are applied in order and the last matching rule wins, so later
+ * `!pattern` lines re-include earlier matches.
+ *
+ * @param rules - Rules from every `.gitignore` file that applies to the path.
+ * @param targetPath - Absolute file or directory path.
+ * @param isDirectory - Whether the path is a directory.
+ * @returns True when the path is ignored.
+ */
+export function isGitignored(
+  rules: readonly IGitignoreRule[],
+  targetPath: string,
+  isDirectory: boolean,
+): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    const relativePath = path
+      .relative(rule.baseDir, targetPath)
+      .split(path.sep)
+      .join(POSIX_PATH_SEPARATOR);
+    if (relativePath.startsWith("..") || !rule.pattern.test(relativePath)) {
+      continue;
+    }
+    ignored = !rule.negated;
+  }
+  return ignored;
+}
+
+/**
+ * Parses `.gitignore` content into rules.
+ *
+ * Patterns without a slash match at any depth below `baseDir`; patterns with
+ * a leading or middle slash are anchored to `baseDir`.
+ *
+ * @param content - `.gitignore` file content.
+ * @param baseDir - Directory containing the `.gitignore` file.
+ * @returns Rules in file order; blank lines and comments are skipped.
+ */
+export function parseGitignore(
+  content: string,
+  baseDir: string,
+): IGitignoreRule[] {
+  return content.split(/\r?\n/).flatMap(
+    /**
+     * Parses a single `.gitignore` line.
+     *
+     * @param line - Raw line.
+     * @returns Single-item list with the rule, or an empty list.
+     */
+    (line) => {
+      const trimmed = line.trimEnd();
+      if (!trimmed || trimmed.startsWith("#")) {
+        return [];
+      }
+
+      const negated = trimmed.startsWith("!");
+      const unescaped = (negated ? trimmed.slice(1) : trimmed).replace(
+        /^\\/,
+        "",
+      );
+      const directoryOnly = unescaped.endsWith(POSIX_PATH_SEPARATOR);
+      const body = unescaped.replace(/\/+$/, "");
+      if (!body) {
+        return [];
+      }
+      const anchored = body.includes(POSIX_PATH_SEPARATOR);
+      const glob = anchored ? body.replace(/^\//, "") : `**/${body}`;
+      return [
+        { baseDir, pattern: globToRegExp(glob), negated, directoryOnly },
+      ];
+    },
+  );
+}
@@ -24,6 +24,12 @@ export {
   MemoryIoAdapter,
   nodeIoAdapter,
 } from "./adapter";
+export {
+  extractConnectFileState,
+  isFigmaUrlPlaceholder,
+  preserveConnectFileState,
+  setConnectFileUrl,
+} from "./connect-file";
 export * from "./types";
 export {
   COMPONENT_GLOB,
@@ -33,12 +39,32 @@ export {
   isComponentFile,
 } from "./file-discovery";
 export { writeFile } from "./file-writer";
+export {
+  createEmptyGenerationCache,
+  createGenerationCacheEntry,
+  DEFAULT_CACHE_PATH,
+  GENERATION_CACHE_VERSION,
+  hashContent,
+  isGenerationCacheEntryFresh,
+  loadGenerationCache,
+  saveGenerationCache,
+} from "./generation-cache";
+export { listGitChangedFiles } from "./git-changes";
+export { isGitignored, parseGitignore } from "./gitignore";
+export { createPackageImportResolver } from "./package-imports";
 export {
   applyGeneratedSectionUpdates,
   buildGeneratedSection,
   DEFAULT_SECTION_MARKERS,
   extractGeneratedSection,
   hasGeneratedSection,
+  listChangedGeneratedSections,
   replaceGeneratedSection,
 } from "./section-updater";
+export { listLocalDependencies } from "./source-dependencies";
 export { loadSourceProgram, resolveTsconfigPath } from "./source-loader";
+export {
+  DEFAULT_DIFF_CONTEXT_LINES,
+  formatUnifiedDiff,
+} from "./unified-diff";
+export { loadFigmaUrlManifest, lookupFigmaUrl } from "./url-manifest";
@@ -0,0 +1,363 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Package Import Resolver Module
+ *
+ * Resolves public import specifiers such as `@scope/pkg/button` or
+ * `@scope/pkg/react` from the `package.json` that owns a component.
+ *
+ * Component sources are matched to `exports` targets by comparing paths with
+ * the source directory (`src/`), the build directory (`dist/`, or the
+ * directory of `module`/`types`), and file extensions removed.
+ *
+ * @module io/package-imports
+ */
+
+import path from "node:path";
+
+import {
+  type IComponentModel,
+  type IImportResolver,
+  ImportResolverKind,
+} from "@/src/core/types";
+import { isPlainObject } from "@/src/utils/objects";
+import { normalizePath, POSIX_PATH_SEPARATOR } from "@/src/utils/paths";
+
+import { nodeIoAdapter } from "./adapter";
+import type { IIoAdapter, IPackageManifest } from "./types";
+
+const PACKAGE_JSON_FILE_NAME = "package.json";
+/** Subpath key of the package root export. */
+const ROOT_EXPORT_SUBPATH = ".";
+/** Wildcard used in `exports` subpath patterns. */
+const EXPORT_WILDCARD = "*";
+/** Directories that hold component sources inside a package. */
+const SOURCE_DIR_NAMES: readonly string[] = ["src"];
+/** Directories that commonly hold build output inside a package. */
+const DEFAULT_BUILD_DIR_NAMES: readonly string[] = [
+  "dist",
+  "lib",
+  "build",
+  "esm",
+  "cjs",
+];
+const MODULE_EXTENSION_PATTERN = /\.(?:d\.)?[cm]?[jt]sx?$/i;
+const INDEX_MODULE_NAME = "index";
+
+/**
+ * Collects the string targets of an `exports` entry, across every condition.
+ *
+ * @param target - Export target value (string, array, or conditions object).
+ * @returns Every string target in declaration order.
+ */
+function collectExportTargets(target: unknown): string[] {
+  if (typeof target === "string") {
+    return [target];
+  }
+  if (Array.isArray(target)) {
+    return target.flatMap(collectExportTargets);
+  }
+  if (isPlainObject(target)) {
+    return Object.values(target).flatMap(collectExportTargets);
+  }
+  return [];
+}
+
+/**
+ * Creates an import resolver that reads each component's owning `package.json`.
+ *
+ * Manifests are looked up once per directory and cached for the resolver's lifetime.
+ *
+ * @param io - IO adapter used to read `package.json` files.
+ * @returns Package-based import resolver.
+ */
+export function createPackageImportResolver(
+  io: Readonly<IIoAdapter> = nodeIoAdapter,
+): IImportResolver {
+  const manifests = new Map<string, IPackageManifest | undefined>();
+  /**
+   * Finds the manifest owning a component, using the lookup cache.
+   *
+   * @param model - Component model being emitted.
+   * @returns Owning package manifest, or undefined when none is found.
+   */
+  const findManifest = (
+    model: Readonly<IComponentModel>,
+  ): IPackageManifest | undefined =>
+    findPackageManifest(path.resolve(model.componentDir), io, manifests);
+
+  return {
+    kind: ImportResolverKind.Package,
+    /**
+     * Resolves the export that points at the component module.
+     *
+     * @param model - Component model being emitted.
+     * @returns Public component specifier, or undefined when unresolved.
+     */
+    resolveComponentImport: (model) => {
+      const manifest = findManifest(model);
+      return manifest
+        ? resolveComponentSpecifier(manifest, model.filePath)
+        : undefined;
+    },
+    /**
+     * Resolves a named entry point declared in `exports`.
+     *
+     * @param model - Component model being emitted.
+     * @param entry - Entry point name without the leading `./`.
+     * @returns Public entry specifier, or undefined when unresolved.
+     */
+    resolveEntryImport: (model, entry) => {
+      const manifest = findManifest(model);
+      const subpath = `./${entry}`;
+      return manifest && listExportEntries(manifest.exports).has(subpath)
+        ? formatSpecifier(manifest.name, subpath)
+        : undefined;
+    },
+  };
+}
+
+/**
+ * Walks up from a directory to the nearest named `package.json`.
+ *
+ * @param dirPath - Absolute directory to start from.
+ * @param io - IO adapter used to read `package.json` files.
+ * @param cache - Manifests already found, keyed by directory.
+ * @returns Owning package manifest, or undefined when none is found.
+ */
+function findPackageManifest(
+  dirPath: string,
+  io: Readonly<IIoAdapter>,
+  cache: Map<string, IPackageManifest | undefined>,
+): IPackageManifest | undefined {
+  if (cache.has(dirPath)) {
+    return cache.get(dirPath);
+  }
+  const parentDir = path.dirname(dirPath);
+  const manifest =
+    readPackageManifest(dirPath, io) ??
+    (parentDir === dirPath
+      ? undefined
+      : findPackageManifest(parentDir, io, cache));
+  cache.set(dirPath, manifest);
+  return manifest;
+}
+
+/**
+ * Formats a public specifier from a package name and an exports subpath.
+ *
+ * @param name - Package name.
+ * @param subpath - Exports subpath such as `.` or `./button`.
+ * @returns Import specifier.
+ */
+function formatSpecifier(name: string, subpath: string): string {
+  return subpath === ROOT_EXPORT_SUBPATH
+    ? name
+    : `${name}${subpath.slice(ROOT_EXPORT_SUBPATH.length)}`;
+}
+
+/**
+ * Normalizes the `exports` field into a map of subpath to targets.
+ *
+ * A string or conditions object is shorthand for the root (`.`) export.
+ *
+ * @param exportsField - Raw `exports` field.
+ * @returns String targets keyed by subpath, in declaration order.
+ */
+function listExportEntries(exportsField: unknown): Map<string, string[]> {
+  const isSubpathMap =
+    isPlainObject(exportsField) &&
+    Object.keys(exportsField).some(
+      /**
+       * Checks whether a key is a subpath rather than a condition name.
+       *
+       * @param key - `exports` key.
+       * @returns True when the key starts with `.`.
+       */
+      (key) => key.startsWith(ROOT_EXPORT_SUBPATH),
+    );
+  if (!isSubpathMap) {
+    return exportsField === undefined
+      ? new Map<string, string[]>()
+      : new Map<string, string[]>([[ROOT_EXPORT_SUBPATH, collectExportTargets(exportsField)]]);
+  }
+  return new Map<string, string[]>(
+    Object.entries(exportsField).map(
+      /**
+       * Collects the targets of a single subpath export.
+       *
+       * @param entry - Subpath and its raw target.
+       * @returns Subpath and its string targets.
+       */
+      (entry): [string, string[]] => [
+        entry[0],
+        collectExportTargets(entry[1]),
+      ],
+    ),
+  );
+}
+
+/**
+ * Matches a normalized export target against a component's module keys.
+ *
+ * @param targetKey - Normalized target, possibly containing one `*`.
+ * @param moduleKeys - Normalized keys identifying the component module.
+ * @returns Text matched by `*` (empty without a wildcard), or undefined.
+ */
+function matchExportTarget(
+  targetKey: string,
+  moduleKeys: readonly string[],
+): string | undefined {
+  const wildcardIndex = targetKey.indexOf(EXPORT_WILDCARD);
+  if (wildcardIndex < 0) {
+    return moduleKeys.includes(targetKey) ? "" : undefined;
+  }
+  const prefix = targetKey.slice(0, wildcardIndex);
+  const suffix = targetKey.slice(wildcardIndex + EXPORT_WILDCARD.length);
+  const match = moduleKeys.find(
+    /**
+     * Checks whether a module key fits around the wildcard.
+     *
+     * @param key - Module key.
+     * @returns True when the key starts with the prefix and ends with the suffix.
+     */
+    (key) =>
+      key.length > prefix.length + suffix.length &&
+      key.startsWith(prefix) &&
+      key.endsWith(suffix),
+  );
+  return match?.slice(prefix.length, match.length - suffix.length);
+}
+
+/**
+ * Strips a leading directory and module extension from a package-relative path.
+ *
+ * @param relativePath - POSIX path relative to the package root.
+ * @param dirNames - Leading directory names to strip.
+ * @returns Normalized module key.
+ */
+function normalizeModuleKey(
+  relativePath: string,
+  dirNames: readonly string[],
+): string {
+  const segments = relativePath
+    .replace(/^\.\//, "")
+    .replace(MODULE_EXTENSION_PATTERN, "")
+    .split(POSIX_PATH_SEPARATOR);
+  const rest = dirNames.includes(segments[0] ?? "")
+    ? segments.slice(1)
+    : segments;
+  return rest.join(POSIX_PATH_SEPARATOR);
+}
+
+/**
+ * Reads a named `package.json` from a directory.
+ *
+ * @param dirPath - Directory that may contain a `package.json`.
+ * @param io - IO adapter used to read the file.
+ * @returns Package manifest, or undefined when absent, unnamed, or invalid.
+ */
+function readPackageManifest(
+  dirPath: string,
+  io: Readonly<IIoAdapter>,
+): IPackageManifest | undefined {
+  const packageJsonPath = path.join(dirPath, PACKAGE_JSON_FILE_NAME);
+  if (!io.exists(packageJsonPath)) {
+    return undefined;
+  }
+  try {
+    const raw: unknown = JSON.parse(io.readFile(packageJsonPath));
+    if (!isPlainObject(raw) || typeof raw.name !== "string") {
+      return undefined;
+    }
+    return {
+      rootDir: dirPath,
+      name: raw.name,
+      exports: raw.exports,
+      module: typeof raw.module === "string" ? raw.module : undefined,
+      types: typeof raw.types === "string" ? raw.types : undefined,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lists the build directories whose prefix is stripped from export targets.
+ *
+ * @param manifest - Package manifest.
+ * @returns Default build directories plus those of `module` and `types`.
+ */
+function resolveBuildDirNames(manifest: Readonly<IPackageManifest>): string[] {
+  const entryDirs = [manifest.module, manifest.types].flatMap(
+    /**
+     * Reads the first directory of an entry point path.
+     *
+     * @param entry - Entry point path, if declared.
+     * @returns Single-item list with the directory, or an empty list.
+     */
+    (entry) => {
+      const segments = entry?.replace(/^\.\//, "").split(POSIX_PATH_SEPARATOR);
+      return segments && segments.length > 1 ? [segments[0]] : [];
+    },
+  );
+  return [...new Set([...DEFAULT_BUILD_DIR_NAMES, ...entryDirs])];
+}
+
+/**
+ * Resolves the public specifier whose export target is the component module.
+ *
+ * A target matches the component file itself, its directory, or the
+ * directory's `index` module.
+ *
+ * @param manifest - Owning package manifest.
+ * @param filePath - Component source file.
+ * @returns Public specifier, or undefined when no export matches.
+ */
+function resolveComponentSpecifier(
+  manifest: Readonly<IPackageManifest>,
+  filePath: string,
+): string | undefined {
+  const relativePath = path.posix.relative(
+    normalizePath(manifest.rootDir),
+    normalizePath(filePath),
+  );
+  const sourceKey = normalizeModuleKey(relativePath, SOURCE_DIR_NAMES);
+  const sourceDir = path.posix.dirname(sourceKey);
+  const moduleKeys = [
+    sourceKey,
+    sourceDir,
+    path.posix.join(sourceDir, INDEX_MODULE_NAME),
+  ];
+  const buildDirNames = resolveBuildDirNames(manifest);
+
+  for (const [subpath, targets] of listExportEntries(manifest.exports)) {
+    for (const target of targets) {
+      const captured = matchExportTarget(
+        normalizeModuleKey(target, buildDirNames),
+        moduleKeys,
+      );
+      if (captured !== undefined) {
+        return formatSpecifier(
+          manifest.name,
+          subpath.replace(EXPORT_WILDCARD, captured),
+        );
+      }
+    }
+  }
+  return undefined;
+}
@@ -26,9 +26,9 @@ import {
   buildGeneratedSectionMarkers,
   GENERATED_SECTION_MARKERS,
 } from "@/src/core/constants";
-import type {
+import {
   GeneratedSectionName,
-  IGeneratedSectionPayload,
+  type IGeneratedSectionPayload,
 } from "@/src/core/types";
 import type { ISectionMarkers, ISectionUpdateResult } from "@/src/io/types";
 import { SectionUpdateStatus } from "@/src/io/types";
@@ -98,20 +98,17 @@ export function applyGeneratedSectionUpdates(
   }
 
   const resolved = resolveSections(sections);
-  const hasMarkers = hasResolvedSectionMarkers.bind(undefined, content);
-  const allMarkersPresent = resolved.every(hasMarkers);
-
-  if (!allMarkersPresent) {
+  if (!canUpdateResolvedSections(content, resolved)) {
     return null;
   }
 
   let updated = content;
   for (const section of resolved) {
-    updated = replaceGeneratedSection(
-      updated,
-      section.content,
-      section.markers,
-    ).content;
+    updated =
+      !hasResolvedSectionMarkers(updated, section) && section.after
+        ? insertGeneratedSectionAfter(updated, section, section.after)
+        : replaceGeneratedSection(updated, section.content, section.markers)
+            .content;
   }
   return updated;
 }
@@ -147,6 +144,50 @@ export function buildGeneratedSection(
   );
 }
 
+/**
+ * Returns whether a resolved section can be replaced or inserted into file content.
+ * @param content - File content to inspect.
+ * @param section - Resolved section metadata to verify.
+ * @returns True when the section markers, or the markers it follows, are present.
+ */
+function canUpdateResolvedSection(
+  content: string,
+  section: Readonly<IResolvedSection>,
+): boolean {
+  return (
+    hasResolvedSectionMarkers(content, section) ||
+    (section.after !== undefined && hasGeneratedSection(content, section.after))
+  );
+}
+
+/**
+ * Returns whether every resolved section can be replaced or inserted, in order.
+ *
+ * A section may follow another section inserted earlier in the same update.
+ * @param content - File content to inspect.
+ * @param sections - Resolved sections in update order.
+ * @returns True when all sections can be applied.
+ */
+function canUpdateResolvedSections(
+  content: string,
+  sections: readonly IResolvedSection[],
+): boolean {
+  const inserted: ISectionMarkers[] = [];
+  for (const section of sections) {
+    if (hasResolvedSectionMarkers(content, section)) {
+      continue;
+    }
+    const anchored =
+      canUpdateResolvedSection(content, section) ||
+      isInsertedAnchor(inserted, section);
+    if (!anchored) {
+      return false;
+    }
+    inserted.push(section.markers);
+  }
+  return true;
+}
+
 /**
  * Detects the preferred line ending used by file content.
  * @param content - File content to inspect.
@@ -215,6 +256,7 @@ interface IResolvedSection {
   readonly name?: GeneratedSectionName;
   readonly content: string;
   readonly markers: ISectionMarkers;
+  readonly after?: ISectionMarkers;
 }
 
 /**
@@ -253,6 +295,55 @@ function indentGeneratedLine(indent: string, line: string): string {
   return `${indent}${line}`;
 }
 
+/**
+ * Inserts a generated section directly after another generated section.
+ * @param content - Existing file content containing the anchor section.
+ * @param section - Resolved section to insert.
+ * @param anchor - Markers of the section to insert after.
+ * @returns Updated content, or the original content when the anchor is missing.
+ */
+function insertGeneratedSectionAfter(
+  content: string,
+  section: Readonly<IResolvedSection>,
+  anchor: Readonly<ISectionMarkers>,
+): string {
+  const range = findSectionRange(content, anchor);
+  if (!range) {
+    return content;
+  }
+  const lineEnding = detectLineEnding(content);
+  const generated = buildGeneratedSection(
+    normalizeLineEndings(section.content, lineEnding),
+    section.markers,
+    range.indent,
+    lineEnding,
+  );
+  const before = content.slice(0, range.endLineEnd);
+  const separator = before.endsWith(LF) ? "" : lineEnding;
+  return `${before}${separator}${generated}${content.slice(range.endLineEnd)}`;
+}
+
+/**
+ * Returns whether a section follows a section inserted earlier in the same update.
+ * @param inserted - Markers of sections inserted so far.
+ * @param section - Resolved section to check.
+ * @returns True when the section's anchor was inserted earlier.
+ */
+function isInsertedAnchor(
+  inserted: readonly ISectionMarkers[],
+  section: Readonly<IResolvedSection>,
+): boolean {
+  return inserted.some(
+    /**
+     * Matches inserted markers against the section anchor.
+     *
+     * @param markers - Inserted section markers.
+     * @returns True when the markers match the anchor.
+     */
+    (markers) => markers.start === section.after?.start,
+  );
+}
+
 /**
  * Finds the previous line break before a given index.
  * @param content - File content to inspect.
@@ -267,6 +358,36 @@ function lastLineBreak(content: string, fromIndex: number): number {
 // Public API
 // ============================================================================
 
+/**
+ * Lists generated sections whose content differs between two versions of a file.
+ *
+ * A section counts as changed when it was added, removed, or its inner content
+ * differs once trailing whitespace is trimmed.
+ * @param previousContent - Content currently on disk.
+ * @param nextContent - Content that would be written.
+ * @returns Changed section names in canonical section order.
+ */
+export function listChangedGeneratedSections(
+  previousContent: string,
+  nextContent: string,
+): GeneratedSectionName[] {
+  return Object.values(GeneratedSectionName).filter(
+    /**
+     * Compares a single named section across both versions.
+     *
+     * @param name - Section name to compare.
+     * @returns True when the section content differs.
+     */
+    (name) => {
+      const markers = buildGeneratedSectionMarkers(name);
+      return (
+        extractGeneratedSection(previousContent, markers) !==
+        extractGeneratedSection(nextContent, markers)
+      );
+    },
+  );
+}
+
 /**
  * Finds the next line break after a given index.
  * @param content - File content to inspect.
@@ -346,6 +467,9 @@ function resolveSection(
     content: section.content,
     markers: resolveSectionMarkers(section),
     name: section.name,
+    after: section.after
+      ? buildGeneratedSectionMarkers(section.after)
+      : undefined,
   };
 }
 
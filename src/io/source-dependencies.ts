@@ -0,0 +1,125 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Source Dependencies Module
+ *
+ * Walks the local import graph of a loaded TypeScript program so callers can
+ * tell which component files depend on a changed source file.
+ *
+ * @module io/source-dependencies
+ */
+
+import path from "node:path";
+
+import ts from "typescript";
+
+/**
+ * Returns the module specifiers of a source file's static imports and re-exports.
+ *
+ * @param sourceFile - Source file to scan.
+ * @returns Module specifier texts in source order.
+ */
+function getModuleSpecifiers(sourceFile: Readonly<ts.SourceFile>): string[] {
+  return sourceFile.statements.flatMap(
+    /**
+     * Reads the module specifier of an import or export statement.
+     *
+     * @param statement - Top-level statement.
+     * @returns Single-item list with the specifier, or an empty list.
+     */
+    (statement) => {
+      const specifier =
+        ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)
+          ? statement.moduleSpecifier
+          : undefined;
+      return specifier && ts.isStringLiteral(specifier) ? [specifier.text] : [];
+    },
+  );
+}
+
+/**
+ * Lists the project source files a file imports, directly or transitively.
+ *
+ * Imports that resolve to external libraries or files outside the program are
+ * skipped, so base classes and mixins from `node_modules` are not included.
+ *
+ * @param program - Program containing the file and its imports.
+ * @param filePath - File whose dependencies should be listed.
+ * @returns Absolute dependency paths in discovery order, excluding the file itself.
+ */
+export function listLocalDependencies(
+  program: Readonly<ts.Program>,
+  filePath: string,
+): string[] {
+  const rootPath = path.resolve(filePath);
+  const visited = new Set([rootPath]);
+  const pending = [rootPath];
+  let dependencies: string[] = [];
+
+  while (pending.length > 0) {
+    const sourceFile = program.getSourceFile(pending.shift() ?? "");
+    if (!sourceFile) {
+      continue;
+    }
+    for (const dependency of resolveLocalImports(program, sourceFile)) {
+      if (visited.has(dependency)) {
+        continue;
+      }
+      visited.add(dependency);
+      pending.push(dependency);
+      dependencies = [...dependencies, dependency];
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Resolves the imports of a source file to project files in the program.
+ *
+ * @param program - Program used for compiler options and source lookups.
+ * @param sourceFile - Source file whose imports should be resolved.
+ * @returns Absolute paths of imported project source files.
+ */
+function resolveLocalImports(
+  program: Readonly<ts.Program>,
+  sourceFile: Readonly<ts.SourceFile>,
+): string[] {
+  return getModuleSpecifiers(sourceFile).flatMap(
+    /**
+     * Resolves a single module specifier to a project file.
+     *
+     * @param specifier - Module specifier text.
+     * @returns Single-item list with the resolved path, or an empty list.
+     */
+    (specifier) => {
+      const resolved = ts.resolveModuleName(
+        specifier,
+        sourceFile.fileName,
+        program.getCompilerOptions(),
+        ts.sys,
+      ).resolvedModule;
+      if (!resolved || resolved.isExternalLibraryImport) {
+        return [];
+      }
+      const dependency = program.getSourceFile(resolved.resolvedFileName);
+      return dependency && !program.isSourceFileDefaultLibrary(dependency)
+        ? [path.resolve(dependency.fileName)]
+        : [];
+    },
+  );
+}
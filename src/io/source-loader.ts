@@ -25,7 +25,11 @@
 import fs from "node:fs";
 import path from "node:path";
 
-import type { ISourceLoaderOptions, ISourceLoadResult } from "@/src/io/types";
+import type {
+  IProgramReuse,
+  ISourceLoaderOptions,
+  ISourceLoadResult,
+} from "@/src/io/types";
 import type { IPipelineContext, PipelineContextSeed } from "@/src/pipeline/types";
 import ts from "typescript";
 
@@ -39,6 +43,9 @@ export type {
 /** Unix read permission bits for owner, group, and others (r--r--r--). */
 const UNIX_READ_PERMISSION_MASK = 0o444;
 
+/** Matches JavaScript source files, which need `allowJs` to load. */
+const JAVASCRIPT_FILE_PATTERN = /\.[cm]?jsx?$/i;
+
 interface IParsedTsconfigFileSuccess {
   readonly config: Readonly<Record<string, unknown>>;
 }
@@ -121,7 +128,10 @@ export function loadSourceProgram(
     options.searchPath,
     rootFileResolution.validFiles,
   );
-  const compilerResolution = resolveCompilerOptions(searchPath, options);
+  const compilerResolution = withJavaScriptSupport(
+    resolveCompilerOptions(searchPath, options),
+    rootFileResolution.validFiles,
+  );
   const errors = [
     ...rootFileResolution.errors,
     ...compilerResolution.errors,
@@ -130,6 +140,13 @@ export function loadSourceProgram(
   const program = ts.createProgram({
     options: compilerResolution.compilerOptions,
     rootNames: [...rootFileResolution.validFiles],
+    oldProgram: options.reuse?.program,
+    host: options.reuse
+      ? createReusingCompilerHost(
+          compilerResolution.compilerOptions,
+          options.reuse,
+        )
+      : undefined,
   });
   const checker = program.getTypeChecker();
   const sourceFileResolution = collectProgramSourceFiles(
@@ -327,6 +344,55 @@ function createSourceFileMap(
   );
 }
 
+/**
+ * Creates a compiler host that hands back unchanged source files from a previous program.
+ *
+ * TypeScript reuses program structure for source files that are returned by
+ * identity, so only changed files are parsed again.
+ *
+ * @param compilerOptions - Compiler options for the new program.
+ * @param reuse - Previous program and the files that changed since.
+ * @returns Compiler host backed by the previous program's source files.
+ */
+function createReusingCompilerHost(
+  compilerOptions: Readonly<ts.CompilerOptions>,
+  reuse: Readonly<IProgramReuse>,
+): ts.CompilerHost {
+  const host = ts.createCompilerHost(compilerOptions);
+  const readSourceFile = host.getSourceFile.bind(host);
+  return {
+    ...host,
+    /**
+     * Returns the previous source file unless it changed on disk.
+     *
+     * @param fileName - Source file name requested by the program.
+     * @param languageVersionOrOptions - Target or source file options.
+     * @param onError - Read error callback.
+     * @param shouldCreateNewSourceFile - Whether to bypass caches.
+     * @returns Reused or freshly parsed source file.
+     */
+    getSourceFile: (
+      fileName,
+      languageVersionOrOptions,
+      onError,
+      shouldCreateNewSourceFile,
+    ) => {
+      const previous = reuse.changedFiles.has(path.resolve(fileName))
+        ? undefined
+        : reuse.program.getSourceFile(fileName);
+      return (
+        previous ??
+        readSourceFile(
+          fileName,
+          languageVersionOrOptions,
+          onError,
+          shouldCreateNewSourceFile,
+        )
+      );
+    },
+  };
+}
+
 /**
  * Creates the pipeline context returned from source loading.
  *
@@ -423,3 +489,78 @@ export function resolveTsconfigPath(
     ts.findConfigFile(searchRoot, isExistingFile, configFileName) ?? undefined;
   return found ? path.normalize(found) : undefined;
 }
+
+/**
+ * Lists the tsconfig file a program would load and every file it extends.
+ *
+ * @param tsconfigPath - Explicit tsconfig path, if provided.
+ * @param searchPath - Path to search from when resolving tsconfig.
+ * @returns Absolute config file paths, empty when no tsconfig is found.
+ */
+export function listTsconfigFiles(
+  tsconfigPath: string | undefined,
+  searchPath: string,
+): string[] {
+  const configPath = resolveTsconfigPath(tsconfigPath, searchPath);
+  if (!configPath) {
+    return [];
+  }
+
+  /**
+   * Reads a config file through the TypeScript system host.
+   *
+   * @param filename - Path to the config file.
+   * @returns File contents, or undefined when unreadable.
+   */
+  const readFile = (filename: string): string | undefined =>
+    ts.sys.readFile(filename);
+  const sourceFile = ts.readJsonConfigFile(configPath, readFile);
+  ts.parseJsonSourceFileConfigFileContent(
+    sourceFile,
+    ts.sys,
+    path.dirname(configPath),
+    undefined,
+    configPath,
+  );
+  const extendedFiles = (sourceFile.extendedSourceFiles ?? []).map(
+    /**
+     * Normalizes an extended config path.
+     *
+     * @param filePath - Extended config path reported by TypeScript.
+     * @returns Normalized path.
+     */
+    (filePath) => path.normalize(filePath),
+  );
+  return [configPath, ...extendedFiles];
+}
+
+/**
+ * Enables `allowJs` when JavaScript component files are loaded.
+ *
+ * @param resolution - Resolved compiler options.
+ * @param rootFiles - Component files loaded into the program.
+ * @returns Resolution whose options can load every root file.
+ */
+function withJavaScriptSupport(
+  resolution: Readonly<ICompilerOptionsResolution>,
+  rootFiles: readonly string[],
+): ICompilerOptionsResolution {
+  if (
+    resolution.compilerOptions.allowJs ||
+    !rootFiles.some(
+      /**
+       * Checks whether a root file is JavaScript.
+       *
+       * @param filePath - Root file path.
+       * @returns True for `.js`, `.jsx`, `.mjs`, and `.cjs` files.
+       */
+      (filePath) => JAVASCRIPT_FILE_PATTERN.test(filePath),
+    )
+  ) {
+    return resolution;
+  }
+  return {
+    ...resolution,
+    compilerOptions: { ...resolution.compilerOptions, allowJs: true },
+  };
+}
@@ -40,6 +40,12 @@ export interface IDiscoveredFile {
 export interface IFileDiscoveryOptions {
   readonly recursive?: boolean;
   readonly excludeDirs?: readonly string[];
+  /** Glob patterns, relative to each root, that select component files. */
+  readonly include?: readonly string[];
+  /** Glob patterns, relative to each root, for files and directories to skip. */
+  readonly exclude?: readonly string[];
+  /** Skip paths matched by `.gitignore` files found while scanning (default true). */
+  readonly gitignore?: boolean;
   readonly fileSystem?: IFileDiscoveryFileSystem;
 }
 
@@ -47,6 +53,8 @@ export interface IFileDiscoveryFileSystem {
   readonly existsSync: (targetPath: string) => boolean;
   readonly statSync: (targetPath: string) => fs.Stats;
   readonly readdirSync: (targetPath: string) => fs.Dirent[];
+  /** Reads `.gitignore` files; they are not applied when omitted. */
+  readonly readFileSync?: (targetPath: string) => string;
 }
 
 export interface IIoAdapter {
@@ -101,6 +109,17 @@ export interface ISourceLoaderOptions {
   readonly searchPath?: string;
   readonly tsconfigPath?: string;
   readonly tsconfigFileName?: string;
+  /** Previous program whose unchanged source files are reused by the new program. */
+  readonly reuse?: IProgramReuse;
+}
+
+/**
+ * Previous TypeScript program and the files that changed since it was built.
+ */
+export interface IProgramReuse {
+  readonly program: ts.Program;
+  /** Absolute paths of files that must be read again from disk. */
+  readonly changedFiles: ReadonlySet<string>;
 }
 
 export interface ISourceLoadResult {
@@ -114,6 +133,36 @@ export interface ISourceLoadResult {
   readonly sourceFileMap: ReadonlyMap<string, ts.SourceFile>;
 }
 
+/**
+ * Figma URL manifest keyed by tag name, class name, or absolute component path.
+ */
+export interface IFigmaUrlManifest {
+  /** Absolute path of the manifest file. */
+  readonly filePath: string;
+  /** Figma URLs keyed by tag name, class name, or normalized absolute path. */
+  readonly entries: ReadonlyMap<string, string>;
+}
+
+/**
+ * Hand-editable `figma.connect` option carried across regeneration.
+ */
+export interface IConnectFileOption {
+  /** Property name in the `figma.connect` options object. */
+  readonly name: string;
+  /** Property source text, including leading comments, indented for insertion. */
+  readonly text: string;
+}
+
+/**
+ * Figma URL and options read from an existing connect file.
+ */
+export interface IConnectFileState {
+  /** URL literal passed to `figma.connect`, when static. */
+  readonly url?: string;
+  /** Named properties of the `figma.connect` options object in source order. */
+  readonly options: readonly IConnectFileOption[];
+}
+
 export type DiscoveredFile = IDiscoveredFile;
 export type FileDiscoveryOptions = IFileDiscoveryOptions;
 export type FileDiscoveryFileSystem = IFileDiscoveryFileSystem;
@@ -124,3 +173,60 @@ export type SectionMarkers = ISectionMarkers;
 export type SectionUpdateResult = ISectionUpdateResult;
 export type SourceLoaderOptions = ISourceLoaderOptions;
 export type SourceLoadResult = ISourceLoadResult;
+export type FigmaUrlManifest = IFigmaUrlManifest;
+export type ConnectFileOption = IConnectFileOption;
+export type ConnectFileState = IConnectFileState;
+
+/**
+ * Inputs and outputs recorded for one component in the regeneration cache.
+ */
+export interface IGenerationCacheEntry {
+  /** Hash of the pipeline settings that shape emitted output. */
+  readonly configHash: string;
+  /** Content hashes of the component file and its local dependencies, keyed by absolute path. */
+  readonly inputs: Readonly<Record<string, string>>;
+  /** Content hashes of the emitted connect files, keyed by absolute path. */
+  readonly outputs: Readonly<Record<string, string>>;
+}
+
+/**
+ * Persistent regeneration cache stored in `.figma-connecter/cache.json`.
+ */
+export interface IGenerationCache {
+  /** Cache file format version. */
+  readonly version: number;
+  /** figma-connecter version that wrote the cache. */
+  readonly toolVersion: string;
+  /** Cache entries keyed by absolute component file path. */
+  readonly entries: Readonly<Record<string, IGenerationCacheEntry>>;
+}
+
+/**
+ * The fields of a `package.json` used to resolve public import specifiers.
+ */
+export interface IPackageManifest {
+  /** Directory containing the `package.json`. */
+  readonly rootDir: string;
+  /** Package name, e.g. `@scope/pkg`. */
+  readonly name: string;
+  /** Raw `exports` field. */
+  readonly exports?: unknown;
+  /** `module` entry point. */
+  readonly module?: string;
+  /** `types` entry point. */
+  readonly types?: string;
+}
+
+/**
+ * A single pattern line from a `.gitignore` file.
+ */
+export interface IGitignoreRule {
+  /** Directory containing the `.gitignore` file. */
+  readonly baseDir: string;
+  /** Pattern matched against POSIX paths relative to `baseDir`. */
+  readonly pattern: RegExp;
+  /** True for `!pattern` lines that re-include matches. */
+  readonly negated: boolean;
+  /** True for `pattern/` lines that only match directories. */
+  readonly directoryOnly: boolean;
+}
@@ -0,0 +1,283 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Unified Diff Module
+ *
+ * Builds unified diff hunks between two versions of a text file.
+ *
+ * @module io/unified-diff
+ */
+
+/** Default number of unchanged lines shown around each change. */
+export const DEFAULT_DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Kind of a single line in an edit script.
+ */
+enum DiffLineKind {
+  Context = " ",
+  Removed = "-",
+  Added = "+",
+}
+
+interface IDiffLine {
+  readonly kind: DiffLineKind;
+  readonly text: string;
+  /** Zero-based index of the next line in the previous content. */
+  readonly oldIndex: number;
+  /** Zero-based index of the next line in the next content. */
+  readonly newIndex: number;
+}
+
+interface IHunkRange {
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * Builds the edit script between two line arrays using a longest common subsequence.
+ *
+ * Common leading and trailing lines are matched first to keep the table small.
+ * @param previous - Lines of the previous content.
+ * @param next - Lines of the next content.
+ * @returns Context, removed, and added lines in output order.
+ */
+function buildEditScript(
+  previous: readonly string[],
+  next: readonly string[],
+): IDiffLine[] {
+  let prefix = 0;
+  while (
+    prefix < previous.length &&
+    prefix < next.length &&
+    previous[prefix] === next[prefix]
+  ) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < previous.length - prefix &&
+    suffix < next.length - prefix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const oldMiddle = previous.slice(prefix, previous.length - suffix);
+  const newMiddle = next.slice(prefix, next.length - suffix);
+  const width = newMiddle.length + 1;
+  const lengths = new Uint32Array((oldMiddle.length + 1) * width);
+  for (let i = oldMiddle.length - 1; i >= 0; i -= 1) {
+    for (let j = newMiddle.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const lines: IDiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  /**
+   * Appends a line and advances the line indexes it consumes.
+   *
+   * @param kind - Line kind.
+   * @param text - Line text.
+   * @returns Nothing.
+   */
+  const push = (kind: DiffLineKind, text: string): void => {
+    lines.push({ kind, text, oldIndex, newIndex });
+    oldIndex += kind === DiffLineKind.Added ? 0 : 1;
+    newIndex += kind === DiffLineKind.Removed ? 0 : 1;
+  };
+
+  previous.slice(0, prefix).forEach(push.bind(undefined, DiffLineKind.Context));
+  traceEditScript(oldMiddle, newMiddle, lengths, push);
+  previous
+    .slice(previous.length - suffix)
+    .forEach(push.bind(undefined, DiffLineKind.Context));
+  return lines;
+}
+
+/**
+ * Groups changed lines and their context into hunk ranges.
+ *
+ * @param lines - Edit script lines.
+ * @param contextLines - Unchanged lines kept around each change.
+ * @returns Hunk ranges over the edit script, merged when their context overlaps.
+ */
+function collectHunkRanges(
+  lines: readonly IDiffLine[],
+  contextLines: number,
+): IHunkRange[] {
+  const ranges: IHunkRange[] = [];
+  lines.forEach(
+    /**
+     * Extends or opens a hunk for a changed line.
+     *
+     * @param line - Edit script line.
+     * @param index - Line position in the edit script.
+     * @returns Nothing.
+     */
+    (line, index) => {
+      if (line.kind === DiffLineKind.Context) {
+        return;
+      }
+      const start = Math.max(0, index - contextLines);
+      const end = Math.min(lines.length, index + contextLines + 1);
+      const last = ranges[ranges.length - 1];
+      if (last && start <= last.end) {
+        ranges[ranges.length - 1] = { start: last.start, end };
+      } else {
+        ranges.push({ start, end });
+      }
+    },
+  );
+  return ranges;
+}
+
+/**
+ * Formats one hunk with its `@@` header.
+ *
+ * @param lines - Edit script lines.
+ * @param range - Hunk range over the edit script.
+ * @returns Hunk text without a trailing newline.
+ */
+function formatHunk(
+  lines: readonly IDiffLine[],
+  range: Readonly<IHunkRange>,
+): string {
+  const hunkLines = lines.slice(range.start, range.end);
+  const first = hunkLines[0];
+  const oldCount = hunkLines.filter(
+    /**
+     * Keeps lines present in the previous content.
+     *
+     * @param line - Hunk line.
+     * @returns True for context and removed lines.
+     */
+    (line) => line.kind !== DiffLineKind.Added,
+  ).length;
+  const newCount = hunkLines.filter(
+    /**
+     * Keeps lines present in the next content.
+     *
+     * @param line - Hunk line.
+     * @returns True for context and added lines.
+     */
+    (line) => line.kind !== DiffLineKind.Removed,
+  ).length;
+  const header = `@@ -${formatHunkRange(first.oldIndex, oldCount)} +${formatHunkRange(first.newIndex, newCount)} @@`;
+  return [
+    header,
+    ...hunkLines.map(
+      /**
+       * Prefixes a hunk line with its diff marker.
+       *
+       * @param line - Hunk line.
+       * @returns Formatted diff line.
+       */
+      (line) => `${line.kind}${line.text}`,
+    ),
+  ].join("\n");
+}
+
+/**
+ * Formats the start and length of one side of a hunk header.
+ *
+ * @param index - Zero-based index of the first hunk line.
+ * @param count - Number of lines on this side.
+ * @returns `start,count`, with the start pointing before the hunk when it is empty.
+ */
+function formatHunkRange(index: number, count: number): string {
+  return `${count === 0 ? index : index + 1},${count}`;
+}
+
+/**
+ * Builds unified diff hunks between two versions of a file.
+ *
+ * Only changed lines and their surrounding context are included, so a
+ * generated section update shows just the touched section.
+ * @param previousContent - Content currently on disk, or undefined for a new file.
+ * @param nextContent - Content that would be written.
+ * @param contextLines - Unchanged lines kept around each change.
+ * @returns Hunks joined by newlines, or an empty string when nothing changed.
+ */
+export function formatUnifiedDiff(
+  previousContent: string | undefined,
+  nextContent: string,
+  contextLines: number = DEFAULT_DIFF_CONTEXT_LINES,
+): string {
+  const lines = buildEditScript(
+    splitLines(previousContent ?? ""),
+    splitLines(nextContent),
+  );
+  return collectHunkRanges(lines, contextLines)
+    .map(formatHunk.bind(undefined, lines))
+    .join("\n");
+}
+
+/**
+ * Splits content into lines, ignoring the final line ending.
+ *
+ * @param content - Text content.
+ * @returns Content lines without line endings.
+ */
+function splitLines(content: string): string[] {
+  if (!content) {
+    return [];
+  }
+  return content.replace(/\r?\n$/, "").split(/\r?\n/);
+}
+
+/**
+ * Walks the longest common subsequence table and reports each edit in order.
+ *
+ * @param oldMiddle - Previous lines between the common prefix and suffix.
+ * @param newMiddle - Next lines between the common prefix and suffix.
+ * @param lengths - Subsequence lengths, row-major with `newMiddle.length + 1` columns.
+ * @param push - Receives each line kind and text in output order.
+ * @returns Nothing.
+ */
+function traceEditScript(
+  oldMiddle: readonly string[],
+  newMiddle: readonly string[],
+  lengths: Readonly<Uint32Array>,
+  push: (kind: DiffLineKind, text: string) => void,
+): void {
+  const width = newMiddle.length + 1;
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      push(DiffLineKind.Context, oldMiddle[i]);
+      i += 1;
+      j += 1;
+    } else if (
+      j >= newMiddle.length ||
+      (i < oldMiddle.length &&
+        lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+    ) {
+      push(DiffLineKind.Removed, oldMiddle[i]);
+      i += 1;
+    } else {
+      push(DiffLineKind.Added, newMiddle[j]);
+      j += 1;
+    }
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Figma URL Manifest Module
+ *
+ * Loads Figma node URL manifests and resolves URLs for component models.
+ *
+ * Manifests are flat JSON objects or flat YAML mappings whose keys are tag
+ * names, class names, or component paths relative to the manifest file.
+ *
+ * @module io/url-manifest
+ */
+
+import assert from "node:assert/strict";
+import path from "node:path";
+
+import type { IComponentModel } from "@/src/core/types";
+import { normalizePath } from "@/src/utils/paths";
+
+import { nodeIoAdapter } from "./adapter";
+import type { IFigmaUrlManifest, IIoAdapter } from "./types";
+
+/** File extensions parsed as YAML manifests. */
+const YAML_EXTENSIONS: readonly string[] = [".yaml", ".yml"];
+
+/** Matches a flat `key: value` YAML line. */
+const YAML_ENTRY_PATTERN = /^("[^"]*"|'[^']*'|[^\s:#][^:]*?)\s*:\s+(.*)$/;
+
+/**
+ * Returns true when a manifest key refers to a component path.
+ *
+ * @param key - Manifest key to inspect.
+ * @returns True when the key contains a path separator or starts with a dot.
+ */
+function isPathKey(key: string): boolean {
+  return key.startsWith(".") || key.includes("/") || key.includes("\\");
+}
+
+/**
+ * Loads a Figma URL manifest from a JSON or YAML file.
+ *
+ * @param filePath - Path to the manifest file.
+ * @param io - IO adapter used to read the file.
+ * @returns Manifest with path keys resolved to normalized absolute paths.
+ * @throws Error when the file is missing or is not a flat string mapping.
+ */
+export function loadFigmaUrlManifest(
+  filePath: string,
+  io: Readonly<IIoAdapter> = nodeIoAdapter,
+): IFigmaUrlManifest {
+  const resolved = path.resolve(filePath);
+  assert(io.exists(resolved), `Figma URL manifest not found: ${filePath}`);
+
+  const content = io.readFile(resolved);
+  const raw = YAML_EXTENSIONS.includes(path.extname(resolved).toLowerCase())
+    ? parseYamlManifest(content, resolved)
+    : parseJsonManifest(content, resolved);
+  const manifestDir = path.dirname(resolved);
+
+  return {
+    filePath: resolved,
+    entries: new Map(
+      Object.entries(raw).map(
+        /**
+         * Normalizes a manifest entry key.
+         *
+         * @param entry - Raw manifest key and URL.
+         * @returns Entry keyed by name or normalized absolute path.
+         */
+        (entry): [string, string] => {
+          const [key, url] = entry;
+          return [
+            isPathKey(key)
+              ? normalizePath(path.resolve(manifestDir, key))
+              : key,
+            url,
+          ];
+        },
+      ),
+    ),
+  };
+}
+
+/**
+ * Looks up the Figma URL for a component model.
+ *
+ * Lookup order is tag name, class name, component file path, then component directory.
+ *
+ * @param manifest - Loaded Figma URL manifest.
+ * @param model - Component model to resolve.
+ * @returns Mapped Figma URL, or undefined when the component is unmapped.
+ */
+export function lookupFigmaUrl(
+  manifest: Readonly<IFigmaUrlManifest>,
+  model: Readonly<IComponentModel>,
+): string | undefined {
+  const candidates = [
+    model.tagName,
+    model.className,
+    normalizePath(path.resolve(model.filePath)),
+    normalizePath(path.resolve(model.componentDir)),
+  ];
+  const key = candidates.find(
+    /**
+     * Checks whether the manifest contains a lookup key.
+     *
+     * @param candidate - Lookup key candidate.
+     * @returns True when the manifest maps the key.
+     */
+    (candidate) => manifest.entries.has(candidate),
+  );
+  return key === undefined ? undefined : manifest.entries.get(key);
+}
+
+/**
+ * Parses a flat JSON manifest object.
+ *
+ * @param content - Manifest file content.
+ * @param filePath - Manifest path used in error messages.
+ * @returns Manifest entries keyed by their raw keys.
+ * @throws Error when the JSON is invalid or contains non-string values.
+ */
+function parseJsonManifest(
+  content: string,
+  filePath: string,
+): Readonly<Record<string, string>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    assert.fail(`Invalid Figma URL manifest ${filePath}: ${message}`);
+  }
+  assert(
+    typeof parsed === "object" && parsed !== null && !Array.isArray(parsed),
+    `Invalid Figma URL manifest ${filePath}: expected an object of URLs.`,
+  );
+  for (const [key, value] of Object.entries(parsed)) {
+    assert(
+      typeof value === "string" && value.trim().length > 0,
+      `Invalid Figma URL manifest ${filePath}: "${key}" must map to a URL string.`,
+    );
+  }
+  return parsed as Readonly<Record<string, string>>;
+}
+
+/**
+ * Parses a flat YAML `key: value` mapping.
+ *
+ * Supports comments, blank lines, and single- or double-quoted keys and values.
+ * Nested mappings and sequences are rejected.
+ *
+ * @param content - Manifest file content.
+ * @param filePath - Manifest path used in error messages.
+ * @returns Manifest entries keyed by their raw keys.
+ * @throws Error when a line is not a flat `key: value` entry.
+ */
+function parseYamlManifest(
+  content: string,
+  filePath: string,
+): Readonly<Record<string, string>> {
+  const entries: Array<[string, string]> = [];
+  content.split(/\r?\n/).forEach(
+    /**
+     * Parses a single manifest line.
+     *
+     * @param line - Raw manifest line.
+     * @param index - Zero-based line index.
+     */
+    (line, index) => {
+      const trimmed = line.trim();
+      if (trimmed.length === 0 || trimmed.startsWith("#") || trimmed === "---") {
+        return;
+      }
+      const match = YAML_ENTRY_PATTERN.exec(line);
+      assert(
+        match && !line.startsWith(" ") && !line.startsWith("\t"),
+        `Invalid Figma URL manifest ${filePath}:${index + 1}: only flat "key: url" entries are supported.`,
+      );
+      const value = unquoteYamlScalar(stripYamlComment(match[2]));
+      assert(
+        value.length > 0,
+        `Invalid Figma URL manifest ${filePath}:${index + 1}: missing URL value.`,
+      );
+      entries.push([unquoteYamlScalar(match[1]), value]);
+    },
+  );
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Removes a trailing ` # comment` from an unquoted YAML scalar.
+ *
+ * @param value - Raw YAML scalar text.
+ * @returns Scalar text without a trailing comment.
+ */
+function stripYamlComment(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"') || trimmed.startsWith("'")) {
+    return trimmed;
+  }
+  const commentIndex = trimmed.search(/\s#/);
+  return commentIndex >= 0 ? trimmed.slice(0, commentIndex).trim() : trimmed;
+}
+
+/**
+ * Removes matching surrounding quotes from a YAML scalar.
+ *
+ * @param value - YAML scalar text.
+ * @returns Unquoted scalar value.
+ */
+function unquoteYamlScalar(value: string): string {
+  const trimmed = value.trim();
+  const quote = trimmed[0];
+  if ((quote === '"' || quote === "'") && trimmed.endsWith(quote)) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
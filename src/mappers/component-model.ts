@@ -24,8 +24,11 @@
 
 import type {
   IComponentModel,
+  ICssPartDescriptor,
+  ICssPropertyDescriptor,
   IEventDescriptor,
   IPropertyDescriptor,
+  ISlotDescriptor,
 } from "@/src/core/types";
 import { normalizedBasename, normalizePath } from "@/src/utils/paths";
 
@@ -41,6 +44,9 @@ export interface IComponentModelInput {
   readonly componentDir: string;
   readonly props: readonly IPropertyDescriptor[];
   readonly events: readonly IEventDescriptor[];
+  readonly slots?: readonly ISlotDescriptor[];
+  readonly cssProperties?: readonly ICssPropertyDescriptor[];
+  readonly cssParts?: readonly ICssPartDescriptor[];
 }
 
 /**
@@ -78,6 +84,9 @@ export function mapComponentModel(input: Readonly<IComponentModelInput>): ICompo
     props,
     attributes: mapPropertiesToAttributes(props),
     events,
+    slots: input.slots ?? [],
+    cssProperties: input.cssProperties ?? [],
+    cssParts: input.cssParts ?? [],
     importPath: deriveImportPath(input.componentDir),
   };
 }
@@ -0,0 +1,486 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * CEM Declaration Mapper
+ *
+ * Converts custom element declarations from a Custom Elements Manifest into
+ * the normalized component model used by emitters.
+ *
+ * @module parsers/cem/declaration-mapper
+ */
+
+import path from "node:path";
+
+import {
+  FigmaPropertyType,
+  type IComponentModel,
+  type ICssPartDescriptor,
+  type ICssPropertyDescriptor,
+  type IEventDescriptor,
+  type IPropertyDescriptor,
+  type ISlotDescriptor,
+  PropertyVisibility,
+} from "@/src/core/types";
+import { mapComponentModel } from "@/src/mappers/component-model";
+import { deriveReactHandler } from "@/src/parsers/webcomponent/event-extractor";
+import {
+  createSlotDescriptor,
+  getSlotMappingWarning,
+} from "@/src/parsers/webcomponent/slot-extractor";
+import { toCamelCase } from "@/src/utils/strings";
+
+import type {
+  ICemAttribute,
+  ICemClassMember,
+  ICemCssPart,
+  ICemCssProperty,
+  ICemDeclaration,
+  ICemEvent,
+  ICemSlot,
+} from "./types";
+
+const CEM_FIELD_KIND = "field";
+const CUSTOM_EVENT_DETAIL_PATTERN = /^CustomEvent<([\s\S]+)>$/;
+const NULLISH_TYPE_MEMBERS: ReadonlySet<string> = new Set(["null", "undefined"]);
+const NUMERIC_LITERAL_PATTERN = /^-?\d+(?:\.\d+)?$/;
+const STRING_LITERAL_PATTERN = /^(['"`])([\s\S]*)\1$/;
+const TAG_NAME_PROPERTY_SUFFIX = "tagname";
+
+/**
+ * Declaration paired with the module path and tag name it is registered under.
+ */
+export interface ICemComponentSource {
+  readonly declaration: ICemDeclaration;
+  readonly filePath: string;
+  readonly tagName: string;
+}
+
+/**
+ * Documented item with optional description and summary text.
+ */
+interface ICemDocumented {
+  readonly description?: string;
+  readonly summary?: string;
+}
+
+/**
+ * Collects properties from attribute-backed fields and field-less attributes.
+ *
+ * @param declaration - Custom element declaration.
+ * @returns Property descriptors in declaration order.
+ */
+function collectProperties(
+  declaration: Readonly<ICemDeclaration>,
+): IPropertyDescriptor[] {
+  const attributes = declaration.attributes ?? [];
+  const attributesByField = new Map(
+    attributes
+      .filter(hasFieldName)
+      .map(
+        /**
+         * Keys an attribute by the field it backs.
+         *
+         * @param attribute - Attribute with a field name.
+         * @returns Field name and attribute entry.
+         */
+        (attribute): [string, ICemAttribute] => [
+          attribute.fieldName ?? attribute.name,
+          attribute,
+        ],
+      ),
+  );
+  const fieldNames = new Set<string>();
+  const fromFields = (declaration.members ?? []).flatMap(
+    /**
+     * Converts a public, attribute-backed field to a property descriptor.
+     *
+     * @param member - Class member candidate.
+     * @returns Single-item list with the property, or an empty list.
+     */
+    (member) => {
+      const attribute = attributesByField.get(member.name);
+      if (!isReactiveField(member, attribute)) {
+        return [];
+      }
+      fieldNames.add(member.name);
+      return [mapFieldToProperty(member, attribute)];
+    },
+  );
+  const fromAttributes = attributes
+    .filter(
+      /**
+       * Keeps attributes not already covered by a field.
+       *
+       * @param attribute - Attribute candidate.
+       * @returns True when no field produced a property for the attribute.
+       */
+      (attribute) =>
+        !fieldNames.has(attribute.fieldName ?? toCamelCase(attribute.name)),
+    )
+    .map(mapAttributeToProperty);
+  return [...fromFields, ...fromAttributes];
+}
+
+/**
+ * Returns the documentation text of a manifest entry.
+ *
+ * @param item - Manifest entry with description and summary.
+ * @returns Description, falling back to the summary, or null when absent.
+ */
+function getDoc(item: Readonly<ICemDocumented>): string | null {
+  return item.description?.trim() || item.summary?.trim() || null;
+}
+
+/**
+ * Returns warnings for slots whose descriptions name unknown Figma mappings.
+ *
+ * @param source - Declaration with its resolved tag name.
+ * @returns Warnings prefixed with the declaration and module path.
+ */
+export function getCemSlotWarnings(source: Readonly<ICemComponentSource>): string[] {
+  return (source.declaration.slots ?? []).flatMap(
+    /**
+     * Builds the warning for a single manifest slot, if any.
+     *
+     * @param slot - Manifest slot.
+     * @returns Prefixed warning, or an empty list when the slot is valid.
+     */
+    (slot) => {
+      const warning = getSlotMappingWarning(slot.name, getDoc(slot));
+      return warning ? [`${source.declaration.name} (${source.tagName}): ${warning}`] : [];
+    },
+  );
+}
+
+/**
+ * Narrows attributes to those naming the field they back.
+ *
+ * @param attribute - Attribute candidate.
+ * @returns True when the attribute has a field name.
+ */
+function hasFieldName(attribute: Readonly<ICemAttribute>): boolean {
+  return attribute.fieldName !== undefined;
+}
+
+/**
+ * Narrows named events.
+ *
+ * @param event - Event candidate.
+ * @returns True when the event has a name.
+ */
+function hasEventName(
+  event: Readonly<ICemEvent>,
+): event is ICemEvent & { readonly name: string } {
+  return Boolean(event.name);
+}
+
+/**
+ * Returns true when a member is a public or protected instance field backed by an attribute.
+ *
+ * @param member - Class member candidate.
+ * @param attribute - Attribute backed by the member, if any.
+ * @returns True when the member should become a component property.
+ */
+function isReactiveField(
+  member: Readonly<ICemClassMember>,
+  attribute: Readonly<ICemAttribute> | undefined,
+): boolean {
+  return (
+    member.kind === CEM_FIELD_KIND &&
+    !member.static &&
+    member.privacy !== "private" &&
+    (member.attribute !== undefined || attribute !== undefined)
+  );
+}
+
+/**
+ * Converts an attribute without a backing field to a property descriptor.
+ *
+ * @param attribute - Manifest attribute.
+ * @returns Property descriptor named after the camel-cased attribute.
+ */
+function mapAttributeToProperty(
+  attribute: Readonly<ICemAttribute>,
+): IPropertyDescriptor {
+  const name = attribute.fieldName ?? toCamelCase(attribute.name);
+  return createPropertyDescriptor(name, attribute.type?.text, {
+    attribute: attribute.name,
+    reflect: false,
+    defaultValue: attribute.default,
+    doc: getDoc(attribute),
+    visibility: PropertyVisibility.Public,
+  });
+}
+
+/**
+ * Builds a component model from a custom element declaration.
+ *
+ * @param source - Declaration with its module path and tag name.
+ * @returns Normalized component model.
+ */
+export function mapCemDeclaration(
+  source: Readonly<ICemComponentSource>,
+): IComponentModel {
+  const { declaration, filePath, tagName } = source;
+  return mapComponentModel({
+    className: declaration.name,
+    tagName,
+    filePath,
+    componentDir: path.dirname(filePath),
+    props: collectProperties(declaration),
+    events: (declaration.events ?? []).filter(hasEventName).map(mapEvent),
+    slots: (declaration.slots ?? []).map(mapSlot),
+    cssProperties: (declaration.cssProperties ?? []).map(mapCssProperty),
+    cssParts: (declaration.cssParts ?? []).map(mapCssPart),
+  });
+}
+
+/**
+ * Converts a manifest CSS part to a part descriptor.
+ *
+ * @param part - Manifest CSS part.
+ * @returns CSS part descriptor.
+ */
+function mapCssPart(part: Readonly<ICemCssPart>): ICssPartDescriptor {
+  return { name: part.name, doc: getDoc(part) };
+}
+
+/**
+ * Converts a manifest CSS custom property to a custom property descriptor.
+ *
+ * @param property - Manifest CSS custom property.
+ * @returns CSS custom property descriptor.
+ */
+function mapCssProperty(
+  property: Readonly<ICemCssProperty>,
+): ICssPropertyDescriptor {
+  return {
+    name: property.name,
+    defaultValue: property.default?.trim() || null,
+    doc: getDoc(property),
+  };
+}
+
+/**
+ * Converts a named manifest event to an event descriptor.
+ *
+ * @param event - Manifest event with a name.
+ * @returns Event descriptor with a derived React handler.
+ */
+function mapEvent(
+  event: Readonly<ICemEvent & { readonly name: string }>,
+): IEventDescriptor {
+  const detailMatch = CUSTOM_EVENT_DETAIL_PATTERN.exec(
+    event.type?.text.trim() ?? "",
+  );
+  return {
+    name: event.name,
+    reactHandler: deriveReactHandler(event.name, getDoc(event) ?? undefined),
+    detailType: detailMatch?.[1].trim() ?? null,
+  };
+}
+
+/**
+ * Converts an attribute-backed field to a property descriptor.
+ *
+ * @param member - Manifest field.
+ * @param attribute - Attribute backed by the field, if listed separately.
+ * @returns Property descriptor.
+ */
+function mapFieldToProperty(
+  member: Readonly<ICemClassMember>,
+  attribute: Readonly<ICemAttribute> | undefined,
+): IPropertyDescriptor {
+  return createPropertyDescriptor(
+    member.name,
+    member.type?.text ?? attribute?.type?.text,
+    {
+      attribute: member.attribute ?? attribute?.name ?? null,
+      reflect: member.reflects ?? false,
+      defaultValue: member.default ?? attribute?.default,
+      doc: getDoc(member) ?? (attribute ? getDoc(attribute) : null),
+      visibility:
+        member.privacy === "protected"
+          ? PropertyVisibility.Protected
+          : PropertyVisibility.Public,
+    },
+  );
+}
+
+/**
+ * Converts a manifest slot to a slot descriptor.
+ *
+ * @param slot - Manifest slot.
+ * @returns Slot descriptor with the inferred or overridden Figma mapping.
+ */
+function mapSlot(slot: Readonly<ICemSlot>): ISlotDescriptor {
+  return createSlotDescriptor(slot.name, getDoc(slot));
+}
+
+/**
+ * Creates a property descriptor from a manifest type annotation.
+ *
+ * @param name - Property name.
+ * @param typeText - Manifest type text, if any.
+ * @param details - Attribute, reflection, default, doc, and visibility details.
+ * @param details.attribute - Backing attribute name, or null when none.
+ * @param details.reflect - Whether the property reflects to its attribute.
+ * @param details.defaultValue - Raw default value text.
+ * @param details.doc - Documentation text.
+ * @param details.visibility - Property visibility.
+ * @returns Property descriptor.
+ */
+function createPropertyDescriptor(
+  name: string,
+  typeText: string | undefined,
+  details: Readonly<{
+    attribute: string | null;
+    reflect: boolean;
+    defaultValue: string | undefined;
+    doc: string | null;
+    visibility: PropertyVisibility;
+  }>,
+): IPropertyDescriptor {
+  const tsType = typeText?.trim() || FigmaPropertyType.Unknown;
+  const enumValues = parseStringLiteralUnion(tsType);
+  const type = resolveFigmaType(tsType, enumValues, name);
+  return {
+    name,
+    attribute: details.attribute,
+    type,
+    tsType,
+    reflect: details.reflect,
+    defaultValue: parseDefaultValue(details.defaultValue),
+    doc: details.doc,
+    visibility: details.visibility,
+    ...(type === FigmaPropertyType.Enum ? { enumValues } : {}),
+  };
+}
+
+/**
+ * Parses a manifest default value into a literal when possible.
+ *
+ * @param value - Raw default value text.
+ * @returns Literal value, the original text for expressions, or null when absent.
+ */
+function parseDefaultValue(
+  value: string | undefined,
+): string | number | boolean | null {
+  const text = value?.trim();
+  if (!text) {
+    return null;
+  }
+  const stringMatch = STRING_LITERAL_PATTERN.exec(text);
+  if (stringMatch) {
+    return stringMatch[2];
+  }
+  if (text === "true" || text === "false") {
+    return text === "true";
+  }
+  return NUMERIC_LITERAL_PATTERN.test(text) ? Number(text) : text;
+}
+
+/**
+ * Extracts string literal members from a union type annotation.
+ *
+ * @param typeText - Manifest type text.
+ * @returns String values when every non-nullish member is a string literal, otherwise an empty list.
+ */
+function parseStringLiteralUnion(typeText: string): string[] {
+  const members = splitUnionMembers(typeText);
+  const literals = members
+    .map(
+      /**
+       * Extracts the value of a string literal type member.
+       *
+       * @param member - Union member text.
+       * @returns String value, or undefined for non-literal members.
+       */
+      (member) => STRING_LITERAL_PATTERN.exec(member)?.[2],
+    )
+    .filter(
+      /**
+       * Narrows to defined literal values.
+       *
+       * @param literal - Candidate literal value.
+       * @returns True when the value is defined.
+       */
+      (literal): literal is string => literal !== undefined,
+    );
+  return literals.length > 0 && literals.length === members.length
+    ? literals
+    : [];
+}
+
+/**
+ * Resolves the Figma property type from a manifest type annotation.
+ *
+ * @param tsType - Manifest type text.
+ * @param enumValues - String literal union values, if any.
+ * @param propertyName - Property name used for tag-name heuristics.
+ * @returns Resolved Figma property type.
+ */
+function resolveFigmaType(
+  tsType: string,
+  enumValues: readonly string[],
+  propertyName: string,
+): FigmaPropertyType {
+  if (enumValues.length > 0) {
+    return propertyName.toLowerCase().endsWith(TAG_NAME_PROPERTY_SUFFIX)
+      ? FigmaPropertyType.String
+      : FigmaPropertyType.Enum;
+  }
+  const members = splitUnionMembers(tsType);
+  const member = members.length === 1 ? members[0] : undefined;
+  if (member === FigmaPropertyType.String) {
+    return FigmaPropertyType.String;
+  }
+  if (member === FigmaPropertyType.Number) {
+    return FigmaPropertyType.Number;
+  }
+  return member === FigmaPropertyType.Boolean
+    ? FigmaPropertyType.Boolean
+    : FigmaPropertyType.Unknown;
+}
+
+/**
+ * Splits a union type annotation into its non-nullish members.
+ *
+ * @param typeText - Manifest type text.
+ * @returns Trimmed members, excluding `null` and `undefined`.
+ */
+function splitUnionMembers(typeText: string): string[] {
+  return typeText
+    .split("|")
+    .map(
+      /**
+       * Trims a union member.
+       *
+       * @param member - Raw union member.
+       * @returns Trimmed member.
+       */
+      (member) => member.trim(),
+    )
+    .filter(
+      /**
+       * Drops empty and nullish members.
+       *
+       * @param member - Trimmed union member.
+       * @returns True for members other than `null` and `undefined`.
+       */
+      (member) => member !== "" && !NULLISH_TYPE_MEMBERS.has(member),
+    );
+}
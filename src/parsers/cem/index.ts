@@ -0,0 +1,45 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * CEM Parser Index
+ *
+ * Re-exports the Custom Elements Manifest parser and supporting utilities.
+ *
+ * @module parsers/cem
+ */
+
+export { CemParser, parseCustomElementsManifest } from "./parser";
+export { mapCemDeclaration } from "./declaration-mapper";
+export type { ICemComponentSource } from "./declaration-mapper";
+export {
+  CEM_FILE_NAME,
+  readCustomElementsManifest,
+  resolveManifestPath,
+} from "./manifest-loader";
+export type {
+  ICemAttribute,
+  ICemClassMember,
+  ICemCssPart,
+  ICemCssProperty,
+  ICemDeclaration,
+  ICemEvent,
+  ICemExport,
+  ICemModule,
+  ICemReference,
+  ICemSlot,
+  ICemType,
+  ICustomElementsManifest,
+} from "./types";
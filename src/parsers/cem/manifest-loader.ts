@@ -0,0 +1,166 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * Custom Elements Manifest Loader
+ *
+ * Locates and reads `custom-elements.json` files for the CEM parser.
+ *
+ * @module parsers/cem/manifest-loader
+ */
+
+import path from "node:path";
+
+import { createResult, type IResult } from "@/src/core/result";
+import type { IIoAdapter } from "@/src/io/types";
+
+import type { ICustomElementsManifest } from "./types";
+
+/** Conventional manifest file name written by `@custom-elements-manifest/analyzer`. */
+export const CEM_FILE_NAME = "custom-elements.json";
+
+/** Package manifest that may point at the custom elements manifest. */
+const PACKAGE_JSON_FILE_NAME = "package.json";
+
+/**
+ * Creates a failed manifest read result.
+ *
+ * @param error - Error message to report.
+ * @returns Result without a manifest.
+ */
+function createManifestError(
+  error: string,
+): IResult<ICustomElementsManifest | undefined> {
+  return createResult<ICustomElementsManifest | undefined>(undefined, [], [
+    error,
+  ]);
+}
+
+/**
+ * Returns true when a parsed value has the root shape of a manifest.
+ *
+ * @param value - Parsed JSON value.
+ * @returns True when the value has a `modules` array.
+ */
+function isCustomElementsManifest(
+  value: unknown,
+): value is ICustomElementsManifest {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as { modules?: unknown }).modules)
+  );
+}
+
+/**
+ * Returns true when an input path is an existing file.
+ *
+ * @param inputPath - Path to inspect.
+ * @param io - IO adapter used for filesystem access.
+ * @returns True when the path exists and is not a directory.
+ */
+function isExistingFile(inputPath: string, io: Readonly<IIoAdapter>): boolean {
+  return io.exists(inputPath) && (io.stat?.(inputPath).isFile() ?? true);
+}
+
+/**
+ * Reads and validates a custom elements manifest.
+ *
+ * @param manifestPath - Absolute manifest path.
+ * @param io - IO adapter used to read the file.
+ * @returns Result carrying the manifest, or errors when it cannot be read.
+ */
+export function readCustomElementsManifest(
+  manifestPath: string,
+  io: Readonly<IIoAdapter>,
+): IResult<ICustomElementsManifest | undefined> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(io.readFile(manifestPath));
+  } catch (error) {
+    return createManifestError(
+      `Invalid custom elements manifest ${manifestPath}: ${(error as Error).message}`,
+    );
+  }
+
+  if (!isCustomElementsManifest(parsed)) {
+    return createManifestError(
+      `Invalid custom elements manifest ${manifestPath}: expected a "modules" array.`,
+    );
+  }
+  return createResult<ICustomElementsManifest | undefined>(parsed);
+}
+
+/**
+ * Resolves the manifest path for a CEM parser input.
+ *
+ * Files are used as-is. For directories, the `customElements` field of
+ * `package.json` is used when present, otherwise `custom-elements.json`.
+ *
+ * @param inputPath - Manifest file or package directory.
+ * @param io - IO adapter used for filesystem access.
+ * @returns Absolute manifest path, or undefined when no manifest exists.
+ */
+export function resolveManifestPath(
+  inputPath: string,
+  io: Readonly<IIoAdapter>,
+): string | undefined {
+  const resolved = path.resolve(inputPath);
+  if (isExistingFile(resolved, io)) {
+    return resolved;
+  }
+
+  const candidates = [
+    resolvePackageManifestPath(resolved, io),
+    path.join(resolved, CEM_FILE_NAME),
+  ];
+  return candidates.find(
+    /**
+     * Checks whether a candidate manifest exists.
+     *
+     * @param candidate - Candidate manifest path.
+     * @returns True when the candidate exists.
+     */
+    (candidate): candidate is string =>
+      candidate !== undefined && io.exists(candidate),
+  );
+}
+
+/**
+ * Resolves the manifest referenced by `package.json#customElements`.
+ *
+ * @param packageDir - Package directory.
+ * @param io - IO adapter used for filesystem access.
+ * @returns Referenced manifest path, or undefined when not declared.
+ */
+function resolvePackageManifestPath(
+  packageDir: string,
+  io: Readonly<IIoAdapter>,
+): string | undefined {
+  const packageJsonPath = path.join(packageDir, PACKAGE_JSON_FILE_NAME);
+  if (!io.exists(packageJsonPath)) {
+    return undefined;
+  }
+  try {
+    const { customElements } = JSON.parse(io.readFile(packageJsonPath)) as {
+      readonly customElements?: unknown;
+    };
+    return typeof customElements === "string"
+      ? path.resolve(packageDir, customElements)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
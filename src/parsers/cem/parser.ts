@@ -0,0 +1,241 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * Custom Elements Manifest Parser
+ *
+ * Builds component models from a `custom-elements.json` manifest without
+ * loading a TypeScript program, so packages that only ship `dist/` can be
+ * connected.
+ *
+ * @module parsers/cem/parser
+ */
+
+import path from "node:path";
+
+import { createResult } from "@/src/core/result";
+import type { IComponentModel } from "@/src/core/types";
+import {
+  type IManifestParseContext,
+  type IParseContext,
+  type IParser,
+  type ManifestParserResult,
+  ParserTarget,
+  type ParserResult,
+} from "@/src/parsers/types";
+
+import {
+  getCemSlotWarnings,
+  type ICemComponentSource,
+  mapCemDeclaration,
+} from "./declaration-mapper";
+import {
+  readCustomElementsManifest,
+  resolveManifestPath,
+} from "./manifest-loader";
+import type {
+  ICemDeclaration,
+  ICemExport,
+  ICemModule,
+  ICustomElementsManifest,
+} from "./types";
+
+const CEM_CLASS_KIND = "class";
+const CEM_DEFINITION_EXPORT_KIND = "custom-element-definition";
+
+interface ICemSourceCollection {
+  readonly sources: readonly ICemComponentSource[];
+  readonly warnings: readonly string[];
+}
+
+/**
+ * Builds the lookup key for a declaration within a module.
+ *
+ * @param modulePath - Manifest module path.
+ * @param declarationName - Declaration name.
+ * @returns Lookup key.
+ */
+function buildDeclarationKey(
+  modulePath: string,
+  declarationName: string,
+): string {
+  return `${path.posix.normalize(modulePath)}#${declarationName}`;
+}
+
+/**
+ * Collects custom element declarations and their tag names.
+ *
+ * @param manifest - Parsed manifest.
+ * @param manifestDir - Directory module paths are relative to.
+ * @returns Component sources and warnings for declarations without tag names.
+ */
+function collectComponentSources(
+  manifest: Readonly<ICustomElementsManifest>,
+  manifestDir: string,
+): ICemSourceCollection {
+  const definedTagNames = collectDefinedTagNames(manifest.modules);
+  const sources: ICemComponentSource[] = [];
+  const warnings: string[] = [];
+
+  for (const module of manifest.modules) {
+    for (const declaration of (module.declarations ?? []).filter(
+      isCustomElementDeclaration,
+    )) {
+      const tagName =
+        declaration.tagName ??
+        definedTagNames.get(buildDeclarationKey(module.path, declaration.name));
+      if (!tagName) {
+        warnings.push(
+          `Skipping ${declaration.name} in ${module.path}: no tag name in the custom elements manifest.`,
+        );
+        continue;
+      }
+      sources.push({
+        declaration,
+        filePath: path.resolve(manifestDir, module.path),
+        tagName,
+      });
+    }
+  }
+
+  return { sources, warnings };
+}
+
+/**
+ * Maps declarations to the tag names they are registered under via
+ * `custom-element-definition` exports.
+ *
+ * @param modules - Manifest modules.
+ * @returns Tag names keyed by module path and declaration name.
+ */
+function collectDefinedTagNames(
+  modules: readonly ICemModule[],
+): ReadonlyMap<string, string> {
+  return new Map(
+    modules.flatMap(
+      /**
+       * Collects the definition exports of a module.
+       *
+       * @param module - Manifest module.
+       * @returns Declaration keys paired with tag names.
+       */
+      (module) =>
+        (module.exports ?? []).filter(isDefinitionExport).map(
+          /**
+           * Keys a definition export by the declaration it registers.
+           *
+           * @param definition - Custom element definition export.
+           * @returns Declaration key and tag name.
+           */
+          (definition): [string, string] => [
+            buildDeclarationKey(
+              definition.declaration.module ?? module.path,
+              definition.declaration.name,
+            ),
+            definition.name,
+          ],
+        ),
+    ),
+  );
+}
+
+/**
+ * Returns true when a declaration describes a custom element class.
+ *
+ * @param declaration - Manifest declaration.
+ * @returns True for classes flagged as custom elements or carrying a tag name.
+ */
+function isCustomElementDeclaration(
+  declaration: Readonly<ICemDeclaration>,
+): boolean {
+  return (
+    declaration.kind === CEM_CLASS_KIND &&
+    (declaration.customElement === true || declaration.tagName !== undefined)
+  );
+}
+
+/**
+ * Returns true when an export registers a custom element.
+ *
+ * @param moduleExport - Manifest export.
+ * @returns True for `custom-element-definition` exports.
+ */
+function isDefinitionExport(moduleExport: Readonly<ICemExport>): boolean {
+  return moduleExport.kind === CEM_DEFINITION_EXPORT_KIND;
+}
+
+/**
+ * Reads a custom elements manifest and builds a model for every custom element.
+ *
+ * @param manifestContext - Manifest input path and IO adapter.
+ * @returns Parsed models with warnings, or errors when the manifest cannot be read.
+ */
+export function parseCustomElementsManifest(
+  manifestContext: Readonly<IManifestParseContext>,
+): ManifestParserResult {
+  const { inputPath, io } = manifestContext;
+  const manifestPath = resolveManifestPath(inputPath, io);
+  if (!manifestPath) {
+    return createResult(undefined, [], [
+      `Custom elements manifest not found at: ${inputPath}`,
+    ]);
+  }
+
+  const manifestResult = readCustomElementsManifest(manifestPath, io);
+  if (!manifestResult.value) {
+    return createResult(undefined, manifestResult.warnings, manifestResult.errors);
+  }
+
+  const { sources, warnings } = collectComponentSources(
+    manifestResult.value,
+    path.dirname(manifestPath),
+  );
+  const models: IComponentModel[] = sources.map(mapCemDeclaration);
+  return createResult({ manifestPath, models }, [
+    ...warnings,
+    ...sources.flatMap(getCemSlotWarnings),
+  ]);
+}
+
+/**
+ * IParser strategy for Custom Elements Manifests.
+ */
+export class CemParser implements IParser {
+  readonly target = ParserTarget.Cem;
+
+  /**
+   * Rejects per-file parsing; CEM components are read with `parseManifest`.
+   *
+   * @param parseContext - Parse context for the source file.
+   * @returns Parse result with an error.
+   */
+  parse(parseContext: Readonly<IParseContext>): ParserResult {
+    return createResult<IComponentModel | undefined>(undefined, [], [
+      `The cem parser reads custom-elements.json manifests and cannot parse ${parseContext.filePath}.`,
+    ]);
+  }
+
+  /**
+   * Parses every custom element declared in a manifest.
+   *
+   * @param manifestContext - Manifest input path and IO adapter.
+   * @returns Parsed models and diagnostics.
+   */
+  parseManifest(
+    manifestContext: Readonly<IManifestParseContext>,
+  ): ManifestParserResult {
+    return parseCustomElementsManifest(manifestContext);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+/**
+ * Custom Elements Manifest Types
+ *
+ * Describes the subset of the Custom Elements Manifest schema
+ * (`custom-elements.json`) read by the CEM parser and written by the CEM emitter.
+ *
+ * @module parsers/cem/types
+ */
+
+/**
+ * Type annotation recorded in the manifest.
+ */
+export interface ICemType {
+  readonly text: string;
+}
+
+/**
+ * Class member (field or method) of a declaration.
+ */
+export interface ICemClassMember {
+  readonly kind: string;
+  readonly name: string;
+  readonly type?: ICemType;
+  readonly default?: string;
+  readonly description?: string;
+  readonly summary?: string;
+  readonly privacy?: "public" | "private" | "protected";
+  readonly static?: boolean;
+  readonly attribute?: string;
+  readonly reflects?: boolean;
+}
+
+/**
+ * HTML attribute declared by a custom element.
+ */
+export interface ICemAttribute {
+  readonly name: string;
+  readonly type?: ICemType;
+  readonly default?: string;
+  readonly description?: string;
+  readonly summary?: string;
+  readonly fieldName?: string;
+}
+
+/**
+ * Event dispatched by a custom element.
+ */
+export interface ICemEvent {
+  readonly name?: string;
+  readonly type?: ICemType;
+  readonly description?: string;
+  readonly summary?: string;
+}
+
+/**
+ * Slot exposed by a custom element.
+ */
+export interface ICemSlot {
+  readonly name: string;
+  readonly description?: string;
+  readonly summary?: string;
+}
+
+/**
+ * CSS custom property exposed by a custom element.
+ */
+export interface ICemCssProperty {
+  readonly name: string;
+  readonly default?: string;
+  readonly description?: string;
+  readonly summary?: string;
+}
+
+/**
+ * CSS shadow part exposed by a custom element.
+ */
+export interface ICemCssPart {
+  readonly name: string;
+  readonly description?: string;
+  readonly summary?: string;
+}
+
+/**
+ * Declaration within a module; custom elements are class declarations.
+ */
+export interface ICemDeclaration {
+  readonly kind: string;
+  readonly name: string;
+  readonly customElement?: boolean;
+  readonly tagName?: string;
+  readonly description?: string;
+  readonly summary?: string;
+  readonly members?: readonly ICemClassMember[];
+  readonly attributes?: readonly ICemAttribute[];
+  readonly events?: readonly ICemEvent[];
+  readonly slots?: readonly ICemSlot[];
+  readonly cssProperties?: readonly ICemCssProperty[];
+  readonly cssParts?: readonly ICemCssPart[];
+}
+
+/**
+ * Reference from an export to the declaration it exposes.
+ */
+export interface ICemReference {
+  readonly name: string;
+  readonly module?: string;
+}
+
+/**
+ * Module export, including `customElements.define(...)` definitions.
+ */
+export interface ICemExport {
+  readonly kind: string;
+  readonly name: string;
+  readonly declaration: ICemReference;
+}
+
+/**
+ * JavaScript module described by the manifest.
+ */
+export interface ICemModule {
+  readonly kind: string;
+  readonly path: string;
+  readonly declarations?: readonly ICemDeclaration[];
+  readonly exports?: readonly ICemExport[];
+}
+
+/**
+ * Root of a `custom-elements.json` file.
+ */
+export interface ICustomElementsManifest {
+  readonly schemaVersion: string;
+  readonly modules: readonly ICemModule[];
+}
+
+export type CemType = ICemType;
+export type CemClassMember = ICemClassMember;
+export type CemAttribute = ICemAttribute;
+export type CemEvent = ICemEvent;
+export type CemSlot = ICemSlot;
+export type CemCssProperty = ICemCssProperty;
+export type CemCssPart = ICemCssPart;
+export type CemDeclaration = ICemDeclaration;
+export type CemReference = ICemReference;
+export type CemExport = ICemExport;
+export type CemModule = ICemModule;
+export type CustomElementsManifest = ICustomElementsManifest;
@@ -30,6 +30,7 @@
 
 import { RegistryFactory } from "@/src/core/registry-factory";
 
+import { CemParser } from "./cem";
 import { type IParser, ParserTarget } from "./types";
 import { WebComponentParser } from "./webcomponent";
 
@@ -99,8 +100,28 @@ const parserFactory = new ParserFactoryImpl([
       },
     },
   ],
+  [
+    ParserTarget.Cem,
+    {
+      factory: createCemParser,
+      metadata: {
+        displayName: "Custom Elements Manifest",
+        description:
+          "Reads components from a custom-elements.json manifest without compiling sources",
+        filePatterns: ["custom-elements.json"],
+      },
+    },
+  ],
 ]);
 
+/**
+ * Creates the built-in Custom Elements Manifest parser instance.
+ * @returns CEM parser implementation.
+ */
+function createCemParser(): IParser {
+  return new CemParser();
+}
+
 /**
  * Creates the built-in Web Component parser instance.
  * @returns Web Component parser implementation.
@@ -29,5 +29,14 @@ export {
   getParserMetadata,
   listParserTargets,
 } from './factory';
-export type { IParseContext, IParser, ParserResult, ParserTarget } from './types';
+export type {
+  IManifestParseContext,
+  IManifestParseOutput,
+  IParseContext,
+  IParser,
+  ManifestParserResult,
+  ParserResult,
+  ParserTarget,
+} from './types';
+export * from './cem';
 export * from './webcomponent';
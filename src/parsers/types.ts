@@ -24,7 +24,8 @@
 
 import type { IResult } from '@/src/core/result';
 
-import type { IComponentModel } from '@/src/core/types';
+import type { IComponentModel, ITagNamespaceSettings } from '@/src/core/types';
+import type { IIoAdapter } from '@/src/io/types';
 import ts from 'typescript';
 
 /**
@@ -32,6 +33,7 @@ import ts from 'typescript';
  */
 export enum ParserTarget {
   WebComponent = 'webcomponent',
+  Cem = 'cem',
 }
 
 /**
@@ -44,6 +46,7 @@ export interface IParseContext {
   readonly componentDir: string;
   readonly checker: ts.TypeChecker;
   readonly strict?: boolean;
+  readonly tagNamespace?: ITagNamespaceSettings;
 }
 
 /**
@@ -51,10 +54,38 @@ export interface IParseContext {
  */
 export type ParserResult = IResult<IComponentModel | undefined>;
 
+/**
+ * Context used by parsers that read components from a manifest instead of
+ * TypeScript sources.
+ */
+export interface IManifestParseContext {
+  /** Manifest file, or a directory to locate the manifest in. */
+  readonly inputPath: string;
+  readonly io: IIoAdapter;
+}
+
+/**
+ * Component models read from a manifest.
+ */
+export interface IManifestParseOutput {
+  readonly manifestPath: string;
+  readonly models: readonly IComponentModel[];
+}
+
+/**
+ * Result type for manifest parser output.
+ */
+export type ManifestParserResult = IResult<IManifestParseOutput | undefined>;
+
 /**
  * IParser interface for registry-based factories.
  */
 export interface IParser {
   readonly target: ParserTarget;
   parse(parseContext: IParseContext): ParserResult;
+  /**
+   * Reads every component from a manifest. Parsers that implement this are
+   * run without file discovery or TypeScript program loading.
+   */
+  parseManifest?(manifestContext: IManifestParseContext): ManifestParserResult;
 }
@@ -0,0 +1,217 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * CSS Extractor Module
+ *
+ * Extracts CSS custom properties and CSS shadow parts from class-level
+ * `@cssproperty` and `@csspart` JSDoc tags.
+ *
+ * @module parsers/webcomponent/css-extractor
+ */
+
+import type {
+  ICssPartDescriptor,
+  ICssPropertyDescriptor,
+} from "@/src/core/types";
+import type {
+  CssPartExtractionResult,
+  CssPropertyExtractionResult,
+} from "@/src/parsers/webcomponent/types";
+import { getJSDocTagText } from "@/src/utils/ts";
+import ts from "typescript";
+
+import { extractFromChain } from "./shared/chain-extractor";
+
+const JSDOC_CSS_PROPERTY_TAGS = new Set(["cssproperty", "cssprop"]);
+const JSDOC_CSS_PART_TAG = "csspart";
+const JSDOC_CSS_PROPERTY_PATTERN =
+  /^(?:\[\s*(--[\w-]+)\s*(?:=\s*([^\]]*?))?\s*\]|(--[\w-]+))\s*(?:-\s*)?([\s\S]*)$/;
+const JSDOC_CSS_PART_PATTERN = /^([\w-]+)\s*(?:-\s*)?([\s\S]*)$/;
+
+/**
+ * Extracts CSS shadow parts from a single class declaration.
+ *
+ * @param classDeclaration - Class declaration to inspect.
+ * @returns Extracted parts and any warnings.
+ */
+export function extractCssParts(
+  classDeclaration: Readonly<ts.ClassLikeDeclaration>,
+): CssPartExtractionResult {
+  return {
+    items: ts
+      .getJSDocTags(classDeclaration)
+      .filter(isCssPartTag)
+      .flatMap(mapJSDocTagToCssPart),
+    warnings: [],
+  };
+}
+
+/**
+ * Extracts and merges CSS shadow parts across an inheritance chain.
+ *
+ * @param classChain - Ordered class chain to inspect.
+ * @returns Deduplicated parts and merged warnings for the class chain.
+ */
+export const extractCssPartsFromChain = (
+  classChain: readonly ts.ClassLikeDeclaration[],
+): CssPartExtractionResult =>
+  extractFromChain(classChain, {
+    extract: extractCssParts,
+    getKey: getDescriptorKey,
+    merge: mergeCssParts,
+  });
+
+/**
+ * Extracts CSS custom properties from a single class declaration.
+ *
+ * @param classDeclaration - Class declaration to inspect.
+ * @returns Extracted custom properties and any warnings.
+ */
+export function extractCssProperties(
+  classDeclaration: Readonly<ts.ClassLikeDeclaration>,
+): CssPropertyExtractionResult {
+  return {
+    items: ts
+      .getJSDocTags(classDeclaration)
+      .filter(isCssPropertyTag)
+      .flatMap(mapJSDocTagToCssProperty),
+    warnings: [],
+  };
+}
+
+/**
+ * Extracts and merges CSS custom properties across an inheritance chain.
+ *
+ * @param classChain - Ordered class chain to inspect.
+ * @returns Deduplicated custom properties and merged warnings for the class chain.
+ */
+export const extractCssPropertiesFromChain = (
+  classChain: readonly ts.ClassLikeDeclaration[],
+): CssPropertyExtractionResult =>
+  extractFromChain(classChain, {
+    extract: extractCssProperties,
+    getKey: getDescriptorKey,
+    merge: mergeCssProperties,
+  });
+
+/**
+ * Returns the merge key for a CSS descriptor.
+ *
+ * @param descriptor - CSS property or part descriptor.
+ * @returns Descriptor name.
+ */
+function getDescriptorKey(
+  descriptor: Readonly<ICssPropertyDescriptor | ICssPartDescriptor>,
+): string {
+  return descriptor.name;
+}
+
+/**
+ * Narrows JSDoc tags to CSS part tags.
+ *
+ * @param tag - JSDoc tag candidate.
+ * @returns True when the tag is a `@csspart` tag.
+ */
+function isCssPartTag(tag: Readonly<ts.JSDocTag>): boolean {
+  return tag.tagName.text === JSDOC_CSS_PART_TAG;
+}
+
+/**
+ * Narrows JSDoc tags to CSS custom property tags.
+ *
+ * @param tag - JSDoc tag candidate.
+ * @returns True when the tag is a `@cssproperty` or `@cssprop` tag.
+ */
+function isCssPropertyTag(tag: Readonly<ts.JSDocTag>): boolean {
+  return JSDOC_CSS_PROPERTY_TAGS.has(tag.tagName.text);
+}
+
+/**
+ * Converts a JSDoc `@csspart` tag to zero-or-one part descriptors.
+ *
+ * Supports `@csspart name - description`.
+ *
+ * @param tag - JSDoc part tag.
+ * @returns Part descriptor list derived from the tag.
+ */
+function mapJSDocTagToCssPart(
+  tag: Readonly<ts.JSDocTag>,
+): ICssPartDescriptor[] {
+  const match = JSDOC_CSS_PART_PATTERN.exec(getJSDocTagText(tag));
+  if (!match) {
+    return [];
+  }
+  return [{ name: match[1], doc: match[2].trim() || null }];
+}
+
+/**
+ * Converts a JSDoc `@cssproperty` tag to zero-or-one custom property descriptors.
+ *
+ * Supports `@cssproperty --name - description` and
+ * `@cssproperty [--name=default] - description`.
+ *
+ * @param tag - JSDoc custom property tag.
+ * @returns Custom property descriptor list derived from the tag.
+ */
+function mapJSDocTagToCssProperty(
+  tag: Readonly<ts.JSDocTag>,
+): ICssPropertyDescriptor[] {
+  const match = JSDOC_CSS_PROPERTY_PATTERN.exec(getJSDocTagText(tag));
+  if (!match) {
+    return [];
+  }
+  return [
+    {
+      name: match[1] ?? match[3],
+      defaultValue: match[2]?.trim() || null,
+      doc: match[4].trim() || null,
+    },
+  ];
+}
+
+/**
+ * Merges duplicate parts, keeping the first entry and filling in missing docs.
+ *
+ * @param existing - Part seen first.
+ * @param incoming - Duplicate part seen later.
+ * @returns Merged part descriptor.
+ */
+function mergeCssParts(
+  existing: Readonly<ICssPartDescriptor>,
+  incoming: Readonly<ICssPartDescriptor>,
+): ICssPartDescriptor {
+  return { ...existing, doc: existing.doc ?? incoming.doc };
+}
+
+/**
+ * Merges duplicate custom properties, keeping the first entry and filling in
+ * missing defaults and docs.
+ *
+ * @param existing - Custom property seen first.
+ * @param incoming - Duplicate custom property seen later.
+ * @returns Merged custom property descriptor.
+ */
+function mergeCssProperties(
+  existing: Readonly<ICssPropertyDescriptor>,
+  incoming: Readonly<ICssPropertyDescriptor>,
+): ICssPropertyDescriptor {
+  return {
+    ...existing,
+    defaultValue: existing.defaultValue ?? incoming.defaultValue,
+    doc: existing.doc ?? incoming.doc,
+  };
+}
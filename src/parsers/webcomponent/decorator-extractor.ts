@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 
+import { formatLocatedMessage } from "@/src/core/diagnostics";
 import type { IPropertyDescriptor, IExtractionResult } from "@/src/core/types";
 
 import { FigmaPropertyType, PropertyVisibility } from "@/src/core/types";
@@ -22,6 +23,7 @@ import {
   getDecoratorOptions,
   getJSDocSummary,
   getLiteralValue,
+  getNodeLocation,
 } from "@/src/utils/ts";
 import ts from "typescript";
 
@@ -240,9 +242,12 @@ function resolveMemberMetadata(
 function createUnresolvedMemberWarning(
   member: Readonly<PropertyLikeDeclaration>,
 ): string {
-  return `Unable to resolve property name for member: ${member.getText(
-    member.getSourceFile(),
-  )}`;
+  return formatLocatedMessage(
+    `Unable to resolve property name for member: ${member.getText(
+      member.getSourceFile(),
+    )}`,
+    getNodeLocation(member),
+  );
 }
 
 /**
@@ -308,6 +313,7 @@ function createPropertyDescriptor(
       : null,
     doc: getJSDocSummary(analysis.member),
     visibility: analysis.visibility,
+    location: getNodeLocation(analysis.member),
     ...(analysis.figmaType === FigmaPropertyType.Enum && analysis.enumValues
       ? { enumValues: [...analysis.enumValues] }
       : {}),
@@ -41,7 +41,7 @@ const JSDOC_EVENT_NAME_PATTERN = /^([A-Za-z0-9-:_]+)/;
  * @param comment - Optional JSDoc comment text for overrides.
  * @returns Derived React handler name.
  */
-const deriveReactHandler = (eventName: string, comment?: string): string => {
+export const deriveReactHandler = (eventName: string, comment?: string): string => {
   if (comment) {
     const reactMatch = comment.match(/React:\s*([A-Za-z0-9_]+)/i);
     if (reactMatch?.[1]) {
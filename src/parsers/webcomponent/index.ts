@@ -24,6 +24,8 @@
 
 export { parseWebComponent, WebComponentParser } from "./parser";
 export type {
+  CssPartExtractionResult,
+  CssPropertyExtractionResult,
   EventExtractionResult,
   IEventExtractionContext,
   IInheritanceContext,
@@ -31,10 +33,18 @@ export type {
   ITagNameResolution,
   ITagNameResolverOptions,
   IWebComponentParseResult,
+  SlotExtractionResult,
 } from "./types";
 
 export { discoverComponentClass } from "./component-discovery";
+export {
+  extractCssParts,
+  extractCssPartsFromChain,
+  extractCssProperties,
+  extractCssPropertiesFromChain,
+} from "./css-extractor";
 export { extractPropertyDecorators } from "./decorator-extractor";
 export { extractEvents, extractEventsFromChain } from "./event-extractor";
 export { resolveInheritanceChain } from "./inheritance-resolver";
+export { extractSlots, extractSlotsFromChain } from "./slot-extractor";
 export { resolveTagName } from "./tagname";
@@ -14,10 +14,12 @@
  * limitations under the License.
  */
 
+import { formatLocatedMessage } from "@/src/core/diagnostics";
 import type {
   IInheritanceResolution,
   IInheritanceContext,
 } from "@/src/parsers/webcomponent/types";
+import { getNodeLocation } from "@/src/utils/ts";
 import ts from "typescript";
 
 interface IResolutionAccumulator {
@@ -281,7 +283,10 @@ function addUnresolvedExpression(
     unresolved: [...resolution.unresolved, text],
     warnings: [
       ...resolution.warnings,
-      `Unable to resolve base class for expression: ${text}`,
+      formatLocatedMessage(
+        `Unable to resolve base class for expression: ${text}`,
+        getNodeLocation(expression),
+      ),
     ],
   };
 }
@@ -31,9 +31,14 @@ import type { IWebComponentParseResult } from "@/src/parsers/webcomponent/types"
 
 import { visitSourceFile } from "./shared/ast-visitor";
 import { discoverComponentClass } from "./component-discovery";
+import {
+  extractCssPartsFromChain,
+  extractCssPropertiesFromChain,
+} from "./css-extractor";
 import { extractPropertyDecorators } from "./decorator-extractor";
 import { extractEventsFromChain } from "./event-extractor";
 import { resolveInheritanceChain } from "./inheritance-resolver";
+import { extractSlotsFromChain } from "./slot-extractor";
 import { resolveTagName } from "./tagname";
 
 /**
@@ -66,6 +71,7 @@ export function parseWebComponent(
     componentFilePath: parseContext.filePath,
     className,
     astData,
+    namespace: parseContext.tagNamespace,
   });
 
   const inheritance = resolveInheritanceChain(classDeclaration, {
@@ -81,6 +87,12 @@ export function parseWebComponent(
     astData,
   });
 
+  const slotsExtraction = extractSlotsFromChain(inheritance.chain);
+  const cssPropertiesExtraction = extractCssPropertiesFromChain(
+    inheritance.chain,
+  );
+  const cssPartsExtraction = extractCssPartsFromChain(inheritance.chain);
+
   const model: IComponentModel = mapComponentModel({
     className,
     tagName: tagNameResolution.tagName,
@@ -88,6 +100,9 @@ export function parseWebComponent(
     componentDir: parseContext.componentDir,
     props: properties.items,
     events: eventsExtraction.items,
+    slots: slotsExtraction.items,
+    cssProperties: cssPropertiesExtraction.items,
+    cssParts: cssPartsExtraction.items,
   });
 
   const strictErrors =
@@ -103,6 +118,9 @@ export function parseWebComponent(
     inheritance,
     properties,
     eventsExtraction,
+    slotsExtraction,
+    cssPropertiesExtraction,
+    cssPartsExtraction,
     { errors: strictErrors },
   );
 
@@ -0,0 +1,336 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Slot Extractor Module
+ *
+ * Extracts slot descriptors from class-level `@slot` JSDoc tags and from
+ * `<slot>` elements in Lit `render()` templates.
+ *
+ * @module parsers/webcomponent/slot-extractor
+ */
+
+import { formatLocatedMessage } from "@/src/core/diagnostics";
+import { type ISlotDescriptor, SlotMapping } from "@/src/core/types";
+import type { SlotExtractionResult } from "@/src/parsers/webcomponent/types";
+import { getJSDocTagText, getNodeLocation } from "@/src/utils/ts";
+import ts from "typescript";
+
+import { extractFromChain } from "./shared/chain-extractor";
+
+const JSDOC_SLOT_TAG = "slot";
+const RENDER_METHOD = "render";
+const JSDOC_SLOT_PATTERN = /^(?:([A-Za-z0-9_][A-Za-z0-9_:.-]*)\s*)?(?:-\s*)?([\s\S]*)$/;
+const SLOT_ELEMENT_PATTERN = /<slot\b([^>]*)>/g;
+const SLOT_NAME_PATTERN = /\bname\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/;
+const SLOT_MAPPING_OVERRIDE_PATTERN = /\bfigma:\s*([A-Za-z]+)\b/i;
+const TEXT_SLOT_MAPPING_KEYWORD = "text";
+const INSTANCE_SLOT_PATTERN = /icon|image|img|avatar|logo|badge/i;
+const TEMPLATE_EXPRESSION_PLACEHOLDER = "${}";
+
+/** Slot mappings keyed by lower-cased override keyword, including the `text` shorthand. */
+const SLOT_MAPPING_KEYWORDS: ReadonlyMap<string, SlotMapping> = new Map([
+  ...Object.values(SlotMapping).map(
+    /**
+     * Keys a slot mapping by its lower-cased value.
+     *
+     * @param mapping - Slot mapping.
+     * @returns Keyword and mapping entry.
+     */
+    (mapping): [string, SlotMapping] => [mapping.toLowerCase(), mapping],
+  ),
+  [TEXT_SLOT_MAPPING_KEYWORD, SlotMapping.TextContent],
+]);
+
+/**
+ * Creates a slot descriptor, inferring the Figma mapping when not overridden.
+ *
+ * @param name - Slot name, or an empty string for the default slot.
+ * @param doc - Optional JSDoc summary for the slot.
+ * @returns Normalized slot descriptor.
+ */
+export function createSlotDescriptor(name: string, doc: string | null): ISlotDescriptor {
+  const override = getSlotMappingOverride(doc);
+  return {
+    name,
+    mapping: (override ? parseSlotMapping(override) : undefined) ?? inferSlotMapping(name),
+    doc: doc ? doc.replace(SLOT_MAPPING_OVERRIDE_PATTERN, "").trim() || null : null,
+  };
+}
+
+/**
+ * Extracts slot descriptors from a single class declaration.
+ *
+ * JSDoc `@slot` tags take precedence over slots found in `render()`.
+ *
+ * @param classDeclaration - Class declaration to inspect.
+ * @returns Extracted slots and any warnings.
+ */
+export function extractSlots(
+  classDeclaration: Readonly<ts.ClassLikeDeclaration>,
+): SlotExtractionResult {
+  const slotTags = ts.getJSDocTags(classDeclaration).filter(isSlotTag);
+  return {
+    items: [
+      ...slotTags.map(mapJSDocTagToSlot),
+      ...extractSlotsFromRender(classDeclaration),
+    ],
+    warnings: slotTags.flatMap(getSlotTagWarnings),
+  };
+}
+
+/**
+ * Extracts and merges slot descriptors across an inheritance chain.
+ *
+ * @param classChain - Ordered class chain to inspect.
+ * @returns Deduplicated slots and merged warnings for the class chain.
+ */
+export const extractSlotsFromChain = (
+  classChain: readonly ts.ClassLikeDeclaration[],
+): SlotExtractionResult =>
+  extractFromChain(classChain, {
+    extract: extractSlots,
+    getKey: getSlotKey,
+    merge: mergeSlots,
+  });
+
+/**
+ * Extracts slot descriptors from `<slot>` elements in the class `render()` method.
+ *
+ * @param classDeclaration - Class declaration to inspect.
+ * @returns Slot descriptors rendered by the template.
+ */
+function extractSlotsFromRender(
+  classDeclaration: Readonly<ts.ClassLikeDeclaration>,
+): ISlotDescriptor[] {
+  const render = classDeclaration.members.find(isRenderMethod);
+  if (!render?.body) {
+    return [];
+  }
+
+  const slots: ISlotDescriptor[] = [];
+  /**
+   * Visits render-method nodes and collects slots from tagged templates.
+   *
+   * @param node - AST node to inspect.
+   * @returns Nothing.
+   */
+  const visit = (node: Readonly<ts.Node>): void => {
+    if (ts.isTaggedTemplateExpression(node)) {
+      slots.push(...parseTemplateSlots(getTemplateText(node.template)));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(render.body);
+  return slots;
+}
+
+/**
+ * Returns the `figma:` mapping override keyword from a slot description.
+ *
+ * @param doc - Slot description, if any.
+ * @returns Override keyword, or undefined when the description has none.
+ */
+function getSlotMappingOverride(doc: string | null): string | undefined {
+  return doc ? SLOT_MAPPING_OVERRIDE_PATTERN.exec(doc)?.[1] : undefined;
+}
+
+/**
+ * Returns a warning when a slot description names an unknown mapping override.
+ *
+ * @param name - Slot name, or an empty string for the default slot.
+ * @param doc - Slot description, if any.
+ * @returns Warning text, or undefined when the override is valid or absent.
+ */
+export function getSlotMappingWarning(
+  name: string,
+  doc: string | null,
+): string | undefined {
+  const override = getSlotMappingOverride(doc);
+  if (!override || parseSlotMapping(override)) {
+    return undefined;
+  }
+  const slotLabel = name ? `slot "${name}"` : "the default slot";
+  return (
+    `Unknown Figma slot mapping "${override}" for ${slotLabel}; ` +
+    "use children, instance, or text. Using the inferred mapping."
+  );
+}
+
+/**
+ * Returns the merge key for a slot descriptor.
+ *
+ * @param slot - Slot descriptor.
+ * @returns Slot name.
+ */
+function getSlotKey(slot: Readonly<ISlotDescriptor>): string {
+  return slot.name;
+}
+
+/**
+ * Returns the mapping warnings for a JSDoc `@slot` tag.
+ *
+ * @param tag - JSDoc slot tag.
+ * @returns Located warning, or an empty list when the tag is valid.
+ */
+function getSlotTagWarnings(tag: Readonly<ts.JSDocTag>): string[] {
+  const { name, doc } = parseSlotTag(tag);
+  const warning = getSlotMappingWarning(name, doc);
+  return warning ? [formatLocatedMessage(warning, getNodeLocation(tag))] : [];
+}
+
+/**
+ * Returns the static text of a template, with expressions replaced by placeholders.
+ *
+ * @param template - Template literal node.
+ * @returns Template text.
+ */
+function getTemplateText(template: ts.TemplateLiteral): string {
+  if (ts.isNoSubstitutionTemplateLiteral(template)) {
+    return template.text;
+  }
+  return template.templateSpans.reduce(
+    /**
+     * Appends a template span's literal text after an expression placeholder.
+     *
+     * @param text - Template text accumulated so far.
+     * @param span - Template span to append.
+     * @returns Template text including the span.
+     */
+    (text, span) => `${text}${TEMPLATE_EXPRESSION_PLACEHOLDER}${span.literal.text}`,
+    template.head.text,
+  );
+}
+
+/**
+ * Infers the Figma mapping for a slot from its name.
+ *
+ * @param name - Slot name, or an empty string for the default slot.
+ * @returns Text content for the default slot, instance swaps for icon-like slots, otherwise children.
+ */
+function inferSlotMapping(name: string): SlotMapping {
+  if (!name) {
+    return SlotMapping.TextContent;
+  }
+  return INSTANCE_SLOT_PATTERN.test(name)
+    ? SlotMapping.Instance
+    : SlotMapping.Children;
+}
+
+/**
+ * Narrows class members to the `render()` method.
+ *
+ * @param member - Class member candidate.
+ * @returns True when the member is a `render` method declaration.
+ */
+function isRenderMethod(
+  member: Readonly<ts.ClassElement>,
+): member is ts.MethodDeclaration {
+  return (
+    ts.isMethodDeclaration(member) &&
+    ts.isIdentifier(member.name) &&
+    member.name.text === RENDER_METHOD
+  );
+}
+
+/**
+ * Narrows JSDoc tags to slot tags.
+ *
+ * @param tag - JSDoc tag candidate.
+ * @returns True when the tag is a slot tag.
+ */
+function isSlotTag(tag: Readonly<ts.JSDocTag>): boolean {
+  return tag.tagName.text === JSDOC_SLOT_TAG;
+}
+
+/**
+ * Converts a JSDoc `@slot` tag to a slot descriptor.
+ *
+ * Supports `@slot name - description` and `@slot - description` for the default slot.
+ *
+ * @param tag - JSDoc slot tag.
+ * @returns Slot descriptor.
+ */
+function mapJSDocTagToSlot(tag: Readonly<ts.JSDocTag>): ISlotDescriptor {
+  const { name, doc } = parseSlotTag(tag);
+  return createSlotDescriptor(name, doc);
+}
+
+/**
+ * Merges duplicate slots, keeping the first mapping and filling in missing docs.
+ *
+ * @param existing - Slot seen first.
+ * @param incoming - Duplicate slot seen later.
+ * @returns Merged slot descriptor.
+ */
+function mergeSlots(
+  existing: Readonly<ISlotDescriptor>,
+  incoming: Readonly<ISlotDescriptor>,
+): ISlotDescriptor {
+  return { ...existing, doc: existing.doc ?? incoming.doc };
+}
+
+/**
+ * Converts a slot mapping override keyword to a slot mapping.
+ *
+ * @param keyword - Override keyword from JSDoc (`children`, `instance`, `text`, or `textContent`).
+ * @returns Matching slot mapping, or undefined for unknown keywords.
+ */
+function parseSlotMapping(keyword: string): SlotMapping | undefined {
+  return SLOT_MAPPING_KEYWORDS.get(keyword.toLowerCase());
+}
+
+/**
+ * Splits a JSDoc `@slot` tag into its slot name and description.
+ *
+ * @param tag - JSDoc slot tag.
+ * @returns Slot name (empty for the default slot) and description.
+ */
+function parseSlotTag(tag: Readonly<ts.JSDocTag>): {
+  readonly name: string;
+  readonly doc: string | null;
+} {
+  const match = JSDOC_SLOT_PATTERN.exec(getJSDocTagText(tag));
+  return { name: match?.[1] ?? "", doc: match?.[2]?.trim() || null };
+}
+
+/**
+ * Parses `<slot>` elements from template text.
+ *
+ * Slots with dynamic names are skipped.
+ *
+ * @param text - Template text to scan.
+ * @returns Slot descriptors for statically named and default slots.
+ */
+function parseTemplateSlots(text: string): ISlotDescriptor[] {
+  return Array.from(text.matchAll(SLOT_ELEMENT_PATTERN)).flatMap(
+    /**
+     * Converts a `<slot>` match to zero or one slot descriptors.
+     *
+     * @param match - Slot element match.
+     * @returns Slot descriptor list.
+     */
+    (match) => {
+      const nameMatch = SLOT_NAME_PATTERN.exec(match[1]);
+      const name = nameMatch
+        ? (nameMatch[1] ?? nameMatch[2] ?? nameMatch[3])
+        : "";
+      return name.includes(TEMPLATE_EXPRESSION_PLACEHOLDER)
+        ? []
+        : [createSlotDescriptor(name, null)];
+    },
+  );
+}
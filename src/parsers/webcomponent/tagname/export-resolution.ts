@@ -5,6 +5,7 @@
 import path from "node:path";
 import { nodeIoAdapter } from "@/src/io/adapter";
 
+import type { ITagNamespace } from "@/src/parsers/webcomponent/types";
 import { getLiteralValue } from "@/src/utils/ts";
 import ts from "typescript";
 import { applyNamespace } from "./namespace";
@@ -13,12 +14,16 @@ const CONSTANTS_MODULE_BASENAME = "constants";
 const CONSTANTS_SUFFIX = ".constants.ts";
 const CONSTRUCT_TAG_NAME_FUNCTION = "constructTagName";
 
-interface IExportResolutionContext {
+interface IResolutionScope {
   readonly componentDir: string;
+  readonly namespace: Readonly<ITagNamespace> | null;
+  readonly visited: Readonly<Set<string>>;
+}
+
+interface IExportResolutionContext extends IResolutionScope {
   readonly exportName: string;
   readonly resolvedPath: string;
   readonly sourceFile: Readonly<ts.SourceFile>;
-  readonly visited: Readonly<Set<string>>;
 }
 
 /**
@@ -59,21 +64,19 @@ const readFileIfExists = (filePath: string): string | null => {
  *
  * @param filePath - File path to inspect.
  * @param exportName - Exported symbol name to resolve.
- * @param componentDir - Component directory used for namespace resolution.
- * @param visited - Visited file set used to avoid cycles.
+ * @param scope - Component directory, namespace, and visited files shared across the walk.
  * @returns Resolved tag-name string or null when unresolved.
  */
 function resolveExportedValue(
   filePath: string,
   exportName: string,
-  componentDir: string,
-  visited: Readonly<Set<string>>,
+  scope: Readonly<IResolutionScope>,
 ): string | null {
   const resolvedPath = path.resolve(filePath);
-  if (visited.has(resolvedPath)) {
+  if (scope.visited.has(resolvedPath)) {
     return null;
   }
-  visited.add(resolvedPath);
+  scope.visited.add(resolvedPath);
 
   const contents = readFileIfExists(resolvedPath);
   if (!contents) {
@@ -82,16 +85,15 @@ function resolveExportedValue(
 
   const sourceFile = createSourceFile(resolvedPath, contents);
   const context: IExportResolutionContext = {
-    componentDir,
+    ...scope,
     exportName,
     resolvedPath,
     sourceFile,
-    visited,
   };
   const localMatch = findLocalVariableDeclaration(sourceFile, exportName);
 
   if (localMatch?.initializer) {
-    return resolveTagNameInitializer(localMatch.initializer, componentDir);
+    return resolveTagNameInitializer(localMatch.initializer, scope.namespace);
   }
 
   for (const exportDecl of getExportDeclarations(sourceFile)) {
@@ -214,12 +216,7 @@ function resolveFromLocalExportDeclaration(
   }
 
   const localName = match.propertyName?.text ?? match.name.text;
-  return resolveIdentifierNameValue(
-    context.sourceFile,
-    localName,
-    context.componentDir,
-    context.visited,
-  );
+  return resolveIdentifierNameValue(context.sourceFile, localName, context);
 }
 
 /**
@@ -262,12 +259,7 @@ function resolveFromForwardedExport(
 ): string | null {
   const { exportClause } = exportDecl;
   if (!exportClause) {
-    return resolveExportedValue(
-      targetPath,
-      context.exportName,
-      context.componentDir,
-      context.visited,
-    );
+    return resolveExportedValue(targetPath, context.exportName, context);
   }
   if (!ts.isNamedExports(exportClause)) {
     return null;
@@ -279,12 +271,7 @@ function resolveFromForwardedExport(
   }
 
   const forwardedName = match.propertyName?.text ?? match.name.text;
-  return resolveExportedValue(
-    targetPath,
-    forwardedName,
-    context.componentDir,
-    context.visited,
-  );
+  return resolveExportedValue(targetPath, forwardedName, context);
 }
 
 /**
@@ -292,20 +279,18 @@ function resolveFromForwardedExport(
  *
  * @param sourceFile - Source file containing the identifier usage.
  * @param identifierName - Identifier name to resolve.
- * @param componentDir - Component directory used for namespace resolution.
- * @param visited - Visited file set used to avoid cycles.
+ * @param scope - Component directory, namespace, and visited files shared across the walk.
  * @returns Resolved tag-name string or null when unresolved.
  */
 function resolveIdentifierNameValue(
   sourceFile: Readonly<ts.SourceFile>,
   identifierName: string,
-  componentDir: string,
-  visited: Readonly<Set<string>>,
+  scope: Readonly<IResolutionScope>,
 ): string | null {
   const localMatch = findLocalVariableDeclaration(sourceFile, identifierName);
 
   if (localMatch?.initializer) {
-    return resolveTagNameInitializer(localMatch.initializer, componentDir);
+    return resolveTagNameInitializer(localMatch.initializer, scope.namespace);
   }
 
   let importedName = identifierName;
@@ -348,12 +333,16 @@ function resolveIdentifierNameValue(
   }
 
   const sourceDir = path.dirname(sourceFile.fileName);
-  const targetPath = resolveModulePath(sourceDir, importPath, componentDir);
+  const targetPath = resolveModulePath(
+    sourceDir,
+    importPath,
+    scope.componentDir,
+  );
   if (!targetPath) {
     return null;
   }
 
-  return resolveExportedValue(targetPath, importedName, componentDir, visited);
+  return resolveExportedValue(targetPath, importedName, scope);
 }
 
 /**
@@ -361,20 +350,21 @@ function resolveIdentifierNameValue(
  *
  * @param sourceFile - Source file containing the identifier.
  * @param identifier - Identifier node to resolve.
- * @param componentDir - Component directory used for namespace resolution.
+ * @param componentDir - Component directory used for constants resolution.
+ * @param namespace - Namespace applied to `constructTagName(...)` values.
  * @returns Resolved tag-name string or null when unresolved.
  */
 export const resolveIdentifierValue = (
   sourceFile: Readonly<ts.SourceFile>,
   identifier: Readonly<ts.Identifier>,
   componentDir: string,
+  namespace: Readonly<ITagNamespace> | null,
 ): string | null =>
-  resolveIdentifierNameValue(
-    sourceFile,
-    identifier.text,
+  resolveIdentifierNameValue(sourceFile, identifier.text, {
     componentDir,
-    new Set<string>(),
-  );
+    namespace,
+    visited: new Set<string>(),
+  });
 
 /**
  * Resolves a relative module specifier to an existing file path.
@@ -451,12 +441,12 @@ function resolveModulePath(
  * Resolves a tag-name value from an initializer expression.
  *
  * @param initializer - Initializer expression to resolve.
- * @param componentDir - Component directory path.
+ * @param namespace - Namespace applied to `constructTagName(...)` values.
  * @returns Resolved tag name or null when unresolved.
  */
 function resolveTagNameInitializer(
   initializer: Readonly<ts.Expression>,
-  componentDir: string,
+  namespace: Readonly<ITagNamespace> | null,
 ): string | null {
   const literal = getLiteralValue(initializer);
   if (typeof literal === "string") {
@@ -476,7 +466,7 @@ function resolveTagNameInitializer(
       const [arg] = initializer.arguments;
       const argLiteral = getLiteralValue(arg);
       if (typeof argLiteral === "string") {
-        return applyNamespace(componentDir, argLiteral);
+        return applyNamespace(namespace, argLiteral);
       }
     }
   }
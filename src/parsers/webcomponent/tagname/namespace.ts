@@ -1,21 +1,62 @@
 /**
- * Tag-name namespace helpers.
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Tag-name Namespace Helpers
+ *
+ * Resolves the prefix and separator applied to derived tag names. Configured
+ * rules take precedence; without one, the legacy
+ * `../../utils/tag-name/constants.ts` file next to the component is read.
+ *
+ * @module parsers/webcomponent/tagname/namespace
  */
 
 import path from "node:path";
 
+import type {
+  ITagNamespaceRule,
+  ITagNamespaceSettings,
+} from "@/src/core/types";
 import { nodeIoAdapter } from "@/src/io/adapter";
+import type {
+  ITagNamespace,
+  ITagNamespaceResolution,
+} from "@/src/parsers/webcomponent/types";
 import { toKebabCase } from "@/src/utils/strings";
+import ts from "typescript";
+
+const DEFAULT_SEPARATOR = "-";
+const PREFIX_MEMBER = "PREFIX";
+const SEPARATOR_MEMBER = "SEPARATOR";
+
+type NamespaceExportValue = Partial<ITagNamespace>;
+
+const exportValueCache = new Map<string, NamespaceExportValue | null>();
 
 /**
  * Applies namespace prefix/separator to a derived tag name when configured.
  *
- * @param componentDir - Component directory path.
+ * @param namespace - Resolved namespace, or null when none applies.
  * @param value - Un-namespaced tag name value.
  * @returns Namespaced, kebab-cased tag name.
  */
-export function applyNamespace(componentDir: string, value: string): string {
-  const namespace = resolveNamespaceFromConstants(componentDir);
+export function applyNamespace(
+  namespace: Readonly<ITagNamespace> | null,
+  value: string,
+): string {
   const normalized = toKebabCase(value);
   if (!namespace) {
     return normalized;
@@ -24,7 +65,115 @@ export function applyNamespace(componentDir: string, value: string): string {
 }
 
 /**
- * Reads file contents when the path exists.
+ * Evaluates a module export through the TypeScript type checker.
+ *
+ * Results are cached per module and export name.
+ *
+ * @param modulePath - Absolute module path.
+ * @param exportName - Exported identifier to evaluate.
+ * @returns Prefix and separator read from the export, or null when unresolved.
+ */
+function evaluateNamespaceExport(
+  modulePath: string,
+  exportName: string,
+): NamespaceExportValue | null {
+  const cacheKey = `${modulePath}#${exportName}`;
+  const cached = exportValueCache.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const program = ts.createProgram({
+    rootNames: [modulePath],
+    options: { allowJs: true, noEmit: true, noLib: true },
+  });
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(modulePath);
+  const moduleSymbol = sourceFile
+    ? checker.getSymbolAtLocation(sourceFile)
+    : undefined;
+  const exportSymbol = moduleSymbol
+    ? checker
+        .getExportsOfModule(moduleSymbol)
+        .find(
+          /**
+           * Matches the configured export name.
+           *
+           * @param symbol - Exported module symbol.
+           * @returns True when the symbol has the export name.
+           */
+          (symbol) => symbol.name === exportName,
+        )
+    : undefined;
+  const declaration = exportSymbol
+    ? resolveAliasedSymbol(checker, exportSymbol).valueDeclaration
+    : undefined;
+  const value =
+    declaration &&
+    ts.isVariableDeclaration(declaration) &&
+    declaration.initializer
+      ? readNamespaceValue(checker, declaration.initializer)
+      : null;
+
+  exportValueCache.set(cacheKey, value);
+  return value;
+}
+
+/**
+ * Evaluates an expression to a string using its checked literal type.
+ *
+ * @param checker - Type checker for the namespace module.
+ * @param expression - Expression to evaluate.
+ * @returns String value, or undefined when the type is not a string literal.
+ */
+function readStringValue(
+  checker: ts.TypeChecker,
+  expression: Readonly<ts.Expression>,
+): string | undefined {
+  const type = checker.getTypeAtLocation(expression);
+  return type.isStringLiteral() ? type.value : undefined;
+}
+
+/**
+ * Reads a namespace value from an exported initializer.
+ *
+ * Strings become the prefix; object literals provide `PREFIX` and
+ * `SEPARATOR` members.
+ *
+ * @param checker - Type checker for the namespace module.
+ * @param initializer - Export initializer expression.
+ * @returns Namespace value, or null when no prefix can be read.
+ */
+function readNamespaceValue(
+  checker: ts.TypeChecker,
+  initializer: Readonly<ts.Expression>,
+): NamespaceExportValue | null {
+  const expression = unwrapExpression(initializer);
+  if (!ts.isObjectLiteralExpression(expression)) {
+    const prefix = readStringValue(checker, expression);
+    return prefix ? { prefix } : null;
+  }
+
+  let value: NamespaceExportValue = {};
+  for (const property of expression.properties) {
+    if (
+      !ts.isPropertyAssignment(property) ||
+      !ts.isIdentifier(property.name)
+    ) {
+      continue;
+    }
+    const member = readStringValue(checker, property.initializer);
+    if (property.name.text === PREFIX_MEMBER) {
+      value = { ...value, prefix: member };
+    } else if (property.name.text === SEPARATOR_MEMBER) {
+      value = { ...value, separator: member };
+    }
+  }
+  return value.prefix ? value : null;
+}
+
+/**
+ * Reads a file when it exists.
  *
  * @param filePath - Absolute file path.
  * @returns File contents or null when missing/unreadable.
@@ -40,6 +189,22 @@ function readFileIfExists(filePath: string): string | null {
   }
 }
 
+/**
+ * Follows export aliases (`export { X } from`) to the declared symbol.
+ *
+ * @param checker - Type checker for the namespace module.
+ * @param symbol - Exported symbol.
+ * @returns The aliased symbol, or the symbol itself when not an alias.
+ */
+function resolveAliasedSymbol(
+  checker: ts.TypeChecker,
+  symbol: ts.Symbol,
+): ts.Symbol {
+  return symbol.flags & ts.SymbolFlags.Alias
+    ? checker.getAliasedSymbol(symbol)
+    : symbol;
+}
+
 /**
  * Resolves namespace prefix/separator from shared tag-name constants.
  *
@@ -48,7 +213,7 @@ function readFileIfExists(filePath: string): string | null {
  */
 function resolveNamespaceFromConstants(
   componentDir: string,
-): { prefix: string; separator: string } | null {
+): ITagNamespace | null {
   const constantsPath = path.resolve(
     componentDir,
     "../../utils/tag-name/constants.ts",
@@ -69,3 +234,115 @@ function resolveNamespaceFromConstants(
     separator: separatorMatch[1],
   };
 }
+
+/**
+ * Resolves a configured namespace rule to a prefix and separator.
+ *
+ * @param rule - Namespace rule selected for the component.
+ * @returns Resolved namespace plus any warnings.
+ */
+function resolveNamespaceRule(
+  rule: Readonly<ITagNamespaceRule>,
+): ITagNamespaceResolution {
+  const exported =
+    rule.module && rule.export && nodeIoAdapter.exists(rule.module)
+      ? evaluateNamespaceExport(rule.module, rule.export)
+      : null;
+  const prefix = rule.prefix ?? exported?.prefix;
+  if (!prefix) {
+    return {
+      namespace: null,
+      warnings: [
+        `Unable to resolve tag-name namespace export "${rule.export ?? ""}" from ${rule.module ?? "(no module)"}.`,
+      ],
+    };
+  }
+
+  return {
+    namespace: {
+      prefix,
+      separator: rule.separator ?? exported?.separator ?? DEFAULT_SEPARATOR,
+    },
+    warnings: [],
+  };
+}
+
+/**
+ * Resolves the namespace applied to tag names derived for a component.
+ *
+ * The rule of the closest configured package directory wins over the
+ * top-level rule. Without an applicable rule the legacy constants file is used.
+ *
+ * @param componentDir - Component directory path.
+ * @param settings - Configured namespace settings, if any.
+ * @returns Resolved namespace plus any warnings.
+ */
+export function resolveTagNamespace(
+  componentDir: string,
+  settings?: Readonly<ITagNamespaceSettings>,
+): ITagNamespaceResolution {
+  const rule = settings ? selectNamespaceRule(componentDir, settings) : null;
+  if (!rule) {
+    return {
+      namespace: resolveNamespaceFromConstants(componentDir),
+      warnings: [],
+    };
+  }
+  return resolveNamespaceRule(rule);
+}
+
+/**
+ * Selects the namespace rule that applies to a component directory.
+ *
+ * @param componentDir - Component directory path.
+ * @param settings - Configured namespace settings.
+ * @returns Applicable rule, or null when none sets a prefix or module.
+ */
+function selectNamespaceRule(
+  componentDir: string,
+  settings: Readonly<ITagNamespaceSettings>,
+): ITagNamespaceRule | null {
+  const resolvedDir = path.resolve(componentDir);
+  const packageDir = Object.keys(settings.packages ?? {})
+    .filter(
+      /**
+       * Keeps package directories containing the component.
+       *
+       * @param dir - Configured package directory.
+       * @returns True when the component is inside the directory.
+       */
+      (dir) => {
+        const relative = path.relative(path.resolve(dir), resolvedDir);
+        return !relative.startsWith("..") && !path.isAbsolute(relative);
+      },
+    )
+    .sort(
+      /**
+       * Orders the deepest package directory first.
+       *
+       * @param left - First package directory.
+       * @param right - Second package directory.
+       * @returns Sort order by descending path length.
+       */
+      (left, right) => right.length - left.length,
+    )[0];
+  const rule = packageDir ? settings.packages?.[packageDir] : settings;
+  return rule && (rule.prefix || rule.module) ? rule : null;
+}
+
+/**
+ * Strips `as const`, `satisfies`, and parentheses from an expression.
+ *
+ * @param expression - Expression to unwrap.
+ * @returns Innermost wrapped expression.
+ */
+function unwrapExpression(expression: Readonly<ts.Expression>): ts.Expression {
+  if (
+    ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression) ||
+    ts.isParenthesizedExpression(expression)
+  ) {
+    return unwrapExpression(expression.expression);
+  }
+  return expression;
+}
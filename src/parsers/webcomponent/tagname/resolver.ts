@@ -22,6 +22,7 @@ import { nodeIoAdapter } from "@/src/io/adapter";
 import type {
   ITagNameResolution,
   ITagNameResolverOptions,
+  ITagNamespace,
 } from "@/src/parsers/webcomponent/types";
 import { toKebabCase } from "@/src/utils/strings";
 import { getJSDocTagText, getLiteralValue } from "@/src/utils/ts";
@@ -29,7 +30,7 @@ import { getJSDocTagText, getLiteralValue } from "@/src/utils/ts";
 import ts from "typescript";
 import type { IASTVisitorResult } from "../shared/ast-visitor";
 import { resolveIdentifierValue } from "./export-resolution";
-import { applyNamespace } from "./namespace";
+import { applyNamespace, resolveTagNamespace } from "./namespace";
 
 const REGISTER_METHOD_NAME = "register";
 const TAGNAME_JSDOC_TAG = "tagname";
@@ -86,30 +87,32 @@ const readFileIfExists = (filePath: string): string | null => {
  * Derives a fallback tag name from the component source file name.
  *
  * @param componentFilePath - Component source file path.
- * @param componentDir - Component directory used for namespace resolution.
+ * @param namespace - Namespace applied to the derived name.
  * @returns Derived fallback tag name.
  */
 const resolveFromFilename = (
   componentFilePath: string,
-  componentDir: string,
+  namespace: Readonly<ITagNamespace> | null,
 ): string => {
   const fileBase = path
     .basename(componentFilePath)
     .replace(/\.component\.[tj]sx?$/, "")
     .replace(/\.[tj]sx?$/, "");
   const derived = toKebabCase(fileBase);
-  return applyNamespace(componentDir, derived);
+  return applyNamespace(namespace, derived);
 };
 
 /**
  * Resolves a tag name from `index.ts` register calls within the component directory.
  *
  * @param componentDir - Component directory containing `index.ts`.
+ * @param namespace - Namespace applied to `constructTagName(...)` values.
  * @param className - Optional component class name used to match register receivers.
  * @returns Resolved tag name plus any warnings produced during analysis.
  */
 const resolveFromIndexFile = (
   componentDir: string,
+  namespace: Readonly<ITagNamespace> | null,
   className?: string,
 ): IIndexResolution => {
   const sourceFile = loadIndexSourceFile(componentDir);
@@ -120,6 +123,7 @@ const resolveFromIndexFile = (
   const { tagName, warning } = resolveTagNameFromRegister(
     sourceFile,
     componentDir,
+    namespace,
     className,
   );
 
@@ -202,22 +206,27 @@ export const resolveTagName = (
     return createTagNameResolution(jsdocTagName, TagNameSource.JSDoc, []);
   }
 
+  const { namespace, warnings } = resolveTagNamespace(
+    options.componentDir,
+    options.namespace,
+  );
   const indexResult = resolveFromIndexFile(
     options.componentDir,
+    namespace,
     options.className,
   );
   if (indexResult.tagName) {
     return createTagNameResolution(
       indexResult.tagName,
       TagNameSource.IndexTs,
-      indexResult.warnings,
+      [...warnings, ...indexResult.warnings],
     );
   }
 
   return createTagNameResolution(
-    resolveFromFilename(options.componentFilePath, options.componentDir),
+    resolveFromFilename(options.componentFilePath, namespace),
     TagNameSource.Filename,
-    indexResult.warnings,
+    [...warnings, ...indexResult.warnings],
   );
 };
 
@@ -246,12 +255,14 @@ function createTagNameResolution(
  *
  * @param sourceFile - Source file to inspect.
  * @param componentDir - Component directory path.
+ * @param namespace - Namespace applied to `constructTagName(...)` values.
  * @param className - Optional class name to match register receiver.
  * @returns Resolved tag name with optional warning.
  */
 function resolveTagNameFromRegister(
   sourceFile: Readonly<ts.SourceFile>,
   componentDir: string,
+  namespace: Readonly<ITagNamespace> | null,
   className?: string,
 ): IRegisterResolution {
   const candidates = collectRegisterCandidates(sourceFile);
@@ -261,7 +272,7 @@ function resolveTagNameFromRegister(
   }
 
   const primary = selectPrimaryRegisterCandidate(candidates, className);
-  return resolveRegisterCandidate(primary, sourceFile, componentDir);
+  return resolveRegisterCandidate(primary, sourceFile, componentDir, namespace);
 }
 
 /**
@@ -360,12 +371,14 @@ function matchesReceiver(
  * @param candidate - Selected register-call candidate.
  * @param sourceFile - Source file containing the candidate.
  * @param componentDir - Component directory used for identifier resolution.
+ * @param namespace - Namespace applied to `constructTagName(...)` values.
  * @returns Resolved tag name with optional warning.
  */
 function resolveRegisterCandidate(
   candidate: Readonly<IRegisterCallCandidate>,
   sourceFile: Readonly<ts.SourceFile>,
   componentDir: string,
+  namespace: Readonly<ITagNamespace> | null,
 ): IRegisterResolution {
   const { arg } = candidate;
   if (!arg) {
@@ -381,7 +394,12 @@ function resolveRegisterCandidate(
   }
 
   if (ts.isIdentifier(arg)) {
-    const resolved = resolveIdentifierValue(sourceFile, arg, componentDir);
+    const resolved = resolveIdentifierValue(
+      sourceFile,
+      arg,
+      componentDir,
+      namespace,
+    );
     return {
       tagName: resolved,
       warning: resolved
@@ -28,8 +28,12 @@ import type {
   IComponentModel,
   IClassSource,
   ITagNameResult,
+  ITagNamespaceSettings,
   TagNameSource,
   IEventDescriptor,
+  ISlotDescriptor,
+  ICssPartDescriptor,
+  ICssPropertyDescriptor,
 } from "@/src/core/types";
 import type { IASTVisitorResult } from "@/src/parsers/webcomponent/shared/ast-visitor";
 import type ts from "typescript";
@@ -52,6 +56,23 @@ export interface ITagNameResolverOptions {
   readonly componentFilePath: string;
   readonly className?: string;
   readonly astData?: IASTVisitorResult;
+  readonly namespace?: ITagNamespaceSettings;
+}
+
+/**
+ * Resolved namespace applied to derived tag names.
+ */
+export interface ITagNamespace {
+  readonly prefix: string;
+  readonly separator: string;
+}
+
+/**
+ * Result of resolving the tag-name namespace for a component.
+ */
+export interface ITagNamespaceResolution {
+  readonly namespace: ITagNamespace | null;
+  readonly warnings: readonly string[];
 }
 
 /**
@@ -92,3 +113,19 @@ export type EventExtractionResult = IExtractionResult<IEventDescriptor>;
 export interface IEventExtractionContext {
   readonly astData: IASTVisitorResult;
 }
+
+/**
+ * Result shape for slot extraction across a component or inheritance chain.
+ */
+export type SlotExtractionResult = IExtractionResult<ISlotDescriptor>;
+
+/**
+ * Result shape for CSS custom property extraction across a component or inheritance chain.
+ */
+export type CssPropertyExtractionResult =
+  IExtractionResult<ICssPropertyDescriptor>;
+
+/**
+ * Result shape for CSS part extraction across a component or inheritance chain.
+ */
+export type CssPartExtractionResult = IExtractionResult<ICssPartDescriptor>;
@@ -37,14 +37,31 @@ import {
 import type {
   IComponentModel,
   IComponentResult,
+  EmitTarget,
   IEmitResult,
+  IEmitterOptions,
   IFileChangeDetail,
   IGeneratedSectionPayload,
 } from "@/src/core/types";
-import { FileChangeReason, FileChangeStatus } from "@/src/core/types";
+import {
+  FileChangeReason,
+  FileChangeStatus,
+  ImportResolverKind,
+} from "@/src/core/types";
 import { nodeIoAdapter } from "@/src/io/adapter";
+import {
+  extractConnectFileState,
+  isFigmaUrlPlaceholder,
+  preserveConnectFileState,
+  setConnectFileUrl,
+} from "@/src/io/connect-file";
 import { writeFile } from "@/src/io/file-writer";
-import { applyGeneratedSectionUpdates } from "@/src/io/section-updater";
+import {
+  applyGeneratedSectionUpdates,
+  listChangedGeneratedSections,
+} from "@/src/io/section-updater";
+import { formatUnifiedDiff } from "@/src/io/unified-diff";
+import { lookupFigmaUrl } from "@/src/io/url-manifest";
 import type { IParseContext } from "@/src/parsers/types";
 import type {
   IIoAdapter,
@@ -52,7 +69,11 @@ import type {
   IFileWriteResult,
 } from "@/src/io/types";
 import { WriteStatus } from "@/src/io/types";
-import type { IPipelineContext } from "@/src/pipeline/types";
+import type {
+  IParsedComponent,
+  IPipelineContext,
+  PipelineContextSeed,
+} from "@/src/pipeline/types";
 
 import type ts from "typescript";
 
@@ -60,23 +81,30 @@ type WriteFileResult = IFileWriteResult;
 type GeneratedSections = readonly IGeneratedSectionPayload[];
 
 type FileStep = (state: IResult<IFileContext>) => IResult<IFileContext>;
+type BatchItemProcessor<TItem> = (
+  item: TItem,
+  claimedPaths: ReadonlySet<string>,
+) => IFileProcessOutcome;
 type ComponentUpdater = (
   component: Readonly<IComponentResult>,
 ) => IComponentResult;
 
 interface IFileContext {
   readonly file: IDiscoveredFile;
-  readonly pipeline: IPipelineContext;
+  readonly pipeline: PipelineContextSeed;
   readonly continueOnError: boolean;
   readonly sourceFile?: ts.SourceFile;
   readonly model?: IComponentModel;
   readonly component: IComponentResult;
   readonly shouldContinue: boolean;
+  /** Resolved output paths already written by earlier components in the batch. */
+  readonly claimedPaths: ReadonlySet<string>;
 }
 
 interface IFileProcessOutcome {
   readonly result: IResult<IComponentResult>;
   readonly shouldContinue: boolean;
+  readonly model?: IComponentModel;
 }
 
 interface IWriteOutcome {
@@ -88,7 +116,9 @@ interface IWriteOutcome {
 interface IWriteContext {
   readonly dryRun: boolean;
   readonly force: boolean;
+  readonly diff?: boolean;
   readonly io: IIoAdapter;
+  readonly figmaUrl?: string;
 }
 
 interface IWriteRequest {
@@ -96,6 +126,7 @@ interface IWriteRequest {
   readonly content: string;
   readonly exists: boolean;
   readonly reason: FileChangeReason;
+  readonly existingContent?: string;
 }
 
 interface IFileExistenceRecord {
@@ -107,6 +138,38 @@ interface IEmissionWritePlan {
   readonly fileRecord: IFileExistenceRecord;
 }
 
+/**
+ * Adds drifted sections and the requested unified diff to a file-change record.
+ * @param change - File-change record built from the write status.
+ * @param request - Write request holding the previous and next content.
+ * @param writeContext - Write-time configuration controlling diff output.
+ * @returns File-change record with content details for created or updated files.
+ */
+function addChangeDetails(
+  change: Readonly<IFileChangeDetail>,
+  request: Readonly<IWriteRequest>,
+  writeContext: Readonly<IWriteContext>,
+): IFileChangeDetail {
+  if (change.status === FileChangeStatus.Unchanged) {
+    return change;
+  }
+  const { existingContent, content } = request;
+  return {
+    ...change,
+    ...(existingContent === undefined
+      ? {}
+      : {
+          driftedSections: listChangedGeneratedSections(
+            existingContent,
+            content,
+          ),
+        }),
+    ...(writeContext.diff
+      ? { diff: formatUnifiedDiff(existingContent, content) }
+      : {}),
+  };
+}
+
 /**
  * Appends a file-change record to a component result.
  * @param result - Component result to update.
@@ -206,12 +269,16 @@ function applySectionUpdate(
     return createMissingSectionOutcome(filePath, { exists });
   }
 
+  const { figmaUrl } = writeContext;
   return writeFileWithChange(
     {
       filePath,
-      content: updatedContent,
+      content: figmaUrl
+        ? setConnectFileUrl(updatedContent, filePath, figmaUrl)
+        : updatedContent,
       exists,
       reason: FileChangeReason.SectionUpdated,
+      existingContent,
     },
     writeContext,
   );
@@ -288,11 +355,13 @@ function buildFileChange(
  * Creates the initial processing context for a discovered component file.
  * @param file - Discovered component file metadata.
  * @param pipeline - Shared pipeline context for parsing and emission.
+ * @param claimedPaths - Output paths already written by earlier components.
  * @returns Initial file-processing result state.
  */
 const createFileContext = (
   file: Readonly<IDiscoveredFile>,
-  pipeline: Readonly<IPipelineContext>,
+  pipeline: Readonly<PipelineContextSeed>,
+  claimedPaths: ReadonlySet<string> = new Set(),
 ): IResult<IFileContext> => {
   const continueOnError =
     pipeline.continueOnError ?? DEFAULT_CONNECT_OPTIONS.continueOnError;
@@ -307,9 +376,39 @@ const createFileContext = (
       componentName: file.componentName,
     },
     shouldContinue: true,
+    claimedPaths,
   });
 };
 
+/**
+ * Creates emitter options for a target, applying per-emitter settings.
+ * @param pipeline - Shared pipeline context.
+ * @param target - Emitter target receiving the options.
+ * @param figmaUrl - Mapped Figma URL for the component, if any.
+ * @returns Emitter options for the target.
+ */
+function createEmitterOptions(
+  pipeline: Readonly<PipelineContextSeed>,
+  target: EmitTarget,
+  figmaUrl: string | undefined,
+): IEmitterOptions {
+  const settings = pipeline.emitterSettings?.[target];
+  const importResolver =
+    settings?.importResolver ?? pipeline.importResolver;
+  return {
+    dryRun: pipeline.dryRun,
+    baseImportPath: settings?.baseImportPath ?? pipeline.baseImportPath,
+    figmaUrl,
+    output: pipeline.output,
+    fileName: settings?.fileName,
+    figmaProperties: pipeline.figmaProperties,
+    importResolver:
+      importResolver === ImportResolverKind.Package
+        ? pipeline.packageImportResolver
+        : undefined,
+  };
+}
+
 /**
  * Creates the write outcome used when section markers are missing.
  * @param filePath - Target file path for the attempted update.
@@ -342,19 +441,22 @@ function createMissingSectionOutcome(
  * @param file - Discovered file metadata.
  * @param pipeline - Shared pipeline context.
  * @param sourceFile - Resolved TypeScript source file.
+ * @param checker - Type checker for the loaded program.
  * @returns Parse context for the parser.
  */
 function createParseContext(
   file: Readonly<IDiscoveredFile>,
-  pipeline: Readonly<IPipelineContext>,
+  pipeline: Readonly<PipelineContextSeed>,
   sourceFile: Readonly<ts.SourceFile>,
+  checker: ts.TypeChecker,
 ): IParseContext {
   return {
     sourceFile,
     filePath: file.filePath,
     componentDir: file.dirPath,
-    checker: pipeline.checker,
+    checker,
     strict: pipeline.strict,
+    tagNamespace: pipeline.tagNamespace,
   };
 }
 
@@ -392,30 +494,129 @@ function createUpdatedFileChange(
  * @returns Updated file-processing state after emission and writing.
  */
 const emitComponentStep: FileStep = (state) => {
-  const { model, pipeline } = state.value;
+  const { continueOnError, model, pipeline } = state.value;
   if (!model) {
     return state;
   }
 
+  const figmaUrl = resolveComponentFigmaUrl(pipeline, model);
   const writeContext: IWriteContext = {
     dryRun: pipeline.dryRun,
     force: pipeline.force,
+    diff: pipeline.diff,
     io: pipeline.io ?? nodeIoAdapter,
+    figmaUrl,
   };
-  const emitterOptions = {
-    dryRun: pipeline.dryRun,
-    baseImportPath: pipeline.baseImportPath,
-  };
+  const emissions = pipeline.emitters.flatMap(
+    /**
+     * Emits connect output for a single per-component emitter.
+     *
+     * @param emitter - Emitter to run.
+     * @returns Emitter output for the component, or nothing for aggregate-only emitters.
+     */
+    (emitter) =>
+      emitter.emit
+        ? [
+            emitter.emit({
+              model,
+              options: createEmitterOptions(pipeline, emitter.target, figmaUrl),
+            }),
+          ]
+        : [],
+  );
+
+  const urlMapped =
+    figmaUrl !== undefined ||
+    emissions.every(hasExistingFigmaUrl.bind(undefined, writeContext.io));
+  let next = urlMapped ? state : setUnmappedUrl(state, model);
+  if (!urlMapped && pipeline.requireUrls) {
+    next = addError(
+      next,
+      `No Figma URL mapped for ${model.tagName} (${model.className}). Add it to the Figma URL manifest.`,
+    );
+    return continueOnError ? setCanContinue(next) : setCannotContinue(next);
+  }
 
-  let next = state;
-  for (const emitter of pipeline.emitters) {
-    const emission = emitter.emit({ model, options: emitterOptions });
+  const collision = emissions.find(
+    isClaimedEmission.bind(undefined, state.value.claimedPaths),
+  );
+  if (collision) {
+    next = addError(
+      next,
+      `${model.className} would overwrite ${collision.filePath}, which another ` +
+        "component already generated. Use the mirrored layout or rename one " +
+        "of the component files.",
+    );
+    return continueOnError ? setCanContinue(next) : setCannotContinue(next);
+  }
+
+  for (const emission of emissions) {
     next = applyEmissionOutcome(next, emission, writeContext);
   }
 
   return next;
 };
 
+/**
+ * Runs aggregate emitters over every parsed model and writes their combined files.
+ * @param models - Component models parsed during the batch.
+ * @param pipeline - Shared pipeline context for the batch.
+ * @returns One result per aggregate emitter output.
+ */
+function emitAggregateOutputs(
+  models: readonly IComponentModel[],
+  pipeline: Readonly<PipelineContextSeed>,
+): IResult<IComponentResult>[] {
+  const writeContext: IWriteContext = {
+    dryRun: pipeline.dryRun,
+    force: pipeline.force,
+    diff: pipeline.diff,
+    io: pipeline.io ?? nodeIoAdapter,
+  };
+  const outputDir = pipeline.outputDir ?? process.cwd();
+
+  return pipeline.emitters.flatMap(
+    /**
+     * Emits and writes the combined output of a single aggregate emitter.
+     *
+     * @param emitter - Emitter to run.
+     * @returns Single-item list with the output result, or an empty list for per-component emitters.
+     */
+    (emitter) => {
+      if (!emitter.emitAggregate) {
+        return [];
+      }
+      const emission = emitter.emitAggregate({
+        models,
+        options: createEmitterOptions(pipeline, emitter.target, undefined),
+        outputDir,
+      });
+      const state = applyEmissionOutcome(
+        createFileContext(createAggregateFile(emission.filePath), pipeline),
+        emission,
+        writeContext,
+      );
+      return [map(state, extractComponentResult)];
+    },
+  );
+}
+
+/**
+ * Builds report file metadata for an aggregate output file.
+ * @param filePath - Aggregate output file path.
+ * @returns File metadata named after the output file.
+ */
+function createAggregateFile(filePath: string): IDiscoveredFile {
+  const fileName = path.basename(filePath);
+  return {
+    filePath,
+    relativePath: fileName,
+    fileName,
+    componentName: fileName,
+    dirPath: path.dirname(filePath),
+  };
+}
+
 /**
  * Maps file-processing state to its component result.
  * @param context - File-processing context.
@@ -437,8 +638,63 @@ const finalizeFileOutcome = (
 ): IFileProcessOutcome => ({
   result: map(state, extractComponentResult),
   shouldContinue: state.value.shouldContinue,
+  model: state.value.model,
 });
 
+/**
+ * Returns true when an emission targets an existing file with a real Figma URL.
+ * @param io - IO adapter used for filesystem access.
+ * @param emission - Emitter output describing the target file.
+ * @returns True when the existing file carries a non-placeholder URL.
+ */
+function hasExistingFigmaUrl(
+  io: Readonly<IIoAdapter>,
+  emission: Readonly<IEmitResult>,
+): boolean {
+  if (!io.exists(emission.filePath)) {
+    return false;
+  }
+  const existingUrl = extractConnectFileState(
+    io.readFile(emission.filePath),
+    emission.filePath,
+  )?.url;
+  return existingUrl !== undefined && !isFigmaUrlPlaceholder(existingUrl);
+}
+
+/**
+ * Returns true when an emission targets a file another component already wrote.
+ * @param claimedPaths - Resolved output paths written earlier in the batch.
+ * @param emission - Emitter output describing the target file.
+ * @returns True when writing the emission would overwrite another component.
+ */
+function isClaimedEmission(
+  claimedPaths: ReadonlySet<string>,
+  emission: Readonly<IEmitResult>,
+): boolean {
+  return claimedPaths.has(path.resolve(emission.filePath));
+}
+
+/**
+ * Lists the resolved output paths a component result wrote or left unchanged.
+ * @param component - Component result to inspect.
+ * @returns Absolute output paths claimed by the component.
+ */
+function listClaimedPaths(component: Readonly<IComponentResult>): string[] {
+  return [
+    ...component.created,
+    ...component.updated,
+    ...component.unchanged,
+  ].map(
+    /**
+     * Resolves an output path for comparison.
+     *
+     * @param filePath - Output path recorded in the component result.
+     * @returns Absolute output path.
+     */
+    (filePath) => path.resolve(filePath),
+  );
+}
+
 /**
  * Parses a source file into a component model and merges diagnostics.
  * @param state - Current file-processing state.
@@ -446,7 +702,8 @@ const finalizeFileOutcome = (
  */
 const parseComponentStep: FileStep = (state) => {
   const { continueOnError, file, pipeline, sourceFile } = state.value;
-  if (!sourceFile) {
+  const { checker } = pipeline;
+  if (!sourceFile || !checker) {
     return state;
   }
 
@@ -456,7 +713,7 @@ const parseComponentStep: FileStep = (state) => {
   });
 
   const parseResult = pipeline.parser.parse(
-    createParseContext(file, pipeline, sourceFile),
+    createParseContext(file, pipeline, sourceFile, checker),
   );
   let next = addDiagnostics(state, parseResult);
 
@@ -479,38 +736,114 @@ const parseComponentStep: FileStep = (state) => {
 export function processComponentBatch(
   discovered: readonly IDiscoveredFile[],
   context: Readonly<IPipelineContext>,
+): IAggregateResult<IComponentResult> {
+  return processBatchItems(
+    discovered,
+    context,
+    processDiscoveredFile.bind(undefined, context),
+  );
+}
+
+/**
+ * Processes batch items in order, stopping when an item cannot continue.
+ *
+ * Each item receives the output paths written by earlier items, so two
+ * components that resolve to the same file fail instead of overwriting each
+ * other. When every item was processed, aggregate emitters then receive all
+ * parsed models and each contributes one combined file.
+ * @param items - Items to process.
+ * @param context - Shared pipeline context for the batch.
+ * @param processItem - Processes a single item.
+ * @returns Aggregate result for all processed items and aggregate outputs.
+ */
+function processBatchItems<TItem>(
+  items: readonly TItem[],
+  context: Readonly<PipelineContextSeed>,
+  processItem: BatchItemProcessor<TItem>,
 ): IAggregateResult<IComponentResult> {
   let results: IResult<IComponentResult>[] = [];
+  let models: IComponentModel[] = [];
+  let claimedPaths: ReadonlySet<string> = new Set();
   let shouldContinue = true;
 
-  for (const file of discovered) {
+  for (const item of items) {
     if (!shouldContinue) {
       break;
     }
 
-    const outcome = processDiscoveredFile(file, context);
+    const outcome = processItem(item, claimedPaths);
     results = [...results, outcome.result];
+    claimedPaths = new Set([
+      ...claimedPaths,
+      ...listClaimedPaths(outcome.result.value),
+    ]);
+    models = outcome.model ? [...models, outcome.model] : models;
     shouldContinue = outcome.shouldContinue;
   }
 
+  if (shouldContinue && models.length > 0) {
+    results = [...results, ...emitAggregateOutputs(models, context)];
+  }
+
   return aggregateResults(results);
 }
 
+/**
+ * Processes a batch of already-parsed component models through the emit step.
+ *
+ * Used by manifest parsers, which produce models without a TypeScript program.
+ * @param components - Parsed components with their report file entries.
+ * @param context - Shared pipeline context for the batch.
+ * @returns Aggregate result for all processed components.
+ */
+export function processModelBatch(
+  components: readonly IParsedComponent[],
+  context: Readonly<PipelineContextSeed>,
+): IAggregateResult<IComponentResult> {
+  return processBatchItems(
+    components,
+    context,
+    processParsedComponent.bind(undefined, context),
+  );
+}
+
 /**
  * Processes a single discovered component file through the batch pipeline.
- * @param file - Discovered component file metadata.
  * @param context - Shared pipeline context for the batch.
+ * @param file - Discovered component file metadata.
+ * @param claimedPaths - Output paths already written by earlier components.
  * @returns Result payload and continuation flag for batch iteration.
  */
 function processDiscoveredFile(
-  file: Readonly<IDiscoveredFile>,
   context: Readonly<IPipelineContext>,
+  file: Readonly<IDiscoveredFile>,
+  claimedPaths: ReadonlySet<string>,
 ): IFileProcessOutcome {
-  const initialState = createFileContext(file, context);
+  const initialState = createFileContext(file, context, claimedPaths);
   const finalState = runFilePipeline(initialState);
   return finalizeFileOutcome(finalState);
 }
 
+/**
+ * Emits connect files for a single parsed component.
+ * @param context - Shared pipeline context for the batch.
+ * @param component - Parsed component and its report file entry.
+ * @param claimedPaths - Output paths already written by earlier components.
+ * @returns Result payload and continuation flag for batch iteration.
+ */
+function processParsedComponent(
+  context: Readonly<PipelineContextSeed>,
+  component: Readonly<IParsedComponent>,
+  claimedPaths: ReadonlySet<string>,
+): IFileProcessOutcome {
+  const initialState = setParsedModel(
+    createFileContext(component.file, context, claimedPaths),
+    component.model,
+  );
+  const finalState = emitComponentStep(initialState);
+  return finalizeFileOutcome(finalState);
+}
+
 /**
  * Resolves the current discovered file to a TypeScript source file.
  * @param state - Current file-processing state.
@@ -520,7 +853,7 @@ function resolveSourceFileStep(
   state: Readonly<IResult<IFileContext>>,
 ): IResult<IFileContext> {
   const { file, pipeline, continueOnError } = state.value;
-  const sourceFile = pipeline.sourceFileMap.get(path.resolve(file.filePath));
+  const sourceFile = pipeline.sourceFileMap?.get(path.resolve(file.filePath));
 
   if (!sourceFile) {
     const next = addError(
@@ -574,6 +907,21 @@ function runFilePipeline(
   ]);
 }
 
+/**
+ * Resolves the mapped Figma URL for a component from the pipeline manifest.
+ * @param pipeline - Shared pipeline context.
+ * @param model - Parsed component model.
+ * @returns Mapped Figma URL, or undefined when no mapping exists.
+ */
+function resolveComponentFigmaUrl(
+  pipeline: Readonly<PipelineContextSeed>,
+  model: Readonly<IComponentModel>,
+): string | undefined {
+  return pipeline.urlManifest
+    ? lookupFigmaUrl(pipeline.urlManifest, model)
+    : undefined;
+}
+
 /**
  * Marks the current file-processing state as eligible to continue.
  * @param state - Current file-processing state.
@@ -602,6 +950,25 @@ function setCannotContinue(
   });
 }
 
+/**
+ * Records that a component was emitted without a mapped Figma URL.
+ * @param state - Current file-processing state.
+ * @param model - Parsed component model missing a URL mapping.
+ * @returns Updated state with the unmapped tag name recorded.
+ */
+function setUnmappedUrl(
+  state: Readonly<IResult<IFileContext>>,
+  model: Readonly<IComponentModel>,
+): IResult<IFileContext> {
+  return setFileValue(state, {
+    ...state.value,
+    component: {
+      ...state.value.component,
+      unmappedUrl: model.tagName,
+    },
+  });
+}
+
 /**
  * Replaces the file-processing context value while preserving diagnostics.
  * @param state - Current file-processing state.
@@ -776,6 +1143,8 @@ function shouldWriteDirectEmission(
 
 /**
  * Writes output content and builds a normalized file-change record.
+ *
+ * Updates of an existing file also record which generated sections drifted.
  * @param request File write payload and change reason metadata.
  * @param writeContext Write-time dependencies and dry-run mode.
  * @returns The write outcome and associated file-change entry.
@@ -787,19 +1156,23 @@ function writeFileWithChange(
   const { dryRun, io } = writeContext;
   const { filePath, content, exists, reason } = request;
   const result = writeFile(filePath, content, { dryRun, io });
+  const change = buildFileChange(
+    result.status,
+    { existed: exists },
+    reason,
+    filePath,
+  );
   return {
     result,
-    change: buildFileChange(
-      result.status,
-      { existed: exists },
-      reason,
-      filePath,
-    ),
+    change: addChangeDetails(change, request, writeContext),
   };
 }
 
 /**
  * Writes full emitter output directly to the destination path.
+ *
+ * When the destination exists, its hand-edited Figma URL and non-generated
+ * `figma.connect` options are carried into the new content.
  * @param emission - Emitter output describing the target file and content.
  * @param writeContext - Write-time configuration and IO dependencies.
  * @param fileRecord - Existing-file metadata for the destination path.
@@ -813,12 +1186,26 @@ function writeFullEmission(
   fileRecord: Readonly<IFileExistenceRecord>,
   reason: Readonly<FileChangeReason>,
 ): IWriteOutcome {
+  const { io, figmaUrl } = writeContext;
+  const existingContent = fileRecord.exists
+    ? io.readFile(emission.filePath)
+    : undefined;
+  const content =
+    existingContent === undefined
+      ? emission.content
+      : preserveConnectFileState(
+          existingContent,
+          emission.content,
+          emission.filePath,
+          figmaUrl,
+        );
   return writeFileWithChange(
     {
       filePath: emission.filePath,
-      content: emission.content,
+      content,
       exists: fileRecord.exists,
       reason,
+      existingContent,
     },
     writeContext,
   );
@@ -21,10 +21,20 @@
  *
  * @module pipeline
  */
-export { processComponentBatch } from "./batch";
-export { runConnectPipeline } from "./runner";
+export { processComponentBatch, processModelBatch } from "./batch";
+export { runConnectPipeline, runPipelineSession } from "./runner";
 export type {
+  IIncrementalRun,
+  IParsedComponent,
   IPipelineContext,
+  IPipelineSession,
+  ParsedComponent,
   PipelineContext,
   PipelineContextSeed,
 } from "./types";
+export type { IFileWatcher, IWatchOptions, IWatchSystem } from "./watch";
+export {
+  tsWatchSystem,
+  WATCH_DEBOUNCE_MS,
+  watchConnectPipeline,
+} from "./watch";
@@ -21,6 +21,8 @@
  *
  * @module pipeline/runner
  */
+import path from "node:path";
+
 import type { Logger } from "@/src/core/logger";
 import {
   createEmptyComponentResult,
@@ -38,28 +40,64 @@ import {
   type IResult,
 } from "@/src/core/result";
 import type {
+  IComponentModel,
   IComponentResult,
   IConnectOptions,
   IGenerationReport,
+  IOutputLocation,
 } from "@/src/core/types";
 import { createEmitters } from "@/src/emitters/factory";
 import type { IEmitter } from "@/src/emitters/types";
 import { nodeIoAdapter } from "@/src/io/adapter";
 import { discoverComponentFiles } from "@/src/io/file-discovery";
-import { loadSourceProgram } from "@/src/io/source-loader";
-import { createDefaultParser } from "@/src/parsers/factory";
-import type { IParser } from "@/src/parsers/types";
-import type { IDiscoveredFile, ISourceLoadResult } from "@/src/io/types";
-import type { PipelineContextSeed } from "@/src/pipeline/types";
-import { processComponentBatch } from "./batch";
+import {
+  createGenerationCacheEntry,
+  hashContent,
+  isGenerationCacheEntryFresh,
+  loadGenerationCache,
+  saveGenerationCache,
+} from "@/src/io/generation-cache";
+import { listGitChangedFiles } from "@/src/io/git-changes";
+import { createPackageImportResolver } from "@/src/io/package-imports";
+import { listLocalDependencies } from "@/src/io/source-dependencies";
+import { listTsconfigFiles, loadSourceProgram } from "@/src/io/source-loader";
+import { loadFigmaUrlManifest } from "@/src/io/url-manifest";
+import { createDefaultParser, createParser } from "@/src/parsers/factory";
+import { listLoadedPluginFiles } from "@/src/plugins/loader";
+import type {
+  IManifestParseOutput,
+  IParser,
+  ParserTarget,
+} from "@/src/parsers/types";
+import type {
+  IDiscoveredFile,
+  IGenerationCache,
+  IGenerationCacheEntry,
+  IProgramReuse,
+  ISourceLoadResult,
+} from "@/src/io/types";
+import type {
+  IIncrementalRun,
+  IParsedComponent,
+  IPipelineSession,
+  PipelineContextSeed,
+} from "@/src/pipeline/types";
+import type ts from "typescript";
+import { processComponentBatch, processModelBatch } from "./batch";
 
 interface IRunnerContext {
   readonly options: IConnectOptions;
   readonly logger: Readonly<Logger>;
   readonly timer: IReportTimer;
   readonly discovered: readonly IDiscoveredFile[];
+  readonly affected?: readonly IDiscoveredFile[];
+  readonly incremental?: IIncrementalRun;
+  readonly cache?: IGenerationCache;
+  readonly configHash?: string;
+  readonly cachedResults: readonly IComponentResult[];
   readonly emitters: readonly IEmitter[];
   readonly parser?: IParser;
+  readonly parsedComponents?: readonly IParsedComponent[];
   readonly pipelineSeed?: PipelineContextSeed;
   readonly sourceLoad?: ISourceLoadResult;
   readonly results: readonly IComponentResult[];
@@ -70,6 +108,9 @@ interface IRunnerContext {
 
 type RunnerStep = (state: IResult<IRunnerContext>) => IResult<IRunnerContext>;
 
+/** Tool version recorded in the cache when the caller does not provide one. */
+const UNKNOWN_TOOL_VERSION = "unknown";
+
 interface IReportBuildOptions {
   readonly includeComponents: boolean;
 }
@@ -164,28 +205,114 @@ function createPipelineSeed(
     logger,
     continueOnError: options.continueOnError,
     baseImportPath: options.baseImportPath,
+    emitterSettings: options.emitterSettings,
+    urlManifest: options.urlManifestPath
+      ? loadFigmaUrlManifest(options.urlManifestPath)
+      : undefined,
+    requireUrls: options.requireUrls ?? false,
     force: options.force ?? false,
+    diff: options.diff ?? false,
     io: nodeIoAdapter,
+    outputDir: resolveOutputDir(options.inputPath),
+    output: resolveOutputLocation(options),
+    importResolver: options.importResolver,
+    packageImportResolver: createPackageImportResolver(nodeIoAdapter),
+    tagNamespace: options.tagNamespace,
+    figmaProperties: options.figmaProperties,
+  };
+}
+
+/**
+ * Builds the component result for a component skipped by the cache.
+ * @param cache - Loaded regeneration cache.
+ * @param file - Discovered component file with a fresh cache entry.
+ * @returns Component result listing the cached connect files.
+ */
+function createCachedResult(
+  cache: Readonly<IGenerationCache>,
+  file: Readonly<IDiscoveredFile>,
+): IComponentResult {
+  return {
+    ...createEmptyComponentResult(),
+    componentName: file.componentName,
+    cached: Object.keys(cache.entries[resolveFilePath(file.filePath)].outputs),
   };
 }
 
+/**
+ * Builds the cache entry update for a processed component.
+ * @param state - Runner state holding the settings hash and source program.
+ * @param configHash - Hash of the current pipeline settings.
+ * @param result - Component result produced by the batch.
+ * @returns Component path and new entry (undefined to drop the entry), or an empty list.
+ */
+function createCacheUpdates(
+  state: Readonly<IRunnerContext>,
+  configHash: string,
+  result: Readonly<IComponentResult>,
+): [string, IGenerationCacheEntry | undefined][] {
+  if (!result.model || !state.pipelineSeed) {
+    return [];
+  }
+
+  const filePath = resolveFilePath(result.model.filePath);
+  const outputs = [...result.created, ...result.updated, ...result.unchanged];
+  if (result.errors.length > 0 || outputs.length === 0) {
+    return [[filePath, undefined]];
+  }
+
+  const dependencies = state.sourceLoad
+    ? listLocalDependencies(state.sourceLoad.program, filePath)
+    : [];
+  return [
+    [
+      filePath,
+      createGenerationCacheEntry(
+        configHash,
+        [filePath, ...dependencies],
+        outputs,
+        state.pipelineSeed.io,
+      ),
+    ],
+  ];
+}
+
+/**
+ * Creates the parser selected by connect options.
+ * @param options - Connect command options controlling pipeline behavior.
+ * @returns Parser for the configured target, or the default parser.
+ */
+function createParserForOptions(options: Readonly<IConnectOptions>): IParser {
+  return options.parserTarget
+    ? createParser(options.parserTarget as ParserTarget)
+    : createDefaultParser();
+}
+
 /**
  * Creates the initial runner context for a pipeline invocation.
  * @param options - Connect command options.
  * @param logger - Logger used by the pipeline.
+ * @param incremental - Previous session and changed files for incremental reruns.
  * @returns Initial runner context.
  */
 function createInitialRunnerContext(
   options: Readonly<IConnectOptions>,
   logger: Readonly<Logger>,
+  incremental?: Readonly<IIncrementalRun>,
 ): IRunnerContext {
   return {
     options,
     logger,
     timer: createReportTimer(),
     discovered: [],
+    affected: undefined,
+    incremental,
+    cache: undefined,
+    configHash: undefined,
+    cachedResults: [],
     emitters: [],
     parser: undefined,
+    parsedComponents: undefined,
     pipelineSeed: undefined,
     sourceLoad: undefined,
     results: [],
@@ -195,6 +322,25 @@ function createInitialRunnerContext(
   };
 }
 
+/**
+ * Builds the program-reuse input for an incremental rerun.
+ * @param incremental - Previous session and changed files, if any.
+ * @returns Program reuse options, or undefined when there is no previous program.
+ */
+function createProgramReuse(
+  incremental: Readonly<IIncrementalRun> | undefined,
+): IProgramReuse | undefined {
+  const program = incremental?.previous.sourceLoad?.program;
+  if (!incremental || !program) {
+    return undefined;
+  }
+
+  return {
+    program,
+    changedFiles: new Set(incremental.changedFiles.map(resolveFilePath)),
+  };
+}
+
 /**
  * Discovers component source files for the pipeline input path.
  * @param state - Current runner state.
@@ -202,17 +348,29 @@ function createInitialRunnerContext(
  */
 const discoverComponentsStep: RunnerStep = (state) => {
   const { logger, options } = state.value;
+  const parser = createParserForOptions(options);
+  if (parser.parseManifest) {
+    return discoverManifestComponents(
+      setRunnerValue(state, { ...state.value, parser }),
+      parser.parseManifest({ inputPath: options.inputPath, io: nodeIoAdapter }),
+    );
+  }
+
+  const inputPaths = options.inputPaths ?? [options.inputPath];
   logger.info("Discovering component files...", {
-    inputPath: options.inputPath,
+    inputPaths,
     recursive: options.recursive,
   });
-  const discovered = discoverComponentFiles(options.inputPath, {
+  const discovered = discoverComponentFiles(inputPaths, {
     recursive: options.recursive,
+    include: options.include,
+    exclude: options.exclude,
+    gitignore: options.gitignore,
   });
 
   if (discovered.length === 0) {
     const next = appendDiagnosticResult(state, {
-      warnings: [`No component files found at: ${options.inputPath}`],
+      warnings: [`No component files found at: ${inputPaths.join(", ")}`],
     });
     return setDiscoveredFiles(next, discovered, true);
   }
@@ -221,9 +379,52 @@ const discoverComponentsStep: RunnerStep = (state) => {
     count: discovered.length,
   });
 
-  return setDiscoveredFiles(state, discovered);
+  return setDiscoveredFiles(
+    setRunnerValue(state, { ...state.value, parser }),
+    discovered,
+  );
 };
 
+/**
+ * Stores components read from a manifest parser as the discovered set.
+ * @param state - Current runner state.
+ * @param manifest - Manifest parse result.
+ * @returns Updated runner state with parsed components or an early-stop warning.
+ */
+function discoverManifestComponents(
+  state: Readonly<IResult<IRunnerContext>>,
+  manifest: Readonly<IResult<IManifestParseOutput | undefined>>,
+): IResult<IRunnerContext> {
+  const { logger, options } = state.value;
+  const hasDiagnostics =
+    manifest.warnings.length > 0 || manifest.errors.length > 0;
+  const next = hasDiagnostics ? appendDiagnosticResult(state, manifest) : state;
+  const output = manifest.value;
+
+  if (!output || output.models.length === 0) {
+    const stopped = output
+      ? appendDiagnosticResult(next, {
+          warnings: [`No components found in manifest: ${output.manifestPath}`],
+        })
+      : next;
+    return setDiscoveredFiles(stopped, [], true);
+  }
+
+  const parsedComponents = output.models.map(
+    toParsedComponent.bind(undefined, path.dirname(output.manifestPath)),
+  );
+  logger.info("Components read from manifest.", {
+    manifestPath: output.manifestPath,
+    inputPath: options.inputPath,
+    count: parsedComponents.length,
+  });
+
+  return setDiscoveredFiles(
+    setRunnerValue(next, { ...next.value, parsedComponents }),
+    parsedComponents.map(getParsedComponentFile),
+  );
+}
+
 /**
  * Finalizes the pipeline report and stores it on runner state.
  * @param state - Current runner state.
@@ -241,6 +442,17 @@ const finalizeReportStep: RunnerStep = (state) => {
   return setRunnerReport(state, reportWithComponents);
 };
 
+/**
+ * Returns the report file entry of a parsed component.
+ * @param component - Parsed component.
+ * @returns Discovered file metadata for the component.
+ */
+function getParsedComponentFile(
+  component: Readonly<IParsedComponent>,
+): IDiscoveredFile {
+  return component.file;
+}
+
 /**
  * Extracts file paths from discovered file metadata.
  * @param file - Discovered file metadata.
@@ -250,6 +462,70 @@ function getDiscoveredFilePath(file: Readonly<IDiscoveredFile>): string {
   return file.filePath;
 }
 
+/**
+ * Returns true when an aggregate emitter is selected.
+ * @param emitters - Emitters selected for the run.
+ * @returns True when any emitter combines every component into one file.
+ */
+function hasAggregateEmitter(emitters: readonly IEmitter[]): boolean {
+  return emitters.some(
+    /**
+     * Checks whether an emitter implements `emitAggregate`.
+     *
+     * @param emitter - Emitter to inspect.
+     * @returns True for aggregate emitters.
+     */
+    (emitter) => emitter.emitAggregate !== undefined,
+  );
+}
+
+/**
+ * Hashes the pipeline settings that shape emitted output.
+ *
+ * Loaded plugin modules and the tsconfig chain are included with a hash of
+ * their file contents, so editing either regenerates every component.
+ * @param options - Connect command options.
+ * @returns Settings hash stored with each cache entry.
+ */
+function hashPipelineSettings(options: Readonly<IConnectOptions>): string {
+  return hashContent(
+    JSON.stringify({
+      emitTargets: options.emitTargets,
+      strict: options.strict,
+      baseImportPath: options.baseImportPath,
+      emitterSettings: options.emitterSettings,
+      parserTarget: options.parserTarget,
+      requireUrls: options.requireUrls,
+      tsconfig: listTsconfigFiles(options.tsconfigPath, options.inputPath).map(
+        hashSettingsFile,
+      ),
+      output: resolveOutputLocation(options),
+      importResolver: options.importResolver,
+      tagNamespace: options.tagNamespace,
+      figmaProperties: options.figmaProperties,
+      urlManifest: options.urlManifestPath
+        ? hashContent(nodeIoAdapter.readFile(options.urlManifestPath))
+        : undefined,
+      plugins: listLoadedPluginFiles().map(hashSettingsFile),
+    }),
+  );
+}
+
+/**
+ * Pairs a settings file, such as a plugin module or tsconfig, with a hash of
+ * its contents.
+ * @param filePath - Resolved settings file.
+ * @returns File path and content hash, or no hash when the file is gone.
+ */
+function hashSettingsFile(filePath: string): [string, string | undefined] {
+  return [
+    filePath,
+    nodeIoAdapter.exists(filePath)
+      ? hashContent(nodeIoAdapter.readFile(filePath))
+      : undefined,
+  ];
+}
+
 /**
  * Initializes parser, emitters, and shared pipeline context.
  * @param state - Current runner state.
@@ -262,12 +538,69 @@ const initializePipelineStep: RunnerStep = (state) => {
 
   const { options, logger } = state.value;
   const emitters = createEmitters({ targets: options.emitTargets });
-  const parser = createDefaultParser();
+  const parser = state.value.parser ?? createParserForOptions(options);
   const pipelineSeed = createPipelineSeed(options, logger, emitters, parser);
 
   return setInitializedPipeline(state, emitters, parser, pipelineSeed);
 };
 
+/**
+ * Returns true when a component must be rebuilt after the given file changes.
+ * @param programs - Previous and current programs used to read the import graph.
+ * @param changedFiles - Absolute paths of changed files.
+ * @param previousFiles - Absolute component paths discovered by the previous run.
+ * @param file - Discovered component file.
+ * @returns True for new or changed components and components importing a changed file.
+ */
+function isAffectedComponent(
+  programs: readonly ts.Program[],
+  changedFiles: ReadonlySet<string>,
+  previousFiles: ReadonlySet<string>,
+  file: Readonly<IDiscoveredFile>,
+): boolean {
+  return (
+    !previousFiles.has(resolveFilePath(file.filePath)) ||
+    isChangedComponent(programs, changedFiles, file)
+  );
+}
+
+/**
+ * Returns true when a component file or one of its local imports changed.
+ * @param programs - Programs used to read the import graph.
+ * @param changedFiles - Absolute paths of changed files.
+ * @param file - Discovered component file.
+ * @returns True when the component or a base class, mixin, or other imported file changed.
+ */
+function isChangedComponent(
+  programs: readonly ts.Program[],
+  changedFiles: ReadonlySet<string>,
+  file: Readonly<IDiscoveredFile>,
+): boolean {
+  const filePath = resolveFilePath(file.filePath);
+  if (changedFiles.has(filePath)) {
+    return true;
+  }
+
+  return programs.some(
+    /**
+     * Checks whether the component imports a changed file in a program.
+     *
+     * @param program - Program whose import graph is inspected.
+     * @returns True when a local dependency changed.
+     */
+    (program) =>
+      listLocalDependencies(program, filePath).some(
+        /**
+         * Checks whether a dependency changed.
+         *
+         * @param dependency - Absolute dependency path.
+         * @returns True when the dependency is in the changed set.
+         */
+        (dependency) => changedFiles.has(dependency),
+      ),
+  );
+}
+
 /**
  * Loads the TypeScript program and source files for discovered components.
  * @param state - Current runner state.
@@ -278,15 +611,24 @@ const loadSourcesStep: RunnerStep = (state) => {
     return state;
   }
 
-  const { discovered, logger, options, pipelineSeed } = state.value;
-  if (!pipelineSeed) {
+  const {
+    affected,
+    discovered,
+    logger,
+    options,
+    parsedComponents,
+    pipelineSeed,
+  } = state.value;
+  const files = affected ?? discovered;
+  if (!pipelineSeed || parsedComponents || files.length === 0) {
     return state;
   }
 
-  const sourceLoad = loadSourceProgram(discovered.map(getDiscoveredFilePath), {
+  const sourceLoad = loadSourceProgram(files.map(getDiscoveredFilePath), {
     context: pipelineSeed,
     tsconfigPath: options.tsconfigPath,
     searchPath: options.inputPath,
+    reuse: createProgramReuse(state.value.incremental),
   });
 
   logSourceLoadConfig(logger, sourceLoad);
@@ -318,6 +660,48 @@ function logSourceLoadConfig(
   });
 }
 
+/**
+ * Resolves a file path to an absolute path.
+ * @param filePath - Relative or absolute file path.
+ * @returns Absolute file path.
+ */
+function resolveFilePath(filePath: string): string {
+  return path.resolve(filePath);
+}
+
+/**
+ * Resolves the directory that receives aggregate emitter output.
+ * @param inputPath - Component file or directory passed to the pipeline.
+ * @returns The input directory, or the parent directory of an input file.
+ */
+function resolveOutputDir(inputPath: string): string {
+  const resolved = path.resolve(inputPath);
+  const isDirectory =
+    nodeIoAdapter.exists(resolved) &&
+    (nodeIoAdapter.stat?.(resolved).isDirectory() ?? false);
+  return isDirectory ? resolved : path.dirname(resolved);
+}
+
+/**
+ * Resolves where generated Code Connect files are written.
+ * @param options - Connect command options.
+ * @returns Output location, or undefined for the default colocated layout.
+ */
+function resolveOutputLocation(
+  options: Readonly<IConnectOptions>,
+): IOutputLocation | undefined {
+  if (!options.outputLayout) {
+    return undefined;
+  }
+  return {
+    layout: options.outputLayout,
+    outputDir: options.outputDir,
+    sourceRoots: options.outputRoot
+      ? [options.outputRoot]
+      : (options.inputPaths ?? [options.inputPath]).map(resolveOutputDir),
+  };
+}
+
 /**
  * Builds the final report from the last runner state.
  * @param state - Final runner state.
@@ -348,15 +732,35 @@ const runBatchStep: RunnerStep = (state) => {
     return state;
   }
 
-  const { discovered, sourceLoad } = state.value;
+  const {
+    affected,
+    cachedResults,
+    discovered,
+    parsedComponents,
+    pipelineSeed,
+    sourceLoad,
+  } = state.value;
+  if (parsedComponents && pipelineSeed) {
+    return setBatchResults(
+      state,
+      applyAggregateDiagnostics(
+        processModelBatch(parsedComponents, pipelineSeed),
+      ),
+    );
+  }
   if (!sourceLoad) {
-    return state;
+    return cachedResults.length > 0
+      ? setBatchResults(state, cachedResults)
+      : state;
   }
 
-  const aggregate = processComponentBatch(discovered, sourceLoad.context);
+  const aggregate = processComponentBatch(
+    affected ?? discovered,
+    sourceLoad.context,
+  );
   const componentResults: IComponentResult[] =
     applyAggregateDiagnostics(aggregate);
-  return setBatchResults(state, componentResults);
+  return setBatchResults(state, [...cachedResults, ...componentResults]);
 };
 
 /**
@@ -369,13 +773,234 @@ export function runConnectPipeline(
   options: Readonly<IConnectOptions>,
   logger: Readonly<Logger>,
 ): Promise<IGenerationReport> {
+  return Promise.resolve(runPipelineSession(options, logger).report);
+}
+
+/**
+ * Runs the connect pipeline and keeps its loaded source program for later reruns.
+ *
+ * With an incremental run, the previous program's unchanged source files are
+ * reused and only components that are new, changed, or import a changed file
+ * are processed. Aggregate emitters still receive every component.
+ * @param options - Connect command options controlling pipeline behavior.
+ * @param logger - Logger used for pipeline progress and diagnostics.
+ * @param incremental - Previous session and changed files, if any.
+ * @returns Session with the report, discovered files, and source program.
+ */
+export function runPipelineSession(
+  options: Readonly<IConnectOptions>,
+  logger: Readonly<Logger>,
+  incremental?: Readonly<IIncrementalRun>,
+): IPipelineSession {
   const finalState = runPipelineSteps(
-    createResult(createInitialRunnerContext(options, logger)),
+    createResult(createInitialRunnerContext(options, logger, incremental)),
   );
 
-  return Promise.resolve(resolveFinalReport(finalState));
+  return {
+    report: resolveFinalReport(finalState),
+    discovered: finalState.value.discovered,
+    sourceLoad: finalState.value.sourceLoad,
+  };
 }
 
+/**
+ * Writes cache entries for the components processed by this run.
+ *
+ * Dry runs leave the cache untouched. Components that failed drop their entry
+ * so they are regenerated next time.
+ * @param state - Current runner state.
+ * @returns Unchanged runner state.
+ */
+const saveCacheStep: RunnerStep = (state) => {
+  const { cache, componentResults, configHash, options, pipelineSeed } =
+    state.value;
+  if (
+    state.value.stopEarly ||
+    options.dryRun ||
+    !options.cachePath ||
+    !cache ||
+    configHash === undefined ||
+    !pipelineSeed
+  ) {
+    return state;
+  }
+
+  const updates = componentResults.flatMap(
+    createCacheUpdates.bind(undefined, state.value, configHash),
+  );
+  const entries = Object.fromEntries(
+    [...Object.entries(cache.entries), ...updates].filter(
+      /**
+       * Drops entries removed by this run.
+       *
+       * @param entry - Component path and cache entry.
+       * @returns True when the entry should be kept.
+       */
+      (entry): entry is [string, IGenerationCacheEntry] =>
+        entry[1] !== undefined,
+    ),
+  );
+  saveGenerationCache(
+    options.cachePath,
+    { ...cache, entries },
+    pipelineSeed.io,
+  );
+  return state;
+};
+
+/**
+ * Narrows an incremental run to the components affected by the changed files.
+ * @param state - Current runner state.
+ * @returns Updated runner state with the affected components to process.
+ */
+const selectAffectedComponentsStep: RunnerStep = (state) => {
+  const { discovered, emitters, incremental, logger, sourceLoad } = state.value;
+  const previousProgram = incremental?.previous.sourceLoad?.program;
+  if (
+    state.value.stopEarly ||
+    !incremental ||
+    !sourceLoad ||
+    !previousProgram ||
+    hasAggregateEmitter(emitters)
+  ) {
+    return state;
+  }
+
+  const affected = (state.value.affected ?? discovered).filter(
+    isAffectedComponent.bind(
+      undefined,
+      [previousProgram, sourceLoad.program],
+      new Set(incremental.changedFiles.map(resolveFilePath)),
+      new Set(
+        incremental.previous.discovered
+          .map(getDiscoveredFilePath)
+          .map(resolveFilePath),
+      ),
+    ),
+  );
+  logger.info("Affected components selected.", {
+    changed: incremental.changedFiles.length,
+    count: affected.length,
+  });
+
+  return setRunnerValue(state, { ...state.value, affected });
+};
+
+/**
+ * Skips components whose cache entry matches their current inputs and outputs.
+ *
+ * Forced runs and runs with an aggregate emitter process every component but
+ * still refresh the cache.
+ * @param state - Current runner state.
+ * @returns Updated runner state with the loaded cache and the components left to process.
+ */
+const selectCachedComponentsStep: RunnerStep = (state) => {
+  const {
+    discovered,
+    emitters,
+    logger,
+    options,
+    parsedComponents,
+    pipelineSeed,
+  } = state.value;
+  if (
+    state.value.stopEarly ||
+    !options.cachePath ||
+    parsedComponents ||
+    !pipelineSeed
+  ) {
+    return state;
+  }
+
+  const cache = loadGenerationCache(
+    options.cachePath,
+    options.toolVersion ?? UNKNOWN_TOOL_VERSION,
+    pipelineSeed.io,
+  );
+  const configHash = hashPipelineSettings(options);
+  const canSkip = !options.force && !hasAggregateEmitter(emitters);
+  const cachedFiles = canSkip
+    ? discovered.filter(
+        /**
+         * Checks whether a component has a fresh cache entry.
+         *
+         * @param file - Discovered component file.
+         * @returns True when the component can be skipped.
+         */
+        (file) => {
+          const entry = cache.entries[resolveFilePath(file.filePath)];
+          return (
+            entry !== undefined &&
+            isGenerationCacheEntryFresh(entry, configHash, pipelineSeed.io)
+          );
+        },
+      )
+    : [];
+  const affected = discovered.filter(
+    /**
+     * Keeps components without a fresh cache entry.
+     *
+     * @param file - Discovered component file.
+     * @returns True when the component must be processed.
+     */
+    (file) => !cachedFiles.includes(file),
+  );
+  if (cachedFiles.length > 0) {
+    logger.info("Skipping unchanged components from cache.", {
+      cachePath: options.cachePath,
+      count: cachedFiles.length,
+    });
+  }
+
+  return setRunnerValue(state, {
+    ...state.value,
+    cache,
+    configHash,
+    affected,
+    cachedResults: cachedFiles.map(createCachedResult.bind(undefined, cache)),
+  });
+};
+
+/**
+ * Narrows the run to components changed since the `changedSince` git ref.
+ *
+ * A component is kept when its file, or a local file it imports such as a base
+ * class or mixin, differs from the ref. Runs with an aggregate emitter keep
+ * every component.
+ * @param state - Current runner state.
+ * @returns Updated runner state with the changed components to process.
+ */
+const selectChangedComponentsStep: RunnerStep = (state) => {
+  const { discovered, emitters, logger, options, sourceLoad } = state.value;
+  if (
+    state.value.stopEarly ||
+    !options.changedSince ||
+    !sourceLoad ||
+    hasAggregateEmitter(emitters)
+  ) {
+    return state;
+  }
+
+  const changedFiles = listGitChangedFiles(
+    options.changedSince,
+    resolveOutputDir(options.inputPath),
+  );
+  const affected = (state.value.affected ?? discovered).filter(
+    isChangedComponent.bind(
+      undefined,
+      [sourceLoad.program],
+      new Set(changedFiles),
+    ),
+  );
+  logger.info("Changed components selected.", {
+    ref: options.changedSince,
+    changed: changedFiles.length,
+    count: affected.length,
+  });
+
+  return setRunnerValue(state, { ...state.value, affected });
+};
+
 /**
  * Executes a single runner step within `Array.prototype.reduce`.
  * @param state - Accumulated runner state.
@@ -414,9 +1039,13 @@ function runPipelineSteps(
   return runSteps(state, [
     discoverComponentsStep,
     initializePipelineStep,
+    selectCachedComponentsStep,
     loadSourcesStep,
+    selectChangedComponentsStep,
+    selectAffectedComponentsStep,
     warnOnMissingEmittersStep,
     runBatchStep,
+    saveCacheStep,
     finalizeReportStep,
   ]);
 }
@@ -527,6 +1156,28 @@ function setSourceLoad(
   });
 }
 
+/**
+ * Builds a parsed component entry for a model read from a manifest.
+ * @param manifestDir - Directory containing the manifest.
+ * @param model - Component model read from the manifest.
+ * @returns Parsed component with report file metadata.
+ */
+function toParsedComponent(
+  manifestDir: string,
+  model: Readonly<IComponentModel>,
+): IParsedComponent {
+  return {
+    model,
+    file: {
+      filePath: model.filePath,
+      relativePath: path.relative(manifestDir, model.filePath),
+      fileName: path.basename(model.filePath),
+      componentName: model.tagName,
+      dirPath: model.componentDir,
+    },
+  };
+}
+
 /**
  * Adds a warning when no emitters are selected.
  *
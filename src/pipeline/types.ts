@@ -23,8 +23,23 @@
  */
 
 import type { Logger } from "@/src/core/logger";
+import type {
+  EmitterSettingsMap,
+  IComponentModel,
+  IFigmaPropertySettings,
+  IGenerationReport,
+  IImportResolver,
+  ITagNamespaceSettings,
+  ImportResolverKind,
+  IOutputLocation,
+} from "@/src/core/types";
 import type { IEmitter } from "@/src/emitters/types";
-import type { IIoAdapter } from "@/src/io/types";
+import type {
+  IDiscoveredFile,
+  IFigmaUrlManifest,
+  IIoAdapter,
+  ISourceLoadResult,
+} from "@/src/io/types";
 import type { IParser } from "@/src/parsers/types";
 import type ts from "typescript";
 
@@ -37,9 +52,25 @@ export interface IPipelineContext {
   readonly strict: boolean;
   readonly continueOnError?: boolean;
   readonly force: boolean;
+  readonly diff?: boolean;
   readonly baseImportPath?: string;
+  readonly emitterSettings?: EmitterSettingsMap;
+  readonly urlManifest?: IFigmaUrlManifest;
+  readonly requireUrls?: boolean;
   readonly logger?: Readonly<Logger>;
   readonly io: IIoAdapter;
+  /** Directory that receives aggregate emitter output; defaults to the working directory. */
+  readonly outputDir?: string;
+  /** Location of generated Code Connect files; colocated when omitted. */
+  readonly output?: IOutputLocation;
+  /** Import resolver for emitters without their own `importResolver` setting. */
+  readonly importResolver?: ImportResolverKind;
+  /** Resolver handed to emitters that select the `package` import resolver. */
+  readonly packageImportResolver?: IImportResolver;
+  /** Namespace settings applied to derived tag names. */
+  readonly tagNamespace?: ITagNamespaceSettings;
+  /** Figma property names and enum keys used by the Code Connect emitters. */
+  readonly figmaProperties?: IFigmaPropertySettings;
 }
 
 type DerivedPipelineProps = {
@@ -54,3 +85,33 @@ export type PipelineContextSeed = Omit<
   Partial<DerivedPipelineProps>;
 
 export type PipelineContext = IPipelineContext;
+
+/**
+ * Component model read from a manifest, paired with the file entry used for reporting.
+ */
+export interface IParsedComponent {
+  readonly file: IDiscoveredFile;
+  readonly model: IComponentModel;
+}
+
+export type ParsedComponent = IParsedComponent;
+
+/**
+ * Pipeline run output kept alive between watch-mode rebuilds.
+ */
+export interface IPipelineSession {
+  readonly report: IGenerationReport;
+  /** Every discovered component file, including files the run did not rebuild. */
+  readonly discovered: readonly IDiscoveredFile[];
+  /** Loaded source program; absent for manifest parsers and early stops. */
+  readonly sourceLoad?: ISourceLoadResult;
+}
+
+/**
+ * Previous session and the files that changed since, used to rebuild only affected components.
+ */
+export interface IIncrementalRun {
+  readonly previous: IPipelineSession;
+  /** Absolute paths of changed, added, or removed source files. */
+  readonly changedFiles: readonly string[];
+}
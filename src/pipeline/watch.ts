@@ -0,0 +1,338 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Pipeline Watch Mode
+ *
+ * Keeps the connect pipeline's TypeScript program alive and regenerates
+ * Code Connect files when component files or their local imports change.
+ *
+ * @module pipeline/watch
+ */
+import assert from "node:assert/strict";
+import path from "node:path";
+
+import type { Logger } from "@/src/core/logger";
+import type { IConnectOptions, IGenerationReport } from "@/src/core/types";
+import { nodeIoAdapter } from "@/src/io/adapter";
+import { isComponentFile } from "@/src/io/file-discovery";
+import { listLocalDependencies } from "@/src/io/source-dependencies";
+import type { IPipelineSession } from "@/src/pipeline/types";
+import ts from "typescript";
+
+import { runPipelineSession } from "./runner";
+
+/** Delay that batches bursts of file events into one rebuild. */
+export const WATCH_DEBOUNCE_MS = 100;
+
+/**
+ * Handle that stops a watcher.
+ */
+export interface IFileWatcher {
+  close(): void;
+}
+
+/**
+ * File system watch primitives used by watch mode.
+ */
+export interface IWatchSystem {
+  /** Calls `onChange` when a file is modified, created, or deleted. */
+  watchFile(filePath: string, onChange: () => void): IFileWatcher;
+  /** Calls `onChange` with the path of each changed entry in a directory. */
+  watchDirectory(
+    dirPath: string,
+    onChange: (filePath: string) => void,
+    recursive: boolean,
+  ): IFileWatcher;
+}
+
+/**
+ * Options for {@link watchConnectPipeline}.
+ */
+export interface IWatchOptions {
+  /** Receives the report of the initial run and of every rebuild. */
+  readonly onReport: (report: IGenerationReport) => void;
+  /** Watch primitives; defaults to the TypeScript system watchers. */
+  readonly system?: IWatchSystem;
+  /** Debounce delay in milliseconds; defaults to {@link WATCH_DEBOUNCE_MS}. */
+  readonly debounceMs?: number;
+}
+
+/**
+ * Watch primitives backed by `ts.sys`, which falls back to polling where
+ * native file events are unavailable.
+ */
+export const tsWatchSystem: IWatchSystem = {
+  /**
+   * Watches a single file with `ts.sys.watchFile`.
+   *
+   * @param filePath - File to watch.
+   * @param onChange - Change callback.
+   * @returns File watcher handle.
+   */
+  watchFile: (filePath, onChange) => {
+    assert(
+      typeof ts.sys.watchFile === "function",
+      "File watching is not supported on this system.",
+    );
+    return ts.sys.watchFile(filePath, onChange);
+  },
+  /**
+   * Watches a directory with `ts.sys.watchDirectory`.
+   *
+   * @param dirPath - Directory to watch.
+   * @param onChange - Change callback receiving the changed path.
+   * @param recursive - Whether to watch subdirectories.
+   * @returns Directory watcher handle.
+   */
+  watchDirectory: (dirPath, onChange, recursive) => {
+    assert(
+      typeof ts.sys.watchDirectory === "function",
+      "Directory watching is not supported on this system.",
+    );
+    return ts.sys.watchDirectory(dirPath, onChange, recursive);
+  },
+};
+
+/**
+ * Watches component files and regenerates the affected Code Connect files on change.
+ */
+class ConnectPipelineWatcher implements IFileWatcher {
+  private session: IPipelineSession | undefined;
+  private directoryWatchers: IFileWatcher[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private readonly fileWatchers = new Map<string, IFileWatcher>();
+  private readonly pendingFiles = new Set<string>();
+
+  private readonly options: Readonly<IConnectOptions>;
+
+  /**
+   * Creates a watcher for a connect pipeline configuration.
+   *
+   * The regeneration cache is disabled so every component stays in the
+   * program and its imports can be watched.
+   * @param options - Connect options for every run.
+   * @param logger - Logger used for pipeline and watch output.
+   * @param watchOptions - Report callback and watch settings.
+   */
+  constructor(
+    options: Readonly<IConnectOptions>,
+    private readonly logger: Readonly<Logger>,
+    private readonly watchOptions: Readonly<IWatchOptions>,
+  ) {
+    this.options = { ...options, cachePath: undefined };
+  }
+
+  /**
+   * Watch primitives in use.
+   *
+   * @returns Configured or default watch system.
+   */
+  private get system(): IWatchSystem {
+    return this.watchOptions.system ?? tsWatchSystem;
+  }
+
+  /**
+   * Stops all watchers and cancels any pending rebuild.
+   *
+   * @returns Nothing.
+   */
+  close(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.pendingFiles.clear();
+    for (const watcher of this.directoryWatchers) {
+      watcher.close();
+    }
+    this.directoryWatchers = [];
+    for (const watcher of this.fileWatchers.values()) {
+      watcher.close();
+    }
+    this.fileWatchers.clear();
+  }
+
+  /**
+   * Runs the initial pipeline and starts watching.
+   *
+   * Directory inputs are also watched for new component files.
+   *
+   * @returns Nothing.
+   */
+  start(): void {
+    this.run([]);
+    for (const inputPath of this.options.inputPaths ?? [
+      this.options.inputPath,
+    ]) {
+      const dirPath = path.resolve(inputPath);
+      if (nodeIoAdapter.stat?.(dirPath).isDirectory()) {
+        this.directoryWatchers = [
+          ...this.directoryWatchers,
+          this.system.watchDirectory(
+            dirPath,
+            this.onDirectoryChange.bind(this),
+            this.options.recursive,
+          ),
+        ];
+      }
+    }
+  }
+
+  /**
+   * Lists the files to watch: discovered components and their local imports.
+   *
+   * @returns Absolute paths to watch.
+   */
+  private listWatchedFiles(): Set<string> {
+    const session = this.session;
+    const program = session?.sourceLoad?.program;
+    const componentFiles = (session?.discovered ?? []).map(
+      /**
+       * Resolves a discovered component path.
+       *
+       * @param file - Discovered component file.
+       * @returns Absolute component path.
+       */
+      (file) => path.resolve(file.filePath),
+    );
+    return new Set([
+      ...componentFiles,
+      ...(program
+        ? componentFiles.flatMap(listLocalDependencies.bind(undefined, program))
+        : []),
+    ]);
+  }
+
+  /**
+   * Schedules a rebuild when a component file appears or changes in the input directory.
+   *
+   * @param filePath - Changed directory entry.
+   * @returns Nothing.
+   */
+  private onDirectoryChange(filePath: string): void {
+    if (isComponentFile(filePath, this.options.include)) {
+      this.schedule(filePath);
+    }
+  }
+
+  /**
+   * Runs the pipeline, incrementally when a previous session exists, and reports the result.
+   *
+   * @param changedFiles - Files changed since the previous run.
+   * @returns Nothing.
+   */
+  private run(changedFiles: readonly string[]): void {
+    const previous = this.session;
+    this.session = runPipelineSession(
+      this.options,
+      this.logger,
+      previous ? { previous, changedFiles } : undefined,
+    );
+    this.syncFileWatchers();
+    this.watchOptions.onReport(this.session.report);
+  }
+
+  /**
+   * Rebuilds after the debounce delay with every file changed in the meantime.
+   *
+   * @returns Nothing.
+   */
+  private rebuild(): void {
+    const changedFiles = [...this.pendingFiles];
+    this.timer = undefined;
+    this.pendingFiles.clear();
+    this.logger.info("Change detected. Regenerating Code Connect files...", {
+      changed: changedFiles.map(
+        /**
+         * Formats a changed path relative to the working directory.
+         *
+         * @param filePath - Absolute changed path.
+         * @returns Relative path for display.
+         */
+        (filePath) => path.relative(process.cwd(), filePath),
+      ),
+    });
+    try {
+      this.run(changedFiles);
+    } catch (error) {
+      this.logger.error(
+        `Regeneration failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Queues a changed file and restarts the debounce timer.
+   *
+   * @param filePath - Changed file path.
+   * @returns Nothing.
+   */
+  private schedule(filePath: string): void {
+    this.pendingFiles.add(path.resolve(filePath));
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(
+      this.rebuild.bind(this),
+      this.watchOptions.debounceMs ?? WATCH_DEBOUNCE_MS,
+    );
+  }
+
+  /**
+   * Watches newly relevant files and stops watching files no longer imported.
+   *
+   * @returns Nothing.
+   */
+  private syncFileWatchers(): void {
+    const watched = this.listWatchedFiles();
+    for (const [filePath, watcher] of this.fileWatchers) {
+      if (!watched.has(filePath)) {
+        watcher.close();
+        this.fileWatchers.delete(filePath);
+      }
+    }
+    for (const filePath of watched) {
+      if (!this.fileWatchers.has(filePath)) {
+        this.fileWatchers.set(
+          filePath,
+          this.system.watchFile(filePath, this.schedule.bind(this, filePath)),
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Runs the connect pipeline, then regenerates Code Connect files whenever a
+ * component file or one of its local imports changes.
+ *
+ * Rebuilds reuse the previous TypeScript program, so only changed files are
+ * parsed again, and only affected components are processed.
+ * @param options - Connect options for every run.
+ * @param logger - Logger used for pipeline and watch output.
+ * @param watchOptions - Report callback and watch settings.
+ * @returns Handle that stops watching.
+ */
+export function watchConnectPipeline(
+  options: Readonly<IConnectOptions>,
+  logger: Readonly<Logger>,
+  watchOptions: Readonly<IWatchOptions>,
+): IFileWatcher {
+  const watcher = new ConnectPipelineWatcher(options, logger, watchOptions);
+  watcher.start();
+  return watcher;
+}
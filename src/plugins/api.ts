@@ -23,20 +23,33 @@
  * @module plugins/api
  */
 
+import { EmitterTarget } from "@/src/core/types";
+import type { IEmitterMetadata } from "@/src/emitters/factory";
+import type { IParserMetadata } from "@/src/parsers/factory";
+import { ParserTarget } from "@/src/parsers/types";
+
 import {
   getAllEmitterMetadata,
   getAllParserMetadata,
   registerEmitterPlugin as registerEmitterPluginImpl,
   registerParserPlugin as registerParserPluginImpl,
 } from "./internal-registry";
-import type { IPluginInfo, IPluginOptions } from "./types";
+import type { IPluginInfo, IPluginInfoEntry, IPluginOptions } from "./types";
+
+/** Source reported for targets that ship with the tool. */
+export const BUILT_IN_PLUGIN_SOURCE = "built-in";
+
+/** Source reported for targets registered by code calling the plugin API. */
+export const RUNTIME_PLUGIN_SOURCE = "runtime";
+
+const BUILT_IN_EMITTER_TARGETS: readonly string[] = Object.values(EmitterTarget);
+const BUILT_IN_PARSER_TARGETS: readonly string[] = Object.values(ParserTarget);
 
-type PluginInfoEntry = readonly [
-  string,
-  { readonly displayName: string; readonly description: string },
-];
+/** Plugin module files that registered each emitter target. */
+const emitterSources = new Map<string, string>();
 
-type PluginInfoTuple = [string, { displayName: string; description: string }];
+/** Plugin module files that registered each parser target. */
+const parserSources = new Map<string, string>();
 
 /**
  * Gets information about all registered plugins.
@@ -45,22 +58,83 @@ type PluginInfoTuple = [string, { displayName: string; description: string }];
  * @returns Plugin information.
  */
 export function getPluginInfo(): IPluginInfo {
-  const emitterMetadata = getAllEmitterMetadata();
-  const parserMetadata = getAllParserMetadata();
-  const emitters = new Map<
-    string,
-    { displayName: string; description: string }
-  >(Array.from(emitterMetadata, mapPluginMetadataEntry));
-  const parsers = new Map<string, { displayName: string; description: string }>(
-    Array.from(parserMetadata, mapPluginMetadataEntry),
-  );
-
   return {
-    emitters,
-    parsers,
+    emitters: new Map(
+      Array.from(getAllEmitterMetadata(), mapEmitterMetadataEntry),
+    ),
+    parsers: new Map(Array.from(getAllParserMetadata(), mapParserMetadataEntry)),
   };
 }
 
+/**
+ * Builds an emitter info tuple from registry metadata.
+ *
+ * @param entry - Emitter target and metadata.
+ * @returns Emitter target and plugin info.
+ */
+function mapEmitterMetadataEntry(
+  entry: readonly [string, IEmitterMetadata],
+): [string, IPluginInfoEntry] {
+  const [target, meta] = entry;
+  return [
+    target,
+    {
+      displayName: meta.displayName,
+      description: meta.description,
+      fileExtension: meta.fileExtension,
+      source: resolvePluginSource(
+        target,
+        BUILT_IN_EMITTER_TARGETS,
+        emitterSources,
+      ),
+    },
+  ];
+}
+
+/**
+ * Builds a parser info tuple from registry metadata.
+ *
+ * @param entry - Parser target and metadata.
+ * @returns Parser target and plugin info.
+ */
+function mapParserMetadataEntry(
+  entry: readonly [string, IParserMetadata],
+): [string, IPluginInfoEntry] {
+  const [target, meta] = entry;
+  return [
+    target,
+    {
+      displayName: meta.displayName,
+      description: meta.description,
+      ...(meta.filePatterns ? { filePatterns: meta.filePatterns } : {}),
+      source: resolvePluginSource(target, BUILT_IN_PARSER_TARGETS, parserSources),
+    },
+  ];
+}
+
+/**
+ * Registers plugins on behalf of a loaded plugin module.
+ *
+ * `getPluginInfo` reports `source` as where the registered targets came from.
+ *
+ * @param options - Plugin configuration.
+ * @param source - Plugin module file that registers the targets.
+ * @throws Error if any target is already registered.
+ */
+export function registerModulePlugin(
+  options: Readonly<IPluginOptions>,
+  source: string,
+): void {
+  for (const emitter of options.emitters ?? []) {
+    registerEmitterPluginImpl(emitter);
+    emitterSources.set(emitter.target, source);
+  }
+  for (const parser of options.parsers ?? []) {
+    registerParserPluginImpl(parser);
+    parserSources.set(parser.target, source);
+  }
+}
+
 /**
  * Registers one or more plugins in a single call.
  * Provides a convenient interface for plugin packages that bundle
@@ -84,18 +158,20 @@ export function registerPlugin(options: Readonly<IPluginOptions>): void {
 }
 
 /**
- * Builds a normalized plugin info tuple from plugin metadata.
+ * Resolves where a registered target came from.
  *
- * @param entry - Plugin metadata map entry.
- * @returns Key/value tuple for plugin info map construction.
+ * @param target - Registered target.
+ * @param builtInTargets - Targets that ship with the tool.
+ * @param sources - Plugin module files keyed by the targets they registered.
+ * @returns Plugin module file, `built-in`, or `runtime`.
  */
-function mapPluginMetadataEntry(entry: PluginInfoEntry): PluginInfoTuple {
-  const [target, meta] = entry;
-  return [
-    target,
-    {
-      displayName: meta.displayName,
-      description: meta.description,
-    },
-  ];
+function resolvePluginSource(
+  target: string,
+  builtInTargets: readonly string[],
+  sources: ReadonlyMap<string, string>,
+): string {
+  if (builtInTargets.includes(target)) {
+    return BUILT_IN_PLUGIN_SOURCE;
+  }
+  return sources.get(target) ?? RUNTIME_PLUGIN_SOURCE;
 }
@@ -24,5 +24,20 @@
 
 export * from "./emitters";
 export * from "./parsers";
-export { getPluginInfo, registerPlugin } from "./api";
-export type { IPluginInfo, IPluginOptions, PluginInfo } from "./types";
+export {
+  BUILT_IN_PLUGIN_SOURCE,
+  getPluginInfo,
+  registerPlugin,
+  RUNTIME_PLUGIN_SOURCE,
+} from "./api";
+export { listLoadedPluginFiles, loadPlugins } from "./loader";
+export type {
+  IPluginApi,
+  IPluginInfo,
+  IPluginInfoEntry,
+  IPluginOptions,
+  PluginApi,
+  PluginInfo,
+  PluginInfoEntry,
+  PluginModule,
+} from "./types";
@@ -0,0 +1,185 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Plugin Loader Module
+ *
+ * Loads plugin modules named on the command line or in the project config and
+ * hands each one the registration API.
+ *
+ * @module plugins/loader
+ */
+
+import { createRequire } from "node:module";
+import path from "node:path";
+
+import type { IPluginLoadError } from "@/src/core/types";
+
+import { registerModulePlugin } from "./api";
+import type { IPluginApi, PluginModule } from "./types";
+
+/** File name used to anchor module resolution in a directory; it need not exist. */
+const RESOLUTION_ANCHOR = "package.json";
+
+/** Resolved plugin files already loaded in this process. */
+const loadedPlugins = new Set<string>();
+
+/**
+ * Creates the registration API handed to a plugin module.
+ *
+ * Targets registered through it report the module file as their source.
+ *
+ * @param source - Resolved plugin module file.
+ * @returns Registration API bound to the module.
+ */
+function createPluginApi(source: string): IPluginApi {
+  return {
+    /**
+     * Registers emitters and parsers for the plugin module.
+     *
+     * @param options - Plugin configuration.
+     * @returns Nothing.
+     */
+    registerPlugin: (options) => registerModulePlugin(options, source),
+    /**
+     * Registers a single emitter for the plugin module.
+     *
+     * @param options - Emitter plugin options.
+     * @returns Nothing.
+     */
+    registerEmitterPlugin: (options) =>
+      registerModulePlugin({ emitters: [options] }, source),
+    /**
+     * Registers a single parser for the plugin module.
+     *
+     * @param options - Parser plugin options.
+     * @returns Nothing.
+     */
+    registerParserPlugin: (options) =>
+      registerModulePlugin({ parsers: [options] }, source),
+  };
+}
+
+/**
+ * Returns the first line of an error message.
+ *
+ * Drops the require stack Node appends to module resolution errors.
+ *
+ * @param message - Error message.
+ * @returns First message line.
+ */
+function getFirstLine(message: string): string {
+  return message.split("\n", 1)[0];
+}
+
+/**
+ * Returns the hook exported by a plugin module.
+ *
+ * @param exported - Plugin `module.exports` value.
+ * @returns The default-exported function, or undefined when there is none.
+ */
+function getPluginModule(exported: unknown): PluginModule | undefined {
+  const hook =
+    typeof exported === "object" && exported !== null && "default" in exported
+      ? exported.default
+      : exported;
+  return typeof hook === "function" ? (hook as PluginModule) : undefined;
+}
+
+/**
+ * Lists the resolved files of the plugin modules loaded in this process.
+ *
+ * @returns Plugin module files, in load order.
+ */
+export function listLoadedPluginFiles(): string[] {
+  return [...loadedPlugins];
+}
+
+/**
+ * Loads a single plugin module and calls its default export.
+ *
+ * @param plugin - Package name or path of the plugin module.
+ * @param baseDir - Directory the module is resolved from.
+ * @returns Load error, or undefined when the plugin loaded.
+ */
+function loadPlugin(
+  plugin: string,
+  baseDir: string,
+): IPluginLoadError | undefined {
+  const requireFromBase = createRequire(path.join(baseDir, RESOLUTION_ANCHOR));
+  let resolvedPath: string | undefined;
+  try {
+    resolvedPath = requireFromBase.resolve(plugin);
+    if (loadedPlugins.has(resolvedPath)) {
+      return undefined;
+    }
+    const hook = getPluginModule(requireFromBase(resolvedPath));
+    if (!hook) {
+      return {
+        plugin,
+        resolvedPath,
+        message: "Plugin module must default-export a function `(api) => void`.",
+      };
+    }
+    hook(createPluginApi(resolvedPath));
+    loadedPlugins.add(resolvedPath);
+    return undefined;
+  } catch (error) {
+    return {
+      plugin,
+      ...(resolvedPath ? { resolvedPath } : {}),
+      message: getFirstLine(
+        error instanceof Error ? error.message : String(error),
+      ),
+    };
+  }
+}
+
+/**
+ * Loads plugin modules and registers their emitters and parsers.
+ *
+ * Package names and relative paths resolve from `baseDir`. Each module's
+ * default export is called once per process with the registration API.
+ * Failures are collected instead of thrown so callers can report them.
+ *
+ * @param plugins - Package names or paths of plugin modules.
+ * @param baseDir - Directory plugins are resolved from.
+ * @returns Load errors, in the order the plugins were given.
+ */
+export function loadPlugins(
+  plugins: readonly string[],
+  baseDir: string,
+): IPluginLoadError[] {
+  return plugins
+    .map(
+      /**
+       * Loads one plugin module.
+       *
+       * @param plugin - Package name or path of the plugin module.
+       * @returns Load error, or undefined when the plugin loaded.
+       */
+      (plugin) => loadPlugin(plugin, baseDir),
+    )
+    .filter(
+      /**
+       * Keeps failed loads.
+       *
+       * @param error - Load error, when the plugin failed.
+       * @returns True for load errors.
+       */
+      (error): error is IPluginLoadError => error !== undefined,
+    );
+}
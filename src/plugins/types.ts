@@ -25,6 +25,27 @@
 import type { IEmitterPluginOptions } from "@/src/emitters/factory";
 import type { IParserPluginOptions } from "@/src/parsers/factory";
 
+/**
+ * Registration API passed to a plugin module's default export.
+ */
+export interface IPluginApi {
+  /** Registers emitters and parsers in one call. */
+  readonly registerPlugin: (options: Readonly<IPluginOptions>) => void;
+  /** Registers a single emitter. */
+  readonly registerEmitterPlugin: (
+    options: Readonly<IEmitterPluginOptions>,
+  ) => void;
+  /** Registers a single parser. */
+  readonly registerParserPlugin: (
+    options: Readonly<IParserPluginOptions>,
+  ) => void;
+}
+
+/**
+ * Default export of a plugin module loaded with `--plugin` or `plugins`.
+ */
+export type PluginModule = (api: Readonly<IPluginApi>) => void;
+
 export interface IPluginOptions {
   /** Emitter plugins to register. */
   readonly emitters?: readonly IEmitterPluginOptions[];
@@ -32,15 +53,27 @@ export interface IPluginOptions {
   readonly parsers?: readonly IParserPluginOptions[];
 }
 
+/**
+ * Registered parser or emitter as reported by `getPluginInfo`.
+ */
+export interface IPluginInfoEntry {
+  /** Display name for CLI/logging. */
+  readonly displayName: string;
+  /** Description of what the plugin handles or generates. */
+  readonly description: string;
+  /** File extension of emitted files; emitters only. */
+  readonly fileExtension?: string;
+  /** File patterns the parser reads; parsers only. */
+  readonly filePatterns?: readonly string[];
+  /** `built-in`, the plugin module file that registered it, or `runtime`. */
+  readonly source: string;
+}
+
 export interface IPluginInfo {
-  readonly emitters: ReadonlyMap<
-    string,
-    { displayName: string; description: string }
-  >;
-  readonly parsers: ReadonlyMap<
-    string,
-    { displayName: string; description: string }
-  >;
+  readonly emitters: ReadonlyMap<string, IPluginInfoEntry>;
+  readonly parsers: ReadonlyMap<string, IPluginInfoEntry>;
 }
 
+export type PluginApi = IPluginApi;
 export type PluginInfo = IPluginInfo;
+export type PluginInfoEntry = IPluginInfoEntry;
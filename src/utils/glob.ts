@@ -0,0 +1,177 @@
+/**
+ * Copyright (c) 2026 Robert Lindley
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Glob Utilities Module
+ *
+ * Converts POSIX-style glob patterns into regular expressions for file
+ * discovery and `.gitignore` matching.
+ *
+ * Supported syntax: `**` (any number of path segments), `*` (any characters
+ * within a segment), `?` (one character), `[abc]` / `[!abc]` character
+ * classes, and `{a,b}` alternatives.
+ *
+ * @module utils/glob
+ */
+
+/** Characters that must be escaped to match literally in a regular expression. */
+const REGEXP_SPECIAL_CHARACTERS = new Set([..."\\^$.|+()[]{}"]);
+
+/**
+ * Finds the index of the brace closing the alternative group at `start`.
+ *
+ * @param pattern - Glob pattern.
+ * @param start - Index of the opening brace.
+ * @returns Index of the matching closing brace, or -1 when unbalanced.
+ */
+function findClosingBrace(pattern: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < pattern.length; index += 1) {
+    if (pattern[index] === "{") {
+      depth += 1;
+    } else if (pattern[index] === "}") {
+      depth -= 1;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Converts a glob pattern to an anchored regular expression.
+ *
+ * Each single-segment `*` becomes a capture group, so callers can read the
+ * text a wildcard matched (for example, a component name).
+ *
+ * @param pattern - POSIX-style glob pattern.
+ * @param ignoreCase - Match case-insensitively.
+ * @returns Regular expression matching whole POSIX paths.
+ */
+export function globToRegExp(pattern: string, ignoreCase = false): RegExp {
+  return new RegExp(`^${translateGlob(pattern)}$`, ignoreCase ? "i" : "");
+}
+
+/**
+ * Returns true when a POSIX path matches any of the glob patterns.
+ *
+ * @param filePath - POSIX path to test.
+ * @param patterns - Glob patterns.
+ * @param ignoreCase - Match case-insensitively.
+ * @returns True when at least one pattern matches.
+ */
+export function matchesAnyGlob(
+  filePath: string,
+  patterns: readonly string[],
+  ignoreCase = false,
+): boolean {
+  return patterns.some(
+    /**
+     * Tests a single pattern.
+     *
+     * @param pattern - Glob pattern.
+     * @returns True when the pattern matches.
+     */
+    (pattern) => globToRegExp(pattern, ignoreCase).test(filePath),
+  );
+}
+
+/**
+ * Splits brace contents on top-level commas.
+ *
+ * @param body - Text between the braces.
+ * @returns Alternatives in source order.
+ */
+function splitAlternatives(body: string): string[] {
+  let alternatives: string[] = [];
+  let current = "";
+  let depth = 0;
+  for (const character of body) {
+    if (character === "," && depth === 0) {
+      alternatives = [...alternatives, current];
+      current = "";
+      continue;
+    }
+    if (character === "{") {
+      depth += 1;
+    } else if (character === "}") {
+      depth -= 1;
+    }
+    current += character;
+  }
+  return [...alternatives, current];
+}
+
+/**
+ * Translates a glob pattern into unanchored regular expression source.
+ *
+ * @param pattern - Glob pattern.
+ * @returns Regular expression source.
+ */
+function translateGlob(pattern: string): string {
+  let source = "";
+  let index = 0;
+  while (index < pattern.length) {
+    const [token, next] = translateGlobToken(pattern, index);
+    source += token;
+    index = next;
+  }
+  return source;
+}
+
+/**
+ * Translates the glob token starting at an index.
+ *
+ * @param pattern - Glob pattern.
+ * @param index - Index of the token's first character.
+ * @returns Regular expression source for the token and the index after it.
+ */
+function translateGlobToken(pattern: string, index: number): [string, number] {
+  const character = pattern[index];
+  if (pattern.startsWith("**/", index)) {
+    return ["(?:.*/)?", index + 3];
+  }
+  if (pattern.startsWith("**", index)) {
+    return [".*", index + 2];
+  }
+  if (character === "*") {
+    return ["([^/]*)", index + 1];
+  }
+  if (character === "?") {
+    return ["[^/]", index + 1];
+  }
+
+  const classEnd = character === "[" ? pattern.indexOf("]", index + 2) : -1;
+  if (classEnd > index) {
+    const body = pattern
+      .slice(index + 1, classEnd)
+      .replace(/^!/, "^")
+      .replace(/\\/g, "\\\\");
+    return [`[${body}]`, classEnd + 1];
+  }
+
+  const braceEnd = character === "{" ? findClosingBrace(pattern, index) : -1;
+  if (braceEnd > index) {
+    const alternatives = splitAlternatives(pattern.slice(index + 1, braceEnd));
+    return [`(?:${alternatives.map(translateGlob).join("|")})`, braceEnd + 1];
+  }
+
+  return [
+    REGEXP_SPECIAL_CHARACTERS.has(character) ? `\\${character}` : character,
+    index + 1,
+  ];
+}
@@ -23,11 +23,15 @@
  */
 
 export type { IMergeByKeyOptions, MergeByKeyOptions } from "./types";
+export { globToRegExp, matchesAnyGlob } from "./glob";
 export { mergeByKey } from "./merge-by-key";
+export { isPlainObject } from "./objects";
 export {
   buildCodeConnectFilePath,
   normalizedBasename,
   normalizePath,
+  resolveCodeConnectDir,
+  resolveDistImportPath,
   resolveDistReactImportPath,
   POSIX_PATH_SEPARATOR,
 } from "./paths";
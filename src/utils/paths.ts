@@ -25,8 +25,12 @@
 
 import path from "node:path";
 
+import { type IOutputLocation, OutputLayout } from "@/src/core/types";
+
 /** POSIX path separator character. */
 export const POSIX_PATH_SEPARATOR = "/";
+/** Directory name used for colocated Code Connect files. */
+const CODE_CONNECT_DIR_NAME = "code-connect";
 const WINDOWS_PATH_SEPARATOR_PATTERN = /\\/g;
 const WINDOWS_DRIVE_ABSOLUTE_PATH_PATTERN = /^[A-Za-z]:\//;
 
@@ -73,18 +77,94 @@ function normalizePortablePath(value: string): string {
 /**
  * Builds the output path for a generated Code Connect file.
  * @param componentDir - Source component directory that owns the generated file.
- * @param fileName - Generated file name to place inside `code-connect`.
+ * @param fileName - Generated file name.
+ * @param output - Output location; defaults to `<componentDir>/code-connect`.
  * @returns POSIX-style path to the generated Code Connect file.
  */
 export const buildCodeConnectFilePath = (
   componentDir: string,
   fileName: string,
+  output?: Readonly<IOutputLocation>,
 ): string =>
-  path.posix.join(
-    normalizePortablePath(componentDir),
-    "code-connect",
-    fileName,
-  );
+  path.posix.join(resolveCodeConnectDir(componentDir, output), fileName);
+
+/**
+ * Resolves the directory that receives a component's Code Connect files.
+ *
+ * Mirrored components are placed relative to the deepest source root that
+ * contains them; components outside every root are written flat into the
+ * output directory rather than escaping it.
+ *
+ * @param componentDir - Source component directory.
+ * @param output - Output location; defaults to `<componentDir>/code-connect`.
+ * @returns POSIX-style output directory.
+ */
+export function resolveCodeConnectDir(
+  componentDir: string,
+  output?: Readonly<IOutputLocation>,
+): string {
+  if (!output?.outputDir || output.layout === OutputLayout.Colocated) {
+    return path.posix.join(
+      normalizePortablePath(componentDir),
+      CODE_CONNECT_DIR_NAME,
+    );
+  }
+
+  const outputDir = normalizePath(output.outputDir);
+  if (output.layout === OutputLayout.Flat) {
+    return outputDir;
+  }
+
+  const relativeDirs = (output.sourceRoots ?? [])
+    .map(relativeToSourceRoot.bind(undefined, normalizePath(componentDir)))
+    .filter(isNestedRelativePath);
+  if (relativeDirs.length === 0) {
+    return outputDir;
+  }
+  const [closestDir] = relativeDirs.sort(compareByLength);
+  return path.posix.join(outputDir, closestDir);
+}
+
+/**
+ * Builds a component directory relative to a mirrored source root.
+ *
+ * @param componentDir - Normalized source component directory.
+ * @param sourceRoot - Source root mirrored below the output directory.
+ * @returns POSIX-style relative directory.
+ */
+function relativeToSourceRoot(componentDir: string, sourceRoot: string): string {
+  return path.posix.relative(normalizePath(sourceRoot), componentDir);
+}
+
+/**
+ * Returns true when a relative path stays inside its base directory.
+ *
+ * @param relativePath - POSIX-style relative path.
+ * @returns True when the path does not climb out of the base.
+ */
+function isNestedRelativePath(relativePath: string): boolean {
+  return !relativePath.startsWith("..") && !path.posix.isAbsolute(relativePath);
+}
+
+/**
+ * Orders strings from shortest to longest.
+ *
+ * @param left - First string.
+ * @param right - Second string.
+ * @returns Negative when `left` is shorter.
+ */
+function compareByLength(left: string, right: string): number {
+  return left.length - right.length;
+}
+
+/**
+ * Builds a POSIX-style path relative to a base directory.
+ * @param fromDir - Base directory.
+ * @param toPath - Target path.
+ * @returns Relative path with forward slashes.
+ */
+export const relativePosixPath = (fromDir: string, toPath: string): string =>
+  toPosixSeparators(path.relative(fromDir, toPath));
 
 /**
  * Resolves the basename from a normalized path string.
@@ -116,22 +196,28 @@ export function normalizePath(value: string): string {
 }
 
 /**
- * Resolves the relative dist/react import path from the code-connect directory.
+ * Resolves the relative `dist/<entry>` import path from the code-connect directory.
  *
  * Walks up from the component directory to find the package root (the directory
- * containing `src/`), then returns a relative path from `<componentDir>/code-connect`
- * to `<packageRoot>/dist/react`.
+ * containing `src/`), then returns a relative path from the directory holding
+ * the generated file to `<packageRoot>/dist/<entry>`.
  *
  * @param componentDir - The component's directory path.
+ * @param entryName - Framework entry folder below `dist`, such as `react` or `vue`.
+ * @param codeConnectDir - Directory of the generated file; defaults to `<componentDir>/code-connect`.
  * @returns A relative import path string (always prefixed with `./` or `../`).
  *
  * @example
  * ```typescript
- * resolveDistReactImportPath('/packages/components/src/components/button');
- * // '../../../../dist/react'
+ * resolveDistImportPath('/packages/components/src/components/button', 'vue');
+ * // '../../../../dist/vue'
  * ```
  */
-export const resolveDistReactImportPath = (componentDir: string): string => {
+export const resolveDistImportPath = (
+  componentDir: string,
+  entryName: string,
+  codeConnectDir?: string,
+): string => {
   const normalizedDir = normalizePath(componentDir);
   const srcMarker = "/src/";
   const markerIndex = normalizedDir.lastIndexOf(srcMarker);
@@ -140,11 +226,31 @@ export const resolveDistReactImportPath = (componentDir: string): string => {
     rootCandidate = normalizedDir.slice(0, markerIndex);
   }
   const packageRoot = rootCandidate || path.posix.parse(normalizedDir).root;
-  const distReactPath = path.posix.join(packageRoot, "dist", "react");
-  const codeConnectDir = path.posix.join(normalizedDir, "code-connect");
-  let relativePath = path.posix.relative(codeConnectDir, distReactPath);
+  const distEntryPath = path.posix.join(packageRoot, "dist", entryName);
+  const fromDir = codeConnectDir
+    ? normalizePath(codeConnectDir)
+    : path.posix.join(normalizedDir, CODE_CONNECT_DIR_NAME);
+  let relativePath = path.posix.relative(fromDir, distEntryPath);
   if (!relativePath.startsWith(".")) {
     relativePath = `./${relativePath}`;
   }
   return relativePath;
 };
+
+/**
+ * Resolves the relative dist/react import path from the code-connect directory.
+ *
+ * @param componentDir - The component's directory path.
+ * @param codeConnectDir - Directory of the generated file; defaults to `<componentDir>/code-connect`.
+ * @returns A relative import path string (always prefixed with `./` or `../`).
+ *
+ * @example
+ * ```typescript
+ * resolveDistReactImportPath('/packages/components/src/components/button');
+ * // '../../../../dist/react'
+ * ```
+ */
+export const resolveDistReactImportPath = (
+  componentDir: string,
+  codeConnectDir?: string,
+): string => resolveDistImportPath(componentDir, "react", codeConnectDir);
@@ -24,6 +24,8 @@
 
 import ts from "typescript";
 
+import type { ISourceLocation } from "@/src/core/types";
+
 /**
  * Retrieves the options object for a decorator call expression.
  *
@@ -94,6 +96,24 @@ export const getJSDocTagText = (tag: Readonly<ts.JSDocTag>): string => {
   return tag.comment.map(getDisplayPartText).join("").trim();
 };
 
+/**
+ * Returns the 1-based start location of a node in its source file.
+ *
+ * @param node - Node to locate.
+ * @returns File path, line, and column of the node start.
+ */
+export const getNodeLocation = (node: Readonly<ts.Node>): ISourceLocation => {
+  const sourceFile = node.getSourceFile();
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile),
+  );
+  return {
+    filePath: sourceFile.fileName,
+    line: line + 1,
+    column: character + 1,
+  };
+};
+
 /**
  * Extracts a literal value from an expression.
  *